@@ -0,0 +1,7 @@
+-- Migration: content hashes on RAG chunks for incremental reindexing
+-- Run in Supabase SQL editor.
+
+-- sha256 of `content`. The indexer only embeds chunks whose hash isn't stored yet; rows from
+-- before this migration have no hash and are re-embedded once on the next index run.
+alter table if exists public.chunks
+  add column if not exists content_hash text;
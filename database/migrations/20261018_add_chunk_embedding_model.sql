@@ -0,0 +1,61 @@
+-- Migration: record which embedding model produced each RAG chunk
+-- Run in Supabase SQL editor.
+
+-- Vectors from different models (or dimensions) live in different spaces. The app only searches
+-- chunks embedded by its current model (EMBEDDING_PROVIDER / AI_EMBEDDING_MODEL), and the indexer
+-- re-embeds chunks from any other model on the next rebuild.
+alter table if exists public.chunks
+  add column if not exists embedding_model text,
+  add column if not exists embedding_dims int;
+
+-- Existing embeddings came from the default OpenAI model. If AI_EMBEDDING_MODEL was set to something
+-- else, use that name here instead.
+update public.chunks
+set embedding_model = 'text-embedding-3-small',
+    embedding_dims = 1536
+where embedding is not null
+  and embedding_model is null;
+
+create index if not exists idx_chunks_embedding_model on public.chunks(owner_id, embedding_model);
+
+drop function if exists public.match_chunks(vector, double precision, integer, uuid, text[]);
+
+create or replace function public.match_chunks(
+  query_embedding vector(1536),
+  match_threshold float default 0.3,
+  match_count int default 5,
+  p_owner_id uuid default null,
+  p_source_types text[] default null,
+  p_embedding_model text default null
+)
+returns table (
+  id uuid,
+  owner_id uuid,
+  source_type text,
+  source_id text,
+  content text,
+  metadata jsonb,
+  similarity float
+)
+language plpgsql
+as $$
+begin
+  return query
+  select
+    c.id,
+    c.owner_id,
+    c.source_type,
+    c.source_id,
+    c.content,
+    c.metadata,
+    1 - (c.embedding <=> query_embedding) as similarity
+  from public.chunks c
+  where (p_owner_id is null or c.owner_id = p_owner_id)
+    and (p_source_types is null or c.source_type = any(p_source_types))
+    and (p_embedding_model is null or c.embedding_model = p_embedding_model)
+    and c.embedding is not null
+    and 1 - (c.embedding <=> query_embedding) > match_threshold
+  order by c.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
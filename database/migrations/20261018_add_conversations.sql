@@ -0,0 +1,30 @@
+-- Migration: persist chat conversations + messages (server-side history and share links)
+-- Run in Supabase SQL editor.
+
+create table if not exists public.conversations (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null,
+  visitor_id text not null,
+  title text,
+  mode text default 'auto',
+  share_token text unique,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists public.messages (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null,
+  conversation_id uuid not null references public.conversations(id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  sources jsonb default '[]'::jsonb,
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_conversations_owner_visitor on public.conversations(owner_id, visitor_id, updated_at desc);
+create index if not exists idx_messages_conversation_created on public.messages(conversation_id, created_at);
+
+-- Server-side only (service role); no public policies.
+alter table public.conversations enable row level security;
+alter table public.messages enable row level security;
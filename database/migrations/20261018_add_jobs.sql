@@ -0,0 +1,131 @@
+-- Migration: background job queue (knowledge uploads, resume indexing, index rebuilds)
+-- Run in Supabase SQL editor.
+
+create table if not exists public.jobs (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null,
+  type text not null check (type in ('knowledge_upload', 'resume_index', 'rebuild')),
+  status text not null default 'queued' check (status in ('queued', 'running', 'succeeded', 'failed')),
+  payload jsonb not null default '{}'::jsonb,
+  result jsonb,
+  error text,
+  progress integer not null default 0 check (progress between 0 and 100),
+  progress_message text,
+  attempts integer not null default 0,
+  max_attempts integer not null default 3,
+  run_after timestamptz not null default now(),
+  locked_at timestamptz,
+  locked_by text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  finished_at timestamptz,
+  dedupe boolean not null default false
+);
+
+-- For databases that ran an earlier version of this migration.
+alter table public.jobs add column if not exists dedupe boolean not null default false;
+
+create index if not exists idx_jobs_claim on public.jobs(status, run_after);
+create index if not exists idx_jobs_owner_created on public.jobs(owner_id, created_at desc);
+-- At most one deduped job per owner and type waits in the queue.
+create unique index if not exists idx_jobs_owner_type_queued on public.jobs(owner_id, type)
+  where status = 'queued' and dedupe;
+
+alter table public.jobs enable row level security;
+
+-- Claim the next runnable job: a queued job whose backoff has elapsed, or a running job whose
+-- worker stopped heartbeating (e.g. the function hit its time limit). Claiming counts as an attempt;
+-- a stale job with no attempts left is marked failed instead.
+create or replace function public.claim_job(
+  p_worker text,
+  p_lock_timeout_seconds integer default 600
+)
+returns setof public.jobs
+language plpgsql
+as $$
+declare
+  v_id uuid;
+begin
+  -- A stale job that already used its last attempt is not retried again.
+  update public.jobs j
+     set status = 'failed',
+         error = coalesce(j.error, 'Worker stopped before the job finished (time limit?)'),
+         locked_at = null,
+         locked_by = null,
+         updated_at = now(),
+         finished_at = now()
+   where j.status = 'running'
+     and j.locked_at < now() - make_interval(secs => p_lock_timeout_seconds)
+     and j.attempts >= j.max_attempts;
+
+  select j.id
+    into v_id
+  from public.jobs j
+  where (j.status = 'queued' and j.run_after <= now())
+     or (j.status = 'running'
+         and j.locked_at < now() - make_interval(secs => p_lock_timeout_seconds)
+         and j.attempts < j.max_attempts)
+  order by j.run_after asc
+  limit 1
+  for update skip locked;
+
+  if v_id is null then
+    return;
+  end if;
+
+  return query
+  update public.jobs j
+     set status = 'running',
+         attempts = j.attempts + 1,
+         locked_at = now(),
+         locked_by = p_worker,
+         updated_at = now()
+   where j.id = v_id
+  returning j.*;
+end;
+$$;
+
+-- Enqueue unless a deduped job of the same type is already queued for the owner, in which case
+-- that job is returned. Only fresh enqueues carry `dedupe`; a job going back to the queue (retry,
+-- pause, backoff) drops it, so it never collides with a newer one.
+create or replace function public.enqueue_deduped_job(
+  p_owner_id uuid,
+  p_type text,
+  p_payload jsonb default '{}'::jsonb,
+  p_max_attempts integer default 3
+)
+returns setof public.jobs
+language plpgsql
+as $$
+declare
+  v_job public.jobs;
+begin
+  -- The queued job can be claimed between the insert and the select; then try again.
+  for i in 1..3 loop
+    insert into public.jobs (owner_id, type, payload, max_attempts, dedupe)
+    values (p_owner_id, p_type, coalesce(p_payload, '{}'::jsonb), p_max_attempts, true)
+    on conflict (owner_id, type) where status = 'queued' and dedupe do nothing
+    returning * into v_job;
+
+    if v_job.id is null then
+      select * into v_job
+        from public.jobs j
+       where j.owner_id = p_owner_id
+         and j.type = p_type
+         and j.status = 'queued'
+         and j.dedupe
+       limit 1;
+    end if;
+
+    if v_job.id is not null then
+      return next v_job;
+      return;
+    end if;
+  end loop;
+
+  raise exception 'Could not enqueue % job', p_type;
+end;
+$$;
+
+-- Optional housekeeping: finished jobs are only kept for the admin Jobs page.
+-- delete from public.jobs where finished_at < now() - interval '30 days';
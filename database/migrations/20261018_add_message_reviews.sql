@@ -0,0 +1,11 @@
+-- Migration: owner review of chat answers (rating + corrected answer)
+-- Run in Supabase SQL editor (after 20261018_add_conversations.sql).
+
+alter table if exists public.messages
+  add column if not exists rating text check (rating in ('good', 'bad')),
+  add column if not exists correction text,
+  add column if not exists correction_source_type text,
+  add column if not exists correction_source_id text,
+  add column if not exists reviewed_at timestamptz;
+
+create index if not exists idx_messages_owner_rating on public.messages(owner_id, rating);
@@ -0,0 +1,58 @@
+-- Migration: shared token buckets for API rate limiting (used when RATE_LIMIT_STORE=postgres)
+-- Run in Supabase SQL editor.
+
+create table if not exists public.rate_limit_buckets (
+  key text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_rate_limit_buckets_updated on public.rate_limit_buckets(updated_at);
+
+alter table public.rate_limit_buckets enable row level security;
+
+-- Atomically refill and take one token from a bucket.
+create or replace function public.take_rate_limit_token(
+  p_key text,
+  p_capacity double precision,
+  p_refill_per_second double precision
+)
+returns table (
+  allowed boolean,
+  remaining double precision,
+  retry_after_seconds double precision
+)
+language plpgsql
+as $$
+declare
+  v_now timestamptz := clock_timestamp();
+  v_tokens double precision;
+  v_updated timestamptz;
+begin
+  insert into public.rate_limit_buckets (key, tokens, updated_at)
+  values (p_key, p_capacity, v_now)
+  on conflict on constraint rate_limit_buckets_pkey do nothing;
+
+  select b.tokens, b.updated_at
+    into v_tokens, v_updated
+  from public.rate_limit_buckets b
+  where b.key = p_key
+  for update;
+
+  v_tokens := least(p_capacity, v_tokens + extract(epoch from (v_now - v_updated)) * p_refill_per_second);
+
+  if v_tokens >= 1 then
+    update public.rate_limit_buckets b set tokens = v_tokens - 1, updated_at = v_now where b.key = p_key;
+    return query select true, v_tokens - 1, 0::double precision;
+  else
+    update public.rate_limit_buckets b set tokens = v_tokens, updated_at = v_now where b.key = p_key;
+    return query select
+      false,
+      v_tokens,
+      case when p_refill_per_second > 0 then (1 - v_tokens) / p_refill_per_second else 3600 end;
+  end if;
+end;
+$$;
+
+-- Optional housekeeping: idle buckets are full again, so old rows can be deleted at any time.
+-- delete from public.rate_limit_buckets where updated_at < now() - interval '1 day';
@@ -0,0 +1,119 @@
+-- Migration: semantic cache of chat answers (used when RESPONSE_CACHE=postgres)
+-- Run in Supabase SQL editor.
+
+create table if not exists public.response_cache (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null,
+  mode text not null default 'auto',
+  query text not null,
+  embedding vector(1536) not null,
+  answer text not null,
+  sources jsonb not null default '[]'::jsonb,
+  content_version bigint not null default 0,
+  created_at timestamptz not null default now()
+);
+
+-- For databases that ran an earlier version of this migration.
+alter table public.response_cache add column if not exists content_version bigint not null default 0;
+
+create index if not exists idx_response_cache_owner_mode on public.response_cache(owner_id, mode, created_at desc);
+
+alter table public.response_cache enable row level security;
+
+-- Each owner's content version. Every index write bumps it; a cached answer is only served while
+-- the version it was answered under is still current.
+create table if not exists public.response_cache_versions (
+  owner_id uuid primary key,
+  version bigint not null default 0,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.response_cache_versions enable row level security;
+
+-- Invalidation: bump the version and drop the owner's older rows.
+create or replace function public.bump_response_cache_version(p_owner_id uuid)
+returns bigint
+language plpgsql
+as $$
+declare
+  v_version bigint;
+begin
+  insert into public.response_cache_versions as v (owner_id, version)
+  values (p_owner_id, 1)
+  on conflict (owner_id) do update
+    set version = v.version + 1,
+        updated_at = now()
+  returning v.version into v_version;
+
+  delete from public.response_cache
+   where owner_id = p_owner_id
+     and content_version < v_version;
+
+  return v_version;
+end;
+$$;
+
+-- Saves an answer only if the content version read before answering is still current. A save that
+-- races an invalidation can still land with the old version, but lookups never match it.
+create or replace function public.save_response_cache(
+  p_owner_id uuid,
+  p_mode text,
+  p_query text,
+  p_embedding vector(1536),
+  p_answer text,
+  p_sources jsonb,
+  p_content_version bigint
+)
+returns boolean
+language plpgsql
+as $$
+begin
+  insert into public.response_cache (owner_id, mode, query, embedding, answer, sources, content_version)
+  select p_owner_id, p_mode, p_query, p_embedding, p_answer, p_sources, p_content_version
+   where p_content_version = coalesce(
+     (select v.version from public.response_cache_versions v where v.owner_id = p_owner_id),
+     0
+   );
+  return found;
+end;
+$$;
+
+drop function if exists public.match_response_cache(vector, float, uuid, text, timestamptz);
+
+-- Closest cached answer for the same owner + mode + content version, newer than p_created_after.
+create or replace function public.match_response_cache(
+  query_embedding vector(1536),
+  match_threshold float,
+  p_owner_id uuid,
+  p_mode text,
+  p_created_after timestamptz,
+  p_content_version bigint
+)
+returns table (
+  id uuid,
+  answer text,
+  sources jsonb,
+  similarity float
+)
+language plpgsql
+as $$
+begin
+  return query
+  select
+    r.id,
+    r.answer,
+    r.sources,
+    1 - (r.embedding <=> query_embedding) as similarity
+  from public.response_cache r
+  where r.owner_id = p_owner_id
+    and r.mode = p_mode
+    and r.content_version = p_content_version
+    and r.created_at > p_created_after
+    and 1 - (r.embedding <=> query_embedding) >= match_threshold
+  order by r.embedding <=> query_embedding
+  limit 1;
+end;
+$$;
+
+-- Optional housekeeping: expired rows are never served and can be deleted at any time.
+-- delete from public.response_cache where created_at < now() - interval '7 days';
@@ -0,0 +1,17 @@
+-- Migration: revision history for admin-edited projects, articles, experiences, stories and skills
+-- Run in Supabase SQL editor.
+
+create table if not exists public.revisions (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null,
+  entity_type text not null check (entity_type in ('project', 'article', 'experience', 'story', 'skill')),
+  entity_id uuid not null,
+  action text not null check (action in ('create', 'update', 'delete', 'restore')),
+  snapshot jsonb not null,
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_revisions_owner_entity on public.revisions(owner_id, entity_type, entity_id, created_at desc);
+create index if not exists idx_revisions_owner_created on public.revisions(owner_id, created_at desc);
+
+alter table public.revisions enable row level security;
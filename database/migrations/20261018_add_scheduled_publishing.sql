@@ -0,0 +1,12 @@
+-- Migration: scheduled publishing for articles + projects
+-- Run in Supabase SQL editor.
+
+alter table if exists public.articles
+  add column if not exists scheduled_at timestamptz;
+
+alter table if exists public.projects
+  add column if not exists scheduled_at timestamptz;
+
+-- The publish job only looks at drafts with a due date.
+create index if not exists idx_articles_scheduled on public.articles(scheduled_at) where status = 'draft' and scheduled_at is not null;
+create index if not exists idx_projects_scheduled on public.projects(scheduled_at) where status = 'draft' and scheduled_at is not null;
@@ -0,0 +1,74 @@
+-- Migration: computed skill evidence (proficiency/years derived from projects, experiences, chunks)
+-- Run in Supabase SQL editor (after 20261018_add_skill_taxonomy.sql).
+
+alter table if exists public.skills
+  add column if not exists computed_proficiency integer check (computed_proficiency between 1 and 5),
+  add column if not exists computed_years numeric,
+  add column if not exists evidence_count integer default 0,
+  add column if not exists evidence_computed_at timestamptz;
+
+create table if not exists public.skill_evidence (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null,
+  skill_id uuid not null references public.skills(id) on delete cascade,
+  source_type text not null,
+  source_id text,
+  source_title text not null,
+  detail text,
+  start_date date,
+  end_date date,
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_skill_evidence_owner_skill on public.skill_evidence(owner_id, skill_id);
+
+alter table public.skill_evidence enable row level security;
+
+-- Replaces an owner's computed evidence in one transaction: a failed run leaves the previous
+-- evidence, computed values and project links in place.
+create or replace function public.replace_skill_evidence(
+  p_owner_id uuid,
+  p_evidence jsonb,
+  p_skills jsonb,
+  p_project_skills jsonb
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_computed_at timestamptz := now();
+begin
+  delete from public.skill_evidence where owner_id = p_owner_id;
+
+  insert into public.skill_evidence (owner_id, skill_id, source_type, source_id, source_title, detail, start_date, end_date)
+  select p_owner_id, e.skill_id, e.source_type, e.source_id, e.source_title, e.detail, e.start_date, e.end_date
+    from jsonb_to_recordset(p_evidence) as e(
+      skill_id uuid, source_type text, source_id text, source_title text, detail text, start_date date, end_date date
+    )
+    join public.skills s on s.id = e.skill_id and s.owner_id = p_owner_id;
+
+  update public.skills s
+     set computed_proficiency = c.computed_proficiency,
+         computed_years = c.computed_years,
+         evidence_count = c.evidence_count,
+         evidence_computed_at = v_computed_at
+    from jsonb_to_recordset(p_skills) as c(
+      skill_id uuid, computed_proficiency integer, computed_years numeric, evidence_count integer
+    )
+   where s.id = c.skill_id
+     and s.owner_id = p_owner_id;
+
+  delete from public.project_skills ps
+   using jsonb_to_recordset(p_skills) as c(skill_id uuid), public.skills s
+   where ps.skill_id = c.skill_id
+     and s.id = c.skill_id
+     and s.owner_id = p_owner_id;
+
+  insert into public.project_skills (project_id, skill_id, relevance)
+  select distinct on (j.project_id, j.skill_id) j.project_id, j.skill_id, j.relevance
+    from jsonb_to_recordset(p_project_skills) as j(project_id uuid, skill_id uuid, relevance integer)
+    join public.skills s on s.id = j.skill_id and s.owner_id = p_owner_id
+   order by j.project_id, j.skill_id, j.relevance desc
+  on conflict (project_id, skill_id) do nothing;
+end;
+$$;
@@ -0,0 +1,24 @@
+-- Migration: editable skill taxonomy (aliases, parents, implied skills)
+-- Run in Supabase SQL editor.
+
+create table if not exists public.skill_taxonomy (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null,
+  name text not null,
+  category text default 'other',
+  aliases text[] default '{}',
+  parents text[] default '{}',
+  implies text[] default '{}',
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (owner_id, name)
+);
+
+alter table public.skill_taxonomy enable row level security;
+
+drop policy if exists "Public read skill taxonomy" on public.skill_taxonomy;
+create policy "Public read skill taxonomy" on public.skill_taxonomy for select
+  using (true);
+
+-- Categories now come from the taxonomy and are no longer a fixed list.
+alter table if exists public.skills drop constraint if exists skills_category_check;
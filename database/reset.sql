@@ -2,15 +2,24 @@
 -- Use this ONLY if you previously ran an older/incompatible schema and want to start fresh.
 -- Run in Supabase SQL Editor (role: postgres).
 
+drop table if exists revisions cascade;
+drop table if exists response_cache cascade;
+drop table if exists rate_limit_buckets cascade;
+drop table if exists messages cascade;
+drop table if exists conversations cascade;
 drop table if exists project_skills cascade;
 drop table if exists events cascade;
 drop table if exists chunks cascade;
 drop table if exists stories cascade;
 drop table if exists articles cascade;
+drop table if exists skill_evidence cascade;
+drop table if exists skill_taxonomy cascade;
 drop table if exists skills cascade;
 drop table if exists projects cascade;
 
 -- Drop both legacy + current function signatures (ignore if missing)
 drop function if exists match_chunks(vector, double precision, integer, uuid);
 drop function if exists match_chunks(vector, double precision, integer, uuid, text[]);
-
+drop function if exists match_chunks(vector, double precision, integer, uuid, text[], text);
+drop function if exists take_rate_limit_token(text, double precision, double precision);
+drop function if exists match_response_cache(vector, double precision, uuid, text, timestamptz);
@@ -23,6 +23,7 @@ create table if not exists projects (
   is_featured boolean default false,
   display_order integer default 0,
   status text default 'draft' check (status in ('draft', 'published', 'archived')),
+  scheduled_at timestamptz,
   created_at timestamptz default now(),
   updated_at timestamptz default now(),
   deleted_at timestamptz,
@@ -33,14 +34,34 @@ create table if not exists skills (
   id uuid primary key default gen_random_uuid(),
   owner_id uuid not null,
   name text not null,
-  category text default 'other' check (category in ('language', 'framework', 'tool', 'platform', 'methodology', 'other')),
+  category text default 'other',
   proficiency integer default 3 check (proficiency between 1 and 5),
   years_of_experience numeric,
   icon text,
   is_primary boolean default false,
+  -- Derived by the skill evidence job (src/lib/skill-evidence.ts); the columns above are declared.
+  computed_proficiency integer check (computed_proficiency between 1 and 5),
+  computed_years numeric,
+  evidence_count integer default 0,
+  evidence_computed_at timestamptz,
   created_at timestamptz default now()
 );
 
+-- Skill taxonomy overrides (built-in defaults live in src/lib/skill-taxonomy.ts).
+-- parents: broader skills (Next.js -> React); implies: skills demonstrated by knowing this one.
+create table if not exists skill_taxonomy (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null,
+  name text not null,
+  category text default 'other',
+  aliases text[] default '{}',
+  parents text[] default '{}',
+  implies text[] default '{}',
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  unique (owner_id, name)
+);
+
 create table if not exists project_skills (
   project_id uuid references projects(id) on delete cascade,
   skill_id uuid references skills(id) on delete cascade,
@@ -48,6 +69,20 @@ create table if not exists project_skills (
   primary key (project_id, skill_id)
 );
 
+-- Supporting rows for the computed skill values (one per project/experience/document).
+create table if not exists skill_evidence (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null,
+  skill_id uuid not null references skills(id) on delete cascade,
+  source_type text not null,
+  source_id text,
+  source_title text not null,
+  detail text,
+  start_date date,
+  end_date date,
+  created_at timestamptz default now()
+);
+
 create table if not exists articles (
   id uuid primary key default gen_random_uuid(),
   owner_id uuid not null,
@@ -58,6 +93,7 @@ create table if not exists articles (
   cover_image text,
   published_at timestamptz,
   status text default 'draft' check (status in ('draft', 'published', 'archived')),
+  scheduled_at timestamptz,
   tags text[] default '{}',
   created_at timestamptz default now(),
   updated_at timestamptz default now(),
@@ -89,6 +125,9 @@ create table if not exists chunks (
   content text not null,
   embedding vector(1536),
   metadata jsonb default '{}'::jsonb,
+  content_hash text, -- sha256 of content; unchanged chunks keep their embedding on reindex
+  embedding_model text, -- model that produced `embedding`; only the current model's chunks are searched
+  embedding_dims int,
   created_at timestamptz default now()
 );
 
@@ -115,10 +154,14 @@ alter table chunks
 
 create index if not exists idx_projects_owner_status on projects(owner_id, status);
 create index if not exists idx_skills_owner on skills(owner_id);
+create index if not exists idx_skill_evidence_owner_skill on skill_evidence(owner_id, skill_id);
 create index if not exists idx_articles_owner_status on articles(owner_id, status);
+create index if not exists idx_articles_scheduled on articles(scheduled_at) where status = 'draft' and scheduled_at is not null;
+create index if not exists idx_projects_scheduled on projects(scheduled_at) where status = 'draft' and scheduled_at is not null;
 create index if not exists idx_stories_owner on stories(owner_id);
 create index if not exists idx_chunks_owner on chunks(owner_id);
 create index if not exists idx_chunks_source on chunks(owner_id, source_type, source_id);
+create index if not exists idx_chunks_embedding_model on chunks(owner_id, embedding_model);
 create index if not exists idx_chunks_fts on chunks using gin(fts_content);
 create index if not exists idx_chunks_embedding on chunks using ivfflat (embedding vector_cosine_ops) with (lists = 100);
 create index if not exists idx_experiences_owner_status on experiences(owner_id, status);
@@ -140,13 +183,377 @@ create table if not exists events (
 create index if not exists idx_events_owner_created on events(owner_id, created_at desc);
 create index if not exists idx_events_owner_type on events(owner_id, type);
 
+-- Chat conversations (written server-side; shared transcripts are looked up by share_token)
+create table if not exists conversations (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null,
+  visitor_id text not null,
+  title text,
+  mode text default 'auto',
+  share_token text unique,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now()
+);
+
+create table if not exists messages (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null,
+  conversation_id uuid not null references conversations(id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  sources jsonb default '[]'::jsonb,
+  -- Owner review (admin inbox); a correction is re-indexed as a story or knowledge chunk.
+  rating text check (rating in ('good', 'bad')),
+  correction text,
+  correction_source_type text,
+  correction_source_id text,
+  reviewed_at timestamptz,
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_conversations_owner_visitor on conversations(owner_id, visitor_id, updated_at desc);
+create index if not exists idx_messages_conversation_created on messages(conversation_id, created_at);
+create index if not exists idx_messages_owner_rating on messages(owner_id, rating);
+
+-- Revision history: one snapshot per admin write (server-only; restored via /api/admin/revisions)
+create table if not exists revisions (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null,
+  entity_type text not null check (entity_type in ('project', 'article', 'experience', 'story', 'skill')),
+  entity_id uuid not null,
+  action text not null check (action in ('create', 'update', 'delete', 'restore')),
+  snapshot jsonb not null,
+  created_at timestamptz default now()
+);
+
+create index if not exists idx_revisions_owner_entity on revisions(owner_id, entity_type, entity_id, created_at desc);
+create index if not exists idx_revisions_owner_created on revisions(owner_id, created_at desc);
+
+-- Replaces an owner's computed skill evidence in one transaction (see lib/skill-evidence).
+create or replace function replace_skill_evidence(
+  p_owner_id uuid,
+  p_evidence jsonb,
+  p_skills jsonb,
+  p_project_skills jsonb
+)
+returns void
+language plpgsql
+as $$
+declare
+  v_computed_at timestamptz := now();
+begin
+  delete from skill_evidence where owner_id = p_owner_id;
+
+  insert into skill_evidence (owner_id, skill_id, source_type, source_id, source_title, detail, start_date, end_date)
+  select p_owner_id, e.skill_id, e.source_type, e.source_id, e.source_title, e.detail, e.start_date, e.end_date
+    from jsonb_to_recordset(p_evidence) as e(
+      skill_id uuid, source_type text, source_id text, source_title text, detail text, start_date date, end_date date
+    )
+    join skills s on s.id = e.skill_id and s.owner_id = p_owner_id;
+
+  update skills s
+     set computed_proficiency = c.computed_proficiency,
+         computed_years = c.computed_years,
+         evidence_count = c.evidence_count,
+         evidence_computed_at = v_computed_at
+    from jsonb_to_recordset(p_skills) as c(
+      skill_id uuid, computed_proficiency integer, computed_years numeric, evidence_count integer
+    )
+   where s.id = c.skill_id
+     and s.owner_id = p_owner_id;
+
+  delete from project_skills ps
+   using jsonb_to_recordset(p_skills) as c(skill_id uuid), skills s
+   where ps.skill_id = c.skill_id
+     and s.id = c.skill_id
+     and s.owner_id = p_owner_id;
+
+  insert into project_skills (project_id, skill_id, relevance)
+  select distinct on (j.project_id, j.skill_id) j.project_id, j.skill_id, j.relevance
+    from jsonb_to_recordset(p_project_skills) as j(project_id uuid, skill_id uuid, relevance integer)
+    join skills s on s.id = j.skill_id and s.owner_id = p_owner_id
+   order by j.project_id, j.skill_id, j.relevance desc
+  on conflict (project_id, skill_id) do nothing;
+end;
+$$;
+
+-- Shared rate-limit token buckets (RATE_LIMIT_STORE=postgres)
+create table if not exists rate_limit_buckets (
+  key text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_rate_limit_buckets_updated on rate_limit_buckets(updated_at);
+
+create or replace function take_rate_limit_token(
+  p_key text,
+  p_capacity double precision,
+  p_refill_per_second double precision
+)
+returns table (
+  allowed boolean,
+  remaining double precision,
+  retry_after_seconds double precision
+)
+language plpgsql
+as $$
+declare
+  v_now timestamptz := clock_timestamp();
+  v_tokens double precision;
+  v_updated timestamptz;
+begin
+  insert into rate_limit_buckets (key, tokens, updated_at)
+  values (p_key, p_capacity, v_now)
+  on conflict on constraint rate_limit_buckets_pkey do nothing;
+
+  select b.tokens, b.updated_at
+    into v_tokens, v_updated
+  from rate_limit_buckets b
+  where b.key = p_key
+  for update;
+
+  v_tokens := least(p_capacity, v_tokens + extract(epoch from (v_now - v_updated)) * p_refill_per_second);
+
+  if v_tokens >= 1 then
+    update rate_limit_buckets b set tokens = v_tokens - 1, updated_at = v_now where b.key = p_key;
+    return query select true, v_tokens - 1, 0::double precision;
+  else
+    update rate_limit_buckets b set tokens = v_tokens, updated_at = v_now where b.key = p_key;
+    return query select
+      false,
+      v_tokens,
+      case when p_refill_per_second > 0 then (1 - v_tokens) / p_refill_per_second else 3600 end;
+  end if;
+end;
+$$;
+
+-- Semantic cache of chat answers (RESPONSE_CACHE=postgres)
+create table if not exists response_cache (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null,
+  mode text not null default 'auto',
+  query text not null,
+  embedding vector(1536) not null,
+  answer text not null,
+  sources jsonb not null default '[]'::jsonb,
+  content_version bigint not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_response_cache_owner_mode on response_cache(owner_id, mode, created_at desc);
+
+-- Per-owner content version; cached answers are only served under the version they were answered in.
+create table if not exists response_cache_versions (
+  owner_id uuid primary key,
+  version bigint not null default 0,
+  updated_at timestamptz not null default now()
+);
+
+create or replace function bump_response_cache_version(p_owner_id uuid)
+returns bigint
+language plpgsql
+as $$
+declare
+  v_version bigint;
+begin
+  insert into response_cache_versions as v (owner_id, version)
+  values (p_owner_id, 1)
+  on conflict (owner_id) do update
+    set version = v.version + 1,
+        updated_at = now()
+  returning v.version into v_version;
+
+  delete from response_cache
+   where owner_id = p_owner_id
+     and content_version < v_version;
+
+  return v_version;
+end;
+$$;
+
+create or replace function save_response_cache(
+  p_owner_id uuid,
+  p_mode text,
+  p_query text,
+  p_embedding vector(1536),
+  p_answer text,
+  p_sources jsonb,
+  p_content_version bigint
+)
+returns boolean
+language plpgsql
+as $$
+begin
+  insert into response_cache (owner_id, mode, query, embedding, answer, sources, content_version)
+  select p_owner_id, p_mode, p_query, p_embedding, p_answer, p_sources, p_content_version
+   where p_content_version = coalesce(
+     (select v.version from response_cache_versions v where v.owner_id = p_owner_id),
+     0
+   );
+  return found;
+end;
+$$;
+
+create or replace function match_response_cache(
+  query_embedding vector(1536),
+  match_threshold float,
+  p_owner_id uuid,
+  p_mode text,
+  p_created_after timestamptz,
+  p_content_version bigint
+)
+returns table (
+  id uuid,
+  answer text,
+  sources jsonb,
+  similarity float
+)
+language plpgsql
+as $$
+begin
+  return query
+  select
+    r.id,
+    r.answer,
+    r.sources,
+    1 - (r.embedding <=> query_embedding) as similarity
+  from response_cache r
+  where r.owner_id = p_owner_id
+    and r.mode = p_mode
+    and r.content_version = p_content_version
+    and r.created_at > p_created_after
+    and 1 - (r.embedding <=> query_embedding) >= match_threshold
+  order by r.embedding <=> query_embedding
+  limit 1;
+end;
+$$;
+
+-- Background job queue: knowledge uploads, resume indexing, index rebuilds
+create table if not exists jobs (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null,
+  type text not null check (type in ('knowledge_upload', 'resume_index', 'rebuild')),
+  status text not null default 'queued' check (status in ('queued', 'running', 'succeeded', 'failed')),
+  payload jsonb not null default '{}'::jsonb,
+  result jsonb,
+  error text,
+  progress integer not null default 0 check (progress between 0 and 100),
+  progress_message text,
+  attempts integer not null default 0,
+  max_attempts integer not null default 3,
+  run_after timestamptz not null default now(),
+  locked_at timestamptz,
+  locked_by text,
+  created_at timestamptz default now(),
+  updated_at timestamptz default now(),
+  finished_at timestamptz,
+  dedupe boolean not null default false
+);
+
+create index if not exists idx_jobs_claim on jobs(status, run_after);
+create index if not exists idx_jobs_owner_created on jobs(owner_id, created_at desc);
+create unique index if not exists idx_jobs_owner_type_queued on jobs(owner_id, type)
+  where status = 'queued' and dedupe;
+
+-- Claim the next runnable job (queued past its backoff, or running with a stale lock).
+create or replace function claim_job(
+  p_worker text,
+  p_lock_timeout_seconds integer default 600
+)
+returns setof jobs
+language plpgsql
+as $$
+declare
+  v_id uuid;
+begin
+  -- A stale job that already used its last attempt is not retried again.
+  update jobs j
+     set status = 'failed',
+         error = coalesce(j.error, 'Worker stopped before the job finished (time limit?)'),
+         locked_at = null,
+         locked_by = null,
+         updated_at = now(),
+         finished_at = now()
+   where j.status = 'running'
+     and j.locked_at < now() - make_interval(secs => p_lock_timeout_seconds)
+     and j.attempts >= j.max_attempts;
+
+  select j.id
+    into v_id
+  from jobs j
+  where (j.status = 'queued' and j.run_after <= now())
+     or (j.status = 'running'
+         and j.locked_at < now() - make_interval(secs => p_lock_timeout_seconds)
+         and j.attempts < j.max_attempts)
+  order by j.run_after asc
+  limit 1
+  for update skip locked;
+
+  if v_id is null then
+    return;
+  end if;
+
+  return query
+  update jobs j
+     set status = 'running',
+         attempts = j.attempts + 1,
+         locked_at = now(),
+         locked_by = p_worker,
+         updated_at = now()
+   where j.id = v_id
+  returning j.*;
+end;
+$$;
+
+-- Enqueue, or return the deduped job of the same type already queued for the owner.
+create or replace function enqueue_deduped_job(
+  p_owner_id uuid,
+  p_type text,
+  p_payload jsonb default '{}'::jsonb,
+  p_max_attempts integer default 3
+)
+returns setof jobs
+language plpgsql
+as $$
+declare
+  v_job jobs;
+begin
+  -- The queued job can be claimed between the insert and the select; then try again.
+  for i in 1..3 loop
+    insert into jobs (owner_id, type, payload, max_attempts, dedupe)
+    values (p_owner_id, p_type, coalesce(p_payload, '{}'::jsonb), p_max_attempts, true)
+    on conflict (owner_id, type) where status = 'queued' and dedupe do nothing
+    returning * into v_job;
+
+    if v_job.id is null then
+      select * into v_job
+        from jobs j
+       where j.owner_id = p_owner_id
+         and j.type = p_type
+         and j.status = 'queued'
+         and j.dedupe
+       limit 1;
+    end if;
+
+    if v_job.id is not null then
+      return next v_job;
+      return;
+    end if;
+  end loop;
+
+  raise exception 'Could not enqueue % job', p_type;
+end;
+$$;
+
 -- Similarity search function (vector + optional source filtering)
 create or replace function match_chunks(
   query_embedding vector(1536),
   match_threshold float default 0.3,
   match_count int default 5,
   p_owner_id uuid default null,
-  p_source_types text[] default null
+  p_source_types text[] default null,
+  p_embedding_model text default null
 )
 returns table (
   id uuid,
@@ -172,6 +579,7 @@ begin
   from chunks c
   where (p_owner_id is null or c.owner_id = p_owner_id)
     and (p_source_types is null or c.source_type = any(p_source_types))
+    and (p_embedding_model is null or c.embedding_model = p_embedding_model)
     and c.embedding is not null
     and 1 - (c.embedding <=> query_embedding) > match_threshold
   order by c.embedding <=> query_embedding
@@ -182,16 +590,27 @@ $$;
 -- Row Level Security: lock down writes from anon key
 alter table projects enable row level security;
 alter table skills enable row level security;
+alter table skill_taxonomy enable row level security;
+alter table skill_evidence enable row level security;
 alter table articles enable row level security;
 alter table stories enable row level security;
 alter table chunks enable row level security;
 alter table experiences enable row level security;
 alter table events enable row level security;
+alter table conversations enable row level security;
+alter table messages enable row level security;
+alter table rate_limit_buckets enable row level security;
+alter table response_cache enable row level security;
+alter table response_cache_versions enable row level security;
+alter table revisions enable row level security;
+alter table jobs enable row level security;
 
 create policy "Public read projects" on projects for select
   using (status = 'published' and deleted_at is null);
 create policy "Public read skills" on skills for select
   using (true);
+create policy "Public read skill taxonomy" on skill_taxonomy for select
+  using (true);
 create policy "Public read articles" on articles for select
   using (status = 'published');
 create policy "Public read stories" on stories for select
@@ -4,57 +4,27 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
-import OpenAI from 'openai';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
+import { chunkMarkdown, chunkMetadata } from '@/lib/chunker';
+import { embeddingColumns, generateEmbeddingsBatched, getEmbeddingProvider } from '@/lib/embeddings';
 
 // Load environment variables from .env.local
 dotenv.config({ path: '.env.local' });
 
 const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-const openaiKey = process.env.OPENAI_API_KEY!;
 
 if (!supabaseUrl) {
   throw new Error('Missing SUPABASE_URL (or NEXT_PUBLIC_SUPABASE_URL)');
 }
 
 const supabase = createClient(supabaseUrl, supabaseKey);
-const openai = new OpenAI({ apiKey: openaiKey });
 
 const OWNER_ID = '00000000-0000-0000-0000-000000000001';
 const BANK_DIR = path.join(process.cwd(), 'bank');
 
-async function generateEmbedding(text: string): Promise<number[]> {
-  const response = await openai.embeddings.create({
-    model: 'text-embedding-3-small',
-    input: text,
-    dimensions: 1536,
-  });
-  return response.data[0].embedding;
-}
-
-function chunkText(text: string, maxChunkSize = 1000): string[] {
-  const paragraphs = text.split(/\n\n+/);
-  const chunks: string[] = [];
-  let currentChunk = '';
-
-  for (const para of paragraphs) {
-    if (currentChunk.length + para.length > maxChunkSize && currentChunk) {
-      chunks.push(currentChunk.trim());
-      currentChunk = '';
-    }
-    currentChunk += para + '\n\n';
-  }
-
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim());
-  }
-
-  return chunks;
-}
-
 function slugify(input: string): string {
   return input
     .toLowerCase()
@@ -104,25 +74,29 @@ async function processMarkdownFile(filePath: string) {
     .eq('source_type', 'article')
     .eq('source_id', article.id);
 
-  const chunks = chunkText(content);
+  const chunks = chunkMarkdown(content);
 
   console.log(`  Found ${chunks.length} chunks`);
 
+  // Same provider as the app (EMBEDDING_PROVIDER), so seeded chunks are searchable.
+  const embeddings = await generateEmbeddingsBatched(chunks.map((chunk) => chunk.content));
+
   for (let i = 0; i < chunks.length; i++) {
     const chunk = chunks[i];
-    const embedding = await generateEmbedding(chunk);
 
     const { error } = await supabase.from('chunks').insert({
       owner_id: OWNER_ID,
       source_type: 'article',
       source_id: article.id,
-      content: chunk,
-      embedding,
+      content: chunk.content,
+      embedding: embeddings[i],
+      ...embeddingColumns(),
       metadata: {
         title,
         slug,
         chunk_index: i,
         file_path: filePath,
+        ...chunkMetadata(chunk),
       },
     });
 
@@ -131,15 +105,15 @@ async function processMarkdownFile(filePath: string) {
     } else {
       console.log(`  Inserted chunk ${i + 1}/${chunks.length}`);
     }
-
-    // Rate limiting
-    await new Promise((r) => setTimeout(r, 200));
   }
 }
 
 async function main() {
   console.log('Starting knowledge base seeding...\n');
 
+  const provider = getEmbeddingProvider();
+  console.log(`Embedding with ${provider.name} (${provider.model}, ${provider.dimensions} dims)\n`);
+
   console.log('Upserting bank/ markdown files into articles + chunks...\n');
 
   // Process all markdown files in bank/
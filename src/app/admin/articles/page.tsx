@@ -1,7 +1,8 @@
 'use client';
 
 import { useEffect, useMemo, useState } from 'react';
-import { Plus, Edit, Trash2, Eye, EyeOff, Loader2, X, Save } from 'lucide-react';
+import Link from 'next/link';
+import { Plus, Edit, Trash2, Eye, EyeOff, Loader2, X, Save, History, Link2 } from 'lucide-react';
 import type { Article } from '@/types';
 import { slugify } from '@/lib/slug';
 
@@ -12,6 +13,14 @@ function getCookieValue(name: string): string | null {
   return match ? decodeURIComponent(match[1] || '') : null;
 }
 
+// <input type="datetime-local"> works in local time without a zone; the API stores UTC.
+function toDateTimeLocalValue(iso: string | null | undefined): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
 type ArticleDraft = {
   id?: string;
   title: string;
@@ -19,6 +28,7 @@ type ArticleDraft = {
   summary: string;
   tags: string;
   status: 'draft' | 'published' | 'archived';
+  scheduledAt: string;
   content: string;
 };
 
@@ -28,6 +38,7 @@ const emptyDraft: ArticleDraft = {
   summary: '',
   tags: '',
   status: 'draft',
+  scheduledAt: '',
   content: '',
 };
 
@@ -38,6 +49,7 @@ export default function AdminArticlesPage() {
   const [draft, setDraft] = useState<ArticleDraft>(emptyDraft);
   const [isSaving, setIsSaving] = useState(false);
   const [slugTouched, setSlugTouched] = useState(false);
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
 
   const csrfToken = useMemo(() => getCookieValue('chengai_csrf'), []);
 
@@ -71,6 +83,7 @@ export default function AdminArticlesPage() {
       summary: article.summary || '',
       tags: Array.isArray(article.tags) ? article.tags.join(', ') : '',
       status: article.status,
+      scheduledAt: toDateTimeLocalValue(article.scheduled_at),
       content: article.content || '',
     });
     setSlugTouched(true);
@@ -99,6 +112,9 @@ export default function AdminArticlesPage() {
           .map((t) => t.trim())
           .filter(Boolean),
         status: draft.status,
+        // Only drafts can be scheduled; saving with any other status clears the schedule.
+        scheduled_at:
+          draft.status === 'draft' && draft.scheduledAt ? new Date(draft.scheduledAt).toISOString() : null,
         content: draft.content,
       };
 
@@ -150,6 +166,39 @@ export default function AdminArticlesPage() {
     }
   };
 
+  const copyPreviewLink = async (article: Article) => {
+    if (previewingId) return;
+    setPreviewingId(article.id);
+
+    try {
+      const res = await fetch('/api/admin/preview', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(csrfToken ? { 'x-csrf-token': csrfToken } : {}),
+        },
+        body: JSON.stringify({ entity_type: 'article', id: article.id }),
+      });
+
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || 'Failed to create preview link');
+
+      const url = `${window.location.origin}${data.path}`;
+      const expires = new Date(data.expires_at).toLocaleString();
+      try {
+        await navigator.clipboard.writeText(url);
+        alert(`Preview link copied (expires ${expires}).`);
+      } catch {
+        prompt(`Preview link (expires ${expires}):`, url);
+      }
+    } catch (error) {
+      console.error('Preview link error:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create preview link');
+    } finally {
+      setPreviewingId(null);
+    }
+  };
+
   const remove = async (id: string) => {
     if (!confirm('Delete this article?')) return;
 
@@ -217,9 +266,13 @@ export default function AdminArticlesPage() {
                   {article.title}
                 </h3>
                 <p className="text-sm text-zinc-500 dark:text-zinc-400">
-                  {article.status} • {article.published_at
-                    ? new Date(article.published_at).toLocaleDateString()
-                    : 'Not published'}
+                  {article.status === 'draft' && article.scheduled_at
+                    ? `scheduled • ${new Date(article.scheduled_at).toLocaleString()}`
+                    : `${article.status} • ${
+                        article.published_at
+                          ? new Date(article.published_at).toLocaleDateString()
+                          : 'Not published'
+                      }`}
                 </p>
               </div>
               <div className="flex items-center gap-2">
@@ -234,6 +287,28 @@ export default function AdminArticlesPage() {
                     <EyeOff className="h-4 w-4" />
                   )}
                 </button>
+                {article.status !== 'published' && (
+                  <button
+                    onClick={() => copyPreviewLink(article)}
+                    disabled={previewingId !== null}
+                    className="p-2 text-zinc-400 hover:text-blue-600 disabled:opacity-50"
+                    aria-label="Copy preview link"
+                    title="Copy preview link"
+                  >
+                    {previewingId === article.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Link2 className="h-4 w-4" />
+                    )}
+                  </button>
+                )}
+                <Link
+                  href={`/admin/revisions?type=article&id=${article.id}`}
+                  className="p-2 text-zinc-400 hover:text-blue-600"
+                  aria-label="History"
+                >
+                  <History className="h-4 w-4" />
+                </Link>
                 <button
                   onClick={() => openEdit(article)}
                   className="p-2 text-zinc-400 hover:text-blue-600"
@@ -320,7 +395,23 @@ export default function AdminArticlesPage() {
                   <option value="published">published</option>
                   <option value="archived">archived</option>
                 </select>
+                {draft.status === 'draft' && (
+                  <>
+                    <span className="ml-4 text-sm text-zinc-600 dark:text-zinc-300">Publish at</span>
+                    <input
+                      type="datetime-local"
+                      value={draft.scheduledAt}
+                      onChange={(e) => setDraft((d) => ({ ...d, scheduledAt: e.target.value }))}
+                      className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-sm dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+                    />
+                  </>
+                )}
               </div>
+              {draft.status === 'draft' && (
+                <p className="-mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                  Leave &quot;Publish at&quot; empty to keep this a draft; otherwise it goes live (and is indexed for chat) at that time.
+                </p>
+              )}
               <textarea
                 value={draft.content}
                 onChange={(e) => setDraft((d) => ({ ...d, content: e.target.value }))}
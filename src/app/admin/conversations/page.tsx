@@ -0,0 +1,435 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import {
+  BookOpen,
+  Loader2,
+  MessagesSquare,
+  Save,
+  ThumbsDown,
+  ThumbsUp,
+  Trash2,
+  User,
+  Bot,
+} from 'lucide-react';
+import type { ChunkReference } from '@/types';
+
+function getCookieValue(name: string): string | null {
+  if (typeof document === 'undefined') return null;
+  const parts = document.cookie.split('; ').map((c) => c.split('='));
+  const match = parts.find(([k]) => k === name);
+  return match ? decodeURIComponent(match[1] || '') : null;
+}
+
+type ConversationSummary = {
+  id: string;
+  visitor_id: string;
+  title: string | null;
+  mode: string;
+  created_at: string;
+  updated_at: string;
+  stats: { messages: number; good: number; bad: number; corrected: number };
+};
+
+type ReviewMessage = {
+  id: string;
+  conversation_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  sources: ChunkReference[] | null;
+  rating: 'good' | 'bad' | null;
+  correction: string | null;
+  correction_source_type: 'story' | 'knowledge' | null;
+  correction_source_id: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+};
+
+type CorrectionDraft = { text: string; saveAs: 'story' | 'knowledge' };
+
+function formatDateTime(value: string): string {
+  if (!value) return '';
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+export default function AdminConversationsPage() {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ReviewMessage[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, CorrectionDraft>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMessages, setIsLoadingMessages] = useState(false);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [filter, setFilter] = useState<'all' | 'bad' | 'unreviewed'>('all');
+
+  const csrfToken = useMemo(() => getCookieValue('chengai_csrf'), []);
+
+  const fetchConversations = async () => {
+    try {
+      const res = await fetch('/api/admin/conversations');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || 'Failed to load conversations');
+      setConversations(Array.isArray(data) ? data : []);
+      setError('');
+    } catch (err) {
+      console.error('Failed to fetch conversations:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load conversations');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchConversations();
+  }, []);
+
+  const openConversation = async (id: string) => {
+    setSelectedId(id);
+    setIsLoadingMessages(true);
+    setMessages([]);
+    setDrafts({});
+    try {
+      const res = await fetch(`/api/admin/conversations?id=${encodeURIComponent(id)}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || 'Failed to load transcript');
+      const rows: ReviewMessage[] = Array.isArray(data?.messages) ? data.messages : [];
+      setMessages(rows);
+      setDrafts(
+        Object.fromEntries(
+          rows
+            .filter((m) => m.role === 'assistant')
+            .map((m) => [
+              m.id,
+              { text: m.correction || '', saveAs: m.correction_source_type === 'story' ? 'story' : 'knowledge' },
+            ])
+        )
+      );
+    } catch (err) {
+      console.error('Failed to fetch transcript:', err);
+      alert(err instanceof Error ? err.message : 'Failed to load transcript');
+    } finally {
+      setIsLoadingMessages(false);
+    }
+  };
+
+  const review = async (messageId: string, payload: Record<string, unknown>) => {
+    setSavingId(messageId);
+    try {
+      const res = await fetch('/api/admin/conversations', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(csrfToken ? { 'x-csrf-token': csrfToken } : {}),
+        },
+        body: JSON.stringify({ messageId, ...payload }),
+      });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || 'Failed to save review');
+
+      setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, ...(data as ReviewMessage) } : m)));
+      fetchConversations();
+    } catch (err) {
+      console.error('Save review error:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save review');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const removeConversation = async (id: string) => {
+    if (!confirm('Delete this conversation? Corrections already saved are kept.')) return;
+
+    try {
+      const res = await fetch(`/api/admin/conversations?id=${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        headers: csrfToken ? { 'x-csrf-token': csrfToken } : undefined,
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to delete conversation');
+      }
+      if (selectedId === id) {
+        setSelectedId(null);
+        setMessages([]);
+      }
+      await fetchConversations();
+    } catch (err) {
+      console.error('Delete conversation error:', err);
+      alert(err instanceof Error ? err.message : 'Failed to delete conversation');
+    }
+  };
+
+  const visibleConversations = conversations.filter((c) => {
+    if (filter === 'bad') return c.stats.bad > 0;
+    if (filter === 'unreviewed') return c.stats.good + c.stats.bad === 0;
+    return true;
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="h-8 w-8 animate-spin text-zinc-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-xl bg-violet-100 dark:bg-violet-900/30">
+            <MessagesSquare className="h-5 w-5 text-violet-600" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold text-zinc-900 dark:text-white">Conversations</h1>
+            <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+              Review what the AI told visitors. Corrections are indexed for future answers.
+            </p>
+          </div>
+        </div>
+        <select
+          value={filter}
+          onChange={(e) => setFilter(e.target.value as typeof filter)}
+          className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-700 focus:border-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+        >
+          <option value="all">All conversations</option>
+          <option value="unreviewed">Unreviewed</option>
+          <option value="bad">Has bad answers</option>
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-700 dark:border-red-900/50 dark:bg-red-950/30 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        {/* Conversation list */}
+        <div className="space-y-2 lg:max-h-[75vh] lg:overflow-y-auto">
+          {visibleConversations.length === 0 ? (
+            <div className="text-center py-12 border-2 border-dashed border-zinc-200 rounded-xl dark:border-zinc-700">
+              <p className="text-zinc-500 dark:text-zinc-400">No conversations yet.</p>
+            </div>
+          ) : (
+            visibleConversations.map((c) => (
+              <div
+                key={c.id}
+                className={`flex items-start justify-between gap-2 rounded-xl border p-3 transition-colors ${
+                  selectedId === c.id
+                    ? 'border-blue-500 bg-blue-50/50 dark:bg-blue-950/20'
+                    : 'border-zinc-200 bg-white hover:bg-zinc-50 dark:border-zinc-700 dark:bg-zinc-900 dark:hover:bg-zinc-800/60'
+                }`}
+              >
+                <button onClick={() => openConversation(c.id)} className="min-w-0 flex-1 text-left">
+                  <div className="truncate text-sm font-medium text-zinc-900 dark:text-white">
+                    {c.title || 'Untitled conversation'}
+                  </div>
+                  <div className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+                    {formatDateTime(c.updated_at)} · {c.stats.messages} messages · {c.mode}
+                  </div>
+                  {(c.stats.good > 0 || c.stats.bad > 0 || c.stats.corrected > 0) && (
+                    <div className="mt-1 flex gap-2 text-xs">
+                      {c.stats.good > 0 && <span className="text-green-600">{c.stats.good} good</span>}
+                      {c.stats.bad > 0 && <span className="text-red-600">{c.stats.bad} bad</span>}
+                      {c.stats.corrected > 0 && (
+                        <span className="text-blue-600">{c.stats.corrected} corrected</span>
+                      )}
+                    </div>
+                  )}
+                </button>
+                <button
+                  onClick={() => removeConversation(c.id)}
+                  className="p-1.5 text-zinc-400 hover:text-red-600"
+                  aria-label="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Transcript */}
+        <div className="lg:col-span-2">
+          {!selectedId ? (
+            <div className="rounded-xl border border-zinc-200 bg-white p-6 text-sm text-zinc-600 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300">
+              Select a conversation to review its answers.
+            </div>
+          ) : isLoadingMessages ? (
+            <div className="flex items-center justify-center py-24">
+              <Loader2 className="h-6 w-6 animate-spin text-zinc-400" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {messages.map((m) =>
+                m.role === 'user' ? (
+                  <div
+                    key={m.id}
+                    className="flex gap-3 rounded-xl border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-800/50"
+                  >
+                    <User className="mt-0.5 h-4 w-4 shrink-0 text-zinc-500" />
+                    <div className="min-w-0">
+                      <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                        Visitor · {formatDateTime(m.created_at)}
+                      </div>
+                      <p className="mt-1 whitespace-pre-wrap text-sm text-zinc-900 dark:text-white">{m.content}</p>
+                    </div>
+                  </div>
+                ) : (
+                  <div
+                    key={m.id}
+                    className={`rounded-xl border bg-white p-4 dark:bg-zinc-900 ${
+                      m.rating === 'bad'
+                        ? 'border-red-300 dark:border-red-900/60'
+                        : m.rating === 'good'
+                          ? 'border-green-300 dark:border-green-900/60'
+                          : 'border-zinc-200 dark:border-zinc-700'
+                    }`}
+                  >
+                    <div className="flex items-start gap-3">
+                      <Bot className="mt-0.5 h-4 w-4 shrink-0 text-blue-600" />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                            AI answer · {formatDateTime(m.created_at)}
+                          </div>
+                          <div className="flex items-center gap-1">
+                            <button
+                              onClick={() => review(m.id, { rating: m.rating === 'good' ? null : 'good' })}
+                              disabled={savingId === m.id}
+                              className={`rounded-lg p-1.5 ${
+                                m.rating === 'good'
+                                  ? 'bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300'
+                                  : 'text-zinc-400 hover:text-green-600'
+                              }`}
+                              aria-label="Mark good"
+                            >
+                              <ThumbsUp className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => review(m.id, { rating: m.rating === 'bad' ? null : 'bad' })}
+                              disabled={savingId === m.id}
+                              className={`rounded-lg p-1.5 ${
+                                m.rating === 'bad'
+                                  ? 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'
+                                  : 'text-zinc-400 hover:text-red-600'
+                              }`}
+                              aria-label="Mark bad"
+                            >
+                              <ThumbsDown className="h-4 w-4" />
+                            </button>
+                          </div>
+                        </div>
+
+                        <div className="prose prose-sm prose-zinc dark:prose-invert mt-2 max-w-none">
+                          <ReactMarkdown remarkPlugins={[remarkGfm]}>{m.content}</ReactMarkdown>
+                        </div>
+
+                        {Array.isArray(m.sources) && m.sources.length > 0 && (
+                          <div className="mt-3 border-t border-zinc-200 pt-3 dark:border-zinc-700">
+                            <div className="mb-2 flex items-center gap-2 text-xs font-medium text-zinc-500 dark:text-zinc-400">
+                              <BookOpen className="h-3 w-3" />
+                              Retrieved sources
+                            </div>
+                            <div className="space-y-1.5">
+                              {m.sources.map((s) => (
+                                <details
+                                  key={s.chunk_id}
+                                  className="rounded-lg bg-zinc-50 px-3 py-2 text-xs dark:bg-zinc-800/50"
+                                >
+                                  <summary className="cursor-pointer text-zinc-700 dark:text-zinc-200">
+                                    <span className="font-medium">{s.source_title}</span>
+                                    <span className="ml-2 text-zinc-500">
+                                      {s.source_type} · {Number(s.relevance_score || 0).toFixed(3)}
+                                    </span>
+                                  </summary>
+                                  <p className="mt-2 whitespace-pre-wrap text-zinc-600 dark:text-zinc-400">
+                                    {s.content_preview}
+                                  </p>
+                                </details>
+                              ))}
+                            </div>
+                          </div>
+                        )}
+
+                        <div className="mt-3 border-t border-zinc-200 pt-3 dark:border-zinc-700">
+                          <textarea
+                            value={drafts[m.id]?.text ?? ''}
+                            onChange={(e) =>
+                              setDrafts((d) => ({
+                                ...d,
+                                [m.id]: { saveAs: d[m.id]?.saveAs || 'knowledge', text: e.target.value },
+                              }))
+                            }
+                            placeholder="Corrected answer (optional)"
+                            className="w-full min-h-[80px] rounded-xl border border-zinc-200 px-4 py-3 text-sm focus:border-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+                          />
+                          <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+                            <div className="flex items-center gap-2">
+                              <select
+                                value={drafts[m.id]?.saveAs || 'knowledge'}
+                                onChange={(e) =>
+                                  setDrafts((d) => ({
+                                    ...d,
+                                    [m.id]: {
+                                      text: d[m.id]?.text || '',
+                                      saveAs: e.target.value as CorrectionDraft['saveAs'],
+                                    },
+                                  }))
+                                }
+                                className="rounded-lg border border-zinc-200 bg-white px-2 py-1.5 text-xs text-zinc-700 focus:border-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+                              >
+                                <option value="knowledge">Save as knowledge (private)</option>
+                                <option value="story">Save as story (public)</option>
+                              </select>
+                              {m.correction_source_type && (
+                                <span className="text-xs text-blue-600">
+                                  Indexed as {m.correction_source_type}
+                                </span>
+                              )}
+                            </div>
+                            <button
+                              onClick={() =>
+                                review(m.id, {
+                                  correction: drafts[m.id]?.text || '',
+                                  saveAs: drafts[m.id]?.saveAs || 'knowledge',
+                                })
+                              }
+                              disabled={
+                                savingId === m.id ||
+                                ((drafts[m.id]?.text || '').trim() === (m.correction || '').trim() &&
+                                  (drafts[m.id]?.saveAs || 'knowledge') ===
+                                    (m.correction_source_type || 'knowledge'))
+                              }
+                              className="inline-flex items-center gap-2 rounded-xl bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                            >
+                              {savingId === m.id ? (
+                                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                              ) : (
+                                <Save className="h-3.5 w-3.5" />
+                              )}
+                              {(drafts[m.id]?.text || '').trim() || !m.correction ? 'Save correction' : 'Remove correction'}
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 'use client';
 
 import { useEffect, useMemo, useState } from 'react';
-import { Plus, Edit, Trash2, Loader2, X } from 'lucide-react';
+import Link from 'next/link';
+import { Plus, Edit, Trash2, Loader2, X, History } from 'lucide-react';
 import type { Experience } from '@/types';
 
 function getCookieValue(name: string): string | null {
@@ -277,6 +278,13 @@ export default function AdminExperiencesPage() {
                   )}
                 </div>
                 <div className="flex items-center gap-1">
+                  <Link
+                    href={`/admin/revisions?type=experience&id=${exp.id}`}
+                    className="p-2 text-zinc-400 hover:text-blue-600"
+                    aria-label="History"
+                  >
+                    <History className="h-4 w-4" />
+                  </Link>
                   <button
                     onClick={() => openEdit(exp)}
                     className="p-2 text-zinc-400 hover:text-blue-600"
@@ -0,0 +1,305 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { AlertCircle, CheckCircle, ChevronDown, ChevronRight, Loader2, Table2, Upload, XCircle } from 'lucide-react';
+import type { RequirementEvidence } from '@/types';
+
+function getCookieValue(name: string): string | null {
+  if (typeof document === 'undefined') return null;
+  const parts = document.cookie.split('; ').map((c) => c.split('='));
+  const match = parts.find(([k]) => k === name);
+  return match ? decodeURIComponent(match[1] || '') : null;
+}
+
+type BatchResult = {
+  id: string;
+  title: string | null;
+  url: string | null;
+  ok: boolean;
+  error?: string;
+  rank?: number;
+  match_score?: number;
+  summary?: string;
+  matched_skills?: string[];
+  gaps?: string[];
+  requirements?: RequirementEvidence[];
+  relevant_projects?: Array<{ slug: string; title: string }>;
+  elapsed_ms: number;
+};
+
+type BatchResponse = {
+  count: number;
+  succeeded: number;
+  elapsed_ms: number;
+  results: BatchResult[];
+};
+
+// Pasted JDs are separated by a line containing only "---".
+function splitPastedJDs(text: string): string[] {
+  return text
+    .split(/^\s*---\s*$/m)
+    .map((t) => t.trim())
+    .filter(Boolean);
+}
+
+function guessTitle(jd: string): string {
+  const firstLine = jd.split('\n').find((l) => l.trim()) || '';
+  return firstLine.trim().slice(0, 80);
+}
+
+function scoreClass(score: number): string {
+  if (score >= 80) return 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300';
+  if (score >= 60) return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300';
+  return 'bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300';
+}
+
+export default function AdminJDMatchPage() {
+  const [pasted, setPasted] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [data, setData] = useState<BatchResponse | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const pastedCount = splitPastedJDs(pasted).length;
+
+  const runBatch = async () => {
+    setIsRunning(true);
+    setError(null);
+    setData(null);
+    setExpanded(null);
+
+    try {
+      const csrfToken = getCookieValue('chengai_csrf');
+      let res: Response;
+
+      if (file) {
+        const formData = new FormData();
+        formData.append('file', file);
+        res = await fetch('/api/admin/jd-match/batch', {
+          method: 'POST',
+          headers: csrfToken ? { 'x-csrf-token': csrfToken } : undefined,
+          body: formData,
+        });
+      } else {
+        const jds = splitPastedJDs(pasted).map((jd, idx) => ({ id: String(idx + 1), title: guessTitle(jd), jd }));
+        res = await fetch('/api/admin/jd-match/batch', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(csrfToken ? { 'x-csrf-token': csrfToken } : {}),
+          },
+          body: JSON.stringify({ jds }),
+        });
+      }
+
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || 'Batch match failed');
+      setData(body as BatchResponse);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Batch match failed');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const canRun = !isRunning && (Boolean(file) || pastedCount > 0);
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+      <div className="flex items-center gap-3 mb-8">
+        <div className="p-2 rounded-xl bg-rose-100 dark:bg-rose-900/30">
+          <Table2 className="h-5 w-5 text-rose-600" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold text-zinc-900 dark:text-white">JD Triage</h1>
+          <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+            Match many job descriptions at once and compare them side by side.
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2 rounded-2xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-zinc-900">
+          <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+            Paste job descriptions (separate with a line containing only <code>---</code>)
+          </label>
+          <textarea
+            value={pasted}
+            onChange={(e) => setPasted(e.target.value)}
+            disabled={Boolean(file) || isRunning}
+            rows={10}
+            className="mt-2 w-full rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-900 focus:border-blue-500 focus:outline-none disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+            placeholder={'Senior Backend Engineer\n...\n---\nML Engineer, Retrieval\n...'}
+          />
+          <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+            {pastedCount} job description{pastedCount === 1 ? '' : 's'}
+          </p>
+        </div>
+
+        <div className="rounded-2xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-zinc-900">
+          <p className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Or upload a file</p>
+          <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+            CSV with a <code>jd</code> (or <code>description</code>) column and optional <code>id</code>,{' '}
+            <code>title</code>, <code>url</code>; or JSONL with the same fields.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.jsonl,.ndjson"
+            className="hidden"
+            onChange={(e) => setFile(e.target.files?.[0] || null)}
+          />
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isRunning}
+              className="flex items-center gap-2 rounded-xl border border-zinc-200 px-3 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+            >
+              <Upload className="h-4 w-4" />
+              Choose file
+            </button>
+            {file && (
+              <button
+                type="button"
+                onClick={() => {
+                  setFile(null);
+                  if (fileInputRef.current) fileInputRef.current.value = '';
+                }}
+                className="text-xs text-zinc-500 hover:text-zinc-700 dark:text-zinc-400"
+              >
+                Remove {file.name}
+              </button>
+            )}
+          </div>
+
+          <button
+            onClick={runBatch}
+            disabled={!canRun}
+            className="mt-6 flex w-full items-center justify-center gap-2 rounded-xl bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isRunning ? (
+              <>
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Matching...
+              </>
+            ) : (
+              'Run batch match'
+            )}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-6 flex items-center gap-2 rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-700 dark:border-red-900/50 dark:bg-red-950/30 dark:text-red-300">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      {data && (
+        <div className="mt-8">
+          <p className="mb-3 text-sm text-zinc-600 dark:text-zinc-400">
+            {data.succeeded} of {data.count} matched in {(data.elapsed_ms / 1000).toFixed(1)}s
+          </p>
+          <div className="overflow-x-auto rounded-2xl border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+            <table className="w-full text-sm">
+              <thead className="border-b border-zinc-200 text-left text-xs uppercase tracking-wide text-zinc-500 dark:border-zinc-800 dark:text-zinc-400">
+                <tr>
+                  <th className="px-4 py-3">#</th>
+                  <th className="px-4 py-3">Role</th>
+                  <th className="px-4 py-3">Score</th>
+                  <th className="px-4 py-3">Required</th>
+                  <th className="px-4 py-3">Top gaps</th>
+                  <th className="px-4 py-3">Best projects</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.results.map((r) => {
+                  const required = (r.requirements || []).filter((q) => q.kind === 'required');
+                  const requiredMet = required.filter((q) => q.satisfied).length;
+                  const isOpen = expanded === r.id;
+
+                  return (
+                    <tr key={r.id} className="border-b border-zinc-100 align-top last:border-0 dark:border-zinc-800">
+                      <td className="px-4 py-3 text-zinc-500">{r.rank ?? '–'}</td>
+                      <td className="px-4 py-3">
+                        <button
+                          type="button"
+                          onClick={() => setExpanded(isOpen ? null : r.id)}
+                          disabled={!r.ok}
+                          className="flex items-start gap-1 text-left font-medium text-zinc-900 disabled:cursor-default dark:text-white"
+                        >
+                          {r.ok &&
+                            (isOpen ? (
+                              <ChevronDown className="mt-0.5 h-4 w-4 shrink-0" />
+                            ) : (
+                              <ChevronRight className="mt-0.5 h-4 w-4 shrink-0" />
+                            ))}
+                          <span>{r.title || `Job ${r.id}`}</span>
+                        </button>
+                        {r.url && (
+                          <a href={r.url} target="_blank" rel="noreferrer" className="ml-5 text-xs text-blue-600 hover:underline">
+                            Posting
+                          </a>
+                        )}
+                        {!r.ok && <p className="ml-5 text-xs text-red-600">{r.error}</p>}
+
+                        {isOpen && (
+                          <ul className="mt-3 ml-5 space-y-2">
+                            {(r.requirements || []).map((q) => (
+                              <li key={`${q.kind}:${q.requirement}`} className="flex items-start gap-2 text-xs">
+                                {q.satisfied ? (
+                                  <CheckCircle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-emerald-500" />
+                                ) : (
+                                  <XCircle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-zinc-400" />
+                                )}
+                                <div>
+                                  <span className="font-medium text-zinc-800 dark:text-zinc-200">{q.requirement}</span>
+                                  <span className="ml-1 text-zinc-400">({q.kind})</span>
+                                  {q.skill && <span className="ml-1 text-zinc-500">· skill: {q.skill}</span>}
+                                  {q.method === 'semantic' && (
+                                    <span className="ml-1 text-violet-600 dark:text-violet-400">
+                                      · semantic {q.similarity?.toFixed(2)}
+                                    </span>
+                                  )}
+                                  {q.evidence && (
+                                    <p className="mt-0.5 text-zinc-500 dark:text-zinc-400">
+                                      {q.evidence.source_title}: {q.evidence.snippet}
+                                    </p>
+                                  )}
+                                </div>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {r.ok && (
+                          <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${scoreClass(r.match_score ?? 0)}`}>
+                            {r.match_score}%
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-zinc-600 dark:text-zinc-400">
+                        {r.ok ? `${requiredMet}/${required.length}` : ''}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-zinc-600 dark:text-zinc-400">
+                        {(r.gaps || []).slice(0, 4).join(', ') || (r.ok ? 'None' : '')}
+                      </td>
+                      <td className="px-4 py-3 text-xs text-zinc-600 dark:text-zinc-400">
+                        {(r.relevant_projects || []).map((p) => p.title).join(', ')}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
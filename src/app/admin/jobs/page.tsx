@@ -0,0 +1,217 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ListChecks, Loader2, RotateCcw } from 'lucide-react';
+import { isJobFinished } from '@/lib/jobs-client';
+import type { Job, JobStatus, JobType } from '@/types';
+
+function getCookieValue(name: string): string | null {
+  if (typeof document === 'undefined') return null;
+  const parts = document.cookie.split('; ').map((c) => c.split('='));
+  const match = parts.find(([k]) => k === name);
+  return match ? decodeURIComponent(match[1] || '') : null;
+}
+
+const REFRESH_INTERVAL_MS = 3000;
+
+const TYPE_LABELS: Record<JobType, string> = {
+  knowledge_upload: 'Knowledge upload',
+  resume_index: 'Resume indexing',
+  rebuild: 'Index rebuild',
+};
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300',
+  running: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  succeeded: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const STATUS_FILTERS: Array<JobStatus | 'all'> = ['all', 'queued', 'running', 'succeeded', 'failed'];
+
+function jobSubject(job: Job): string | null {
+  const fileName = job.payload?.file_name;
+  return typeof fileName === 'string' ? fileName : null;
+}
+
+// One line for the result: chunk counts for indexing jobs.
+function jobOutcome(job: Job): string | null {
+  const result = job.result;
+  if (!result) return null;
+  const counts = (result.totals || result.chunks || result) as { added?: unknown; unchanged?: unknown; removed?: unknown };
+  if (typeof counts.added !== 'number') return null;
+  return `${counts.added} added, ${counts.unchanged ?? 0} unchanged, ${counts.removed ?? 0} removed chunks`;
+}
+
+export default function AdminJobsPage() {
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<JobStatus | 'all'>('all');
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const csrfToken = useMemo(() => getCookieValue('chengai_csrf'), []);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ limit: '100' });
+      if (statusFilter !== 'all') params.set('status', statusFilter);
+      const response = await fetch(`/api/admin/jobs?${params.toString()}`, { cache: 'no-store' });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || 'Failed to load jobs');
+
+      setJobs(Array.isArray(data) ? (data as Job[]) : []);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load jobs');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  // Keep polling while anything is still in flight.
+  const hasActiveJobs = jobs.some((job) => !isJobFinished(job));
+  useEffect(() => {
+    if (!hasActiveJobs) return;
+    const timer = setInterval(fetchJobs, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [hasActiveJobs, fetchJobs]);
+
+  const retry = async (job: Job) => {
+    if (retryingId) return;
+    setRetryingId(job.id);
+
+    try {
+      const res = await fetch('/api/admin/jobs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(csrfToken ? { 'x-csrf-token': csrfToken } : {}),
+        },
+        body: JSON.stringify({ job_id: job.id }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to retry job');
+      }
+
+      await fetchJobs();
+    } catch (err) {
+      console.error('Retry job error:', err);
+      alert(err instanceof Error ? err.message : 'Failed to retry job');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="h-8 w-8 animate-spin text-zinc-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-6">
+        <h1 className="flex items-center gap-2 text-2xl font-bold text-zinc-900 dark:text-white">
+          <ListChecks className="h-6 w-6" />
+          Background Jobs
+        </h1>
+        <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+          Knowledge uploads, resume indexing and index rebuilds run in the background. Failed attempts are
+          retried with backoff; a job that runs out of attempts can be retried here.
+        </p>
+        <div className="mt-4 flex flex-wrap gap-2 text-sm">
+          {STATUS_FILTERS.map((filter) => (
+            <button
+              key={filter}
+              onClick={() => setStatusFilter(filter)}
+              className={`rounded-full px-3 py-1 capitalize ${statusFilter === filter ? 'bg-zinc-900 text-white dark:bg-white dark:text-zinc-900' : 'bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300'}`}
+            >
+              {filter}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 rounded-lg bg-red-50 p-3 text-sm text-red-700 dark:bg-red-900/20 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {jobs.length === 0 && !error ? (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">No jobs yet.</p>
+      ) : (
+        <div className="overflow-hidden rounded-2xl border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+          <ul className="divide-y divide-zinc-200 dark:divide-zinc-800">
+            {jobs.map((job) => {
+              const subject = jobSubject(job);
+              const outcome = jobOutcome(job);
+              return (
+                <li key={job.id} className="p-4">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className={`rounded-full px-2 py-0.5 text-xs font-medium capitalize ${STATUS_STYLES[job.status]}`}>
+                      {job.status}
+                    </span>
+                    <span className="font-medium text-zinc-900 dark:text-white">
+                      {TYPE_LABELS[job.type] || job.type}
+                    </span>
+                    {subject && <span className="text-sm text-zinc-600 dark:text-zinc-400">{subject}</span>}
+                    <span className="ml-auto text-xs text-zinc-500 dark:text-zinc-400">
+                      {new Date(job.created_at).toLocaleString()} · attempt {job.attempts}/{job.max_attempts}
+                    </span>
+                    {job.status === 'failed' && (
+                      <button
+                        onClick={() => retry(job)}
+                        disabled={retryingId === job.id}
+                        className="inline-flex items-center gap-1 rounded-lg border border-zinc-200 px-2 py-1 text-xs font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+                      >
+                        {retryingId === job.id ? (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        ) : (
+                          <RotateCcw className="h-3 w-3" />
+                        )}
+                        Retry
+                      </button>
+                    )}
+                  </div>
+
+                  {job.status === 'running' && (
+                    <div className="mt-3">
+                      <div className="h-1.5 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+                        <div className="h-full bg-blue-600 transition-all" style={{ width: `${job.progress}%` }} />
+                      </div>
+                      {job.progress_message && (
+                        <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">{job.progress_message}</p>
+                      )}
+                    </div>
+                  )}
+
+                  {job.status === 'queued' && job.error && (
+                    <p className="mt-2 text-xs text-amber-700 dark:text-amber-300">
+                      Retrying after {new Date(job.run_after).toLocaleTimeString()}: {job.error}
+                    </p>
+                  )}
+                  {job.status === 'failed' && job.error && (
+                    <p className="mt-2 text-xs text-red-700 dark:text-red-300">{job.error}</p>
+                  )}
+                  {job.status === 'succeeded' && outcome && (
+                    <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">{outcome}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { Upload, Database, FileText, Loader2, CheckCircle, AlertCircle, Trash2, X } from 'lucide-react';
+import { describeJobProgress, waitForJob } from '@/lib/jobs-client';
+import type { Job } from '@/types';
 
 function getCookieValue(name: string): string | null {
   if (typeof document === 'undefined') return null;
@@ -81,16 +83,31 @@ export default function AdminKnowledgePage() {
 
       const data = await res.json();
 
-      if (res.ok) {
+      if (!res.ok) {
+        setUploadStatus({
+          type: 'error',
+          message: data.error || 'Upload failed',
+        });
+        return;
+      }
+
+      // Parsing and embedding run as a background job; follow it until it finishes.
+      setUploadProgress(`Queued ${file.name}...`);
+      const job = await waitForJob(data.job as Job, {
+        onUpdate: (update) => setUploadProgress(`${file.name}: ${describeJobProgress(update)}`),
+      });
+
+      if (job.status === 'succeeded') {
+        const result = job.result || {};
         setUploadStatus({
           type: 'success',
-          message: `Uploaded ${data.fileName}: ${data.inserted} chunks`,
+          message: `Uploaded ${result.file_name}: ${result.added} new, ${result.unchanged} unchanged, ${result.removed} removed chunks`,
         });
         fetchData();
       } else {
         setUploadStatus({
           type: 'error',
-          message: data.error || 'Upload failed',
+          message: job.error || 'Upload failed',
         });
       }
     } catch (error) {
@@ -3,7 +3,9 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { Code, FileText, Briefcase, Database, ScrollText, BarChart3, LogOut, RefreshCw, Loader2, CheckCircle, AlertCircle, IdCard, Building2, Settings } from 'lucide-react';
+import { Code, FileText, Briefcase, Database, ScrollText, BarChart3, LogOut, RefreshCw, Loader2, CheckCircle, AlertCircle, IdCard, Building2, Settings, MessagesSquare, Table2, History, ListChecks } from 'lucide-react';
+import { describeJobProgress, waitForJob } from '@/lib/jobs-client';
+import type { Job } from '@/types';
 
 function getCookieValue(name: string): string | null {
   if (typeof document === 'undefined') return null;
@@ -17,6 +19,7 @@ export default function AdminPage() {
   const [isRebuilding, setIsRebuilding] = useState(false);
   const [rebuildStatus, setRebuildStatus] = useState<'idle' | 'success' | 'error'>('idle');
   const [rebuildMessage, setRebuildMessage] = useState('');
+  const [rebuildProgress, setRebuildProgress] = useState('');
   const router = useRouter();
 
   const handleLogout = async () => {
@@ -42,18 +45,32 @@ export default function AdminPage() {
       });
       const data = await response.json();
 
-      if (response.ok) {
+      if (!response.ok) {
+        setRebuildStatus('error');
+        setRebuildMessage(data.error || 'Failed to rebuild');
+        return;
+      }
+
+      // The rebuild runs as a background job; follow it until it finishes.
+      const job = await waitForJob(data.job as Job, {
+        onUpdate: (update) => setRebuildProgress(describeJobProgress(update)),
+      });
+      if (job.status === 'succeeded') {
+        const totals = (job.result?.totals || {}) as { added?: number; unchanged?: number; removed?: number };
         setRebuildStatus('success');
-        setRebuildMessage(`Created ${data.chunks_created} chunks`);
+        setRebuildMessage(
+          `Added ${totals.added ?? 0}, unchanged ${totals.unchanged ?? 0}, removed ${totals.removed ?? 0} chunks`
+        );
       } else {
         setRebuildStatus('error');
-        setRebuildMessage(data.error || 'Failed to rebuild');
+        setRebuildMessage(job.error || 'Failed to rebuild');
       }
     } catch {
       setRebuildStatus('error');
       setRebuildMessage('Network error');
     } finally {
       setIsRebuilding(false);
+      setRebuildProgress('');
     }
   };
 
@@ -107,6 +124,34 @@ export default function AdminPage() {
       href: '/admin/knowledge',
       color: 'from-orange-500 to-orange-600',
     },
+    {
+      title: 'Conversations',
+      description: 'Review and correct chat answers',
+      icon: MessagesSquare,
+      href: '/admin/conversations',
+      color: 'from-violet-500 to-violet-600',
+    },
+    {
+      title: 'JD Triage',
+      description: 'Batch-match job descriptions',
+      icon: Table2,
+      href: '/admin/jd-match',
+      color: 'from-rose-500 to-rose-600',
+    },
+    {
+      title: 'Jobs',
+      description: 'Track uploads, indexing and rebuilds',
+      icon: ListChecks,
+      href: '/admin/jobs',
+      color: 'from-lime-500 to-lime-600',
+    },
+    {
+      title: 'Revisions',
+      description: 'Compare and restore past versions',
+      icon: History,
+      href: '/admin/revisions',
+      color: 'from-amber-500 to-amber-600',
+    },
     {
       title: 'Analytics',
       description: 'View funnel + event metrics',
@@ -188,6 +233,10 @@ export default function AdminPage() {
             )}
           </button>
 
+          {isRebuilding && rebuildProgress && (
+            <div className="text-sm text-zinc-600 dark:text-zinc-400">{rebuildProgress}</div>
+          )}
+
           {rebuildStatus === 'success' && (
             <div className="flex items-center gap-2 text-sm text-green-600">
               <CheckCircle className="h-4 w-4" />
@@ -1,7 +1,8 @@
 'use client';
 
 import { useEffect, useMemo, useState } from 'react';
-import { Plus, Edit, Trash2, Eye, EyeOff, Loader2, X, Save, Star } from 'lucide-react';
+import Link from 'next/link';
+import { Plus, Edit, Trash2, Eye, EyeOff, Loader2, X, Save, Star, History, Link2 } from 'lucide-react';
 import type { Project } from '@/types';
 import { slugify } from '@/lib/slug';
 
@@ -12,6 +13,14 @@ function getCookieValue(name: string): string | null {
   return match ? decodeURIComponent(match[1] || '') : null;
 }
 
+// <input type="datetime-local"> works in local time without a zone; the API stores UTC.
+function toDateTimeLocalValue(iso: string | null | undefined): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
 type ProjectDraft = {
   id?: string;
   title: string;
@@ -24,6 +33,7 @@ type ProjectDraft = {
   article_url: string;
   tech_stack: string;
   status: 'draft' | 'published' | 'archived';
+  scheduledAt: string;
   is_featured: boolean;
   display_order: number;
 };
@@ -39,6 +49,7 @@ const emptyDraft: ProjectDraft = {
   article_url: '',
   tech_stack: '',
   status: 'draft',
+  scheduledAt: '',
   is_featured: false,
   display_order: 0,
 };
@@ -51,6 +62,7 @@ export default function AdminProjectsPage() {
   const [isSaving, setIsSaving] = useState(false);
   const [slugTouched, setSlugTouched] = useState(false);
   const [detailsSupported, setDetailsSupported] = useState<boolean | null>(null);
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
 
   const csrfToken = useMemo(() => getCookieValue('chengai_csrf'), []);
 
@@ -91,6 +103,7 @@ export default function AdminProjectsPage() {
       article_url: project.article_url || '',
       tech_stack: Array.isArray(project.tech_stack) ? project.tech_stack.join(', ') : '',
       status: project.status,
+      scheduledAt: toDateTimeLocalValue(project.scheduled_at),
       is_featured: project.is_featured,
       display_order: project.display_order,
     });
@@ -125,6 +138,9 @@ export default function AdminProjectsPage() {
           .map((s) => s.trim())
           .filter(Boolean),
         status: draft.status,
+        // Only drafts can be scheduled; saving with any other status clears the schedule.
+        scheduled_at:
+          draft.status === 'draft' && draft.scheduledAt ? new Date(draft.scheduledAt).toISOString() : null,
         is_featured: draft.is_featured,
         display_order: Number.isFinite(draft.display_order) ? draft.display_order : 0,
       };
@@ -177,6 +193,39 @@ export default function AdminProjectsPage() {
     }
   };
 
+  const copyPreviewLink = async (project: Project) => {
+    if (previewingId) return;
+    setPreviewingId(project.id);
+
+    try {
+      const res = await fetch('/api/admin/preview', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(csrfToken ? { 'x-csrf-token': csrfToken } : {}),
+        },
+        body: JSON.stringify({ entity_type: 'project', id: project.id }),
+      });
+
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || 'Failed to create preview link');
+
+      const url = `${window.location.origin}${data.path}`;
+      const expires = new Date(data.expires_at).toLocaleString();
+      try {
+        await navigator.clipboard.writeText(url);
+        alert(`Preview link copied (expires ${expires}).`);
+      } catch {
+        prompt(`Preview link (expires ${expires}):`, url);
+      }
+    } catch (error) {
+      console.error('Preview link error:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create preview link');
+    } finally {
+      setPreviewingId(null);
+    }
+  };
+
   const remove = async (id: string) => {
     if (!confirm('Delete this project? (soft delete)')) return;
 
@@ -260,7 +309,10 @@ export default function AdminProjectsPage() {
                     {project.title}
                   </h3>
                   <p className="text-sm text-zinc-500 dark:text-zinc-400">
-                    {project.status} • Order: {project.display_order}
+                    {project.status === 'draft' && project.scheduled_at
+                      ? `scheduled • ${new Date(project.scheduled_at).toLocaleString()}`
+                      : project.status}{' '}
+                    • Order: {project.display_order}
                   </p>
                 </div>
               </div>
@@ -276,6 +328,28 @@ export default function AdminProjectsPage() {
                     <EyeOff className="h-4 w-4" />
                   )}
                 </button>
+                {project.status !== 'published' && (
+                  <button
+                    onClick={() => copyPreviewLink(project)}
+                    disabled={previewingId !== null}
+                    className="p-2 text-zinc-400 hover:text-blue-600 disabled:opacity-50"
+                    aria-label="Copy preview link"
+                    title="Copy preview link"
+                  >
+                    {previewingId === project.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Link2 className="h-4 w-4" />
+                    )}
+                  </button>
+                )}
+                <Link
+                  href={`/admin/revisions?type=project&id=${project.id}`}
+                  className="p-2 text-zinc-400 hover:text-blue-600"
+                  aria-label="History"
+                >
+                  <History className="h-4 w-4" />
+                </Link>
                 <button
                   onClick={() => openEdit(project)}
                   className="p-2 text-zinc-400 hover:text-blue-600"
@@ -429,7 +503,24 @@ export default function AdminProjectsPage() {
                     <option value="archived">archived</option>
                   </select>
                 </label>
+
+                {draft.status === 'draft' && (
+                  <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-200">
+                    Publish at
+                    <input
+                      type="datetime-local"
+                      value={draft.scheduledAt}
+                      onChange={(e) => setDraft((d) => ({ ...d, scheduledAt: e.target.value }))}
+                      className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-sm dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+                    />
+                  </label>
+                )}
               </div>
+              {draft.status === 'draft' && (
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  Leave &quot;Publish at&quot; empty to keep this a draft; otherwise it goes live (and is indexed for chat) at that time.
+                </p>
+              )}
             </div>
 
             <div className="mt-5 flex justify-end gap-2">
@@ -2,6 +2,8 @@
 
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { FileUp, Loader2, CheckCircle, AlertCircle, Trash2, Download } from 'lucide-react';
+import { describeJobProgress, waitForJob } from '@/lib/jobs-client';
+import type { Job } from '@/types';
 
 function getCookieValue(name: string): string | null {
   if (typeof document === 'undefined') return null;
@@ -27,6 +29,7 @@ export default function AdminResumePage() {
   const [resume, setResume] = useState<ResumeInfo | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isUploading, setIsUploading] = useState(false);
+  const [indexProgress, setIndexProgress] = useState('');
   const [status, setStatus] = useState<{ type: 'success' | 'warning' | 'error'; message: string } | null>(
     null
   );
@@ -69,20 +72,38 @@ export default function AdminResumePage() {
         throw new Error(data?.error || 'Upload failed');
       }
 
+      // The file is stored; indexing and skill import run as a background job.
+      await fetchResume();
+      setIndexProgress('Indexing queued...');
+      const job = await waitForJob(data.job as Job, {
+        onUpdate: (update) => setIndexProgress(describeJobProgress(update)),
+      });
+      if (job.status === 'failed') {
+        setStatus({
+          type: 'warning',
+          message: `Resume uploaded, but indexing failed: ${job.error || 'unknown error'}. Retry it from Admin > Jobs.`,
+        });
+        return;
+      }
+
+      const result = (job.result || {}) as {
+        indexed?: boolean;
+        skills?: { added?: number } | null;
+        warning?: string | null;
+      };
       const parts: string[] = [];
-      parts.push(data?.indexed ? 'Resume uploaded and indexed.' : 'Resume uploaded.');
-      if (data?.skills?.added) {
-        parts.push(`Imported ${data.skills.added} skills into Skills.`);
+      parts.push(result.indexed ? 'Resume uploaded and indexed.' : 'Resume uploaded.');
+      if (result.skills?.added) {
+        parts.push(`Imported ${result.skills.added} skills into Skills.`);
       }
-      if (data?.warning) {
-        parts.push(String(data.warning));
+      if (result.warning) {
+        parts.push(String(result.warning));
       }
 
       setStatus({
-        type: data?.warning ? 'warning' : 'success',
+        type: result.warning ? 'warning' : 'success',
         message: parts.join(' '),
       });
-      await fetchResume();
     } catch (error) {
       console.error(error);
       setStatus({
@@ -91,6 +112,7 @@ export default function AdminResumePage() {
       });
     } finally {
       setIsUploading(false);
+      setIndexProgress('');
     }
   };
 
@@ -204,7 +226,9 @@ export default function AdminResumePage() {
                 }}
               />
             </label>
-            <p className="text-xs text-zinc-500 dark:text-zinc-400">PDF or DOCX (recommended: PDF)</p>
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              {indexProgress || 'PDF or DOCX (recommended: PDF)'}
+            </p>
           </div>
         </div>
 
@@ -0,0 +1,17 @@
+import RevisionHistory from '@/components/admin/RevisionHistory';
+import type { RevisionEntityType } from '@/types';
+
+const ENTITY_TYPES: RevisionEntityType[] = ['project', 'article', 'experience', 'story', 'skill'];
+
+export default async function AdminRevisionsPage({
+  searchParams: searchParamsPromise,
+}: {
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const searchParams = await searchParamsPromise;
+  const rawType = typeof searchParams?.type === 'string' ? searchParams.type : null;
+  const entityType = ENTITY_TYPES.find((t) => t === rawType) ?? null;
+  const entityId = entityType && typeof searchParams?.id === 'string' ? searchParams.id : null;
+
+  return <RevisionHistory key={`${entityType}:${entityId}`} entityType={entityType} entityId={entityId} />;
+}
@@ -5,6 +5,8 @@ import { AlertCircle, CheckCircle, Eye, EyeOff, Loader2, RotateCcw, Save } from
 import {
   DEFAULT_SITE_SETTINGS,
   mergeSiteSettings,
+  type EndpointRateLimits,
+  type RateLimitRule,
   type SiteSettings,
 } from '@/lib/site-settings-types';
 
@@ -115,6 +117,32 @@ export default function AdminSettingsPage() {
     }));
   };
 
+  const setRateLimitsEnabled = (enabled: boolean) => {
+    setSettings((current) => ({
+      ...current,
+      rateLimits: { ...current.rateLimits, enabled },
+    }));
+  };
+
+  const setRateLimit = (
+    endpoint: 'chat' | 'jdMatch' | 'search',
+    bucket: keyof EndpointRateLimits,
+    key: keyof RateLimitRule,
+    value: string
+  ) => {
+    const parsed = Math.max(1, Math.floor(Number(value) || 1));
+    setSettings((current) => ({
+      ...current,
+      rateLimits: {
+        ...current.rateLimits,
+        [endpoint]: {
+          ...current.rateLimits[endpoint],
+          [bucket]: { ...current.rateLimits[endpoint][bucket], [key]: parsed },
+        },
+      },
+    }));
+  };
+
   const handleSave = async () => {
     setIsSaving(true);
     setStatus(null);
@@ -335,6 +363,138 @@ export default function AdminSettingsPage() {
               <Toggle label="Chat" checked={settings.visibility.chatNav} onChange={(v) => setVisibility('chatNav', v)} />
             </div>
           </section>
+
+          <section className="rounded-2xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-zinc-900">
+            <h2 className="text-lg font-semibold text-zinc-900 dark:text-white">Rate Limits</h2>
+            <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">
+              Token buckets for public chat, JD match and site search. Burst is how many requests can be made back to back; refill is how many tokens come back each minute.
+            </p>
+            <div className="mt-4">
+              <Toggle label="Enable rate limiting" checked={settings.rateLimits.enabled} onChange={setRateLimitsEnabled} />
+            </div>
+            <div className="mt-4 grid gap-4 md:grid-cols-2">
+              <label className="space-y-1.5">
+                <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Chat per visitor — burst</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.rateLimits.chat.perVisitor.burst}
+                  onChange={(e) => setRateLimit('chat', 'perVisitor', 'burst', e.target.value)}
+                  className={fieldClass}
+                />
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Chat per visitor — refill / minute</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.rateLimits.chat.perVisitor.perMinute}
+                  onChange={(e) => setRateLimit('chat', 'perVisitor', 'perMinute', e.target.value)}
+                  className={fieldClass}
+                />
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Chat per IP — burst</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.rateLimits.chat.perIp.burst}
+                  onChange={(e) => setRateLimit('chat', 'perIp', 'burst', e.target.value)}
+                  className={fieldClass}
+                />
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Chat per IP — refill / minute</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.rateLimits.chat.perIp.perMinute}
+                  onChange={(e) => setRateLimit('chat', 'perIp', 'perMinute', e.target.value)}
+                  className={fieldClass}
+                />
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">JD Match per visitor — burst</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.rateLimits.jdMatch.perVisitor.burst}
+                  onChange={(e) => setRateLimit('jdMatch', 'perVisitor', 'burst', e.target.value)}
+                  className={fieldClass}
+                />
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">JD Match per visitor — refill / minute</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.rateLimits.jdMatch.perVisitor.perMinute}
+                  onChange={(e) => setRateLimit('jdMatch', 'perVisitor', 'perMinute', e.target.value)}
+                  className={fieldClass}
+                />
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">JD Match per IP — burst</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.rateLimits.jdMatch.perIp.burst}
+                  onChange={(e) => setRateLimit('jdMatch', 'perIp', 'burst', e.target.value)}
+                  className={fieldClass}
+                />
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">JD Match per IP — refill / minute</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.rateLimits.jdMatch.perIp.perMinute}
+                  onChange={(e) => setRateLimit('jdMatch', 'perIp', 'perMinute', e.target.value)}
+                  className={fieldClass}
+                />
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Search per visitor — burst</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.rateLimits.search.perVisitor.burst}
+                  onChange={(e) => setRateLimit('search', 'perVisitor', 'burst', e.target.value)}
+                  className={fieldClass}
+                />
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Search per visitor — refill / minute</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.rateLimits.search.perVisitor.perMinute}
+                  onChange={(e) => setRateLimit('search', 'perVisitor', 'perMinute', e.target.value)}
+                  className={fieldClass}
+                />
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Search per IP — burst</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.rateLimits.search.perIp.burst}
+                  onChange={(e) => setRateLimit('search', 'perIp', 'burst', e.target.value)}
+                  className={fieldClass}
+                />
+              </label>
+              <label className="space-y-1.5">
+                <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">Search per IP — refill / minute</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={settings.rateLimits.search.perIp.perMinute}
+                  onChange={(e) => setRateLimit('search', 'perIp', 'perMinute', e.target.value)}
+                  className={fieldClass}
+                />
+              </label>
+            </div>
+          </section>
         </div>
       )}
     </div>
@@ -1,8 +1,10 @@
 'use client';
 
 import { useEffect, useMemo, useState } from 'react';
-import { Plus, Edit, Trash2, Loader2, X, Save, Star } from 'lucide-react';
-import type { Skill } from '@/types';
+import Link from 'next/link';
+import { Plus, Edit, Trash2, Loader2, X, Save, Star, RotateCcw, RefreshCw, ListChecks, History } from 'lucide-react';
+import type { Skill, SkillEvidence } from '@/types';
+import { KNOWN_SKILL_CATEGORIES, type SkillTaxonomyNode } from '@/lib/skill-taxonomy';
 
 function getCookieValue(name: string): string | null {
   if (typeof document === 'undefined') return null;
@@ -21,6 +23,29 @@ type SkillDraft = {
   is_primary: boolean;
 };
 
+type TaxonomyEntry = SkillTaxonomyNode & { builtin: boolean; overridden: boolean };
+
+type TaxonomyDraft = {
+  isNew: boolean;
+  name: string;
+  category: string;
+  aliases: string;
+  parents: string;
+  implies: string;
+};
+
+function formatYears(years: number | null | undefined): string {
+  if (years == null) return '—';
+  return years < 1 ? '<1y' : `${years}y`;
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
 const emptyDraft: SkillDraft = {
   name: '',
   category: 'other',
@@ -36,13 +61,46 @@ export default function AdminSkillsPage() {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [draft, setDraft] = useState<SkillDraft>(emptyDraft);
   const [isSaving, setIsSaving] = useState(false);
+  const [taxonomy, setTaxonomy] = useState<TaxonomyEntry[]>([]);
+  const [taxonomyMigrated, setTaxonomyMigrated] = useState(true);
+  const [taxonomyFilter, setTaxonomyFilter] = useState('');
+  const [taxonomyDraft, setTaxonomyDraft] = useState<TaxonomyDraft | null>(null);
+  const [isSavingTaxonomy, setIsSavingTaxonomy] = useState(false);
+  const [isComputing, setIsComputing] = useState(false);
+  const [evidenceSkill, setEvidenceSkill] = useState<Skill | null>(null);
+  const [evidence, setEvidence] = useState<SkillEvidence[] | null>(null);
 
   const csrfToken = useMemo(() => getCookieValue('chengai_csrf'), []);
 
+  const categoryOptions = useMemo(
+    () => Array.from(new Set<string>([...KNOWN_SKILL_CATEGORIES, ...taxonomy.map((n) => n.category)])).sort(),
+    [taxonomy]
+  );
+
+  const visibleTaxonomy = useMemo(() => {
+    const q = taxonomyFilter.trim().toLowerCase();
+    if (!q) return taxonomy;
+    return taxonomy.filter((n) =>
+      [n.name, n.category, ...n.aliases, ...n.parents, ...n.implies].some((v) => v.toLowerCase().includes(q))
+    );
+  }, [taxonomy, taxonomyFilter]);
+
   useEffect(() => {
     fetchSkills();
+    fetchTaxonomy();
   }, []);
 
+  const fetchTaxonomy = async () => {
+    try {
+      const response = await fetch('/api/admin/skills/taxonomy');
+      const data = await response.json();
+      setTaxonomy(Array.isArray(data?.nodes) ? data.nodes : []);
+      setTaxonomyMigrated(data?.migrated !== false);
+    } catch (error) {
+      console.error('Error fetching skill taxonomy:', error);
+    }
+  };
+
   const fetchSkills = async () => {
     try {
       const response = await fetch('/api/admin/skills');
@@ -94,7 +152,7 @@ export default function AdminSkillsPage() {
       const payload: Record<string, unknown> = {
         ...(draft.id ? { id: draft.id } : {}),
         name: draft.name.trim(),
-        category: draft.category,
+        category: draft.category.trim().toLowerCase() || 'other',
         proficiency: Math.max(1, Math.min(5, Number(draft.proficiency) || 3)),
         years_of_experience: years,
         icon: draft.icon.trim() || null,
@@ -125,6 +183,46 @@ export default function AdminSkillsPage() {
     }
   };
 
+  const recomputeEvidence = async () => {
+    if (isComputing) return;
+    setIsComputing(true);
+
+    try {
+      const res = await fetch('/api/admin/skills/evidence', {
+        method: 'POST',
+        headers: csrfToken ? { 'x-csrf-token': csrfToken } : undefined,
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to compute skill evidence');
+      }
+
+      await fetchSkills();
+    } catch (error) {
+      console.error('Compute skill evidence error:', error);
+      alert(error instanceof Error ? error.message : 'Failed to compute skill evidence');
+    } finally {
+      setIsComputing(false);
+    }
+  };
+
+  const openEvidence = async (skill: Skill) => {
+    setEvidenceSkill(skill);
+    setEvidence(null);
+
+    try {
+      const res = await fetch(`/api/admin/skills/evidence?skill_id=${encodeURIComponent(skill.id)}`);
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(data?.error || 'Failed to load evidence');
+      setEvidence(Array.isArray(data) ? data : []);
+    } catch (error) {
+      console.error('Load skill evidence error:', error);
+      alert(error instanceof Error ? error.message : 'Failed to load evidence');
+      setEvidenceSkill(null);
+    }
+  };
+
   const remove = async (id: string) => {
     if (!confirm('Delete this skill?')) return;
 
@@ -146,6 +244,78 @@ export default function AdminSkillsPage() {
     }
   };
 
+  const openTaxonomyEdit = (node?: TaxonomyEntry) => {
+    setTaxonomyDraft(
+      node
+        ? {
+            isNew: false,
+            name: node.name,
+            category: node.category,
+            aliases: node.aliases.join(', '),
+            parents: node.parents.join(', '),
+            implies: node.implies.join(', '),
+          }
+        : { isNew: true, name: '', category: 'other', aliases: '', parents: '', implies: '' }
+    );
+  };
+
+  const saveTaxonomy = async () => {
+    if (!taxonomyDraft || isSavingTaxonomy) return;
+    setIsSavingTaxonomy(true);
+
+    try {
+      const res = await fetch('/api/admin/skills/taxonomy', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(csrfToken ? { 'x-csrf-token': csrfToken } : {}),
+        },
+        body: JSON.stringify({
+          name: taxonomyDraft.name.trim(),
+          category: taxonomyDraft.category.trim() || 'other',
+          aliases: splitList(taxonomyDraft.aliases),
+          parents: splitList(taxonomyDraft.parents),
+          implies: splitList(taxonomyDraft.implies),
+        }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to save taxonomy entry');
+      }
+
+      await fetchTaxonomy();
+      setTaxonomyDraft(null);
+    } catch (error) {
+      console.error('Save taxonomy error:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save taxonomy entry');
+    } finally {
+      setIsSavingTaxonomy(false);
+    }
+  };
+
+  const resetTaxonomy = async (node: TaxonomyEntry) => {
+    const prompt = node.builtin ? `Revert ${node.name} to the built-in definition?` : `Delete ${node.name} from the taxonomy?`;
+    if (!confirm(prompt)) return;
+
+    try {
+      const res = await fetch(`/api/admin/skills/taxonomy?name=${encodeURIComponent(node.name)}`, {
+        method: 'DELETE',
+        headers: csrfToken ? { 'x-csrf-token': csrfToken } : undefined,
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to reset taxonomy entry');
+      }
+
+      await fetchTaxonomy();
+    } catch (error) {
+      console.error('Reset taxonomy error:', error);
+      alert(error instanceof Error ? error.message : 'Failed to reset taxonomy entry');
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
@@ -165,13 +335,23 @@ export default function AdminSkillsPage() {
             Add, edit, or remove your skills
           </p>
         </div>
-        <button
-          onClick={openCreate}
-          className="flex items-center gap-2 rounded-xl bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
-        >
-          <Plus className="h-4 w-4" />
-          Add Skill
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={recomputeEvidence}
+            disabled={isComputing}
+            className="flex items-center gap-2 rounded-xl border border-zinc-200 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-200 dark:hover:bg-zinc-800"
+          >
+            {isComputing ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            Recompute Evidence
+          </button>
+          <button
+            onClick={openCreate}
+            className="flex items-center gap-2 rounded-xl bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+          >
+            <Plus className="h-4 w-4" />
+            Add Skill
+          </button>
+        </div>
       </div>
 
       {skills.length === 0 ? (
@@ -194,11 +374,34 @@ export default function AdminSkillsPage() {
                     {skill.name}
                   </h3>
                   <p className="text-xs text-zinc-500 dark:text-zinc-400">
-                    {skill.category} • Level {skill.proficiency}/5
+                    {skill.category} • Declared {skill.proficiency}/5, {formatYears(skill.years_of_experience)}
                   </p>
+                  {skill.evidence_computed_at && (
+                    <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                      Computed{' '}
+                      {skill.computed_proficiency ? `${skill.computed_proficiency}/5` : '—'},{' '}
+                      {formatYears(skill.computed_years)} • {skill.evidence_count ?? 0} sources
+                    </p>
+                  )}
                 </div>
               </div>
               <div className="flex items-center gap-1">
+                {skill.evidence_computed_at && (
+                  <button
+                    onClick={() => openEvidence(skill)}
+                    className="p-2 text-zinc-400 hover:text-blue-600"
+                    aria-label="Evidence"
+                  >
+                    <ListChecks className="h-4 w-4" />
+                  </button>
+                )}
+                <Link
+                  href={`/admin/revisions?type=skill&id=${skill.id}`}
+                  className="p-2 text-zinc-400 hover:text-blue-600"
+                  aria-label="History"
+                >
+                  <History className="h-4 w-4" />
+                </Link>
                 <button
                   onClick={() => openEdit(skill)}
                   className="p-2 text-zinc-400 hover:text-blue-600"
@@ -219,6 +422,214 @@ export default function AdminSkillsPage() {
         </div>
       )}
 
+      <div className="mt-12 mb-4 flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-white">Skill Taxonomy</h2>
+          <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+            Aliases, parents and implied skills used by resume import, JD matching and the skills page.
+            Knowing a skill counts toward its parents and implied skills (Next.js → React → JavaScript).
+          </p>
+          {!taxonomyMigrated && (
+            <p className="mt-1 text-xs text-amber-600 dark:text-amber-400">
+              Run database/migrations/20261018_add_skill_taxonomy.sql to save changes.
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            value={taxonomyFilter}
+            onChange={(e) => setTaxonomyFilter(e.target.value)}
+            placeholder="Filter"
+            className="w-40 rounded-xl border border-zinc-200 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+          />
+          <button
+            onClick={() => openTaxonomyEdit()}
+            className="flex items-center gap-2 rounded-xl border border-zinc-200 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-200 dark:hover:bg-zinc-800"
+          >
+            <Plus className="h-4 w-4" />
+            Add Entry
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border border-zinc-200 dark:border-zinc-700">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-zinc-50 text-xs uppercase text-zinc-500 dark:bg-zinc-800/50 dark:text-zinc-400">
+            <tr>
+              <th className="px-4 py-2">Skill</th>
+              <th className="px-4 py-2">Aliases</th>
+              <th className="px-4 py-2">Parents</th>
+              <th className="px-4 py-2">Implies</th>
+              <th className="px-4 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-zinc-200 dark:divide-zinc-700">
+            {visibleTaxonomy.map((node) => (
+              <tr key={node.name} className="text-zinc-700 dark:text-zinc-300">
+                <td className="px-4 py-2">
+                  <div className="font-medium text-zinc-900 dark:text-white">{node.name}</div>
+                  <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                    {node.category}
+                    {!node.builtin && ' • custom'}
+                    {node.builtin && node.overridden && ' • edited'}
+                  </div>
+                </td>
+                <td className="px-4 py-2 text-xs">{node.aliases.join(', ') || '—'}</td>
+                <td className="px-4 py-2 text-xs">{node.parents.join(', ') || '—'}</td>
+                <td className="px-4 py-2 text-xs">{node.implies.join(', ') || '—'}</td>
+                <td className="px-4 py-2">
+                  <div className="flex items-center justify-end gap-1">
+                    <button
+                      onClick={() => openTaxonomyEdit(node)}
+                      className="p-2 text-zinc-400 hover:text-blue-600"
+                      aria-label="Edit"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    {node.overridden && (
+                      <button
+                        onClick={() => resetTaxonomy(node)}
+                        className="p-2 text-zinc-400 hover:text-red-600"
+                        aria-label={node.builtin ? 'Revert' : 'Delete'}
+                      >
+                        {node.builtin ? <RotateCcw className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                      </button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <datalist id="skill-categories">
+        {categoryOptions.map((c) => (
+          <option key={c} value={c} />
+        ))}
+      </datalist>
+
+      {evidenceSkill && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-2xl rounded-2xl bg-white p-6 shadow-xl dark:bg-zinc-900">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="text-lg font-semibold text-zinc-900 dark:text-white">
+                  Evidence for {evidenceSkill.name}
+                </h2>
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  Declared {evidenceSkill.proficiency}/5, {formatYears(evidenceSkill.years_of_experience)} • Computed{' '}
+                  {evidenceSkill.computed_proficiency ? `${evidenceSkill.computed_proficiency}/5` : '—'},{' '}
+                  {formatYears(evidenceSkill.computed_years)}
+                </p>
+              </div>
+              <button onClick={() => setEvidenceSkill(null)} className="p-1 text-zinc-400 hover:text-zinc-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {evidence === null ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-zinc-400" />
+              </div>
+            ) : evidence.length === 0 ? (
+              <p className="py-6 text-center text-sm text-zinc-500 dark:text-zinc-400">
+                No projects, experiences or documents mention this skill.
+              </p>
+            ) : (
+              <ul className="max-h-[60vh] divide-y divide-zinc-200 overflow-y-auto text-sm dark:divide-zinc-700">
+                {evidence.map((row) => (
+                  <li key={row.id} className="flex items-start justify-between gap-4 py-2">
+                    <div>
+                      <div className="font-medium text-zinc-900 dark:text-white">{row.source_title}</div>
+                      <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                        {row.source_type}
+                        {row.detail ? ` • ${row.detail}` : ''}
+                      </div>
+                    </div>
+                    {row.start_date && (
+                      <span className="shrink-0 text-xs text-zinc-500 dark:text-zinc-400">
+                        {row.start_date.slice(0, 7)} – {row.end_date ? row.end_date.slice(0, 7) : 'now'}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+
+      {taxonomyDraft && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+          <div className="w-full max-w-lg rounded-2xl bg-white p-6 shadow-xl dark:bg-zinc-900">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-zinc-900 dark:text-white">
+                {taxonomyDraft.isNew ? 'New Taxonomy Entry' : `Edit ${taxonomyDraft.name}`}
+              </h2>
+              <button
+                onClick={() => !isSavingTaxonomy && setTaxonomyDraft(null)}
+                className="p-1 text-zinc-400 hover:text-zinc-600"
+              >
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="grid gap-3">
+              <div className="grid gap-3 sm:grid-cols-2">
+                <input
+                  value={taxonomyDraft.name}
+                  onChange={(e) => setTaxonomyDraft((d) => (d ? { ...d, name: e.target.value } : d))}
+                  disabled={!taxonomyDraft.isNew}
+                  placeholder="Canonical name"
+                  className="w-full rounded-xl border border-zinc-200 px-4 py-2 text-sm focus:border-blue-500 focus:outline-none disabled:opacity-60 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+                />
+                <input
+                  value={taxonomyDraft.category}
+                  onChange={(e) => setTaxonomyDraft((d) => (d ? { ...d, category: e.target.value } : d))}
+                  list="skill-categories"
+                  placeholder="Category"
+                  className="w-full rounded-xl border border-zinc-200 px-4 py-2 text-sm focus:border-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+                />
+              </div>
+              {(
+                [
+                  ['aliases', 'Aliases (comma-separated, e.g. nextjs, next js)'],
+                  ['parents', 'Parents (broader skills, e.g. React)'],
+                  ['implies', 'Implies (other skills this demonstrates)'],
+                ] as const
+              ).map(([field, placeholder]) => (
+                <input
+                  key={field}
+                  value={taxonomyDraft[field]}
+                  onChange={(e) => setTaxonomyDraft((d) => (d ? { ...d, [field]: e.target.value } : d))}
+                  placeholder={placeholder}
+                  className="w-full rounded-xl border border-zinc-200 px-4 py-2 text-sm focus:border-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+                />
+              ))}
+            </div>
+
+            <div className="mt-5 flex justify-end gap-2">
+              <button
+                onClick={() => setTaxonomyDraft(null)}
+                className="rounded-xl border border-zinc-200 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-200 dark:hover:bg-zinc-800"
+                disabled={isSavingTaxonomy}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveTaxonomy}
+                disabled={isSavingTaxonomy || !taxonomyDraft.name.trim()}
+                className="inline-flex items-center gap-2 rounded-xl bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {isSavingTaxonomy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {isModalOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
           <div className="w-full max-w-lg rounded-2xl bg-white p-6 shadow-xl dark:bg-zinc-900">
@@ -239,20 +650,13 @@ export default function AdminSkillsPage() {
                 className="w-full rounded-xl border border-zinc-200 px-4 py-2 text-sm focus:border-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
               />
               <div className="grid gap-3 sm:grid-cols-2">
-                <select
+                <input
                   value={draft.category}
-                  onChange={(e) =>
-                    setDraft((d) => ({ ...d, category: e.target.value as SkillDraft['category'] }))
-                  }
-                  className="w-full rounded-xl border border-zinc-200 bg-white px-4 py-2 text-sm text-zinc-700 focus:border-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
-                >
-                  <option value="language">language</option>
-                  <option value="framework">framework</option>
-                  <option value="tool">tool</option>
-                  <option value="platform">platform</option>
-                  <option value="methodology">methodology</option>
-                  <option value="other">other</option>
-                </select>
+                  onChange={(e) => setDraft((d) => ({ ...d, category: e.target.value }))}
+                  list="skill-categories"
+                  placeholder="Category"
+                  className="w-full rounded-xl border border-zinc-200 px-4 py-2 text-sm focus:border-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+                />
                 <input
                   value={draft.icon}
                   onChange={(e) => setDraft((d) => ({ ...d, icon: e.target.value }))}
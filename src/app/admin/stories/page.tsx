@@ -1,7 +1,8 @@
 'use client';
 
 import { useEffect, useMemo, useState } from 'react';
-import { Plus, Edit, Trash2, Loader2, X, Save } from 'lucide-react';
+import Link from 'next/link';
+import { Plus, Edit, Trash2, Loader2, X, Save, History } from 'lucide-react';
 import type { Project, Story } from '@/types';
 
 function getCookieValue(name: string): string | null {
@@ -223,6 +224,13 @@ export default function AdminStoriesPage() {
                 </div>
               </div>
               <div className="flex items-center gap-1 shrink-0">
+                <Link
+                  href={`/admin/revisions?type=story&id=${story.id}`}
+                  className="p-2 text-zinc-400 hover:text-blue-600"
+                  aria-label="History"
+                >
+                  <History className="h-4 w-4" />
+                </Link>
                 <button
                   onClick={() => openEdit(story)}
                   className="p-2 text-zinc-400 hover:text-blue-600"
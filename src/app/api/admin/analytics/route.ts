@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
-import { supabaseAdmin, DEFAULT_OWNER_ID, isSupabaseConfigured } from '@/lib/supabase';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
 
 export const runtime = 'nodejs';
 
@@ -9,6 +10,7 @@ function isoDay(date: Date): string {
 
 export async function GET() {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -17,7 +19,7 @@ export async function GET() {
     const { data, error } = await supabaseAdmin
       .from('events')
       .select('type, created_at')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .gte('created_at', since.toISOString())
       .order('created_at', { ascending: true });
 
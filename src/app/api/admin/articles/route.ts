@@ -1,18 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { revalidateTag } from 'next/cache';
-import { supabaseAdmin, DEFAULT_OWNER_ID, isSupabaseConfigured } from '@/lib/supabase';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
 import { deleteSourceChunks, indexArticle } from '@/lib/indexer';
 import { slugify } from '@/lib/slug';
+import { recordRevision } from '@/lib/revisions';
+import { scheduleRebuild } from '@/lib/job-worker';
+import {
+  isMissingScheduleColumnError,
+  parseScheduledAt,
+  publishDueContent,
+  scheduledPublishingMigrationHint,
+} from '@/lib/publishing';
 
 export const runtime = 'nodejs';
 
-async function insertArticleWithAutoSlug(input: {
+async function insertArticleWithAutoSlug(ownerId: string, input: {
   title: string;
   slug?: string;
   content: string;
   summary: string | null;
   tags: string[];
   status: string;
+  scheduled_at: string | null;
 }) {
   const slugProvided = Boolean(input.slug?.trim());
   const baseSlug = (input.slug?.trim() || slugify(input.title)) || `article-${Date.now()}`;
@@ -21,7 +31,7 @@ async function insertArticleWithAutoSlug(input: {
     supabaseAdmin
       .from('articles')
       .insert({
-        owner_id: DEFAULT_OWNER_ID,
+        owner_id: ownerId,
         title: input.title,
         slug,
         content: input.content,
@@ -29,6 +39,8 @@ async function insertArticleWithAutoSlug(input: {
         tags: input.tags,
         status: input.status || 'draft',
         published_at: input.status === 'published' ? new Date().toISOString() : null,
+        // Only sent when set, so databases without the scheduling migration keep working.
+        ...(input.scheduled_at && input.status !== 'published' ? { scheduled_at: input.scheduled_at } : {}),
       })
       .select()
       .single();
@@ -36,7 +48,7 @@ async function insertArticleWithAutoSlug(input: {
   let { data, error } = await attemptInsert(baseSlug);
 
   if (error?.code === '23505' && !slugProvided) {
-    const unique = await ensureUniqueArticleSlug(baseSlug);
+    const unique = await ensureUniqueArticleSlug(ownerId, baseSlug);
     ({ data, error } = await attemptInsert(unique));
   }
 
@@ -44,6 +56,10 @@ async function insertArticleWithAutoSlug(input: {
     return { data: null, error: { code: '23505', message: 'Slug already exists' } as const };
   }
 
+  if (error && isMissingScheduleColumnError(error)) {
+    return { data: null, error: { code: 'SCHEDULING_NOT_SUPPORTED', message: scheduledPublishingMigrationHint() } as const };
+  }
+
   if (error) {
     return { data: null, error: { code: error.code, message: error.message } as const };
   }
@@ -51,7 +67,7 @@ async function insertArticleWithAutoSlug(input: {
   return { data, error: null };
 }
 
-async function ensureUniqueArticleSlug(base: string): Promise<string> {
+async function ensureUniqueArticleSlug(ownerId: string, base: string): Promise<string> {
   const normalizedBase = base || `article-${Date.now()}`;
   for (let i = 1; i <= 25; i++) {
     const suffix = `-${i + 1}`;
@@ -59,7 +75,7 @@ async function ensureUniqueArticleSlug(base: string): Promise<string> {
     const { data, error } = await supabaseAdmin
       .from('articles')
       .select('id')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .eq('slug', candidate)
       .maybeSingle();
     if (error) throw error;
@@ -71,14 +87,20 @@ async function ensureUniqueArticleSlug(base: string): Promise<string> {
 // GET all articles for admin
 export async function GET() {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
 
+    // Opportunistic: anything that came due since the last cron run goes live before listing.
+    await publishDueContent(ownerId).catch((error) => {
+      console.warn('Scheduled publish check failed:', error);
+    });
+
     const { data, error } = await supabaseAdmin
       .from('articles')
       .select('*')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .order('created_at', { ascending: false });
 
     if (error) throw error;
@@ -93,12 +115,13 @@ export async function GET() {
 // POST create new article
 export async function POST(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
 
     const body = await request.json();
-    const { title, slug, content, summary, tags, status } = body;
+    const { title, slug, content, summary, tags, status, scheduled_at } = body;
 
     if (!title || !content) {
       return NextResponse.json(
@@ -107,19 +130,28 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { data, error } = await insertArticleWithAutoSlug({
+    const schedule = parseScheduledAt(scheduled_at);
+    if (!schedule.ok) {
+      return NextResponse.json({ error: schedule.error }, { status: 400 });
+    }
+
+    const { data, error } = await insertArticleWithAutoSlug(ownerId, {
       title: String(title).trim(),
       slug: typeof slug === 'string' ? slug.trim() : undefined,
       content: String(content),
       summary: summary ? String(summary) : null,
       tags: Array.isArray(tags) ? tags : [],
       status: typeof status === 'string' ? status : 'draft',
+      scheduled_at: schedule.value ?? null,
     });
 
     if (error) {
       if (error.code === '23505') {
         return NextResponse.json({ error: error.message }, { status: 409 });
       }
+      if (error.code === 'SCHEDULING_NOT_SUPPORTED') {
+        return NextResponse.json({ error: error.message }, { status: 501 });
+      }
       throw new Error(error.message);
     }
 
@@ -127,6 +159,10 @@ export async function POST(request: NextRequest) {
       await indexArticle(data);
     }
 
+    await recordRevision({ ownerId, entityType: 'article', action: 'create', snapshot: data });
+
+    scheduleRebuild(ownerId);
+
     revalidateTag('articles', 'default');
     return NextResponse.json(data, { status: 201 });
   } catch (error) {
@@ -138,6 +174,7 @@ export async function POST(request: NextRequest) {
 // PUT update article
 export async function PUT(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -156,11 +193,23 @@ export async function PUT(request: NextRequest) {
       }
     }
 
+    const schedule = parseScheduledAt(updates.scheduled_at);
+    if (!schedule.ok) {
+      return NextResponse.json({ error: schedule.error }, { status: 400 });
+    }
+    if (schedule.value === undefined) {
+      delete updates.scheduled_at;
+    } else {
+      updates.scheduled_at = schedule.value;
+    }
+
     updates.updated_at = new Date().toISOString();
     
     // Set published_at when publishing
     if (status === 'published') {
       updates.status = status;
+      // Publishing by hand cancels any pending schedule.
+      updates.scheduled_at = null;
       const { data: existing } = await supabaseAdmin
         .from('articles')
         .select('published_at')
@@ -181,7 +230,7 @@ export async function PUT(request: NextRequest) {
         const { data: existing, error: existsError } = await supabaseAdmin
           .from('articles')
           .select('id')
-          .eq('owner_id', DEFAULT_OWNER_ID)
+          .eq('owner_id', ownerId)
           .eq('slug', trimmed)
           .maybeSingle();
         if (existsError) throw existsError;
@@ -190,19 +239,31 @@ export async function PUT(request: NextRequest) {
         }
         updates.slug = trimmed;
       } else if (typeof updates.title === 'string' && updates.title.trim()) {
-        updates.slug = await ensureUniqueArticleSlug(slugify(updates.title));
+        updates.slug = await ensureUniqueArticleSlug(ownerId, slugify(updates.title));
       } else {
         delete updates.slug;
       }
     }
 
-    const { data, error } = await supabaseAdmin
-      .from('articles')
-      .update(updates)
-      .eq('id', id)
-      .eq('owner_id', DEFAULT_OWNER_ID)
-      .select()
-      .single();
+    const runUpdate = () =>
+      supabaseAdmin
+        .from('articles')
+        .update(updates)
+        .eq('id', id)
+        .eq('owner_id', ownerId)
+        .select()
+        .single();
+
+    let { data, error } = await runUpdate();
+
+    if (error && isMissingScheduleColumnError(error) && 'scheduled_at' in updates) {
+      if (updates.scheduled_at) {
+        return NextResponse.json({ error: scheduledPublishingMigrationHint() }, { status: 501 });
+      }
+      // Backward compatibility: clearing a schedule is a no-op before the migration.
+      delete updates.scheduled_at;
+      ({ data, error } = await runUpdate());
+    }
 
     if (error) throw error;
 
@@ -212,6 +273,10 @@ export async function PUT(request: NextRequest) {
       await deleteSourceChunks('article', data.id);
     }
 
+    await recordRevision({ ownerId, entityType: 'article', action: 'update', snapshot: data });
+
+    scheduleRebuild(ownerId);
+
     revalidateTag('articles', 'default');
     return NextResponse.json(data);
   } catch (error) {
@@ -223,6 +288,7 @@ export async function PUT(request: NextRequest) {
 // DELETE article
 export async function DELETE(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -234,15 +300,18 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Article ID is required' }, { status: 400 });
     }
 
-    const { error } = await supabaseAdmin
+    const { data: deleted, error } = await supabaseAdmin
       .from('articles')
       .delete()
       .eq('id', id)
-      .eq('owner_id', DEFAULT_OWNER_ID);
+      .eq('owner_id', ownerId)
+      .select();
 
     if (error) throw error;
 
     await deleteSourceChunks('article', id);
+    await recordRevision({ ownerId, entityType: 'article', action: 'delete', snapshot: deleted?.[0] });
+    scheduleRebuild(ownerId);
 
     revalidateTag('articles', 'default');
     return NextResponse.json({ success: true });
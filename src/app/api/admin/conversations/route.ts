@@ -0,0 +1,364 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidateTag } from 'next/cache';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { deleteSourceChunks, indexKnowledgeText, indexStory } from '@/lib/indexer';
+import { conversationsMigrationHint, isConversationId, isMissingTableError } from '@/lib/conversations';
+import { recordRevision } from '@/lib/revisions';
+import { scheduleRebuild } from '@/lib/job-worker';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const REVIEW_MESSAGE_COLUMNS =
+  'id,conversation_id,role,content,sources,rating,correction,correction_source_type,correction_source_id,reviewed_at,created_at';
+
+type ReviewMessageRow = {
+  id: string;
+  conversation_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: string;
+  correction_source_type?: string | null;
+  correction_source_id?: string | null;
+};
+
+function isMissingColumnError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return code === '42703' || code === 'PGRST204';
+}
+
+function reviewMigrationHint() {
+  return 'Answer reviews are not enabled in your database yet. Run `database/migrations/20261018_add_message_reviews.sql` in Supabase SQL Editor, then retry.';
+}
+
+function clampText(value: string, maxChars: number): string {
+  const v = String(value || '').replace(/\s+/g, ' ').trim();
+  if (v.length <= maxChars) return v;
+  return `${v.slice(0, maxChars)}…`;
+}
+
+// The visitor question an assistant message answered (latest user message before it).
+async function getQuestionFor(ownerId: string, message: ReviewMessageRow): Promise<string> {
+  const { data } = await supabaseAdmin
+    .from('messages')
+    .select('content')
+    .eq('owner_id', ownerId)
+    .eq('conversation_id', message.conversation_id)
+    .eq('role', 'user')
+    .lte('created_at', message.created_at)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return String((data as { content?: string } | null)?.content || '').trim();
+}
+
+// Remove whatever a previous correction was indexed as (story row + chunks, or knowledge chunks).
+async function removeCorrectionSource(ownerId: string, message: ReviewMessageRow) {
+  const type = message.correction_source_type;
+  const id = message.correction_source_id;
+  if (!type || !id) return;
+
+  if (type === 'story') {
+    await deleteSourceChunks('story', id, ownerId);
+    const { data: deleted } = await supabaseAdmin.from('stories').delete().eq('owner_id', ownerId).eq('id', id).select();
+    await recordRevision({ ownerId, entityType: 'story', action: 'delete', snapshot: deleted?.[0] });
+    scheduleRebuild(ownerId);
+    revalidateTag('stories', 'default');
+    return;
+  }
+
+  await deleteSourceChunks('article', id, ownerId);
+}
+
+async function saveCorrectionAsStory(
+  ownerId: string,
+  message: ReviewMessageRow,
+  question: string,
+  correction: string
+): Promise<string> {
+  const fields = {
+    title: clampText(question ? `Q: ${question}` : 'Corrected chat answer', 120),
+    situation: question ? `A visitor asked: "${clampText(question, 600)}"` : 'A visitor asked the digital twin a question.',
+    task: 'Give an accurate, evidence-backed answer.',
+    action: correction,
+    result: 'Answer reviewed and corrected by the owner.',
+  };
+
+  const existingId = message.correction_source_type === 'story' ? message.correction_source_id : null;
+
+  const { data, error } = existingId
+    ? await supabaseAdmin
+        .from('stories')
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq('owner_id', ownerId)
+        .eq('id', existingId)
+        .select()
+        .single()
+    : await supabaseAdmin
+        .from('stories')
+        .insert({ owner_id: ownerId, ...fields, skills_demonstrated: [], is_public: true, redacted: false })
+        .select()
+        .single();
+
+  if (error) throw error;
+
+  await indexStory(data, ownerId);
+  await recordRevision({ ownerId, entityType: 'story', action: existingId ? 'update' : 'create', snapshot: data });
+  scheduleRebuild(ownerId);
+  revalidateTag('stories', 'default');
+  return data.id as string;
+}
+
+async function saveCorrectionAsKnowledge(
+  ownerId: string,
+  message: ReviewMessageRow,
+  question: string,
+  correction: string
+): Promise<string> {
+  const sourceId = `kb:correction:${message.id}`;
+  await indexKnowledgeText(
+    {
+      sourceId,
+      title: `Corrected answer: ${clampText(question || 'chat question', 120)}`,
+      content: question ? `Question: ${question}\n\nAnswer: ${correction}` : correction,
+      metadata: { input_method: 'chat_correction', message_id: message.id },
+    },
+    ownerId
+  );
+  return sourceId;
+}
+
+// GET all conversations (newest first), or one transcript with review fields (?id=)
+export async function GET(request: NextRequest) {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (id) {
+      // Ids are UUIDs; anything else can't match and would only surface as a Postgres cast error.
+      if (!isConversationId(id)) {
+        return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+      }
+
+      const { data: conversation, error } = await supabaseAdmin
+        .from('conversations')
+        .select('id,visitor_id,title,mode,share_token,created_at,updated_at')
+        .eq('owner_id', ownerId)
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!conversation) {
+        return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+      }
+
+      const { data: messages, error: messagesError } = await supabaseAdmin
+        .from('messages')
+        .select(REVIEW_MESSAGE_COLUMNS)
+        .eq('owner_id', ownerId)
+        .eq('conversation_id', id)
+        .order('created_at', { ascending: true });
+
+      if (messagesError) {
+        if (isMissingColumnError(messagesError)) {
+          return NextResponse.json({ error: reviewMigrationHint() }, { status: 500 });
+        }
+        throw messagesError;
+      }
+
+      return NextResponse.json({ conversation, messages: messages || [] });
+    }
+
+    const { data: conversations, error } = await supabaseAdmin
+      .from('conversations')
+      .select('id,visitor_id,title,mode,created_at,updated_at')
+      .eq('owner_id', ownerId)
+      .order('updated_at', { ascending: false })
+      .limit(100);
+
+    if (error) throw error;
+
+    const ids = (conversations || []).map((c) => c.id);
+    const stats = new Map<string, { messages: number; good: number; bad: number; corrected: number }>();
+
+    if (ids.length > 0) {
+      const { data: rows, error: statsError } = await supabaseAdmin
+        .from('messages')
+        .select('conversation_id,rating,correction')
+        .eq('owner_id', ownerId)
+        .in('conversation_id', ids);
+
+      if (statsError && !isMissingColumnError(statsError)) throw statsError;
+
+      for (const row of (rows || []) as Array<{
+        conversation_id: string;
+        rating?: string | null;
+        correction?: string | null;
+      }>) {
+        const s = stats.get(row.conversation_id) || { messages: 0, good: 0, bad: 0, corrected: 0 };
+        s.messages++;
+        if (row.rating === 'good') s.good++;
+        if (row.rating === 'bad') s.bad++;
+        if (row.correction) s.corrected++;
+        stats.set(row.conversation_id, s);
+      }
+    }
+
+    return NextResponse.json(
+      (conversations || []).map((c) => ({
+        ...c,
+        stats: stats.get(c.id) || { messages: 0, good: 0, bad: 0, corrected: 0 },
+      }))
+    );
+  } catch (error) {
+    if (isMissingTableError(error)) {
+      return NextResponse.json({ error: conversationsMigrationHint() }, { status: 500 });
+    }
+    console.error('Admin conversations GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT review an assistant answer: { messageId, rating?: 'good' | 'bad' | null, correction?, saveAs?: 'story' | 'knowledge' }
+export async function PUT(request: NextRequest) {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const body = await request.json();
+    const messageId = typeof body?.messageId === 'string' ? body.messageId : '';
+    if (!messageId) {
+      return NextResponse.json({ error: 'messageId is required' }, { status: 400 });
+    }
+    // Message ids are UUIDs too.
+    if (!isConversationId(messageId)) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    const { data: message, error: fetchError } = await supabaseAdmin
+      .from('messages')
+      .select('id,conversation_id,role,content,created_at,correction_source_type,correction_source_id')
+      .eq('owner_id', ownerId)
+      .eq('id', messageId)
+      .maybeSingle();
+
+    if (fetchError) {
+      if (isMissingColumnError(fetchError)) {
+        return NextResponse.json({ error: reviewMigrationHint() }, { status: 500 });
+      }
+      throw fetchError;
+    }
+    if (!message) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    const row = message as ReviewMessageRow;
+    if (row.role !== 'assistant') {
+      return NextResponse.json({ error: 'Only assistant answers can be reviewed' }, { status: 400 });
+    }
+
+    const updates: Record<string, unknown> = { reviewed_at: new Date().toISOString() };
+
+    if ('rating' in (body || {})) {
+      const rating = body.rating;
+      if (rating !== null && rating !== 'good' && rating !== 'bad') {
+        return NextResponse.json({ error: 'rating must be "good", "bad", or null' }, { status: 400 });
+      }
+      updates.rating = rating;
+    }
+
+    if (typeof body?.correction === 'string') {
+      const correction = body.correction.trim();
+      const saveAs = body?.saveAs === 'story' ? 'story' : 'knowledge';
+
+      if (!correction) {
+        await removeCorrectionSource(ownerId, row);
+        updates.correction = null;
+        updates.correction_source_type = null;
+        updates.correction_source_id = null;
+      } else {
+        if (correction.length < 20) {
+          return NextResponse.json({ error: 'correction is too short' }, { status: 400 });
+        }
+
+        // Switching between story and knowledge: drop the old copy so retrieval doesn't see both.
+        if (row.correction_source_type && row.correction_source_type !== saveAs) {
+          await removeCorrectionSource(ownerId, row);
+          row.correction_source_type = null;
+          row.correction_source_id = null;
+        }
+
+        const question = await getQuestionFor(ownerId, row);
+        const sourceId =
+          saveAs === 'story'
+            ? await saveCorrectionAsStory(ownerId, row, question, correction)
+            : await saveCorrectionAsKnowledge(ownerId, row, question, correction);
+
+        updates.correction = correction;
+        updates.correction_source_type = saveAs;
+        updates.correction_source_id = sourceId;
+        if (!('rating' in updates)) updates.rating = 'bad';
+      }
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('messages')
+      .update(updates)
+      .eq('owner_id', ownerId)
+      .eq('id', messageId)
+      .select(REVIEW_MESSAGE_COLUMNS)
+      .single();
+
+    if (error) {
+      if (isMissingColumnError(error)) {
+        return NextResponse.json({ error: reviewMigrationHint() }, { status: 500 });
+      }
+      throw error;
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Admin conversations PUT error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE a conversation (?id=). Corrections already indexed are kept.
+export async function DELETE(request: NextRequest) {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    if (!id) {
+      return NextResponse.json({ error: 'Conversation ID is required' }, { status: 400 });
+    }
+    if (!isConversationId(id)) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const { error } = await supabaseAdmin
+      .from('conversations')
+      .delete()
+      .eq('owner_id', ownerId)
+      .eq('id', id);
+
+    if (error) throw error;
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Admin conversations DELETE error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
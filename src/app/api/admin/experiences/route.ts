@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { revalidateTag } from 'next/cache';
-import { supabaseAdmin, DEFAULT_OWNER_ID, isSupabaseConfigured } from '@/lib/supabase';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
 import { deleteSourceChunks, indexExperience } from '@/lib/indexer';
+import { recordRevision } from '@/lib/revisions';
+import { scheduleRebuild } from '@/lib/job-worker';
 
 export const runtime = 'nodejs';
 
@@ -39,6 +42,7 @@ type ExperiencePayload = {
 // GET all experiences for admin (including drafts)
 export async function GET() {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -46,7 +50,7 @@ export async function GET() {
     const { data, error } = await supabaseAdmin
       .from('experiences')
       .select('*')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .order('start_date', { ascending: false })
       .order('created_at', { ascending: false });
 
@@ -64,7 +68,7 @@ export async function GET() {
       const probe = await supabaseAdmin
         .from('experiences')
         .select('id, details')
-        .eq('owner_id', DEFAULT_OWNER_ID)
+        .eq('owner_id', ownerId)
         .limit(1);
       if (probe.error?.code !== 'PGRST204' && probe.error?.code !== '42703') {
         detailsSupported = true;
@@ -85,6 +89,7 @@ export async function GET() {
 // POST create experience
 export async function POST(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -100,7 +105,7 @@ export async function POST(request: NextRequest) {
     const detailsText = typeof body.details === 'string' ? body.details.trim() : null;
 
     const payload = {
-      owner_id: DEFAULT_OWNER_ID,
+      owner_id: ownerId,
       company,
       role,
       location: body.location ? String(body.location).trim() : null,
@@ -142,6 +147,10 @@ export async function POST(request: NextRequest) {
       await indexExperience(data);
     }
 
+    await recordRevision({ ownerId, entityType: 'experience', action: 'create', snapshot: data });
+
+    scheduleRebuild(ownerId);
+
     revalidateTag('experiences', 'default');
     return NextResponse.json(data, { status: 201 });
   } catch (error) {
@@ -153,6 +162,7 @@ export async function POST(request: NextRequest) {
 // PUT update experience
 export async function PUT(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -185,7 +195,7 @@ export async function PUT(request: NextRequest) {
       .from('experiences')
       .update(updates)
       .eq('id', id)
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .select()
       .single();
 
@@ -199,7 +209,7 @@ export async function PUT(request: NextRequest) {
         .from('experiences')
         .update(updates)
         .eq('id', id)
-        .eq('owner_id', DEFAULT_OWNER_ID)
+        .eq('owner_id', ownerId)
         .select()
         .single();
       data = retry.data;
@@ -219,6 +229,10 @@ export async function PUT(request: NextRequest) {
       await deleteSourceChunks('experience', id);
     }
 
+    await recordRevision({ ownerId, entityType: 'experience', action: 'update', snapshot: data });
+
+    scheduleRebuild(ownerId);
+
     revalidateTag('experiences', 'default');
     return NextResponse.json(data);
   } catch (error) {
@@ -230,6 +244,7 @@ export async function PUT(request: NextRequest) {
 // DELETE experience
 export async function DELETE(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -241,11 +256,12 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Experience ID is required' }, { status: 400 });
     }
 
-    const { error } = await supabaseAdmin
+    const { data: deleted, error } = await supabaseAdmin
       .from('experiences')
       .delete()
       .eq('id', id)
-      .eq('owner_id', DEFAULT_OWNER_ID);
+      .eq('owner_id', ownerId)
+      .select();
 
     if (error) {
       if (isMissingTableError(error)) {
@@ -255,6 +271,8 @@ export async function DELETE(request: NextRequest) {
     }
 
     await deleteSourceChunks('experience', id);
+    await recordRevision({ ownerId, entityType: 'experience', action: 'delete', snapshot: deleted?.[0] });
+    scheduleRebuild(ownerId);
 
     revalidateTag('experiences', 'default');
     return NextResponse.json({ success: true });
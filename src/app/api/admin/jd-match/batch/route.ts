@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerId } from '@/lib/owner';
+import { getSiteSettings } from '@/lib/site-settings';
+import {
+  getJDBatchLimits,
+  normalizeBatchItems,
+  parseJDBatchCsv,
+  parseJDBatchJsonl,
+  runJDMatchBatch,
+  type JDBatchItem,
+} from '@/lib/jd-batch';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024;
+
+// POST { jds: Array<string | { id?, title?, url?, jd }>, report?: boolean }
+// or multipart/form-data with `file` (.csv with a `jd`/`description` column, or .jsonl) and optional `report`.
+export async function POST(request: NextRequest) {
+  try {
+    const ownerId = await getOwnerId();
+    const { maxItems, concurrency } = getJDBatchLimits();
+
+    let items: JDBatchItem[];
+    let report = false;
+
+    const contentType = request.headers.get('content-type') || '';
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file') as File | null;
+      report = formData.get('report') === 'true';
+
+      if (!file) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+      }
+      if (file.size > MAX_UPLOAD_BYTES) {
+        return NextResponse.json({ error: 'File is too large (max 2MB)' }, { status: 400 });
+      }
+
+      const ext = file.name.split('.').pop()?.toLowerCase();
+      const text = await file.text();
+      try {
+        if (ext === 'csv') {
+          items = parseJDBatchCsv(text);
+        } else if (ext === 'jsonl' || ext === 'ndjson') {
+          items = parseJDBatchJsonl(text);
+        } else {
+          return NextResponse.json({ error: 'Unsupported file type (use .csv or .jsonl)' }, { status: 400 });
+        }
+      } catch (parseError) {
+        return NextResponse.json(
+          { error: parseError instanceof Error ? parseError.message : 'Failed to parse file' },
+          { status: 400 }
+        );
+      }
+    } else {
+      const body = await request.json().catch(() => null);
+      if (!Array.isArray(body?.jds)) {
+        return NextResponse.json({ error: 'jds must be an array' }, { status: 400 });
+      }
+      items = normalizeBatchItems(body.jds);
+      report = body?.report === true;
+    }
+
+    if (items.length === 0) {
+      return NextResponse.json({ error: 'No job descriptions found' }, { status: 400 });
+    }
+    if (items.length > maxItems) {
+      return NextResponse.json(
+        { error: `Too many job descriptions (max ${maxItems} per batch)` },
+        { status: 400 }
+      );
+    }
+
+    const siteSettings = await getSiteSettings();
+    const startedAt = Date.now();
+    const results = await runJDMatchBatch(items, { ownerId, siteSettings, concurrency, report });
+
+    return NextResponse.json({
+      count: results.length,
+      succeeded: results.filter((r) => r.ok).length,
+      elapsed_ms: Date.now() - startedAt,
+      results,
+    });
+  } catch (error) {
+    console.error('Admin JD batch POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { getJob, isMissingJobsTableError, jobsMigrationHint, toPublicJob } from '@/lib/jobs';
+import { kickJobWorker } from '@/lib/job-worker';
+
+export const runtime = 'nodejs';
+// Polling a due job drains the queue after the response, so retries run while an admin waits.
+export const maxDuration = 300;
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET one job (status, progress, result) — polled by the admin pages after they enqueue work
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const { id } = await params;
+    const job = await getJob(ownerId, id);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    if (job.status === 'queued' && Date.parse(job.run_after) <= Date.now()) kickJobWorker();
+    return NextResponse.json(toPublicJob(job));
+  } catch (error) {
+    if (isMissingJobsTableError(error)) {
+      return NextResponse.json({ error: jobsMigrationHint() }, { status: 501 });
+    }
+    console.error('Admin job GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
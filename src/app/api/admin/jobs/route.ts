@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import {
+  isJobStatus,
+  isJobType,
+  isMissingJobsTableError,
+  jobsMigrationHint,
+  listJobs,
+  retryJob,
+  toPublicJob,
+} from '@/lib/jobs';
+import { kickJobWorker } from '@/lib/job-worker';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+// GET recent jobs (?status=&type=&limit=)
+export async function GET(request: NextRequest) {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+    const type = searchParams.get('type');
+    if (status && !isJobStatus(status)) {
+      return NextResponse.json({ error: 'Invalid job status' }, { status: 400 });
+    }
+    if (type && !isJobType(type)) {
+      return NextResponse.json({ error: 'Invalid job type' }, { status: 400 });
+    }
+
+    const jobs = await listJobs(ownerId, {
+      status: status && isJobStatus(status) ? status : undefined,
+      type: type && isJobType(type) ? type : undefined,
+      limit: Number(searchParams.get('limit')) || undefined,
+    });
+
+    const now = Date.now();
+    if (jobs.some((job) => job.status === 'queued' && Date.parse(job.run_after) <= now)) kickJobWorker();
+    return NextResponse.json(jobs.map(toPublicJob));
+  } catch (error) {
+    if (isMissingJobsTableError(error)) {
+      return NextResponse.json({ error: jobsMigrationHint() }, { status: 501 });
+    }
+    console.error('Admin jobs GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST retry a failed job: { job_id }
+export async function POST(request: NextRequest) {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const jobId = typeof body?.job_id === 'string' ? body.job_id : '';
+    if (!jobId) {
+      return NextResponse.json({ error: 'Job ID is required' }, { status: 400 });
+    }
+
+    const job = await retryJob(ownerId, jobId);
+    if (!job) {
+      return NextResponse.json({ error: 'Only failed jobs can be retried' }, { status: 409 });
+    }
+
+    kickJobWorker();
+    return NextResponse.json(toPublicJob(job));
+  } catch (error) {
+    if (isMissingJobsTableError(error)) {
+      return NextResponse.json({ error: jobsMigrationHint() }, { status: 501 });
+    }
+    console.error('Admin jobs POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseAdmin, DEFAULT_OWNER_ID, isSupabaseConfigured } from '@/lib/supabase';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { invalidateResponseCache } from '@/lib/response-cache';
 
 export const runtime = 'nodejs';
 
 // GET - Get knowledge base stats and chunks list
 export async function GET() {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -14,7 +17,7 @@ export async function GET() {
     const { count: totalChunks, error: countError } = await supabaseAdmin
       .from('chunks')
       .select('*', { count: 'exact', head: true })
-      .eq('owner_id', DEFAULT_OWNER_ID);
+      .eq('owner_id', ownerId);
 
     if (countError) {
       console.error('Count error:', countError);
@@ -24,7 +27,7 @@ export async function GET() {
     const { data: chunks, error: chunksError } = await supabaseAdmin
       .from('chunks')
       .select('source_type, source_id, metadata, created_at')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .order('created_at', { ascending: false });
 
     if (chunksError) {
@@ -90,6 +93,7 @@ export async function GET() {
 // DELETE - Delete chunks by file name
 export async function DELETE(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -105,7 +109,7 @@ export async function DELETE(request: NextRequest) {
         const { error } = await supabaseAdmin
           .from('chunks')
           .delete()
-          .eq('owner_id', DEFAULT_OWNER_ID)
+          .eq('owner_id', ownerId)
           .eq('metadata->>title', fileName);
 
         if (error) {
@@ -113,6 +117,7 @@ export async function DELETE(request: NextRequest) {
           return NextResponse.json({ error: 'Failed to delete chunks' }, { status: 500 });
         }
 
+        await invalidateResponseCache(ownerId);
         return NextResponse.json({ success: true });
       }
 
@@ -125,7 +130,7 @@ export async function DELETE(request: NextRequest) {
     const { error } = await supabaseAdmin
       .from('chunks')
       .delete()
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .eq('source_type', sourceType)
       .eq('source_id', sourceId);
 
@@ -137,6 +142,7 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    await invalidateResponseCache(ownerId);
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('Delete API error:', error);
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseAdmin, DEFAULT_OWNER_ID, isSupabaseConfigured } from '@/lib/supabase';
-import { generateEmbeddingsBatched } from '@/lib/ai';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { invalidateResponseCache } from '@/lib/response-cache';
+import { embeddingColumns, generateEmbeddingsBatched, isMissingEmbeddingModelColumnError } from '@/lib/embeddings';
+import { chunkMarkdown, chunkMetadata } from '@/lib/chunker';
 import { slugify } from '@/lib/slug';
 import { createHash } from 'crypto';
 
@@ -9,26 +12,6 @@ export const maxDuration = 300;
 
 const ALLOWED_SOURCE_TYPES = new Set(['article', 'resume', 'story', 'project', 'skill', 'experience']);
 
-function chunkText(text: string, maxChunkSize = 1000): string[] {
-  const paragraphs = text.split(/\n\n+/);
-  const chunks: string[] = [];
-  let currentChunk = '';
-
-  for (const para of paragraphs) {
-    if (currentChunk.length + para.length > maxChunkSize && currentChunk) {
-      chunks.push(currentChunk.trim());
-      currentChunk = '';
-    }
-    currentChunk += para + '\n\n';
-  }
-
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim());
-  }
-
-  return chunks.filter((c) => c.trim().length >= 50);
-}
-
 function makeStableKbId(prefix: string, raw: string): string {
   const normalized = String(raw || '').trim();
   const slug = slugify(normalized) || 'untitled';
@@ -38,6 +21,7 @@ function makeStableKbId(prefix: string, raw: string): string {
 
 export async function POST(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -62,24 +46,25 @@ export async function POST(request: NextRequest) {
     await supabaseAdmin
       .from('chunks')
       .delete()
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .eq('source_type', sourceType)
       .eq('source_id', sourceId);
 
-    const chunks = chunkText(content, 1000);
+    const chunks = chunkMarkdown(content);
 
-    const embeddings = await generateEmbeddingsBatched(chunks, 32);
+    const embeddings = await generateEmbeddingsBatched(chunks.map((chunk) => chunk.content), 32);
     const rows = chunks.map((chunk, i) => ({
-      owner_id: DEFAULT_OWNER_ID,
+      owner_id: ownerId,
       source_type: sourceType,
       source_id: sourceId,
-      content: chunk,
+      content: chunk.content,
       embedding: embeddings[i],
       metadata: {
         title,
         kb_id: sourceId,
         chunk_index: i,
         total_chunks: chunks.length,
+        ...chunkMetadata(chunk),
         input_method: 'text',
       },
     }));
@@ -88,7 +73,11 @@ export async function POST(request: NextRequest) {
     const insertBatchSize = 200;
     for (let i = 0; i < rows.length; i += insertBatchSize) {
       const batch = rows.slice(i, i + insertBatchSize);
-      const { error } = await supabaseAdmin.from('chunks').insert(batch);
+      let { error } = await supabaseAdmin.from('chunks').insert(batch.map((row) => ({ ...row, ...embeddingColumns() })));
+      if (error && isMissingEmbeddingModelColumnError(error)) {
+        // Before the embedding_model migration
+        ({ error } = await supabaseAdmin.from('chunks').insert(batch));
+      }
       if (error) {
         console.error('Batch insert error:', error.message);
         results.failed += batch.length;
@@ -97,6 +86,8 @@ export async function POST(request: NextRequest) {
       results.inserted += batch.length;
     }
 
+    await invalidateResponseCache(ownerId);
+
     return NextResponse.json({
       success: true,
       title,
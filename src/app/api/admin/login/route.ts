@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyPassword, createSession, getSessionCookieOptions, SESSION_COOKIE, CSRF_COOKIE } from '@/lib/auth';
+import { getOwnerId } from '@/lib/owner';
 
 export const runtime = 'nodejs';
 
@@ -64,7 +65,8 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const isValid = await verifyPassword(password);
+    const ownerId = await getOwnerId();
+    const isValid = await verifyPassword(password, ownerId);
     
     if (!isValid) {
       return NextResponse.json(
@@ -77,7 +79,7 @@ export async function POST(request: NextRequest) {
     loginAttempts.delete(ip);
     
     // Create session
-    const { sessionToken, csrfToken } = await createSession();
+    const { sessionToken, csrfToken } = await createSession(ownerId);
     
     const response = NextResponse.json({ success: true });
     
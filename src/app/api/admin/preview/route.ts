@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerTenant } from '@/lib/owner';
+import { ownerPublicPath } from '@/lib/tenants';
+import { createPreviewToken, type PreviewEntityType } from '@/lib/admin-session';
+
+export const runtime = 'nodejs';
+
+const PREVIEW_TARGETS: Record<PreviewEntityType, { table: string; basePath: string }> = {
+  article: { table: 'articles', basePath: '/articles' },
+  project: { table: 'projects', basePath: '/projects' },
+};
+
+// POST create a signed, expiring preview link: { entity_type, id, expires_in_hours? }
+export async function POST(request: NextRequest) {
+  try {
+    const tenant = await getOwnerTenant();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const entityType = body?.entity_type;
+    const id = typeof body?.id === 'string' ? body.id : '';
+    if (entityType !== 'article' && entityType !== 'project') {
+      return NextResponse.json({ error: 'Invalid entity type' }, { status: 400 });
+    }
+    if (!id) {
+      return NextResponse.json({ error: 'ID is required' }, { status: 400 });
+    }
+
+    const target = PREVIEW_TARGETS[entityType as PreviewEntityType];
+    let query = supabaseAdmin.from(target.table).select('id, slug').eq('owner_id', tenant.id).eq('id', id);
+    if (entityType === 'project') query = query.is('deleted_at', null);
+
+    const { data, error } = await query.maybeSingle();
+    if (error) throw error;
+    if (!data) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const hours = Number(body?.expires_in_hours);
+    const { token, expiresAtMs } = await createPreviewToken({
+      entityType,
+      entityId: data.id,
+      ownerId: tenant.id,
+      maxAgeSeconds: Number.isFinite(hours) && hours > 0 ? hours * 60 * 60 : undefined,
+    });
+
+    const path = ownerPublicPath(tenant, `${target.basePath}/${encodeURIComponent(data.slug)}`);
+    return NextResponse.json({
+      path: `${path}?preview=${encodeURIComponent(token)}`,
+      expires_at: new Date(expiresAtMs).toISOString(),
+    });
+  } catch (error) {
+    console.error('Admin preview POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,7 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { revalidateTag } from 'next/cache';
-import { supabaseAdmin, DEFAULT_OWNER_ID, isSupabaseConfigured } from '@/lib/supabase';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
 import { deleteSourceChunks, indexProject } from '@/lib/indexer';
+import { recordRevision } from '@/lib/revisions';
+import { scheduleRebuild } from '@/lib/job-worker';
+import {
+  isMissingScheduleColumnError,
+  parseScheduledAt,
+  publishDueContent,
+  scheduledPublishingMigrationHint,
+} from '@/lib/publishing';
 import { slugify } from '@/lib/slug';
 
 export const runtime = 'nodejs';
@@ -10,7 +19,7 @@ function detailsMigrationHint() {
   return 'Project details are not enabled in your database yet. Run `database/migrations/20260117_add_project_experience_details.sql` in Supabase SQL Editor, then retry.';
 }
 
-async function insertProjectWithAutoSlug(input: {
+async function insertProjectWithAutoSlug(ownerId: string, input: {
   title: string;
   slug?: string;
   description: string;
@@ -23,6 +32,7 @@ async function insertProjectWithAutoSlug(input: {
   is_featured: boolean;
   display_order: number;
   tech_stack: string[];
+  scheduled_at: string | null;
 }) {
   const slugProvided = Boolean(input.slug?.trim());
   const baseSlug = (input.slug?.trim() || slugify(input.title)) || `project-${Date.now()}`;
@@ -31,7 +41,7 @@ async function insertProjectWithAutoSlug(input: {
     supabaseAdmin
       .from('projects')
       .insert({
-        owner_id: DEFAULT_OWNER_ID,
+        owner_id: ownerId,
         title: input.title,
         slug,
         description: input.description,
@@ -44,6 +54,8 @@ async function insertProjectWithAutoSlug(input: {
         is_featured: input.is_featured,
         display_order: input.display_order,
         tech_stack: input.tech_stack,
+        // Only sent when set, so databases without the scheduling migration keep working.
+        ...(input.scheduled_at && input.status !== 'published' ? { scheduled_at: input.scheduled_at } : {}),
       })
       .select()
       .single();
@@ -51,6 +63,13 @@ async function insertProjectWithAutoSlug(input: {
   let omitDetails = false;
   let { data, error } = await attemptInsert(baseSlug, omitDetails);
 
+  if (error && isMissingScheduleColumnError(error) && error.message?.includes('scheduled_at')) {
+    return {
+      data: null,
+      error: { code: 'SCHEDULING_NOT_SUPPORTED', message: scheduledPublishingMigrationHint() } as const,
+    };
+  }
+
   // Backward compatibility: details column may not exist yet.
   if (error?.code === '42703' || error?.code === 'PGRST204') {
     if (typeof input.details === 'string') {
@@ -64,7 +83,7 @@ async function insertProjectWithAutoSlug(input: {
   }
 
   if (error?.code === '23505' && !slugProvided) {
-    const unique = await ensureUniqueProjectSlug(baseSlug);
+    const unique = await ensureUniqueProjectSlug(ownerId, baseSlug);
     ({ data, error } = await attemptInsert(unique, omitDetails));
   }
 
@@ -79,7 +98,7 @@ async function insertProjectWithAutoSlug(input: {
   return { data, error: null };
 }
 
-async function ensureUniqueProjectSlug(base: string): Promise<string> {
+async function ensureUniqueProjectSlug(ownerId: string, base: string): Promise<string> {
   const normalizedBase = base || `project-${Date.now()}`;
   for (let i = 1; i <= 25; i++) {
     const suffix = `-${i + 1}`;
@@ -87,7 +106,7 @@ async function ensureUniqueProjectSlug(base: string): Promise<string> {
     const { data, error } = await supabaseAdmin
       .from('projects')
       .select('id')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .eq('slug', candidate)
       .maybeSingle();
     if (error) throw error;
@@ -99,14 +118,20 @@ async function ensureUniqueProjectSlug(base: string): Promise<string> {
 // GET all projects (including drafts) for admin
 export async function GET() {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
 
+    // Opportunistic: anything that came due since the last cron run goes live before listing.
+    await publishDueContent(ownerId).catch((error) => {
+      console.warn('Scheduled publish check failed:', error);
+    });
+
     const { data, error } = await supabaseAdmin
       .from('projects')
       .select('*')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .is('deleted_at', null)
       .order('display_order', { ascending: true });
 
@@ -119,7 +144,7 @@ export async function GET() {
       const probe = await supabaseAdmin
         .from('projects')
         .select('id, details')
-        .eq('owner_id', DEFAULT_OWNER_ID)
+        .eq('owner_id', ownerId)
         .limit(1);
       if (probe.error?.code !== 'PGRST204' && probe.error?.code !== '42703') {
         detailsSupported = true;
@@ -140,6 +165,7 @@ export async function GET() {
 // POST create new project
 export async function POST(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -158,6 +184,7 @@ export async function POST(request: NextRequest) {
       is_featured,
       display_order,
       tech_stack,
+      scheduled_at,
     } = body;
 
     if (!title || !description) {
@@ -167,7 +194,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { data, error } = await insertProjectWithAutoSlug({
+    const schedule = parseScheduledAt(scheduled_at);
+    if (!schedule.ok) {
+      return NextResponse.json({ error: schedule.error }, { status: 400 });
+    }
+
+    const { data, error } = await insertProjectWithAutoSlug(ownerId, {
       title: String(title).trim(),
       slug: typeof slug === 'string' ? slug.trim() : undefined,
       description: String(description).trim(),
@@ -180,13 +212,14 @@ export async function POST(request: NextRequest) {
       is_featured: Boolean(is_featured),
       display_order: typeof display_order === 'number' ? display_order : 0,
       tech_stack: Array.isArray(tech_stack) ? tech_stack : [],
+      scheduled_at: schedule.value ?? null,
     });
 
     if (error) {
       if (error.code === '23505') {
         return NextResponse.json({ error: error.message }, { status: 409 });
       }
-      if (error.code === 'DETAILS_NOT_SUPPORTED') {
+      if (error.code === 'DETAILS_NOT_SUPPORTED' || error.code === 'SCHEDULING_NOT_SUPPORTED') {
         return NextResponse.json({ error: error.message }, { status: 501 });
       }
       throw new Error(error.message);
@@ -197,6 +230,10 @@ export async function POST(request: NextRequest) {
       await indexProject(data);
     }
 
+    await recordRevision({ ownerId, entityType: 'project', action: 'create', snapshot: data });
+
+    scheduleRebuild(ownerId);
+
     revalidateTag('projects', 'default');
     return NextResponse.json(data, { status: 201 });
   } catch (error) {
@@ -208,6 +245,7 @@ export async function POST(request: NextRequest) {
 // PUT update project
 export async function PUT(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -232,6 +270,20 @@ export async function PUT(request: NextRequest) {
 
     const detailsHasContent = typeof updates.details === 'string' && updates.details.length > 0;
 
+    const schedule = parseScheduledAt(updates.scheduled_at);
+    if (!schedule.ok) {
+      return NextResponse.json({ error: schedule.error }, { status: 400 });
+    }
+    if (schedule.value === undefined) {
+      delete updates.scheduled_at;
+    } else {
+      updates.scheduled_at = schedule.value;
+    }
+    // Publishing by hand cancels any pending schedule.
+    if (updates.status === 'published') {
+      updates.scheduled_at = null;
+    }
+
     updates.updated_at = new Date().toISOString();
 
     if (typeof updates.slug === 'string') {
@@ -240,7 +292,7 @@ export async function PUT(request: NextRequest) {
         const { data: existing, error: existsError } = await supabaseAdmin
           .from('projects')
           .select('id')
-          .eq('owner_id', DEFAULT_OWNER_ID)
+          .eq('owner_id', ownerId)
           .eq('slug', trimmed)
           .maybeSingle();
         if (existsError) throw existsError;
@@ -249,19 +301,36 @@ export async function PUT(request: NextRequest) {
         }
         updates.slug = trimmed;
       } else if (typeof updates.title === 'string' && updates.title.trim()) {
-        updates.slug = await ensureUniqueProjectSlug(slugify(updates.title));
+        updates.slug = await ensureUniqueProjectSlug(ownerId, slugify(updates.title));
       } else {
         delete updates.slug;
       }
     }
 
-    let { data, error } = await supabaseAdmin
-      .from('projects')
-      .update(updates)
-      .eq('id', id)
-      .eq('owner_id', DEFAULT_OWNER_ID)
-      .select()
-      .single();
+    const runUpdate = () =>
+      supabaseAdmin
+        .from('projects')
+        .update(updates)
+        .eq('id', id)
+        .eq('owner_id', ownerId)
+        .select()
+        .single();
+
+    let { data, error } = await runUpdate();
+
+    if (
+      error &&
+      isMissingScheduleColumnError(error) &&
+      'scheduled_at' in updates &&
+      error.message?.includes('scheduled_at')
+    ) {
+      if (updates.scheduled_at) {
+        return NextResponse.json({ error: scheduledPublishingMigrationHint() }, { status: 501 });
+      }
+      // Backward compatibility: clearing a schedule is a no-op before the migration.
+      delete updates.scheduled_at;
+      ({ data, error } = await runUpdate());
+    }
 
     if (
       error &&
@@ -273,15 +342,7 @@ export async function PUT(request: NextRequest) {
       }
       // Backward compatibility: details column may not exist yet.
       delete updates.details;
-      const retry = await supabaseAdmin
-        .from('projects')
-        .update(updates)
-        .eq('id', id)
-        .eq('owner_id', DEFAULT_OWNER_ID)
-        .select()
-        .single();
-      data = retry.data;
-      error = retry.error;
+      ({ data, error } = await runUpdate());
     }
 
     if (error) throw error;
@@ -292,6 +353,10 @@ export async function PUT(request: NextRequest) {
       await deleteSourceChunks('project', data.id);
     }
 
+    await recordRevision({ ownerId, entityType: 'project', action: 'update', snapshot: data });
+
+    scheduleRebuild(ownerId);
+
     revalidateTag('projects', 'default');
     return NextResponse.json(data);
   } catch (error) {
@@ -303,6 +368,7 @@ export async function PUT(request: NextRequest) {
 // DELETE soft delete project
 export async function DELETE(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -314,16 +380,19 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Project ID is required' }, { status: 400 });
     }
 
-    const { error } = await supabaseAdmin
+    const { data: deleted, error } = await supabaseAdmin
       .from('projects')
       .update({ deleted_at: new Date().toISOString() })
       .eq('id', id)
-      .eq('owner_id', DEFAULT_OWNER_ID);
+      .eq('owner_id', ownerId)
+      .select();
 
     if (error) throw error;
 
     // Soft delete: remove indexed chunks so public chat won't cite it
     await deleteSourceChunks('project', id);
+    await recordRevision({ ownerId, entityType: 'project', action: 'delete', snapshot: deleted?.[0] });
+    scheduleRebuild(ownerId);
 
     revalidateTag('projects', 'default');
     return NextResponse.json({ success: true });
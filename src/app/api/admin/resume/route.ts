@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseAdmin, DEFAULT_OWNER_ID, isSupabaseAdminConfigured } from '@/lib/supabase';
-import { indexResume, deleteSourceChunks } from '@/lib/indexer';
-import { extractTextFromPdf } from '@/lib/pdf';
-import { importSkillsFromText } from '@/lib/skills-import';
+import { supabaseAdmin, isSupabaseAdminConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { ownerStoragePath } from '@/lib/tenants';
+import { deleteSourceChunks } from '@/lib/indexer';
+import { submitJob } from '@/lib/job-worker';
+import { storeJobUpload } from '@/lib/job-handlers';
 
 export const runtime = 'nodejs';
 export const maxDuration = 300;
@@ -10,6 +12,10 @@ export const maxDuration = 300;
 const RESUME_BUCKET = process.env.SUPABASE_RESUME_BUCKET || 'chengai-resume';
 const RESUME_OBJECT_PATH = process.env.SUPABASE_RESUME_PATH || 'resume.pdf';
 
+function getResumeObjectPath(ownerId: string): string {
+  return ownerStoragePath(ownerId, RESUME_OBJECT_PATH);
+}
+
 async function ensureResumeBucket() {
   const { data: buckets, error } = await supabaseAdmin.storage.listBuckets();
   if (error) throw error;
@@ -21,34 +27,9 @@ async function ensureResumeBucket() {
   if (createError) throw createError;
 }
 
-async function parsePDF(buffer: Buffer): Promise<string> {
-  return extractTextFromPdf(buffer);
-}
-
-async function parseDocx(buffer: Buffer): Promise<string> {
-  const mammothModule = await import('mammoth');
-  const extractRawText =
-    typeof mammothModule.extractRawText === 'function'
-      ? mammothModule.extractRawText
-      : typeof mammothModule.default?.extractRawText === 'function'
-        ? mammothModule.default.extractRawText
-        : null;
-
-  if (!extractRawText) throw new Error('Invalid mammoth module export shape');
-
-  const result = await extractRawText({ buffer });
-  return result.value;
-}
-
-async function extractText(fileName: string, buffer: Buffer): Promise<string> {
-  const ext = fileName.split('.').pop()?.toLowerCase();
-  if (ext === 'pdf') return parsePDF(buffer);
-  if (ext === 'docx') return parseDocx(buffer);
-  throw new Error('Unsupported resume file type');
-}
-
 export async function GET() {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseAdminConfigured()) {
       return NextResponse.json(
         { error: 'Admin storage is not configured (missing SUPABASE_SERVICE_ROLE_KEY).' },
@@ -58,19 +39,23 @@ export async function GET() {
 
     await ensureResumeBucket();
 
+    const objectPath = getResumeObjectPath(ownerId);
+    const slashIdx = objectPath.lastIndexOf('/');
+    const folder = slashIdx === -1 ? '' : objectPath.slice(0, slashIdx);
+    const fileName = objectPath.slice(slashIdx + 1) || objectPath;
+
     const { data, error } = await supabaseAdmin.storage
       .from(RESUME_BUCKET)
-      .list('', { limit: 100, search: RESUME_OBJECT_PATH.split('/').pop() || undefined });
+      .list(folder, { limit: 100, search: fileName });
 
     if (error) throw error;
 
-    const fileName = RESUME_OBJECT_PATH.split('/').pop() || RESUME_OBJECT_PATH;
     const match = (data || []).find((f) => f.name === fileName);
 
     return NextResponse.json({
       exists: Boolean(match),
       bucket: RESUME_BUCKET,
-      path: RESUME_OBJECT_PATH,
+      path: objectPath,
       file: match
         ? {
             name: match.name,
@@ -91,6 +76,7 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseAdminConfigured()) {
       return NextResponse.json(
         { error: 'Admin storage is not configured (missing SUPABASE_SERVICE_ROLE_KEY).' },
@@ -127,52 +113,29 @@ export async function POST(request: NextRequest) {
 
     const { error: uploadError } = await supabaseAdmin.storage
       .from(RESUME_BUCKET)
-      .upload(RESUME_OBJECT_PATH, buffer, { upsert: true, contentType });
+      .upload(getResumeObjectPath(ownerId), buffer, { upsert: true, contentType });
 
     if (uploadError) throw uploadError;
 
-    let extractedText = '';
-    let indexed = false;
-    let skills: { added: number; skipped: number } | null = null;
-    let warning: string | null = null;
-
-    try {
-      extractedText = (await extractText(fileName, buffer)).trim();
-      if (extractedText.length < 50) {
-        warning = 'Uploaded file, but could not extract meaningful text for indexing.';
-      } else {
-        await indexResume({
-          id: 'resume',
-          title: 'Resume',
-          content: extractedText,
-          owner_id: DEFAULT_OWNER_ID,
-        });
-        indexed = true;
-
-        try {
-          const imported = await importSkillsFromText(extractedText);
-          skills = { added: imported.added, skipped: imported.skipped };
-        } catch (skillError) {
-          console.warn('Resume skill import failed:', skillError);
-          warning = warning
-            ? `${warning} (Also failed to import skills from resume text.)`
-            : 'Uploaded and indexed resume, but failed to import skills from resume text.';
-        }
-      }
-    } catch (extractError) {
-      console.warn('Resume text extraction/indexing failed:', extractError);
-      warning =
-        'Uploaded file successfully, but resume text extraction/indexing failed. Check server logs and ensure OPENAI_API_KEY is configured for embeddings.';
-    }
-
-    return NextResponse.json({
-      success: true,
-      bucket: RESUME_BUCKET,
-      path: RESUME_OBJECT_PATH,
-      indexed,
-      skills,
-      warning,
+    // Text extraction, indexing and skill import run as a `resume_index` job on a copy of the file,
+    // so a newer upload can't change what an already queued job reads.
+    const stored = await storeJobUpload(ownerId, fileName, buffer, contentType);
+    const job = await submitJob({
+      ownerId,
+      type: 'resume_index',
+      payload: { ...stored, file_name: fileName },
     });
+
+    return NextResponse.json(
+      {
+        success: true,
+        bucket: RESUME_BUCKET,
+        path: getResumeObjectPath(ownerId),
+        job_id: job.id,
+        job,
+      },
+      { status: 202 }
+    );
   } catch (error) {
     console.error('Admin resume POST error:', error);
     return NextResponse.json(
@@ -184,6 +147,7 @@ export async function POST(request: NextRequest) {
 
 export async function DELETE() {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseAdminConfigured()) {
       return NextResponse.json(
         { error: 'Admin storage is not configured (missing SUPABASE_SERVICE_ROLE_KEY).' },
@@ -193,10 +157,10 @@ export async function DELETE() {
 
     await ensureResumeBucket();
 
-    const { error } = await supabaseAdmin.storage.from(RESUME_BUCKET).remove([RESUME_OBJECT_PATH]);
+    const { error } = await supabaseAdmin.storage.from(RESUME_BUCKET).remove([getResumeObjectPath(ownerId)]);
     if (error) throw error;
 
-    await deleteSourceChunks('resume', 'resume');
+    await deleteSourceChunks('resume', 'resume', ownerId);
 
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { isRevisionEntityType, isUuid, restoreRevision, revisionsMigrationHint } from '@/lib/revisions';
+
+export const runtime = 'nodejs';
+
+const MAX_REVISIONS = 100;
+
+// GET revisions for one entity (?entity_type=&entity_id=), or the most recent across all entities
+export async function GET(request: NextRequest) {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const entityType = searchParams.get('entity_type');
+    const entityId = searchParams.get('entity_id');
+
+    if (entityType && !isRevisionEntityType(entityType)) {
+      return NextResponse.json({ error: 'Invalid entity type' }, { status: 400 });
+    }
+    if (entityId && !isUuid(entityId)) {
+      return NextResponse.json({ error: 'Invalid entity ID' }, { status: 400 });
+    }
+
+    let query = supabaseAdmin
+      .from('revisions')
+      .select('id, entity_type, entity_id, action, snapshot, created_at')
+      .eq('owner_id', ownerId);
+    if (entityType) query = query.eq('entity_type', entityType);
+    if (entityId) query = query.eq('entity_id', entityId);
+
+    const { data, error } = await query.order('created_at', { ascending: false }).limit(MAX_REVISIONS);
+
+    if (error) {
+      if (error.code === '42P01') {
+        return NextResponse.json({ error: revisionsMigrationHint() }, { status: 501 });
+      }
+      throw error;
+    }
+
+    return NextResponse.json(data || []);
+  } catch (error) {
+    console.error('Admin revisions GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST restore a revision: { revision_id }
+export async function POST(request: NextRequest) {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const revisionId = typeof body?.revision_id === 'string' ? body.revision_id : '';
+    if (!revisionId) {
+      return NextResponse.json({ error: 'Revision ID is required' }, { status: 400 });
+    }
+
+    const result = await restoreRevision(ownerId, revisionId);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.entity);
+  } catch (error) {
+    console.error('Admin revisions POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { revalidatePath } from 'next/cache';
 import { getSiteSettingsUncached, saveSiteSettings } from '@/lib/site-settings';
+import { getOwnerId } from '@/lib/owner';
+import { invalidateResponseCache } from '@/lib/response-cache';
 
 export const runtime = 'nodejs';
 
@@ -24,6 +26,8 @@ export async function PUT(request: NextRequest) {
 
     revalidatePath('/', 'layout');
     revalidatePath('/');
+    // Identity text feeds the chat prompt, so cached answers may be outdated.
+    await invalidateResponseCache(await getOwnerId());
 
     return NextResponse.json(settings);
   } catch (error) {
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidateTag } from 'next/cache';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { computeSkillEvidence, skillEvidenceMigrationHint } from '@/lib/skill-evidence';
+
+export const runtime = 'nodejs';
+
+export const maxDuration = 120;
+
+// 42P01: skill_evidence missing; 42703: computed columns missing on skills.
+function isMissingSchemaError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  // Missing table/column, or a database without the replace_skill_evidence function.
+  return typeof code === 'string' && ['42P01', '42703', '42883', 'PGRST202'].includes(code);
+}
+
+// GET supporting evidence rows for one skill
+export async function GET(request: NextRequest) {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const skillId = new URL(request.url).searchParams.get('skill_id');
+    if (!skillId) {
+      return NextResponse.json({ error: 'Skill ID is required' }, { status: 400 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('skill_evidence')
+      .select('*')
+      .eq('owner_id', ownerId)
+      .eq('skill_id', skillId)
+      .order('start_date', { ascending: false, nullsFirst: false });
+
+    if (error) {
+      if (isMissingSchemaError(error)) {
+        return NextResponse.json({ error: skillEvidenceMigrationHint() }, { status: 501 });
+      }
+      throw error;
+    }
+
+    return NextResponse.json(data || []);
+  } catch (error) {
+    console.error('Admin skill evidence GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST recompute evidence for every skill
+export async function POST() {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    let summaries;
+    try {
+      summaries = await computeSkillEvidence(ownerId);
+    } catch (error) {
+      if (isMissingSchemaError(error)) {
+        return NextResponse.json({ error: skillEvidenceMigrationHint() }, { status: 501 });
+      }
+      throw error;
+    }
+
+    revalidateTag('skills', 'default');
+    return NextResponse.json({ success: true, skills: summaries });
+  } catch (error) {
+    console.error('Admin skill evidence POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
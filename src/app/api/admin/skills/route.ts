@@ -1,13 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { revalidateTag } from 'next/cache';
-import { supabaseAdmin, DEFAULT_OWNER_ID, isSupabaseConfigured } from '@/lib/supabase';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
 import { deleteSourceChunks, indexSkill } from '@/lib/indexer';
+import { recordRevision } from '@/lib/revisions';
+import { scheduleRebuild } from '@/lib/job-worker';
 
 export const runtime = 'nodejs';
 
 // GET all skills for admin
 export async function GET() {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -15,7 +19,7 @@ export async function GET() {
     const { data, error } = await supabaseAdmin
       .from('skills')
       .select('*')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .order('category')
       .order('proficiency', { ascending: false });
 
@@ -31,6 +35,7 @@ export async function GET() {
 // POST create new skill
 export async function POST(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -45,7 +50,7 @@ export async function POST(request: NextRequest) {
     const { data, error } = await supabaseAdmin
       .from('skills')
       .insert({
-        owner_id: DEFAULT_OWNER_ID,
+        owner_id: ownerId,
         name,
         category: category || 'other',
         proficiency: proficiency || 3,
@@ -59,6 +64,8 @@ export async function POST(request: NextRequest) {
     if (error) throw error;
 
     await indexSkill(data);
+    await recordRevision({ ownerId, entityType: 'skill', action: 'create', snapshot: data });
+    scheduleRebuild(ownerId);
 
     revalidateTag('skills', 'default');
     return NextResponse.json(data, { status: 201 });
@@ -71,6 +78,7 @@ export async function POST(request: NextRequest) {
 // PUT update skill
 export async function PUT(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -86,13 +94,15 @@ export async function PUT(request: NextRequest) {
       .from('skills')
       .update(updates)
       .eq('id', id)
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .select()
       .single();
 
     if (error) throw error;
 
     await indexSkill(data);
+    await recordRevision({ ownerId, entityType: 'skill', action: 'update', snapshot: data });
+    scheduleRebuild(ownerId);
 
     revalidateTag('skills', 'default');
     return NextResponse.json(data);
@@ -105,6 +115,7 @@ export async function PUT(request: NextRequest) {
 // DELETE skill
 export async function DELETE(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -116,15 +127,18 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Skill ID is required' }, { status: 400 });
     }
 
-    const { error } = await supabaseAdmin
+    const { data: deleted, error } = await supabaseAdmin
       .from('skills')
       .delete()
       .eq('id', id)
-      .eq('owner_id', DEFAULT_OWNER_ID);
+      .eq('owner_id', ownerId)
+      .select();
 
     if (error) throw error;
 
     await deleteSourceChunks('skill', id);
+    await recordRevision({ ownerId, entityType: 'skill', action: 'delete', snapshot: deleted?.[0] });
+    scheduleRebuild(ownerId);
 
     revalidateTag('skills', 'default');
     return NextResponse.json({ success: true });
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { revalidateTag } from 'next/cache';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import {
+  DEFAULT_SKILL_TAXONOMY,
+  buildSkillTaxonomy,
+  normalizeSkillKey,
+  parseSkillTaxonomyNode,
+  type SkillTaxonomyNode,
+} from '@/lib/skill-taxonomy';
+
+export const runtime = 'nodejs';
+
+const BUILTIN_KEYS = new Set(DEFAULT_SKILL_TAXONOMY.map((n) => normalizeSkillKey(n.name)));
+
+// GET the merged taxonomy (built-in defaults + owner overrides)
+export async function GET() {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('skill_taxonomy')
+      .select('name, category, aliases, parents, implies')
+      .eq('owner_id', ownerId);
+
+    if (error && error.code !== '42P01') throw error;
+
+    const stored = ((data as unknown[] | null) || [])
+      .map(parseSkillTaxonomyNode)
+      .filter((n): n is SkillTaxonomyNode => Boolean(n));
+    const storedKeys = new Set(stored.map((n) => normalizeSkillKey(n.name)));
+
+    const nodes = buildSkillTaxonomy(stored)
+      .nodes.map((node) => {
+        const key = normalizeSkillKey(node.name);
+        return { ...node, builtin: BUILTIN_KEYS.has(key), overridden: storedKeys.has(key) };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return NextResponse.json({ nodes, migrated: !error });
+  } catch (error) {
+    console.error('Admin skill taxonomy GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT create or override a taxonomy node
+export async function PUT(request: NextRequest) {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const node = parseSkillTaxonomyNode(await request.json().catch(() => null));
+    if (!node) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+
+    // Keep the stored name spelled like the node it overrides so lookups stay unique per skill.
+    const builtin = DEFAULT_SKILL_TAXONOMY.find((n) => normalizeSkillKey(n.name) === normalizeSkillKey(node.name));
+    const name = builtin ? builtin.name : node.name;
+
+    const { data, error } = await supabaseAdmin
+      .from('skill_taxonomy')
+      .upsert(
+        { owner_id: ownerId, ...node, name, updated_at: new Date().toISOString() },
+        { onConflict: 'owner_id,name' }
+      )
+      .select('name, category, aliases, parents, implies')
+      .single();
+
+    if (error) throw error;
+
+    revalidateTag('skill-taxonomy', 'default');
+    return NextResponse.json(data);
+  } catch (error) {
+    console.error('Admin skill taxonomy PUT error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE an override (built-in nodes revert to their defaults)
+export async function DELETE(request: NextRequest) {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const key = normalizeSkillKey(searchParams.get('name') || '');
+
+    if (!key) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+
+    // Match on the normalized key like PUT does, so "nodejs" removes a "Node.js" override.
+    const { data: rows, error: listError } = await supabaseAdmin
+      .from('skill_taxonomy')
+      .select('name')
+      .eq('owner_id', ownerId);
+
+    if (listError) throw listError;
+
+    const names = ((rows as Array<{ name: string }> | null) || [])
+      .map((row) => row.name)
+      .filter((name) => normalizeSkillKey(name) === key);
+
+    if (names.length > 0) {
+      const { error } = await supabaseAdmin
+        .from('skill_taxonomy')
+        .delete()
+        .eq('owner_id', ownerId)
+        .in('name', names);
+
+      if (error) throw error;
+    }
+
+    revalidateTag('skill-taxonomy', 'default');
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Admin skill taxonomy DELETE error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { revalidateTag } from 'next/cache';
-import { supabaseAdmin, DEFAULT_OWNER_ID, isSupabaseConfigured } from '@/lib/supabase';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
 import { deleteSourceChunks, indexStory } from '@/lib/indexer';
+import { recordRevision } from '@/lib/revisions';
+import { scheduleRebuild } from '@/lib/job-worker';
 
 export const runtime = 'nodejs';
 
 export async function GET() {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -14,7 +18,7 @@ export async function GET() {
     const { data, error } = await supabaseAdmin
       .from('stories')
       .select('*')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .order('updated_at', { ascending: false });
 
     if (error) throw error;
@@ -27,6 +31,7 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -54,7 +59,7 @@ export async function POST(request: NextRequest) {
     const { data, error } = await supabaseAdmin
       .from('stories')
       .insert({
-        owner_id: DEFAULT_OWNER_ID,
+        owner_id: ownerId,
         title,
         situation,
         task,
@@ -73,6 +78,8 @@ export async function POST(request: NextRequest) {
     if (data.is_public) {
       await indexStory(data);
     }
+    await recordRevision({ ownerId, entityType: 'story', action: 'create', snapshot: data });
+    scheduleRebuild(ownerId);
     revalidateTag('stories', 'default');
     return NextResponse.json(data, { status: 201 });
   } catch (error) {
@@ -83,6 +90,7 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -104,7 +112,7 @@ export async function PUT(request: NextRequest) {
       .from('stories')
       .update(updates)
       .eq('id', id)
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .select()
       .single();
 
@@ -115,6 +123,8 @@ export async function PUT(request: NextRequest) {
     } else {
       await deleteSourceChunks('story', id);
     }
+    await recordRevision({ ownerId, entityType: 'story', action: 'update', snapshot: data });
+    scheduleRebuild(ownerId);
     revalidateTag('stories', 'default');
     return NextResponse.json(data);
   } catch (error) {
@@ -125,6 +135,7 @@ export async function PUT(request: NextRequest) {
 
 export async function DELETE(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     if (!isSupabaseConfigured()) {
       return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
     }
@@ -136,15 +147,18 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Story ID is required' }, { status: 400 });
     }
 
-    const { error } = await supabaseAdmin
+    const { data: deleted, error } = await supabaseAdmin
       .from('stories')
       .delete()
       .eq('id', id)
-      .eq('owner_id', DEFAULT_OWNER_ID);
+      .eq('owner_id', ownerId)
+      .select();
 
     if (error) throw error;
 
     await deleteSourceChunks('story', id);
+    await recordRevision({ ownerId, entityType: 'story', action: 'delete', snapshot: deleted?.[0] });
+    scheduleRebuild(ownerId);
     revalidateTag('stories', 'default');
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -1,7 +1,22 @@
-import { NextRequest } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { retrieveContext } from '@/lib/rag';
-import { streamChat, CHAT_SYSTEM_PROMPT } from '@/lib/ai';
-import { supabaseAdmin, DEFAULT_OWNER_ID, isSupabaseConfigured } from '@/lib/supabase';
+import { getPublicSourceUrl, toPublicUrl } from '@/lib/chat-sources';
+import { isTextGenerationConfigured, streamChat, CHAT_SYSTEM_PROMPT } from '@/lib/ai';
+import { generateEmbedding } from '@/lib/embeddings';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { getVisitorId, setVisitorCookie } from '@/lib/visitor';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { lookupCachedResponse, saveCachedResponse, type CachedResponse } from '@/lib/response-cache';
+import { runAgentResearch } from '@/lib/chat-agent';
+import {
+  appendMessage,
+  createConversation,
+  getConversationMessages,
+  getVisitorConversation,
+  isConversationId,
+  isMissingTableError,
+} from '@/lib/conversations';
 import { extractSkillsFromText } from '@/lib/skills-import';
 import {
   getPublishedArticles,
@@ -9,9 +24,11 @@ import {
   getPublishedProjects,
   getPublicStories,
   getSkills,
+  getSkillTaxonomy,
 } from '@/lib/content';
-import type { Article, ChunkReference, Experience, Project, Skill, Story } from '@/types';
-import { buildSettingsIdentityPrompt } from '@/lib/site-settings-types';
+import type { SkillTaxonomy } from '@/lib/skill-taxonomy';
+import type { Article, ChatMessage, ChunkReference, Conversation, Experience, Project, Skill, Story } from '@/types';
+import { buildSettingsIdentityPrompt, type SiteSettings } from '@/lib/site-settings-types';
 import { getSiteSettings } from '@/lib/site-settings';
 
 export const runtime = 'nodejs';
@@ -36,6 +53,7 @@ function buildRetrievalQuery(args: {
   message: string;
   conversationHistory?: Array<{ role: string; content: string }> | null;
   sessionContextText?: string;
+  taxonomy: SkillTaxonomy;
 }): string {
   const history = Array.isArray(args.conversationHistory)
     ? args.conversationHistory
@@ -52,7 +70,7 @@ function buildRetrievalQuery(args: {
   if (args.sessionContextText) parts.push(`Session context:\n${clampText(args.sessionContextText, 1400)}`);
 
   const base = parts.join('\n\n').trim();
-  const skills = extractSkillsFromText(base).slice(0, 10).map((s) => s.name);
+  const skills = extractSkillsFromText(base, args.taxonomy).slice(0, 10).map((s) => s.name);
   const expanded = skills.length > 0 ? `${base}\n\nKey skills/keywords: ${skills.join(', ')}` : base;
 
   return clampText(expanded, MAX_RETRIEVAL_QUERY_CHARS);
@@ -113,29 +131,11 @@ function dedupeSourcesForUi(sources: ChunkReference[]): ChunkReference[] {
   return out;
 }
 
-function getSourceHref(source: ChunkReference): string | null {
-  const base = (process.env.NEXT_PUBLIC_SITE_URL || 'https://chengai-tianle.ai-builders.space').replace(/\/$/, '');
-  const toPublicUrl = (path: string) => {
-    if (!path) return path;
-    if (/^https?:\/\//i.test(path)) return path;
-    return `${base}${path.startsWith('/') ? '' : '/'}${path}`;
-  };
-
-  const type = source.source_type;
-  if (type === 'article' && source.source_slug) return toPublicUrl(`/articles/${source.source_slug}`);
-  if (type === 'project' && source.source_slug) return toPublicUrl(`/projects/${source.source_slug}`);
-  if (type === 'experience') return toPublicUrl('/experience');
-  if (type === 'resume') return toPublicUrl('/api/resume');
-  if (type === 'story') return toPublicUrl('/stories');
-  if (type === 'skill') return toPublicUrl('/skills');
-  return null;
-}
-
 function formatContextFromSources(sources: ChunkReference[]): string {
   return (sources || [])
     .map((r, idx) => {
       const slugPart = r.source_slug ? ` (slug: ${r.source_slug})` : '';
-      const url = getSourceHref(r);
+      const url = getPublicSourceUrl(r);
       const urlLine = url ? `\nURL: ${url}` : '';
       return `SOURCE ${idx + 1}\nType: ${r.source_type}\nTitle: ${r.source_title}${slugPart}${urlLine}\nSnippet: ${r.content_preview}`;
     })
@@ -153,13 +153,6 @@ async function buildPortfolioIndexText(): Promise<string> {
     getPublicStories(),
   ]);
 
-  const base = (process.env.NEXT_PUBLIC_SITE_URL || 'https://chengai-tianle.ai-builders.space').replace(/\/$/, '');
-  const toPublicUrl = (path: string) => {
-    if (!path) return path;
-    if (/^https?:\/\//i.test(path)) return path;
-    return `${base}${path.startsWith('/') ? '' : '/'}${path}`;
-  };
-
   const lines: string[] = [];
   lines.push('PORTFOLIO INDEX (navigation only, not proof for metrics)');
   lines.push(`Website: ${toPublicUrl('/')}`);
@@ -230,7 +223,10 @@ function buildHardGuardrails(userMessage: string): string {
   return '';
 }
 
-async function getCatalogFallbackSources(sourceTypes?: string[]): Promise<ChunkReference[]> {
+async function getCatalogFallbackSources(
+  ownerId: string,
+  sourceTypes?: string[]
+): Promise<ChunkReference[]> {
   if (!isSupabaseConfigured()) return [];
 
   const include = new Set(
@@ -265,7 +261,7 @@ async function getCatalogFallbackSources(sourceTypes?: string[]): Promise<ChunkR
     const { data } = await supabaseAdmin
       .from('projects')
       .select('id, title, slug, subtitle, description, tech_stack, repo_url, demo_url, article_url, is_featured')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .eq('status', 'published')
       .is('deleted_at', null)
       .order('is_featured', { ascending: false })
@@ -278,7 +274,7 @@ async function getCatalogFallbackSources(sourceTypes?: string[]): Promise<ChunkR
       const { data: chengai } = await supabaseAdmin
         .from('projects')
         .select('id, title, slug, subtitle, description, tech_stack, repo_url, demo_url, article_url, is_featured')
-        .eq('owner_id', DEFAULT_OWNER_ID)
+        .eq('owner_id', ownerId)
         .eq('status', 'published')
         .eq('slug', 'chengai')
         .is('deleted_at', null)
@@ -316,7 +312,7 @@ async function getCatalogFallbackSources(sourceTypes?: string[]): Promise<ChunkR
     const { data } = await supabaseAdmin
       .from('articles')
       .select('id, title, slug, summary, content')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .eq('status', 'published')
       .order('published_at', { ascending: false })
       .limit(4);
@@ -340,7 +336,7 @@ async function getCatalogFallbackSources(sourceTypes?: string[]): Promise<ChunkR
     const { data } = await supabaseAdmin
       .from('stories')
       .select('id, title, situation, task, action, result')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .eq('is_public', true)
       .order('updated_at', { ascending: false })
       .limit(4);
@@ -363,7 +359,7 @@ async function getCatalogFallbackSources(sourceTypes?: string[]): Promise<ChunkR
     const { data } = await supabaseAdmin
       .from('skills')
       .select('id, name, category, proficiency, years_of_experience, is_primary')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .order('is_primary', { ascending: false })
       .order('proficiency', { ascending: false })
       .limit(8);
@@ -384,7 +380,7 @@ async function getCatalogFallbackSources(sourceTypes?: string[]): Promise<ChunkR
     const { data } = await supabaseAdmin
       .from('experiences')
       .select('id, company, role, location, employment_type, start_date, end_date, summary, highlights, tech_stack, status')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .eq('status', 'published')
       .order('start_date', { ascending: false })
       .limit(4);
@@ -458,9 +454,207 @@ async function getCatalogFallbackSources(sourceTypes?: string[]): Promise<ChunkR
   return selected;
 }
 
+const HISTORY_TURNS = 4;
+
+// Continue the visitor's conversation when the id checks out, otherwise start a new one.
+// Persistence is best-effort: chat keeps working (with client-sent history) if the tables are missing.
+async function resolveConversation(args: {
+  ownerId: string;
+  visitorId: string;
+  isNewVisitor: boolean;
+  conversationId?: unknown;
+  message: string;
+  mode?: unknown;
+}): Promise<{ conversation: Conversation; history: ChatMessage[] | null } | null> {
+  if (!isSupabaseConfigured()) return null;
+
+  try {
+    if (isConversationId(args.conversationId) && !args.isNewVisitor) {
+      const existing = await getVisitorConversation(args.ownerId, args.visitorId, args.conversationId);
+      if (existing) {
+        const history = await getConversationMessages(args.ownerId, existing.id, HISTORY_TURNS);
+        return { conversation: existing, history };
+      }
+    }
+
+    const conversation = await createConversation({
+      ownerId: args.ownerId,
+      visitorId: args.visitorId,
+      title: args.message,
+      mode: typeof args.mode === 'string' ? args.mode : undefined,
+    });
+    return { conversation, history: null };
+  } catch (error) {
+    if (!isMissingTableError(error)) console.warn('Conversation persistence unavailable:', error);
+    return null;
+  }
+}
+
+async function persistMessage(args: Parameters<typeof appendMessage>[0]): Promise<void> {
+  try {
+    await appendMessage(args);
+  } catch (error) {
+    console.warn('Failed to save chat message:', error);
+  }
+}
+
+const CACHED_REPLAY_CHUNK_CHARS = 160;
+
+function encodeEvent(encoder: TextEncoder, payload: unknown): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(payload)}\n\n`);
+}
+
+// Replays a cached answer as the same conversation/sources/text event sequence as a live completion.
+function cachedAnswerStream(args: {
+  ownerId: string;
+  conversation: Conversation | null;
+  cached: CachedResponse;
+}): ReadableStream {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async start(controller) {
+      const { conversation, cached } = args;
+      if (conversation) {
+        controller.enqueue(encodeEvent(encoder, { type: 'conversation', conversation_id: conversation.id }));
+      }
+      controller.enqueue(encodeEvent(encoder, { type: 'sources', sources: cached.sources }));
+
+      for (let i = 0; i < cached.answer.length; i += CACHED_REPLAY_CHUNK_CHARS) {
+        controller.enqueue(
+          encodeEvent(encoder, { type: 'text', content: cached.answer.slice(i, i + CACHED_REPLAY_CHUNK_CHARS) })
+        );
+      }
+
+      if (conversation) {
+        await persistMessage({
+          ownerId: args.ownerId,
+          conversationId: conversation.id,
+          role: 'assistant',
+          content: cached.answer,
+          sources: cached.sources,
+        });
+      }
+
+      controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+      controller.close();
+    },
+  });
+}
+
+// Forwards streamChat output as text/replace events and returns the final answer text.
+async function pipeAnswer(
+  controller: ReadableStreamDefaultController,
+  encoder: TextEncoder,
+  chunks: ReturnType<typeof streamChat>
+): Promise<string> {
+  let answer = '';
+  for await (const tokenChunk of chunks) {
+    if (tokenChunk.type === 'replace') {
+      answer = tokenChunk.content;
+      controller.enqueue(encodeEvent(encoder, { type: 'replace', content: tokenChunk.content }));
+      continue;
+    }
+    answer += tokenChunk.content;
+    controller.enqueue(encodeEvent(encoder, { type: 'text', content: tokenChunk.content }));
+  }
+  return answer;
+}
+
+const MAX_AGENT_CONTEXT_SOURCES = 16;
+
+// Agent mode: the model gathers evidence with tools first (streamed as tool_call/tool_result events),
+// then the answer is streamed from what it found with the regular chat prompt.
+function agentAnswerStream(args: {
+  ownerId: string;
+  conversation: Conversation | null;
+  siteSettings: SiteSettings;
+  question: string;
+  systemPrompt: string;
+  userPrompt: string;
+  chargeRound?: () => Promise<boolean>;
+  chargeJDMatch?: () => Promise<boolean>;
+}): ReadableStream {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async start(controller) {
+      try {
+        const { ownerId, conversation } = args;
+        if (conversation) {
+          controller.enqueue(encodeEvent(encoder, { type: 'conversation', conversation_id: conversation.id }));
+        }
+
+        const research = await runAgentResearch({
+          ownerId,
+          siteSettings: args.siteSettings,
+          question: args.question,
+          onEvent: (event) => controller.enqueue(encodeEvent(encoder, event)),
+          chargeRound: args.chargeRound,
+          chargeJDMatch: args.chargeJDMatch,
+        });
+
+        let sources = research.sources.slice(0, MAX_AGENT_CONTEXT_SOURCES);
+        const isFallbackCatalog = sources.length === 0;
+        if (isFallbackCatalog) {
+          sources = sortSources(await getCatalogFallbackSources(ownerId));
+        }
+
+        const sourcesForUi = dedupeSourcesForUi(sources);
+        controller.enqueue(encodeEvent(encoder, { type: 'sources', sources: sourcesForUi }));
+
+        const contextParts = [formatContextFromSources(sources)];
+        if (research.notes.length > 0) {
+          contextParts.push(`TOOL NOTES (computed, not quotable evidence)\n${research.notes.join('\n\n')}`);
+        }
+        const portfolioIndexText = await buildPortfolioIndexText();
+        if (portfolioIndexText) contextParts.push(portfolioIndexText);
+
+        const systemPrompt = isFallbackCatalog
+          ? `${args.systemPrompt}\n\nImportant: the research tools found no direct evidence. The SOURCES are high-level catalog items; say what is missing and point to the most relevant pages.`
+          : args.systemPrompt;
+
+        const answer = await pipeAnswer(
+          controller,
+          encoder,
+          streamChat(systemPrompt, args.userPrompt, contextParts.filter(Boolean).join('\n\n'))
+        );
+
+        if (conversation && answer.trim()) {
+          await persistMessage({
+            ownerId,
+            conversationId: conversation.id,
+            role: 'assistant',
+            content: answer,
+            sources: sourcesForUi,
+          });
+        }
+
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      } catch (error) {
+        console.error('Agent streaming error:', error);
+        controller.enqueue(encodeEvent(encoder, { type: 'error', error: 'Generation failed' }));
+        controller.close();
+      }
+    },
+  });
+}
+
+function eventStreamResponse(stream: ReadableStream, newVisitorId: string | null): NextResponse {
+  const response = new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    },
+  });
+  if (newVisitorId) setVisitorCookie(response, newVisitorId);
+  return response;
+}
+
 export async function POST(request: NextRequest) {
   try {
-    const { message, conversationHistory, mode, sessionContext } = await request.json();
+    const ownerId = await getOwnerId();
+    const { message, conversationHistory, conversationId, mode, sessionContext, agent } = await request.json();
 
     if (!message || typeof message !== 'string') {
       return new Response(JSON.stringify({ error: 'Message is required' }), {
@@ -473,8 +667,97 @@ export async function POST(request: NextRequest) {
       typeof sessionContext === 'string' ? sessionContext.trim().slice(0, 12000) : '';
     const siteSettings = await getSiteSettings();
 
-    // Rate limiting check (simple in-memory for now)
-    // TODO: Implement proper rate limiting with Redis
+    const { visitorId, isNew: isNewVisitor } = getVisitorId(request);
+
+    const takeChatToken = () =>
+      checkRateLimit({
+        request,
+        scope: 'chat',
+        ownerId,
+        visitorId: isNewVisitor ? null : visitorId,
+        limits: siteSettings.rateLimits.chat,
+      });
+
+    if (siteSettings.rateLimits.enabled) {
+      const rateLimit = await takeChatToken();
+      if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+    }
+
+    const resolved = await resolveConversation({
+      ownerId,
+      visitorId,
+      isNewVisitor,
+      conversationId,
+      message,
+      mode,
+    });
+    const conversation = resolved?.conversation ?? null;
+    // Stored history wins over whatever the client sent for an existing conversation.
+    const history: Array<{ role: string; content: string }> | null =
+      resolved?.history ?? (Array.isArray(conversationHistory) ? conversationHistory : null);
+
+    if (conversation) {
+      await persistMessage({ ownerId, conversationId: conversation.id, role: 'user', content: message });
+    }
+
+    // Build conversation context
+    const historyContext = history
+      ? history
+          .slice(-HISTORY_TURNS)
+          .map((m: { role: string; content: string }) => `${m.role}: ${m.content}`)
+          .join('\n')
+      : '';
+
+    const hardGuardrails = buildHardGuardrails(message);
+
+    const modeInstruction =
+      mode === 'behavior'
+        ? '\n\nMode: behavioral interview. Answer like a real interview: start with a short hook (why this mattered), then give just enough context, what you did (decisions + actions), and the outcome (metrics if available). Close with a brief generalization (what you learned / how you’d apply it again). Do NOT label sections as “Situation/Task/Action/Result” unless the user explicitly asks for STAR formatting. Prefer stories, but you may also use resume/experience sources when relevant.'
+        : mode === 'tech'
+          ? '\n\nMode: tech deep dive. Prioritize concrete technical details, trade-offs, and verifiable facts. Use the provided SOURCES (projects / resume / experience / articles) and clearly separate facts from assumptions.'
+          : '';
+
+    const sessionContextInstruction = sessionContextText
+      ? '\n\nSession context: the user may provide extra context (e.g., a job description and a prior match report). Use it to answer follow-ups, but do NOT treat it as verified candidate facts unless the SOURCES explicitly support it.'
+      : '';
+
+    const userPromptParts: string[] = [];
+    if (historyContext) userPromptParts.push(historyContext);
+    if (sessionContextText) {
+      userPromptParts.push(`Session context (user-provided):\n${sessionContextText}`);
+    }
+    userPromptParts.push(`User: ${message}`);
+    const userPrompt = userPromptParts.join('\n\n');
+
+    if (agent === true && isTextGenerationConfigured()) {
+      return eventStreamResponse(
+        agentAnswerStream({
+          ownerId,
+          conversation,
+          siteSettings,
+          question: userPrompt,
+          systemPrompt: `${CHAT_SYSTEM_PROMPT}\n\n${buildSettingsIdentityPrompt(siteSettings)}${modeInstruction}${sessionContextInstruction}${hardGuardrails}`,
+          userPrompt,
+          // Each extra planner/tool round costs a chat token, so agent mode can't outspend plain chat.
+          chargeRound: siteSettings.rateLimits.enabled
+            ? async () => (await takeChatToken()).allowed
+            : undefined,
+          chargeJDMatch: siteSettings.rateLimits.enabled
+            ? async () =>
+                (
+                  await checkRateLimit({
+                    request,
+                    scope: 'jd-match',
+                    ownerId,
+                    visitorId: isNewVisitor ? null : visitorId,
+                    limits: siteSettings.rateLimits.jdMatch,
+                  })
+                ).allowed
+            : undefined,
+        }),
+        isNewVisitor && conversation ? visitorId : null
+      );
+    }
 
     // Retrieve relevant context using RAG
     const retrievalConfig = buildRetrievalConfig({
@@ -484,14 +767,43 @@ export async function POST(request: NextRequest) {
 
     const retrievalQuery = buildRetrievalQuery({
       message,
-      conversationHistory: Array.isArray(conversationHistory) ? conversationHistory : null,
+      conversationHistory: history,
       sessionContextText: sessionContextText || undefined,
+      taxonomy: await getSkillTaxonomy(ownerId),
     });
 
+    // Standalone questions (no history or session context) can be answered from the response cache.
+    const cacheMode = mode === 'tech' || mode === 'behavior' ? mode : 'auto';
+    const isCacheable = !sessionContextText && !(history && history.length > 0);
+    let queryEmbedding: number[] | undefined;
+    // Version of the owner's content this answer is retrieved from; the save is dropped if it changes.
+    let cacheContentVersion: number | null = null;
+
+    if (isCacheable) {
+      try {
+        queryEmbedding = await generateEmbedding(retrievalQuery);
+        const { cached, contentVersion } = await lookupCachedResponse({
+          ownerId,
+          mode: cacheMode,
+          embedding: queryEmbedding,
+        });
+        cacheContentVersion = contentVersion;
+        if (cached) {
+          return eventStreamResponse(
+            cachedAnswerStream({ ownerId, conversation, cached }),
+            isNewVisitor && conversation ? visitorId : null
+          );
+        }
+      } catch (error) {
+        console.warn('Response cache lookup skipped:', error);
+      }
+    }
+
     let { context, chunks: sources } = await retrieveContext(
       retrievalQuery,
       retrievalConfig.topK,
-      retrievalConfig.sourceTypes
+      retrievalConfig.sourceTypes,
+      { rerank: true, queryEmbedding }
     );
 
     const portfolioIndexText = await buildPortfolioIndexText();
@@ -500,7 +812,7 @@ export async function POST(request: NextRequest) {
     // fall back to a small “catalog” of published content so the assistant can still list things.
     const isFallbackCatalog = !sources || sources.length === 0;
     if (!sources || sources.length === 0) {
-      sources = await getCatalogFallbackSources(retrievalConfig.sourceTypes);
+      sources = await getCatalogFallbackSources(ownerId, retrievalConfig.sourceTypes);
       sources = sortSources(sources);
       context = formatContextFromSources(sources);
     } else {
@@ -514,14 +826,6 @@ export async function POST(request: NextRequest) {
       context = `${context}\n\n${portfolioIndexText}`;
     }
 
-    // Build conversation context
-    const historyContext = conversationHistory
-      ? conversationHistory
-          .slice(-4)
-          .map((m: { role: string; content: string }) => `${m.role}: ${m.content}`)
-          .join('\n')
-      : '';
-
     const augmentedSystemPrompt = hasEvidence
       ? `${CHAT_SYSTEM_PROMPT}\n\n${buildSettingsIdentityPrompt(siteSettings)}${
           isFallbackCatalog
@@ -530,27 +834,6 @@ export async function POST(request: NextRequest) {
         }`
       : `${CHAT_SYSTEM_PROMPT}\n\n${buildSettingsIdentityPrompt(siteSettings)}\n\nImportant: no directly relevant sources were retrieved for this question. State that clearly and suggest the most relevant pages to check (projects / articles / skills), or ask the user to provide more context.`;
 
-    const hardGuardrails = buildHardGuardrails(message);
-
-    const modeInstruction =
-      mode === 'behavior'
-        ? '\n\nMode: behavioral interview. Answer like a real interview: start with a short hook (why this mattered), then give just enough context, what you did (decisions + actions), and the outcome (metrics if available). Close with a brief generalization (what you learned / how you’d apply it again). Do NOT label sections as “Situation/Task/Action/Result” unless the user explicitly asks for STAR formatting. Prefer stories, but you may also use resume/experience sources when relevant.'
-        : mode === 'tech'
-          ? '\n\nMode: tech deep dive. Prioritize concrete technical details, trade-offs, and verifiable facts. Use the provided SOURCES (projects / resume / experience / articles) and clearly separate facts from assumptions.'
-          : '';
-
-    const sessionContextInstruction = sessionContextText
-      ? '\n\nSession context: the user may provide extra context (e.g., a job description and a prior match report). Use it to answer follow-ups, but do NOT treat it as verified candidate facts unless the SOURCES explicitly support it.'
-      : '';
-
-    const userPromptParts: string[] = [];
-    if (historyContext) userPromptParts.push(historyContext);
-    if (sessionContextText) {
-      userPromptParts.push(`Session context (user-provided):\n${sessionContextText}`);
-    }
-    userPromptParts.push(`User: ${message}`);
-    const userPrompt = userPromptParts.join('\n\n');
-
     // Create streaming response
     const encoder = new TextEncoder();
     const stream = new ReadableStream({
@@ -558,32 +841,45 @@ export async function POST(request: NextRequest) {
         try {
           const sourcesForUi = dedupeSourcesForUi(sources);
 
-          // First, send sources metadata
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({ type: 'sources', sources: sourcesForUi })}\n\n`
+          if (conversation) {
+            controller.enqueue(encodeEvent(encoder, { type: 'conversation', conversation_id: conversation.id }));
+          }
+
+          // Then, send sources metadata
+          controller.enqueue(encodeEvent(encoder, { type: 'sources', sources: sourcesForUi }));
+
+          // Stream the chat response
+          const answer = await pipeAnswer(
+            controller,
+            encoder,
+            streamChat(
+              augmentedSystemPrompt + modeInstruction + sessionContextInstruction + hardGuardrails,
+              userPrompt,
+              context
             )
           );
 
-          // Stream the chat response
-          for await (const tokenChunk of streamChat(
-            augmentedSystemPrompt + modeInstruction + sessionContextInstruction + hardGuardrails,
-            userPrompt,
-            context
-          )) {
-            if (tokenChunk.type === 'replace') {
-              controller.enqueue(
-                encoder.encode(
-                  `data: ${JSON.stringify({ type: 'replace', content: tokenChunk.content })}\n\n`
-                )
-              );
-              continue;
-            }
-            controller.enqueue(
-              encoder.encode(
-                `data: ${JSON.stringify({ type: 'text', content: tokenChunk.content })}\n\n`
-              )
-            );
+          if (conversation && answer.trim()) {
+            await persistMessage({
+              ownerId,
+              conversationId: conversation.id,
+              role: 'assistant',
+              content: answer,
+              sources: sourcesForUi,
+            });
+          }
+
+          // Only grounded answers are worth replaying; "no evidence" replies usually mean the index is still empty.
+          if (isCacheable && queryEmbedding && hasEvidence && !isFallbackCatalog && answer.trim()) {
+            await saveCachedResponse({
+              ownerId,
+              mode: cacheMode,
+              query: message,
+              embedding: queryEmbedding,
+              answer,
+              sources: sourcesForUi,
+              contentVersion: cacheContentVersion,
+            });
           }
 
           controller.enqueue(encoder.encode('data: [DONE]\n\n'));
@@ -600,13 +896,7 @@ export async function POST(request: NextRequest) {
       },
     });
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        Connection: 'keep-alive',
-      },
-    });
+    return eventStreamResponse(stream, isNewVisitor && conversation ? visitorId : null);
   } catch (error) {
     console.error('Chat API error:', error);
     return new Response(JSON.stringify({ error: 'Internal server error' }), {
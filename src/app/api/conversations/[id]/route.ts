@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { getVisitorId } from '@/lib/visitor';
+import {
+  deleteConversation,
+  getConversationMessages,
+  getVisitorConversation,
+  isConversationId,
+  isMissingTableError,
+} from '@/lib/conversations';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// GET a conversation with its full transcript (only for the visitor who owns it)
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const { id } = await params;
+    const { visitorId, isNew } = getVisitorId(request);
+    const conversation = isNew || !isConversationId(id) ? null : await getVisitorConversation(ownerId, visitorId, id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const messages = await getConversationMessages(ownerId, conversation.id);
+    return NextResponse.json({ conversation, messages });
+  } catch (error) {
+    if (isMissingTableError(error)) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+    console.error('Conversation GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE a conversation (and its messages)
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const { id } = await params;
+    const { visitorId, isNew } = getVisitorId(request);
+    if (isNew || !isConversationId(id)) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    await deleteConversation(ownerId, visitorId, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Conversation DELETE error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
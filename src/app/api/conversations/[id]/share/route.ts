@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerTenant } from '@/lib/owner';
+import { ownerPublicPath } from '@/lib/tenants';
+import { getVisitorId } from '@/lib/visitor';
+import {
+  conversationsMigrationHint,
+  ensureShareToken,
+  getVisitorConversation,
+  isMissingTableError,
+} from '@/lib/conversations';
+
+export const runtime = 'nodejs';
+
+// POST create (or reuse) a read-only share link for a conversation
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const tenant = await getOwnerTenant();
+    const ownerId = tenant.id;
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const { id } = await params;
+    const { visitorId, isNew } = getVisitorId(request);
+    const conversation = isNew ? null : await getVisitorConversation(ownerId, visitorId, id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const token = await ensureShareToken(ownerId, conversation);
+    return NextResponse.json({ share_token: token, path: ownerPublicPath(tenant, `/share/${token}`) });
+  } catch (error) {
+    if (isMissingTableError(error)) {
+      return NextResponse.json({ error: conversationsMigrationHint() }, { status: 500 });
+    }
+    console.error('Conversation share error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
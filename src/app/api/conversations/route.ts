@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { getVisitorId, setVisitorCookie } from '@/lib/visitor';
+import {
+  conversationsMigrationHint,
+  createConversation,
+  forkSharedConversation,
+  isMissingTableError,
+  listVisitorConversations,
+} from '@/lib/conversations';
+
+export const runtime = 'nodejs';
+
+// GET this visitor's recent conversations
+export async function GET(request: NextRequest) {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ conversations: [] });
+    }
+
+    const { visitorId, isNew } = getVisitorId(request);
+    if (isNew) return NextResponse.json({ conversations: [] });
+
+    const conversations = await listVisitorConversations(ownerId, visitorId);
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    if (isMissingTableError(error)) {
+      return NextResponse.json({ conversations: [], warning: conversationsMigrationHint() });
+    }
+    console.error('Conversations GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST create a conversation, or continue a shared one ({ share_token })
+export async function POST(request: NextRequest) {
+  try {
+    const ownerId = await getOwnerId();
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const shareToken = typeof body?.share_token === 'string' ? body.share_token.trim() : '';
+    const { visitorId, isNew } = getVisitorId(request);
+
+    let res: NextResponse;
+    if (shareToken) {
+      const forked = await forkSharedConversation({ ownerId, visitorId, shareToken });
+      if (!forked) {
+        return NextResponse.json({ error: 'Shared conversation not found' }, { status: 404 });
+      }
+      res = NextResponse.json(forked);
+    } else {
+      const conversation = await createConversation({
+        ownerId,
+        visitorId,
+        title: typeof body?.title === 'string' ? body.title : undefined,
+        mode: body?.mode,
+      });
+      res = NextResponse.json({ conversation, messages: [] });
+    }
+
+    if (isNew) setVisitorCookie(res, visitorId);
+    return res;
+  } catch (error) {
+    if (isMissingTableError(error)) {
+      return NextResponse.json({ error: conversationsMigrationHint() }, { status: 500 });
+    }
+    console.error('Conversations POST error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSupabaseAdminConfigured } from '@/lib/supabase';
+import { runJobs } from '@/lib/job-worker';
+import { isMissingJobsTableError, jobsMigrationHint } from '@/lib/jobs';
+
+export const runtime = 'nodejs';
+
+export const maxDuration = 300;
+
+// GET run due background jobs (retries past their backoff, jobs whose worker died), across all owners.
+// Call from a scheduler (e.g. Vercel Cron) with `Authorization: Bearer <CRON_SECRET>`.
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET || '';
+    if (!secret) {
+      return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 503 });
+    }
+    if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isSupabaseAdminConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const summary = await runJobs();
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    if (isMissingJobsTableError(error)) {
+      return NextResponse.json({ error: jobsMigrationHint() }, { status: 501 });
+    }
+    console.error('Cron jobs error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSupabaseAdminConfigured } from '@/lib/supabase';
+import { publishDueContent } from '@/lib/publishing';
+
+export const runtime = 'nodejs';
+
+export const maxDuration = 120;
+
+// GET publish every due scheduled article/project, across all owners.
+// Call from a scheduler (e.g. Vercel Cron) with `Authorization: Bearer <CRON_SECRET>`.
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET || '';
+    if (!secret) {
+      return NextResponse.json({ error: 'CRON_SECRET is not configured' }, { status: 503 });
+    }
+    if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!isSupabaseAdminConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const published = await publishDueContent();
+    return NextResponse.json({ success: true, published });
+  } catch (error) {
+    console.error('Cron publish error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSiteSettings } from '@/lib/site-settings';
+import { draftToDocx, draftToMarkdown, parseDraftForExport } from '@/lib/application-draft';
+
+export const runtime = 'nodejs';
+
+function fileBaseName(title: string | null): string {
+  const slug = (title || 'application')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'application'}-draft`;
+}
+
+// POST { draft: ApplicationDraft, format: 'markdown' | 'docx' } -> file download
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const format = body?.format === 'docx' ? 'docx' : body?.format === 'markdown' ? 'markdown' : null;
+    if (!format) {
+      return NextResponse.json({ error: 'format must be "markdown" or "docx"' }, { status: 400 });
+    }
+
+    const draft = parseDraftForExport(body?.draft);
+    if (!draft) {
+      return NextResponse.json({ error: 'Invalid draft' }, { status: 400 });
+    }
+
+    const { profile } = await getSiteSettings();
+    const baseName = fileBaseName(draft.job_title);
+
+    if (format === 'markdown') {
+      return new NextResponse(draftToMarkdown(draft, profile.displayName), {
+        headers: {
+          'Content-Type': 'text/markdown; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${baseName}.md"`,
+        },
+      });
+    }
+
+    return new NextResponse(new Uint8Array(draftToDocx(draft, profile.displayName)), {
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        'Content-Disposition': `attachment; filename="${baseName}.docx"`,
+      },
+    });
+  } catch (error) {
+    console.error('JD draft export error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerId } from '@/lib/owner';
+import { getSiteSettings } from '@/lib/site-settings';
+import { getVisitorId } from '@/lib/visitor';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { JD_MAX_CHARS } from '@/lib/jd-match';
+import { generateApplicationDraft } from '@/lib/application-draft';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// POST { jd, job_title? } -> ApplicationDraft (cover letter + resume bullets with numbered citations)
+export async function POST(request: NextRequest) {
+  try {
+    const ownerId = await getOwnerId();
+    const body = await request.json().catch(() => null);
+    const jd = body?.jd;
+    const jobTitle = typeof body?.job_title === 'string' ? body.job_title.slice(0, 200) : null;
+
+    if (!jd || typeof jd !== 'string' || jd.length < 50) {
+      return NextResponse.json(
+        { error: 'Please provide a valid job description (at least 50 characters)' },
+        { status: 400 }
+      );
+    }
+
+    if (jd.length > JD_MAX_CHARS) {
+      return NextResponse.json(
+        { error: `Job description is too long (max ${JD_MAX_CHARS} characters)` },
+        { status: 400 }
+      );
+    }
+
+    const siteSettings = await getSiteSettings();
+
+    if (siteSettings.rateLimits.enabled) {
+      const { visitorId, isNew } = getVisitorId(request);
+      const rateLimit = await checkRateLimit({
+        request,
+        scope: 'jd-draft',
+        ownerId,
+        visitorId: isNew ? null : visitorId,
+        limits: siteSettings.rateLimits.jdMatch,
+      });
+      if (!rateLimit.allowed) return rateLimitResponse(rateLimit);
+    }
+
+    const draft = await generateApplicationDraft(jd.trim(), { ownerId, siteSettings, jobTitle });
+    if (!draft) {
+      return NextResponse.json(
+        { error: 'Not enough evidence in the knowledge base to draft application material for this role' },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(draft);
+  } catch (error) {
+    console.error('JD draft API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
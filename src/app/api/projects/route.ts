@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabase, DEFAULT_OWNER_ID } from '@/lib/supabase';
+import { supabase } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
 
 export const runtime = 'nodejs';
 
 export async function GET(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     const { searchParams } = new URL(request.url);
     const featured = searchParams.get('featured');
     const slug = searchParams.get('slug');
@@ -14,7 +16,7 @@ export async function GET(request: NextRequest) {
       const { data, error } = await supabase
         .from('projects')
         .select('*')
-        .eq('owner_id', DEFAULT_OWNER_ID)
+        .eq('owner_id', ownerId)
         .eq('status', 'published')
         .is('deleted_at', null)
         .eq('slug', slug)
@@ -37,7 +39,7 @@ export async function GET(request: NextRequest) {
     let query = supabase
       .from('projects')
       .select('*')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .eq('status', 'published')
       .is('deleted_at', null)
       .order('display_order', { ascending: true });
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { readFile } from 'fs/promises';
 import { join } from 'path';
 import { isSupabaseConfigured, supabaseAdmin } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { DEFAULT_OWNER_ID, ownerStoragePath } from '@/lib/tenants';
 
 export const runtime = 'nodejs';
 
@@ -16,7 +18,8 @@ function getContentDisposition(request: NextRequest, fileName: string): string {
 export async function GET(request: NextRequest) {
   try {
     const bucket = process.env.SUPABASE_RESUME_BUCKET || 'chengai-resume';
-    const objectPath = process.env.SUPABASE_RESUME_PATH || 'resume.pdf';
+    const ownerId = await getOwnerId();
+    const objectPath = ownerStoragePath(ownerId, process.env.SUPABASE_RESUME_PATH || 'resume.pdf');
     const downloadName = 'Resume_CharlieCheng.pdf';
     const isProd = process.env.NODE_ENV === 'production';
     const contentDisposition = getContentDisposition(request, downloadName);
@@ -48,6 +51,11 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    // The local `bank/` resume belongs to the default owner only.
+    if (ownerId !== DEFAULT_OWNER_ID) {
+      return NextResponse.json({ error: 'Resume not found' }, { status: 404 });
+    }
+
     const resumePath = join(process.cwd(), 'bank', 'Resume_TianleCheng.pdf');
     const fileBuffer = await readFile(resumePath);
 
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { getSiteSettings } from '@/lib/site-settings';
+import { getVisitorId, setVisitorCookie } from '@/lib/visitor';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+import { SEARCH_MAX_QUERY_CHARS, SEARCH_MIN_QUERY_CHARS, searchSite } from '@/lib/search';
+
+export const runtime = 'nodejs';
+
+// GET ?q=<query>[&type=project,article][&limit=n][&instant=1]
+// `instant` (as-you-type callers) searches full text only, without a query embedding.
+export async function GET(request: NextRequest) {
+  try {
+    const ownerId = await getOwnerId();
+    const params = new URL(request.url).searchParams;
+    const query = (params.get('q') || '').trim();
+
+    if (query.length < SEARCH_MIN_QUERY_CHARS) {
+      return NextResponse.json({ query, total: 0, groups: [] });
+    }
+    if (query.length > SEARCH_MAX_QUERY_CHARS) {
+      return NextResponse.json(
+        { error: `Query is too long (max ${SEARCH_MAX_QUERY_CHARS} characters)` },
+        { status: 400 }
+      );
+    }
+    if (!isSupabaseConfigured()) {
+      return NextResponse.json({ error: 'Database not configured' }, { status: 500 });
+    }
+
+    const siteSettings = await getSiteSettings(ownerId);
+    const { visitorId, isNew } = getVisitorId(request);
+    // First requests get the visitor cookie, so later ones are limited per visitor as well as per IP.
+    const withVisitor = (response: NextResponse) => {
+      if (isNew) setVisitorCookie(response, visitorId);
+      return response;
+    };
+
+    if (siteSettings.rateLimits.enabled) {
+      const rateLimit = await checkRateLimit({
+        request,
+        scope: 'search',
+        ownerId,
+        visitorId: isNew ? null : visitorId,
+        limits: siteSettings.rateLimits.search,
+      });
+      if (!rateLimit.allowed) return withVisitor(rateLimitResponse(rateLimit));
+    }
+
+    const sourceTypes = (params.get('type') || '')
+      .split(',')
+      .map((type) => type.trim())
+      .filter(Boolean);
+    const limit = Math.min(30, Math.max(1, Number(params.get('limit')) || 30));
+
+    const response = await searchSite(query, {
+      ownerId,
+      sourceTypes,
+      limit,
+      fullTextOnly: params.get('instant') === '1',
+    });
+    return withVisitor(NextResponse.json(response));
+  } catch (error) {
+    console.error('Search GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
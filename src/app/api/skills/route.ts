@@ -1,15 +1,17 @@
 import { NextResponse } from 'next/server';
-import { supabase, DEFAULT_OWNER_ID } from '@/lib/supabase';
+import { supabase } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
 
 export const runtime = 'nodejs';
 
 export async function GET() {
   try {
+    const ownerId = await getOwnerId();
     // Get skills
     const { data: skills, error } = await supabase
       .from('skills')
       .select('*')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .order('is_primary', { ascending: false })
       .order('proficiency', { ascending: false });
 
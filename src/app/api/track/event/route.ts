@@ -1,16 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { supabaseAdmin, DEFAULT_OWNER_ID, isSupabaseConfigured } from '@/lib/supabase';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { getClientIp, getVisitorId, setVisitorCookie } from '@/lib/visitor';
 
 export const runtime = 'nodejs';
 
-function getClientIp(request: NextRequest): string | null {
-  const forwarded = request.headers.get('x-forwarded-for');
-  if (!forwarded) return null;
-  return forwarded.split(',')[0]?.trim() || null;
-}
-
 export async function POST(request: NextRequest) {
   try {
+    const ownerId = await getOwnerId();
     const body = await request.json().catch(() => null);
     const type = typeof body?.type === 'string' ? body.type.trim() : '';
     const meta = typeof body?.meta === 'object' && body?.meta !== null ? body.meta : {};
@@ -27,11 +24,10 @@ export async function POST(request: NextRequest) {
     const userAgent = request.headers.get('user-agent');
     const referer = request.headers.get('referer');
 
-    const visitorIdCookie = request.cookies.get('chengai_vid');
-    const visitorId = visitorIdCookie?.value || crypto.randomUUID();
+    const { visitorId, isNew } = getVisitorId(request);
 
     const { error } = await supabaseAdmin.from('events').insert({
-      owner_id: DEFAULT_OWNER_ID,
+      owner_id: ownerId,
       visitor_id: visitorId,
       type,
       ip,
@@ -46,15 +42,7 @@ export async function POST(request: NextRequest) {
     }
 
     const res = NextResponse.json({ ok: true });
-    if (!visitorIdCookie) {
-      res.cookies.set('chengai_vid', visitorId, {
-        httpOnly: true,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 60 * 60 * 24 * 365,
-        path: '/',
-      });
-    }
+    if (isNew) setVisitorCookie(res, visitorId);
     return res;
   } catch (error) {
     console.error('Track event error:', error);
@@ -1,36 +1,85 @@
-import { getPublishedArticleBySlug } from '@/lib/content';
+import { getArticlePreview, getPublishedArticleBySlug } from '@/lib/content';
 import { notFound } from 'next/navigation';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { Calendar, ArrowLeft } from 'lucide-react';
 import Link from 'next/link';
+import PreviewBanner from '@/components/PreviewBanner';
+import JsonLd from '@/components/JsonLd';
+import RelatedContent from '@/components/RelatedContent';
+import { getOwnerTenant } from '@/lib/owner';
+import { getSiteSettings } from '@/lib/site-settings';
+import { toAbsoluteUrl } from '@/lib/site-url';
+import { OG_IMAGE_SIZE } from '@/lib/og-image';
+import { buildArticleJsonLd } from '@/lib/structured-data';
+import { getRelatedContent } from '@/lib/related-content';
 
 interface PageProps {
   params: Promise<{ slug: string }>;
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
 }
 
-export async function generateMetadata({ params }: PageProps) {
+// `?preview=<token>` (from Admin > Articles) shows the draft; otherwise only published content.
+async function loadArticle(slug: string, searchParamsPromise: PageProps['searchParams']) {
+  const searchParams = await searchParamsPromise;
+  const token = typeof searchParams?.preview === 'string' ? searchParams.preview : '';
+  if (token) {
+    const preview = await getArticlePreview(token);
+    if (preview) return { article: preview, isPreview: true };
+  }
+  return { article: await getPublishedArticleBySlug(slug), isPreview: false };
+}
+
+export async function generateMetadata({ params, searchParams }: PageProps) {
   const { slug } = await params;
-  const article = await getPublishedArticleBySlug(slug);
+  const { article, isPreview } = await loadArticle(slug, searchParams);
   
   if (!article) {
     return { title: 'Article Not Found' };
   }
 
+  const description = article.summary || article.content.slice(0, 160);
+  const tenant = await getOwnerTenant();
+  const { profile } = await getSiteSettings(tenant.id);
+  const title = `${article.title} | ${profile.displayName}`;
+  if (isPreview) {
+    // Draft previews must never be indexed.
+    return { title, description, robots: { index: false, follow: false } };
+  }
+
+  const image = { url: toAbsoluteUrl(`/og/articles/${article.slug}`, tenant), ...OG_IMAGE_SIZE };
+
   return {
-    title: `${article.title} | Charlie Cheng`,
-    description: article.summary || article.content.slice(0, 160),
+    title,
+    description,
+    openGraph: {
+      title: article.title,
+      description,
+      url: toAbsoluteUrl(`/articles/${article.slug}`, tenant),
+      type: 'article',
+      publishedTime: article.published_at || undefined,
+      tags: article.tags || undefined,
+      images: [image],
+    },
+    twitter: { card: 'summary_large_image', title: article.title, description, images: [image.url] },
   };
 }
 
-export default async function ArticlePage({ params }: PageProps) {
+export default async function ArticlePage({ params, searchParams }: PageProps) {
   const { slug } = await params;
-  const article = await getPublishedArticleBySlug(slug);
+  const { article, isPreview } = await loadArticle(slug, searchParams);
 
   if (!article) {
     notFound();
   }
 
+  const tenant = await getOwnerTenant();
+  const [settings, related] = await Promise.all([
+    getSiteSettings(tenant.id),
+    // Drafts aren't indexed, so previews have nothing to compare against.
+    isPreview ? Promise.resolve([]) : getRelatedContent('article', article.id, tenant.id),
+  ]);
+
   return (
     <div className="mx-auto max-w-3xl px-4 py-8 sm:px-6 lg:px-8">
       {/* Back Link */}
@@ -42,6 +91,12 @@ export default async function ArticlePage({ params }: PageProps) {
         Back to Articles
       </Link>
 
+      {!isPreview && <JsonLd data={buildArticleJsonLd(article, settings, tenant)} />}
+
+      {isPreview && (
+        <PreviewBanner kind="article" status={article.status} scheduledAt={article.scheduled_at} />
+      )}
+
       {/* Header */}
       <header className="mb-8">
         <div className="flex items-center gap-2 text-sm text-zinc-500 dark:text-zinc-400 mb-4">
@@ -82,6 +137,8 @@ export default async function ArticlePage({ params }: PageProps) {
           {article.content}
         </ReactMarkdown>
       </article>
+
+      <RelatedContent items={related} from={{ type: 'article', slug: article.slug }} />
     </div>
   );
 }
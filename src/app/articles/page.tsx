@@ -1,11 +1,23 @@
+import type { Metadata } from 'next';
 import Link from 'next/link';
 import { getPublishedArticles } from '@/lib/content';
-import { Calendar } from 'lucide-react';
+import { Calendar, Rss } from 'lucide-react';
+import { getSiteSettings } from '@/lib/site-settings';
 
-export const metadata = {
-  title: 'Articles | Charlie Cheng',
-  description: 'Thoughts on AI, software development, and building products',
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const { profile } = await getSiteSettings();
+  return {
+    title: `Articles | ${profile.displayName}`,
+    description: 'Thoughts on AI, software development, and building products',
+    alternates: {
+      types: {
+        'application/rss+xml': '/feed.xml',
+        'application/atom+xml': '/atom.xml',
+        'application/feed+json': '/feed.json',
+      },
+    },
+  };
+}
 
 export const dynamic = 'force-dynamic';
 
@@ -15,7 +27,17 @@ export default async function ArticlesPage() {
   return (
     <div className="mx-auto max-w-4xl px-4 py-8 sm:px-6 lg:px-8">
       <div className="mb-12">
-        <h1 className="text-3xl font-bold text-zinc-900 dark:text-white">Articles</h1>
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="text-3xl font-bold text-zinc-900 dark:text-white">Articles</h1>
+          <a
+            href="/feed.xml"
+            className="inline-flex items-center gap-1.5 text-sm text-zinc-500 hover:text-orange-600 dark:text-zinc-400"
+            title="RSS feed (also /atom.xml and /feed.json; add ?tag=<tag> for one topic)"
+          >
+            <Rss className="h-4 w-4" />
+            Subscribe
+          </a>
+        </div>
         <p className="mt-2 text-zinc-600 dark:text-zinc-400">
           Thoughts on AI, software development, and building products.
         </p>
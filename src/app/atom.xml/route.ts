@@ -0,0 +1,9 @@
+import { NextRequest } from 'next/server';
+import { feedResponse } from '@/lib/feeds';
+
+export const runtime = 'nodejs';
+
+// GET Atom 1.0 of published articles (optionally ?tag=<tag>)
+export async function GET(request: NextRequest) {
+  return feedResponse(request, 'atom');
+}
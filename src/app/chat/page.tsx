@@ -1,20 +1,28 @@
+import type { Metadata } from 'next';
 import ChatInterface from '@/components/chat/ChatInterface';
+import { getSiteSettings } from '@/lib/site-settings';
 
-export const metadata = {
-  title: 'Chat with AI | Charlie Cheng',
-  description: 'Ask my AI about my projects, skills, and experience',
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const { profile } = await getSiteSettings();
+  return {
+    title: `Chat with AI | ${profile.displayName}`,
+    description: 'Ask my AI about my projects, skills, and experience',
+  };
+}
 
-export default function ChatPage({
-  searchParams,
+export default async function ChatPage({
+  searchParams: searchParamsPromise,
 }: {
-  searchParams?: Record<string, string | string[] | undefined>;
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
 }) {
+  const searchParams = await searchParamsPromise;
   const initialMessage = typeof searchParams?.q === 'string' ? searchParams.q : undefined;
   const rawMode = typeof searchParams?.mode === 'string' ? searchParams.mode : undefined;
   const initialMode =
     rawMode === 'auto' || rawMode === 'tech' || rawMode === 'behavior' ? rawMode : undefined;
   const startFresh = searchParams?.new === '1';
+  const continueToken =
+    typeof searchParams?.continue === 'string' ? searchParams.continue : undefined;
 
   return (
     <div className="relative flex h-full min-h-0 flex-col">
@@ -24,7 +32,12 @@ export default function ChatPage({
       </div>
 
       <div className="mx-auto flex h-full w-full max-w-5xl flex-1 min-h-0 flex-col px-0 py-0 sm:px-6 sm:py-8 lg:px-8">
-        <ChatInterface initialMessage={initialMessage} initialMode={initialMode} startFresh={startFresh} />
+        <ChatInterface
+          initialMessage={initialMessage}
+          initialMode={initialMode}
+          startFresh={startFresh}
+          continueToken={continueToken}
+        />
       </div>
     </div>
   );
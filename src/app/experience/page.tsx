@@ -1,12 +1,20 @@
+import type { Metadata } from 'next';
 import { getPublishedExperiences } from '@/lib/content';
+import JsonLd from '@/components/JsonLd';
+import { getOwnerTenant } from '@/lib/owner';
+import { getSiteSettings } from '@/lib/site-settings';
+import { buildPersonJsonLd } from '@/lib/structured-data';
 import type { Experience } from '@/types';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
-export const metadata = {
-  title: 'Experience | Charlie Cheng',
-  description: 'Work experience and professional highlights',
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const { profile } = await getSiteSettings();
+  return {
+    title: `Experience | ${profile.displayName}`,
+    description: 'Work experience and professional highlights',
+  };
+}
 
 export const dynamic = 'force-dynamic';
 
@@ -19,9 +27,12 @@ function formatDateRange(exp: Experience): string | null {
 
 export default async function ExperiencePage() {
   const experiences = await getPublishedExperiences();
+  const tenant = await getOwnerTenant();
+  const settings = await getSiteSettings(tenant.id);
 
   return (
     <div className="mx-auto max-w-5xl px-4 py-10 sm:px-6 lg:px-8">
+      <JsonLd data={buildPersonJsonLd(settings, tenant, { experiences })} />
       <div className="mb-10">
         <h1 className="text-3xl font-bold text-zinc-900 dark:text-white">Experience</h1>
         <p className="mt-2 text-zinc-600 dark:text-zinc-400">
@@ -1,9 +1,14 @@
+import type { Metadata } from 'next';
 import JDMatcher from '@/components/chat/JDMatcher';
+import { getSiteSettings } from '@/lib/site-settings';
 
-export const metadata = {
-  title: 'JD Match | Charlie Cheng',
-  description: 'See how my skills and experience match your job requirements',
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const { profile } = await getSiteSettings();
+  return {
+    title: `JD Match | ${profile.displayName}`,
+    description: 'See how my skills and experience match your job requirements',
+  };
+}
 
 export default function JDMatchPage() {
   return (
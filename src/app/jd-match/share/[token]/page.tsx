@@ -0,0 +1,102 @@
+import { notFound } from 'next/navigation';
+import Link from 'next/link';
+import { CheckCircle } from 'lucide-react';
+import { getOwnerTenant } from '@/lib/owner';
+import { getSiteSettings } from '@/lib/site-settings';
+import { readJDMatchShareToken } from '@/lib/jd-match-share';
+import { OG_IMAGE_SIZE } from '@/lib/og-image';
+import { toAbsoluteUrl } from '@/lib/site-url';
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+async function loadSummary(params: PageProps['params']) {
+  const { token } = await params;
+  const tenant = await getOwnerTenant();
+  return { token, tenant, summary: await readJDMatchShareToken(token, tenant.id) };
+}
+
+function roleLabel(title: string | null, company: string | null): string {
+  return [title, company].filter(Boolean).join(' @ ') || 'Job description match';
+}
+
+export async function generateMetadata({ params }: PageProps) {
+  const { token, tenant, summary } = await loadSummary(params);
+
+  if (!summary) {
+    return { title: 'Match Not Found' };
+  }
+
+  const title = `${summary.score}% match: ${roleLabel(summary.title, summary.company)}`;
+  const description = summary.skills.length
+    ? `Top matched skills: ${summary.skills.join(', ')}`
+    : 'JD match summary';
+  const image = { url: toAbsoluteUrl(`/og/jd-match/${token}`, tenant), ...OG_IMAGE_SIZE };
+  const { profile } = await getSiteSettings(tenant.id);
+
+  return {
+    title: `${title} | ${profile.displayName}`,
+    description,
+    // Shared links are for people, not search results.
+    robots: { index: false, follow: false },
+    openGraph: { title, description, type: 'website', images: [image] },
+    twitter: { card: 'summary_large_image', title, description, images: [image.url] },
+  };
+}
+
+export default async function JDMatchSharePage({ params }: PageProps) {
+  const { summary } = await loadSummary(params);
+
+  if (!summary) {
+    notFound();
+  }
+
+  return (
+    <div className="mx-auto max-w-2xl px-4 py-8 sm:px-6 lg:px-8">
+      <div className="rounded-xl bg-gradient-to-br from-blue-500 to-purple-600 p-6 text-white">
+        <div className="text-sm opacity-80">Match Score</div>
+        <div className="text-5xl font-bold">{summary.score}%</div>
+        <p className="mt-2 text-lg font-medium">{roleLabel(summary.title, summary.company)}</p>
+        {summary.required && (
+          <p className="mt-1 text-sm opacity-90">
+            {summary.required.matched} of {summary.required.total} required qualifications backed by evidence
+          </p>
+        )}
+        {summary.createdAt && <p className="mt-3 text-xs opacity-75">Matched on {summary.createdAt}</p>}
+      </div>
+
+      {summary.skills.length > 0 && (
+        <div className="mt-6">
+          <h2 className="mb-3 text-sm font-semibold text-zinc-900 dark:text-white">Top Matched Skills</h2>
+          <div className="flex flex-wrap gap-2">
+            {summary.skills.map((skill) => (
+              <span
+                key={skill}
+                className="inline-flex items-center gap-1 rounded-full bg-green-50 px-3 py-1 text-sm text-green-700 dark:bg-green-900/20 dark:text-green-400"
+              >
+                <CheckCircle className="h-3.5 w-3.5" />
+                {skill}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="mt-8 flex gap-4">
+        <Link
+          href="/jd-match"
+          className="flex-1 rounded-xl bg-gradient-to-br from-blue-600 to-purple-600 py-3 text-center text-sm font-semibold text-white shadow-sm hover:brightness-110"
+        >
+          Run Your Own Match
+        </Link>
+        <Link
+          href="/projects"
+          className="flex-1 rounded-xl border border-zinc-200 bg-white/70 py-3 text-center text-sm font-semibold text-zinc-700 shadow-sm hover:bg-white dark:border-zinc-800 dark:bg-zinc-950/50 dark:text-zinc-200 dark:hover:bg-zinc-950"
+        >
+          View All Projects
+        </Link>
+      </div>
+    </div>
+  );
+}
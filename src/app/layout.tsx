@@ -15,18 +15,22 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "Charlie Cheng | ChengAI",
-  description:
-    "Personal website and AI digital twin of Charlie Cheng — full-stack developer building evidence-first AI products.",
-  keywords: ["Charlie Cheng", "AI", "Developer", "Portfolio", "Digital Twin", "RAG"],
-  authors: [{ name: "Charlie Cheng" }],
-  openGraph: {
-    title: "Charlie Cheng | ChengAI",
-    description: "Chat with my AI twin to explore projects, experience, and skills",
-    type: "website",
-  },
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const { profile } = await getSiteSettings();
+  const name = profile.displayName;
+
+  return {
+    title: `${name} | ChengAI`,
+    description: `Personal website and AI digital twin of ${name}.`,
+    keywords: [name, "AI", "Developer", "Portfolio", "Digital Twin", "RAG"],
+    authors: [{ name }],
+    openGraph: {
+      title: `${name} | ChengAI`,
+      description: "Chat with my AI twin to explore projects, experience, and skills",
+      type: "website",
+    },
+  };
+}
 
 export default async function RootLayout({
   children,
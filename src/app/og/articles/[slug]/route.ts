@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPublishedArticleBySlug } from '@/lib/content';
+import { getOgIdentity, renderContentOgImage } from '@/lib/og-image';
+
+export const runtime = 'nodejs';
+
+// GET share card for a published article
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
+  try {
+    const { slug } = await params;
+    const article = await getPublishedArticleBySlug(slug);
+    if (!article) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    const date = article.published_at
+      ? new Date(article.published_at).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+      : null;
+
+    return renderContentOgImage({
+      identity: await getOgIdentity(),
+      label: date ? `Article · ${date}` : 'Article',
+      title: article.title,
+      subtitle: article.summary,
+      chips: article.tags || [],
+    });
+  } catch (error) {
+    console.error('Article OG image error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOwnerId } from '@/lib/owner';
+import { readJDMatchShareToken } from '@/lib/jd-match-share';
+import { getOgIdentity, renderJDMatchOgImage } from '@/lib/og-image';
+
+export const runtime = 'nodejs';
+
+// GET share card for a JD match summary link
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params;
+    const summary = await readJDMatchShareToken(token, await getOwnerId());
+    if (!summary) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return renderJDMatchOgImage(await getOgIdentity(), summary);
+  } catch (error) {
+    console.error('JD match OG image error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
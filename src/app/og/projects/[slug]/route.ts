@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPublishedProjectBySlug } from '@/lib/content';
+import { getOgIdentity, renderContentOgImage } from '@/lib/og-image';
+
+export const runtime = 'nodejs';
+
+// GET share card for a published project
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ slug: string }> }) {
+  try {
+    const { slug } = await params;
+    const project = await getPublishedProjectBySlug(slug);
+    if (!project) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return renderContentOgImage({
+      identity: await getOgIdentity(),
+      label: 'Project',
+      title: project.title,
+      subtitle: project.subtitle || project.description,
+      chips: project.tech_stack || [],
+    });
+  } catch (error) {
+    console.error('Project OG image error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
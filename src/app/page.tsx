@@ -3,9 +3,12 @@ import TrackedLink from "@/components/TrackedLink";
 import HeroIdentityBar from "@/components/HeroIdentityBar";
 import ResumePreviewCard from "@/components/ResumePreviewCard";
 import { getSiteSettings } from "@/lib/site-settings";
+import JsonLd from "@/components/JsonLd";
+import { getOwnerTenant } from "@/lib/owner";
+import { buildPersonJsonLd } from "@/lib/structured-data";
 
 export default async function Home() {
-  const settings = await getSiteSettings();
+  const [settings, tenant] = await Promise.all([getSiteSettings(), getOwnerTenant()]);
   const { profile, visibility } = settings;
   const visibleWorkCards = [
     visibility.experienceNav ? 'experience' : null,
@@ -21,6 +24,7 @@ export default async function Home() {
 
   return (
     <div className="min-h-screen">
+      <JsonLd data={buildPersonJsonLd(settings, tenant)} />
       {/* Hero Section */}
       <section className="relative overflow-hidden bg-gradient-to-b from-zinc-50 to-white dark:from-zinc-900 dark:to-zinc-950">
         <div className="mx-auto max-w-7xl px-4 py-24 sm:px-6 lg:px-8">
@@ -1,36 +1,83 @@
-import { getPublishedProjectBySlug } from '@/lib/content';
+import { getProjectPreview, getPublishedProjectBySlug } from '@/lib/content';
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
+import PreviewBanner from '@/components/PreviewBanner';
+import JsonLd from '@/components/JsonLd';
+import RelatedContent from '@/components/RelatedContent';
+import { getOwnerTenant } from '@/lib/owner';
+import { getSiteSettings } from '@/lib/site-settings';
+import { toAbsoluteUrl } from '@/lib/site-url';
+import { OG_IMAGE_SIZE } from '@/lib/og-image';
+import { buildProjectJsonLd } from '@/lib/structured-data';
+import { getRelatedContent } from '@/lib/related-content';
 import { ArrowLeft, ExternalLink, Github, FileText } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
 interface PageProps {
   params: Promise<{ slug: string }>;
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
 }
 
-export async function generateMetadata({ params }: PageProps) {
+// `?preview=<token>` (from Admin > Projects) shows the draft; otherwise only published content.
+async function loadProject(slug: string, searchParamsPromise: PageProps['searchParams']) {
+  const searchParams = await searchParamsPromise;
+  const token = typeof searchParams?.preview === 'string' ? searchParams.preview : '';
+  if (token) {
+    const preview = await getProjectPreview(token);
+    if (preview) return { project: preview, isPreview: true };
+  }
+  return { project: await getPublishedProjectBySlug(slug), isPreview: false };
+}
+
+export async function generateMetadata({ params, searchParams }: PageProps) {
   const { slug } = await params;
-  const project = await getPublishedProjectBySlug(slug);
+  const { project, isPreview } = await loadProject(slug, searchParams);
 
   if (!project) {
     return { title: 'Project Not Found' };
   }
 
+  const description = project.subtitle || project.description.slice(0, 160);
+  const tenant = await getOwnerTenant();
+  const { profile } = await getSiteSettings(tenant.id);
+  const title = `${project.title} | ${profile.displayName}`;
+  if (isPreview) {
+    // Draft previews must never be indexed.
+    return { title, description, robots: { index: false, follow: false } };
+  }
+
+  const image = { url: toAbsoluteUrl(`/og/projects/${project.slug}`, tenant), ...OG_IMAGE_SIZE };
+
   return {
-    title: `${project.title} | Charlie Cheng`,
-    description: project.subtitle || project.description.slice(0, 160),
+    title,
+    description,
+    openGraph: {
+      title: project.title,
+      description,
+      url: toAbsoluteUrl(`/projects/${project.slug}`, tenant),
+      type: 'website',
+      images: [image],
+    },
+    twitter: { card: 'summary_large_image', title: project.title, description, images: [image.url] },
   };
 }
 
-export default async function ProjectPage({ params }: PageProps) {
+export default async function ProjectPage({ params, searchParams }: PageProps) {
   const { slug } = await params;
-  const project = await getPublishedProjectBySlug(slug);
+  const { project, isPreview } = await loadProject(slug, searchParams);
 
   if (!project) {
     notFound();
   }
 
+  const tenant = await getOwnerTenant();
+  const [settings, related] = await Promise.all([
+    getSiteSettings(tenant.id),
+    // Drafts aren't indexed, so previews have nothing to compare against.
+    isPreview ? Promise.resolve([]) : getRelatedContent('project', project.id, tenant.id),
+  ]);
+
   return (
     <div className="mx-auto max-w-4xl px-4 py-8 sm:px-6 lg:px-8">
       {/* Back Link */}
@@ -42,6 +89,12 @@ export default async function ProjectPage({ params }: PageProps) {
         Back to Projects
       </Link>
 
+      {!isPreview && <JsonLd data={buildProjectJsonLd(project, settings, tenant)} />}
+
+      {isPreview && (
+        <PreviewBanner kind="project" status={project.status} scheduledAt={project.scheduled_at} />
+      )}
+
       {/* Header */}
       <header className="mb-8">
         <h1 className="text-3xl font-bold text-zinc-900 dark:text-white sm:text-4xl">
@@ -115,6 +168,8 @@ export default async function ProjectPage({ params }: PageProps) {
           </article>
         </section>
       )}
+
+      <RelatedContent items={related} from={{ type: 'project', slug: project.slug }} />
     </div>
   );
 }
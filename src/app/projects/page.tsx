@@ -1,11 +1,16 @@
+import type { Metadata } from 'next';
 import Link from 'next/link';
 import { getPublishedProjects } from '@/lib/content';
 import { ExternalLink, Github, FileText } from 'lucide-react';
+import { getSiteSettings } from '@/lib/site-settings';
 
-export const metadata = {
-  title: 'Projects | Charlie Cheng',
-  description: 'Explore my portfolio of projects',
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const { profile } = await getSiteSettings();
+  return {
+    title: `Projects | ${profile.displayName}`,
+    description: 'Explore my portfolio of projects',
+  };
+}
 
 export const dynamic = 'force-dynamic';
 
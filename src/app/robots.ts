@@ -0,0 +1,28 @@
+import type { MetadataRoute } from 'next';
+import { getOwnerTenant } from '@/lib/owner';
+import { getPublicSiteUrl, toAbsoluteUrl } from '@/lib/site-url';
+import { getTenants } from '@/lib/tenants';
+
+// robots.txt is per host, so the shared host lists the sitemap of every owner served from it
+// under a /t/<slug> prefix; an owner with its own hostname lists just its own.
+export default async function robots(): Promise<MetadataRoute.Robots> {
+  const tenant = await getOwnerTenant();
+  const sitemaps =
+    tenant.hosts.length > 0
+      ? [toAbsoluteUrl('/sitemap.xml', tenant)]
+      : getTenants()
+          .filter((t) => t.hosts.length === 0)
+          .map((t) => toAbsoluteUrl('/sitemap.xml', t));
+
+  return {
+    rules: [
+      {
+        userAgent: '*',
+        allow: '/',
+        disallow: ['/admin', '/api/', '/login', '/share/', '/*?preview='],
+      },
+    ],
+    sitemap: sitemaps,
+    host: getPublicSiteUrl(tenant),
+  };
+}
@@ -0,0 +1,35 @@
+import type { Metadata } from 'next';
+import SiteSearch from '@/components/search/SiteSearch';
+import { getSiteSettings } from '@/lib/site-settings';
+
+interface PageProps {
+  searchParams?: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  const { profile } = await getSiteSettings();
+  return {
+    title: `Search | ${profile.displayName}`,
+    description: 'Search projects, articles, experience, skills and stories',
+    robots: { index: false, follow: true },
+  };
+}
+
+export default async function SearchPage({ searchParams }: PageProps) {
+  const params = await searchParams;
+  const initialQuery = typeof params?.q === 'string' ? params.q : '';
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-zinc-900 dark:text-white">Search</h1>
+        <p className="mt-2 text-zinc-600 dark:text-zinc-400">
+          Find projects, articles, experience, skills and stories. Press{' '}
+          <kbd className="rounded border border-zinc-300 px-1.5 py-0.5 text-xs dark:border-zinc-700">⌘K</kbd> anywhere
+          to search from the keyboard.
+        </p>
+      </div>
+      <SiteSearch initialQuery={initialQuery} />
+    </div>
+  );
+}
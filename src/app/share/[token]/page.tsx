@@ -0,0 +1,145 @@
+import { notFound } from 'next/navigation';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import Link from 'next/link';
+import { Bot, BookOpen, MessageSquare, User } from 'lucide-react';
+import { getOwnerId } from '@/lib/owner';
+import { getSiteSettings } from '@/lib/site-settings';
+import { isSupabaseConfigured } from '@/lib/supabase';
+import { getSharedConversation } from '@/lib/conversations';
+import { dedupeSources, getSourceHref } from '@/lib/chat-sources';
+
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  params: Promise<{ token: string }>;
+}
+
+async function loadSharedConversation(token: string) {
+  if (!isSupabaseConfigured()) return null;
+  try {
+    return await getSharedConversation(await getOwnerId(), token);
+  } catch (error) {
+    console.error('Shared conversation load error:', error);
+    return null;
+  }
+}
+
+export async function generateMetadata({ params }: PageProps) {
+  const { token } = await params;
+  const shared = await loadSharedConversation(token);
+  const { profile } = await getSiteSettings();
+
+  return {
+    title: shared?.conversation.title
+      ? `${shared.conversation.title} | Shared chat`
+      : `Shared chat | ${profile.displayName}`,
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function SharedChatPage({ params }: PageProps) {
+  const { token } = await params;
+  const shared = await loadSharedConversation(token);
+
+  if (!shared) {
+    notFound();
+  }
+
+  const { conversation, messages } = shared;
+
+  return (
+    <div className="mx-auto max-w-3xl px-4 py-8 sm:px-6 lg:px-8">
+      <header className="mb-8">
+        <div className="flex items-center gap-2 text-sm text-zinc-500 dark:text-zinc-400">
+          <MessageSquare className="h-4 w-4" />
+          Shared conversation
+          {conversation.created_at && (
+            <span>
+              ·{' '}
+              {new Date(conversation.created_at).toLocaleDateString('en-US', {
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric',
+              })}
+            </span>
+          )}
+        </div>
+        <h1 className="mt-3 text-2xl font-bold text-zinc-900 dark:text-white sm:text-3xl">
+          {conversation.title || 'Chat transcript'}
+        </h1>
+        <div className="mt-4">
+          <Link
+            href={`/chat?continue=${encodeURIComponent(token)}`}
+            className="inline-flex items-center gap-2 rounded-xl bg-gradient-to-br from-blue-600 to-purple-600 px-4 py-2 text-sm font-semibold text-white shadow-sm hover:brightness-110"
+          >
+            <Bot className="h-4 w-4" />
+            Continue this conversation
+          </Link>
+        </div>
+      </header>
+
+      {messages.length === 0 ? (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">This conversation has no messages yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {messages.map((message) => (
+            <div key={message.id} className={`flex gap-3 ${message.role === 'user' ? 'justify-end' : ''}`}>
+              {message.role === 'assistant' && (
+                <div className="mt-0.5 flex h-9 w-9 shrink-0 items-center justify-center rounded-2xl bg-gradient-to-br from-blue-500 to-purple-600 shadow-sm">
+                  <Bot className="h-4 w-4 text-white" />
+                </div>
+              )}
+              <div
+                className={`max-w-[92%] sm:max-w-[82%] rounded-2xl px-4 py-3 shadow-sm ${
+                  message.role === 'user'
+                    ? 'bg-gradient-to-br from-blue-600 to-purple-600 text-white'
+                    : 'border border-zinc-200/70 bg-white/80 text-zinc-900 dark:border-zinc-800/70 dark:bg-zinc-950/50 dark:text-white'
+                }`}
+              >
+                {message.role === 'assistant' ? (
+                  <div className="prose prose-sm prose-zinc dark:prose-invert max-w-none">
+                    <ReactMarkdown remarkPlugins={[remarkGfm]}>{message.content}</ReactMarkdown>
+
+                    {message.sources && message.sources.length > 0 && (
+                      <div className="not-prose mt-3 border-t border-zinc-200/70 pt-3 dark:border-zinc-800/70">
+                        <div className="mb-2 flex items-center gap-2 text-[11px] font-medium text-zinc-500 dark:text-zinc-400">
+                          <BookOpen className="h-3 w-3" />
+                          <span>Sources</span>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          {dedupeSources(message.sources).map((s) => {
+                            const href = getSourceHref(s);
+                            const commonClass =
+                              'inline-flex items-center rounded-full border border-zinc-200 bg-white px-2.5 py-1 text-[11px] font-medium text-zinc-700 shadow-sm hover:bg-zinc-50 dark:border-zinc-800 dark:bg-zinc-950/60 dark:text-zinc-200 dark:hover:bg-zinc-950';
+
+                            return href ? (
+                              <Link key={s.chunk_id} href={href} className={commonClass} title={s.content_preview}>
+                                {s.source_title}
+                              </Link>
+                            ) : (
+                              <span key={s.chunk_id} className={commonClass} title={s.content_preview}>
+                                {s.source_title}
+                              </span>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <p className="whitespace-pre-wrap text-sm">{message.content}</p>
+                )}
+              </div>
+              {message.role === 'user' && (
+                <div className="mt-0.5 flex h-9 w-9 shrink-0 items-center justify-center rounded-2xl bg-zinc-200 dark:bg-zinc-800">
+                  <User className="h-4 w-4 text-zinc-600 dark:text-zinc-300" />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
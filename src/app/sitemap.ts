@@ -0,0 +1,74 @@
+import type { MetadataRoute } from 'next';
+import { getPublicStories, getPublishedArticles, getPublishedExperiences, getPublishedProjects } from '@/lib/content';
+import { getOwnerTenant } from '@/lib/owner';
+import { getSiteSettings } from '@/lib/site-settings';
+import { toAbsoluteUrl } from '@/lib/site-url';
+
+type Dated = { updated_at?: string | null; published_at?: string | null; created_at?: string | null };
+
+function lastModifiedOf(item: Dated): Date | undefined {
+  const raw = item.updated_at || item.published_at || item.created_at;
+  const date = raw ? new Date(raw) : null;
+  return date && !Number.isNaN(date.getTime()) ? date : undefined;
+}
+
+function latestOf(items: Dated[]): Date | undefined {
+  return items
+    .map(lastModifiedOf)
+    .filter((date): date is Date => Boolean(date))
+    .reduce<Date | undefined>((latest, date) => (!latest || date > latest ? date : latest), undefined);
+}
+
+// Served per owner (e.g. /t/<slug>/sitemap.xml). Index pages hidden from the nav are left out;
+// published projects and articles are always listed, since chat answers link to them.
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+  const tenant = await getOwnerTenant();
+  const [settings, projects, articles, experiences, stories] = await Promise.all([
+    getSiteSettings(tenant.id),
+    getPublishedProjects(tenant.id),
+    getPublishedArticles(tenant.id),
+    getPublishedExperiences(tenant.id),
+    getPublicStories(tenant.id),
+  ]);
+  const { visibility } = settings;
+  const url = (path: string) => toAbsoluteUrl(path, tenant);
+
+  const entries: MetadataRoute.Sitemap = [
+    { url: url('/'), changeFrequency: 'weekly', priority: 1 },
+  ];
+
+  if (visibility.chatNav) entries.push({ url: url('/chat'), changeFrequency: 'monthly', priority: 0.6 });
+  if (visibility.experienceNav) {
+    entries.push({ url: url('/experience'), lastModified: latestOf(experiences), changeFrequency: 'monthly', priority: 0.8 });
+  }
+  if (visibility.skillsNav) entries.push({ url: url('/skills'), changeFrequency: 'monthly', priority: 0.6 });
+  if (visibility.storiesNav) {
+    entries.push({ url: url('/stories'), lastModified: latestOf(stories), changeFrequency: 'monthly', priority: 0.5 });
+  }
+
+  if (visibility.projectsNav) {
+    entries.push({ url: url('/projects'), lastModified: latestOf(projects), changeFrequency: 'weekly', priority: 0.8 });
+  }
+  for (const project of projects) {
+    entries.push({
+      url: url(`/projects/${project.slug}`),
+      lastModified: lastModifiedOf(project),
+      changeFrequency: 'monthly',
+      priority: 0.7,
+    });
+  }
+
+  if (visibility.articlesNav) {
+    entries.push({ url: url('/articles'), lastModified: latestOf(articles), changeFrequency: 'weekly', priority: 0.8 });
+  }
+  for (const article of articles) {
+    entries.push({
+      url: url(`/articles/${article.slug}`),
+      lastModified: lastModifiedOf(article),
+      changeFrequency: 'monthly',
+      priority: 0.7,
+    });
+  }
+
+  return entries;
+}
@@ -1,10 +1,19 @@
-import { getSkills } from '@/lib/content';
+import type { Metadata } from 'next';
+import { getSkills, getSkillTaxonomy } from '@/lib/content';
+import JsonLd from '@/components/JsonLd';
+import { getOwnerTenant } from '@/lib/owner';
+import { getSiteSettings } from '@/lib/site-settings';
+import { buildPersonJsonLd } from '@/lib/structured-data';
+import { getImpliedSkills, normalizeSkillKey, resolveSkill } from '@/lib/skill-taxonomy';
 import type { Skill } from '@/types';
 
-export const metadata = {
-  title: 'Skills | Charlie Cheng',
-  description: 'Technical skills with evidence from real projects',
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const { profile } = await getSiteSettings();
+  return {
+    title: `Skills | ${profile.displayName}`,
+    description: 'Technical skills with evidence from real projects',
+  };
+}
 
 export const dynamic = 'force-dynamic';
 
@@ -26,15 +35,26 @@ const categoryColors: Record<string, string> = {
   other: 'from-zinc-500 to-zinc-600',
 };
 
-async function getGroupedSkills(): Promise<Record<string, Skill[]>> {
-  const skills = await getSkills();
+type SkillWithImplied = Skill & { implied: string[] };
+
+// Skills saved as "other" are filed under their taxonomy category; each skill also lists the
+// broader skills it demonstrates that aren't already on the page (Next.js -> React, JavaScript).
+async function getGroupedSkills(): Promise<Record<string, SkillWithImplied[]>> {
+  const [skills, taxonomy] = await Promise.all([getSkills(), getSkillTaxonomy()]);
+  const listed = new Set(skills.map((s) => normalizeSkillKey(resolveSkill(taxonomy, s.name)?.name || s.name)));
 
   return skills.reduce((acc, skill) => {
-    const category = skill.category || 'other';
+    const node = resolveSkill(taxonomy, skill.name);
+    const category = skill.category && skill.category !== 'other' ? skill.category : node?.category || 'other';
+    const implied = getImpliedSkills(taxonomy, skill.name).filter((name) => !listed.has(normalizeSkillKey(name)));
     if (!acc[category]) acc[category] = [];
-    acc[category].push(skill);
+    acc[category].push({ ...skill, implied });
     return acc;
-  }, {} as Record<string, Skill[]>);
+  }, {} as Record<string, SkillWithImplied[]>);
+}
+
+function formatCategory(category: string): string {
+  return categoryLabels[category] || category.charAt(0).toUpperCase() + category.slice(1);
 }
 
 function ProficiencyBar({ level }: { level: number }) {
@@ -57,9 +77,13 @@ function ProficiencyBar({ level }: { level: number }) {
 export default async function SkillsPage() {
   const groupedSkills = await getGroupedSkills();
   const categories = Object.keys(groupedSkills);
+  const tenant = await getOwnerTenant();
+  const settings = await getSiteSettings(tenant.id);
+  const skillNames = categories.flatMap((category) => groupedSkills[category].map((skill) => skill.name));
 
   return (
     <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+      <JsonLd data={buildPersonJsonLd(settings, tenant, { skills: skillNames })} />
       <div className="mb-12">
         <h1 className="text-3xl font-bold text-zinc-900 dark:text-white">Skills</h1>
         <p className="mt-2 text-zinc-600 dark:text-zinc-400">
@@ -82,7 +106,7 @@ export default async function SkillsPage() {
                   {groupedSkills[category].length}
                 </span>
                 <span className="text-lg font-semibold text-zinc-900 dark:text-white">
-                  {categoryLabels[category] || category}
+                  {formatCategory(category)}
                 </span>
               </h2>
               
@@ -105,6 +129,11 @@ export default async function SkillsPage() {
                             {skill.years_of_experience}+ years
                           </div>
                         )}
+                        {skill.implied.length > 0 && (
+                          <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                            Also covers {skill.implied.slice(0, 4).join(', ')}
+                          </div>
+                        )}
                       </div>
                     </div>
                     <ProficiencyBar level={skill.proficiency} />
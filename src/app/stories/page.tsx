@@ -1,11 +1,16 @@
+import type { Metadata } from 'next';
 import Link from 'next/link';
 import { getPublicStories } from '@/lib/content';
 import { ArrowRight } from 'lucide-react';
+import { getSiteSettings } from '@/lib/site-settings';
 
-export const metadata = {
-  title: 'Stories | Charlie Cheng',
-  description: 'Behavioral interview stories (STAR format)',
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const { profile } = await getSiteSettings();
+  return {
+    title: `Stories | ${profile.displayName}`,
+    description: 'Behavioral interview stories (STAR format)',
+  };
+}
 
 export const dynamic = 'force-dynamic';
 
@@ -0,0 +1,31 @@
+import { EyeOff } from 'lucide-react';
+
+// Shown above a draft opened through a signed preview link.
+export default function PreviewBanner({
+  kind,
+  status,
+  scheduledAt,
+}: {
+  kind: 'article' | 'project';
+  status?: string;
+  scheduledAt?: string | null;
+}) {
+  const when = scheduledAt
+    ? ` It is scheduled to go live on ${new Date(scheduledAt).toLocaleString('en-US', {
+        dateStyle: 'long',
+        timeStyle: 'short',
+        timeZone: 'UTC',
+      })} UTC.`
+    : '';
+
+  return (
+    <div className="mb-6 flex items-start gap-2 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800 dark:border-amber-900/50 dark:bg-amber-900/20 dark:text-amber-200">
+      <EyeOff className="mt-0.5 h-4 w-4 shrink-0" />
+      <p>
+        {status === 'published'
+          ? `Preview link — this ${kind} is already public.`
+          : `Preview — this ${kind} is a ${status || 'draft'} and is not public yet.${when} Please don't share this link further.`}
+      </p>
+    </div>
+  );
+}
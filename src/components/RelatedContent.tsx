@@ -0,0 +1,46 @@
+import { Building2, Code, FileText, ScrollText } from 'lucide-react';
+import TrackedLink from '@/components/TrackedLink';
+import type { RelatedContentItem } from '@/types';
+
+const TYPE_LABELS: Record<RelatedContentItem['source_type'], { label: string; icon: typeof Code }> = {
+  project: { label: 'Project', icon: Code },
+  article: { label: 'Article', icon: FileText },
+  story: { label: 'Story', icon: ScrollText },
+  experience: { label: 'Experience', icon: Building2 },
+};
+
+export default function RelatedContent({
+  items,
+  from,
+}: {
+  items: RelatedContentItem[];
+  from: { type: 'project' | 'article'; slug: string };
+}) {
+  if (items.length === 0) return null;
+
+  return (
+    <section className="mt-10">
+      <h2 className="mb-4 text-lg font-semibold text-zinc-900 dark:text-white">Related</h2>
+      <div className="grid gap-3 sm:grid-cols-2">
+        {items.map((item) => {
+          const { label, icon: Icon } = TYPE_LABELS[item.source_type];
+          return (
+            <TrackedLink
+              key={`${item.source_type}:${item.source_id}`}
+              href={item.href}
+              event="related_content_click"
+              meta={{ from_type: from.type, from_slug: from.slug, to_type: item.source_type, href: item.href }}
+              className="group flex items-start gap-3 rounded-xl border border-zinc-200 bg-white p-4 transition-colors hover:border-blue-300 hover:bg-blue-50/40 dark:border-zinc-800 dark:bg-zinc-900 dark:hover:border-blue-800 dark:hover:bg-blue-950/20"
+            >
+              <Icon className="mt-0.5 h-4 w-4 shrink-0 text-zinc-400 group-hover:text-blue-600" />
+              <div className="min-w-0">
+                <div className="text-xs font-medium uppercase tracking-wide text-zinc-500 dark:text-zinc-400">{label}</div>
+                <div className="mt-0.5 font-medium text-zinc-900 dark:text-white">{item.title}</div>
+              </div>
+            </TrackedLink>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
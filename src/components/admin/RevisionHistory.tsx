@@ -0,0 +1,275 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import type { Revision, RevisionEntityType } from '@/types';
+import { diffLines, diffSnapshots } from '@/lib/revision-diff';
+
+function getCookieValue(name: string): string | null {
+  if (typeof document === 'undefined') return null;
+  const parts = document.cookie.split('; ').map((c) => c.split('='));
+  const match = parts.find(([k]) => k === name);
+  return match ? decodeURIComponent(match[1] || '') : null;
+}
+
+const ENTITY_LABELS: Record<RevisionEntityType, string> = {
+  project: 'Projects',
+  article: 'Articles',
+  experience: 'Experience',
+  story: 'Stories',
+  skill: 'Skills',
+};
+
+const ACTION_STYLES: Record<Revision['action'], string> = {
+  create: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  update: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  delete: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  restore: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+};
+
+function entityLabel(revision: Revision): string {
+  const s = revision.snapshot || {};
+  if (typeof s.title === 'string' && s.title) return s.title;
+  if (typeof s.name === 'string' && s.name) return s.name;
+  if (typeof s.role === 'string' && typeof s.company === 'string') return `${s.role} @ ${s.company}`;
+  return revision.entity_id;
+}
+
+export default function RevisionHistory({
+  entityType,
+  entityId,
+}: {
+  entityType: RevisionEntityType | null;
+  entityId: string | null;
+}) {
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const csrfToken = useMemo(() => getCookieValue('chengai_csrf'), []);
+
+  const fetchRevisions = useCallback(async () => {
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (entityType) params.set('entity_type', entityType);
+      if (entityId) params.set('entity_id', entityId);
+      const response = await fetch(`/api/admin/revisions?${params.toString()}`);
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || 'Failed to load revisions');
+
+      const list = Array.isArray(data) ? (data as Revision[]) : [];
+      setRevisions(list);
+      // Default view: what the latest write changed compared to the one before it.
+      setTargetId(list[0]?.id ?? null);
+      setBaseId(entityId ? (list[1]?.id ?? null) : null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load revisions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [entityType, entityId]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const restore = async (revision: Revision) => {
+    if (restoringId) return;
+    if (!confirm(`Restore "${entityLabel(revision)}" to this revision? The current version stays in history.`)) return;
+    setRestoringId(revision.id);
+
+    try {
+      const res = await fetch('/api/admin/revisions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(csrfToken ? { 'x-csrf-token': csrfToken } : {}),
+        },
+        body: JSON.stringify({ revision_id: revision.id }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to restore revision');
+      }
+
+      await fetchRevisions();
+    } catch (err) {
+      console.error('Restore revision error:', err);
+      alert(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const base = revisions.find((r) => r.id === baseId) || null;
+  const target = revisions.find((r) => r.id === targetId) || null;
+  const changes = useMemo(
+    () => (target ? diffSnapshots(base?.snapshot ?? null, target.snapshot) : []),
+    [base, target]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <Loader2 className="h-8 w-8 animate-spin text-zinc-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-6">
+        <h1 className="flex items-center gap-2 text-2xl font-bold text-zinc-900 dark:text-white">
+          <History className="h-6 w-6" />
+          Revision History
+        </h1>
+        <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+          {entityId && revisions[0]
+            ? `${entityLabel(revisions[0])} — pick two revisions to compare, or restore one.`
+            : 'Every admin save is recorded. Pick two revisions of the same entry to compare, or restore one.'}
+        </p>
+        <div className="mt-4 flex flex-wrap gap-2 text-sm">
+          <Link
+            href="/admin/revisions"
+            className={`rounded-full px-3 py-1 ${!entityType ? 'bg-zinc-900 text-white dark:bg-white dark:text-zinc-900' : 'bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300'}`}
+          >
+            All
+          </Link>
+          {(Object.keys(ENTITY_LABELS) as RevisionEntityType[]).map((type) => (
+            <Link
+              key={type}
+              href={`/admin/revisions?type=${type}`}
+              className={`rounded-full px-3 py-1 ${entityType === type && !entityId ? 'bg-zinc-900 text-white dark:bg-white dark:text-zinc-900' : 'bg-zinc-100 text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300'}`}
+            >
+              {ENTITY_LABELS[type]}
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      ) : revisions.length === 0 ? (
+        <div className="text-center py-12 border-2 border-dashed border-zinc-200 rounded-xl dark:border-zinc-700">
+          <p className="text-zinc-500 dark:text-zinc-400">No revisions recorded yet.</p>
+        </div>
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+          <div className="rounded-xl border border-zinc-200 dark:border-zinc-700">
+            <div className="grid grid-cols-[2rem_2rem_1fr_auto] gap-2 border-b border-zinc-200 px-3 py-2 text-xs uppercase text-zinc-500 dark:border-zinc-700 dark:text-zinc-400">
+              <span>A</span>
+              <span>B</span>
+              <span>Revision</span>
+              <span />
+            </div>
+            <ul className="max-h-[70vh] divide-y divide-zinc-200 overflow-y-auto dark:divide-zinc-700">
+              {revisions.map((revision) => (
+                <li key={revision.id} className="grid grid-cols-[2rem_2rem_1fr_auto] items-center gap-2 px-3 py-2 text-sm">
+                  <input
+                    type="radio"
+                    name="revision-base"
+                    checked={baseId === revision.id}
+                    onChange={() => setBaseId(revision.id)}
+                    aria-label="Compare from"
+                  />
+                  <input
+                    type="radio"
+                    name="revision-target"
+                    checked={targetId === revision.id}
+                    onChange={() => setTargetId(revision.id)}
+                    aria-label="Compare to"
+                  />
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className={`rounded px-1.5 py-0.5 text-xs font-medium ${ACTION_STYLES[revision.action]}`}>
+                        {revision.action}
+                      </span>
+                      {entityId ? (
+                        <span className="truncate text-zinc-900 dark:text-white">{entityLabel(revision)}</span>
+                      ) : (
+                        <Link
+                          href={`/admin/revisions?type=${revision.entity_type}&id=${revision.entity_id}`}
+                          className="truncate text-zinc-900 hover:text-blue-600 dark:text-white"
+                        >
+                          {entityLabel(revision)}
+                        </Link>
+                      )}
+                    </div>
+                    <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                      {revision.entity_type} • {new Date(revision.created_at).toLocaleString()}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => restore(revision)}
+                    disabled={restoringId !== null}
+                    className="p-2 text-zinc-400 hover:text-blue-600 disabled:opacity-50"
+                    aria-label="Restore"
+                    title="Restore this revision"
+                  >
+                    {restoringId === revision.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <RotateCcw className="h-4 w-4" />
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="rounded-xl border border-zinc-200 p-4 dark:border-zinc-700">
+            {!target ? (
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">Select a revision to view.</p>
+            ) : base && (base.entity_type !== target.entity_type || base.entity_id !== target.entity_id) ? (
+              <p className="text-sm text-zinc-500 dark:text-zinc-400">A and B belong to different entries.</p>
+            ) : (
+              <>
+                <p className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+                  {base
+                    ? `Changes from ${new Date(base.created_at).toLocaleString()} to ${new Date(target.created_at).toLocaleString()}`
+                    : `Full snapshot of ${entityLabel(target)} (${new Date(target.created_at).toLocaleString()})`}
+                </p>
+                {changes.length === 0 ? (
+                  <p className="text-sm text-zinc-500 dark:text-zinc-400">No content differences.</p>
+                ) : (
+                  <div className="space-y-4">
+                    {changes.map((change) => (
+                      <div key={change.field}>
+                        <div className="mb-1 text-xs font-medium uppercase text-zinc-500 dark:text-zinc-400">
+                          {change.field}
+                        </div>
+                        <pre className="overflow-x-auto whitespace-pre-wrap rounded-lg bg-zinc-50 p-2 text-xs dark:bg-zinc-800/50">
+                          {diffLines(change.before, change.after).map((line, idx) => (
+                            <div
+                              key={idx}
+                              className={
+                                line.type === 'add'
+                                  ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                                  : line.type === 'remove'
+                                    ? 'bg-red-100 text-red-800 line-through dark:bg-red-900/30 dark:text-red-300'
+                                    : 'text-zinc-600 dark:text-zinc-400'
+                              }
+                            >
+                              {line.type === 'add' ? '+ ' : line.type === 'remove' ? '- ' : '  '}
+                              {line.text}
+                            </div>
+                          ))}
+                        </pre>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
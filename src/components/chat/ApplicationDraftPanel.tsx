@@ -0,0 +1,173 @@
+'use client';
+
+import { Fragment, useState } from 'react';
+import { Download, FileText, Loader2 } from 'lucide-react';
+import type { ApplicationDraft, DraftClaim } from '@/types';
+import { trackEvent } from '@/lib/analytics';
+
+function Citations({ claim, onSelect }: { claim: DraftClaim; onSelect: (id: number) => void }) {
+  if (claim.citations.length === 0) return null;
+  return (
+    <sup className="ml-0.5">
+      {claim.citations.map((id) => (
+        <button
+          key={id}
+          type="button"
+          onClick={() => onSelect(id)}
+          className="text-blue-600 hover:underline dark:text-blue-400"
+        >
+          [{id}]
+        </button>
+      ))}
+    </sup>
+  );
+}
+
+export default function ApplicationDraftPanel({ jd, jobTitle }: { jd: string; jobTitle: string | null }) {
+  const [draft, setDraft] = useState<ApplicationDraft | null>(null);
+  const [isDrafting, setIsDrafting] = useState(false);
+  const [exporting, setExporting] = useState<'markdown' | 'docx' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activeCitation, setActiveCitation] = useState<number | null>(null);
+
+  const handleDraft = async () => {
+    if (isDrafting) return;
+    setIsDrafting(true);
+    setError(null);
+    setActiveCitation(null);
+
+    try {
+      trackEvent('jd_draft_run', { jd_chars: jd.length });
+      const response = await fetch('/api/jd-match/draft', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jd, job_title: jobTitle }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) throw new Error(data?.error || 'Failed to draft application material');
+      setDraft(data as ApplicationDraft);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const handleExport = async (format: 'markdown' | 'docx') => {
+    if (!draft || exporting) return;
+    setExporting(format);
+    setError(null);
+
+    try {
+      trackEvent('jd_draft_export', { format });
+      const response = await fetch('/api/jd-match/draft/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ draft, format }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Export failed');
+      }
+
+      const disposition = response.headers.get('content-disposition') || '';
+      const fileName = disposition.match(/filename="([^"]+)"/)?.[1] || `application-draft.${format === 'docx' ? 'docx' : 'md'}`;
+      const url = URL.createObjectURL(await response.blob());
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const active = draft?.citations.find((c) => c.id === activeCitation) || null;
+
+  return (
+    <div className="rounded-xl border border-zinc-200 p-4 dark:border-zinc-700">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="font-medium text-zinc-900 dark:text-white">Cover Letter &amp; Resume Bullets</h3>
+          <p className="mt-0.5 text-xs text-zinc-500 dark:text-zinc-400">
+            Drafted only from the evidence above. Every claim cites its source.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleDraft}
+          disabled={isDrafting}
+          className="flex items-center gap-2 rounded-xl border border-zinc-200 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-200 dark:hover:bg-zinc-800"
+        >
+          {isDrafting ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4" />}
+          {isDrafting ? 'Drafting...' : draft ? 'Redraft' : 'Draft application'}
+        </button>
+      </div>
+
+      {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {draft && (
+        <div className="mt-4 space-y-5">
+          <div className="space-y-3 text-sm text-zinc-800 dark:text-zinc-200">
+            {draft.cover_letter.map((paragraph, pIdx) => (
+              <p key={pIdx}>
+                {paragraph.map((claim, cIdx) => (
+                  <Fragment key={cIdx}>
+                    {cIdx > 0 && ' '}
+                    {claim.text}
+                    <Citations claim={claim} onSelect={setActiveCitation} />
+                  </Fragment>
+                ))}
+              </p>
+            ))}
+          </div>
+
+          <div>
+            <h4 className="mb-2 text-sm font-medium text-zinc-900 dark:text-white">Resume bullets</h4>
+            <ul className="list-disc space-y-1 pl-5 text-sm text-zinc-800 dark:text-zinc-200">
+              {draft.resume_bullets.map((bullet, idx) => (
+                <li key={idx}>
+                  {bullet.text}
+                  <Citations claim={bullet} onSelect={setActiveCitation} />
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {active && (
+            <div className="rounded-lg bg-zinc-50 p-3 text-xs text-zinc-600 dark:bg-zinc-800/50 dark:text-zinc-300">
+              <div className="font-medium text-zinc-900 dark:text-white">
+                [{active.id}] {active.source_title}{' '}
+                <span className="font-normal text-zinc-500">({active.source_type})</span>
+              </div>
+              <p className="mt-1">{active.snippet}</p>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            {(['markdown', 'docx'] as const).map((format) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => handleExport(format)}
+                disabled={exporting !== null}
+                className="flex items-center gap-2 rounded-xl bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {exporting === format ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                {format === 'docx' ? 'Word (.docx)' : 'Markdown'}
+              </button>
+            ))}
+            {draft.generated_by === 'fallback' && (
+              <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                Generated from templates (AI drafting unavailable).
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
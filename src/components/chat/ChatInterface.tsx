@@ -1,12 +1,13 @@
 'use client';
 
 import { useState, useRef, useEffect, useMemo } from 'react';
-import { Send, Loader2, User, Bot, BookOpen, Sparkles, FilePenLine } from 'lucide-react';
+import { Send, Loader2, User, Bot, BookOpen, Sparkles, FilePenLine, Share2, Check, Workflow, AlertCircle } from 'lucide-react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import Link from 'next/link';
-import type { ChatMessage, ChunkReference } from '@/types';
+import type { ChatMessage, ChatToolActivity, ChunkReference } from '@/types';
 import { trackEvent } from '@/lib/analytics';
+import { dedupeSources, getSourceHref } from '@/lib/chat-sources';
 
 const SESSION_CONTEXT_KEY = 'chengai_session_context_v1';
 
@@ -14,6 +15,7 @@ interface ChatInterfaceProps {
   initialMessage?: string;
   initialMode?: 'auto' | 'tech' | 'behavior';
   startFresh?: boolean;
+  continueToken?: string;
 }
 
 type JdSessionContext = {
@@ -31,37 +33,47 @@ function clampText(value: string, maxChars: number): string {
   return `${v.slice(0, maxChars)}…`;
 }
 
-function dedupeSources(sources: ChunkReference[]): ChunkReference[] {
-  const out: ChunkReference[] = [];
-  const seen = new Set<string>();
-
-  for (const s of sources || []) {
-    const slugOrTitle = s.source_slug || s.source_title || s.source_id || '';
-    const key = `${s.source_type || 'unknown'}:${slugOrTitle}`;
-    if (seen.has(key)) continue;
-    seen.add(key);
-    out.push(s);
+function describeToolCall(tool: ChatToolActivity): string {
+  const arg = (key: string) => {
+    const value = tool.arguments?.[key];
+    return typeof value === 'string' ? clampText(value, 60) : '';
+  };
+  switch (tool.name) {
+    case 'search_knowledge':
+      return `Searching “${arg('query')}”`;
+    case 'list_projects':
+      return 'Listing projects';
+    case 'get_project':
+      return `Reading project ${arg('slug')}`;
+    case 'list_experiences':
+      return 'Reading work experience';
+    case 'get_skill_evidence':
+      return `Checking evidence for ${arg('name')}`;
+    case 'run_jd_match':
+      return 'Scoring the job description';
+    default:
+      return tool.name;
   }
-
-  return out;
 }
 
-function getSourceHref(source: ChunkReference): string | null {
-  const type = source.source_type;
-  if (type === 'article' && source.source_slug) return `/articles/${source.source_slug}`;
-  if (type === 'project' && source.source_slug) return `/projects/${source.source_slug}`;
-  if (type === 'experience') return '/experience';
-  if (type === 'resume') return '/api/resume';
-  if (type === 'story') return '/stories';
-  if (type === 'skill') return '/skills';
-  return null;
-}
+type ConversationResponse = {
+  conversation?: { id: string; mode?: 'auto' | 'tech' | 'behavior' };
+  messages?: ChatMessage[];
+};
 
-export default function ChatInterface({ initialMessage, initialMode, startFresh }: ChatInterfaceProps) {
+export default function ChatInterface({
+  initialMessage,
+  initialMode,
+  startFresh,
+  continueToken,
+}: ChatInterfaceProps) {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [shareStatus, setShareStatus] = useState<'idle' | 'sharing' | 'copied' | 'error'>('idle');
   const [input, setInput] = useState(initialMessage || '');
   const [isLoading, setIsLoading] = useState(false);
   const [mode, setMode] = useState<'auto' | 'tech' | 'behavior'>(initialMode || 'auto');
+  const [agentMode, setAgentMode] = useState(false);
   const [sessionContext, setSessionContext] = useState<JdSessionContext | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const autoScrollRef = useRef(true);
@@ -107,6 +119,7 @@ export default function ChatInterface({ initialMessage, initialMode, startFresh
   useEffect(() => {
     if (!startFresh) return;
     setMessages([]);
+    setConversationId(null);
     setInput(initialMessage || '');
     setMode(initialMode || 'auto');
     try {
@@ -136,34 +149,97 @@ export default function ChatInterface({ initialMessage, initialMode, startFresh
     }
   }, []);
 
-  // Load persisted chat history
+  // Load persisted chat history (the server transcript wins when the conversation is still available)
   useEffect(() => {
-    if (startFresh) return;
+    if (startFresh || continueToken) return;
+    let storedConversationId: string | null = null;
     try {
       const raw = localStorage.getItem('chengai_chat_v1');
       if (!raw) return;
       const parsed = JSON.parse(raw) as {
         messages?: ChatMessage[];
         mode?: 'auto' | 'tech' | 'behavior';
+        agentMode?: boolean;
+        conversationId?: string | null;
       };
       if (Array.isArray(parsed.messages)) setMessages(parsed.messages);
+      if (typeof parsed.agentMode === 'boolean') setAgentMode(parsed.agentMode);
       if (!initialMode && (parsed.mode === 'auto' || parsed.mode === 'tech' || parsed.mode === 'behavior')) {
         setMode(parsed.mode);
       }
+      if (typeof parsed.conversationId === 'string' && parsed.conversationId) {
+        storedConversationId = parsed.conversationId;
+        setConversationId(parsed.conversationId);
+      }
     } catch {
       // ignore
     }
-  }, [initialMode, startFresh]);
+
+    if (!storedConversationId) return;
+    let cancelled = false;
+    fetch(`/api/conversations/${encodeURIComponent(storedConversationId)}`)
+      .then(async (res) => {
+        if (cancelled) return;
+        if (!res.ok) {
+          if (res.status === 404) setConversationId(null);
+          return;
+        }
+        const data = (await res.json()) as ConversationResponse;
+        if (!cancelled && Array.isArray(data.messages) && data.messages.length > 0) {
+          setMessages(data.messages);
+        }
+      })
+      .catch(() => {
+        // Offline or DB not configured: keep the local copy
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [initialMode, startFresh, continueToken]);
+
+  // Continue a shared transcript as a new conversation owned by this visitor
+  useEffect(() => {
+    if (!continueToken) return;
+    let cancelled = false;
+    fetch('/api/conversations', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ share_token: continueToken }),
+    })
+      .then(async (res) => {
+        if (!res.ok) throw new Error('Failed to continue conversation');
+        const data = (await res.json()) as ConversationResponse;
+        if (cancelled || !data.conversation) return;
+        setConversationId(data.conversation.id);
+        setMessages(Array.isArray(data.messages) ? data.messages : []);
+        if (!initialMode && data.conversation.mode) setMode(data.conversation.mode);
+        trackEvent('chat_shared_continued');
+      })
+      .catch((error) => {
+        console.error('Continue shared chat error:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [continueToken, initialMode]);
 
   // Persist chat history
   useEffect(() => {
     if (isLoading) return;
     try {
-      localStorage.setItem('chengai_chat_v1', JSON.stringify({ messages, mode }));
+      localStorage.setItem('chengai_chat_v1', JSON.stringify({ messages, mode, agentMode, conversationId }));
     } catch {
       // ignore
     }
-  }, [messages, mode, isLoading]);
+  }, [messages, mode, agentMode, conversationId, isLoading]);
+
+  useEffect(() => {
+    if (shareStatus !== 'copied' && shareStatus !== 'error') return;
+    const id = setTimeout(() => setShareStatus('idle'), 2500);
+    return () => clearTimeout(id);
+  }, [shareStatus]);
 
   useEffect(() => {
     if (!autoScrollRef.current) return;
@@ -197,7 +273,7 @@ export default function ChatInterface({ initialMessage, initialMode, startFresh
     if (messages.length === 0) {
       trackEvent('chat_started', { mode });
     }
-    trackEvent('chat_message_sent', { mode, message_chars: userMessage.content.length });
+    trackEvent('chat_message_sent', { mode, agent: agentMode, message_chars: userMessage.content.length });
 
     const assistantMessage: ChatMessage = {
       id: assistantId,
@@ -217,7 +293,9 @@ export default function ChatInterface({ initialMessage, initialMode, startFresh
         body: JSON.stringify({
           message: userMessage.content,
           conversationHistory: messages.slice(-4),
+          conversationId: conversationId || undefined,
           mode,
+          agent: agentMode || undefined,
           sessionContext: sessionContextText || undefined,
         }),
       });
@@ -251,7 +329,38 @@ export default function ChatInterface({ initialMessage, initialMode, startFresh
 
           try {
             const parsed = JSON.parse(data);
-            if (parsed.type === 'sources' && Array.isArray(parsed.sources)) {
+            if (parsed.type === 'conversation' && typeof parsed.conversation_id === 'string') {
+              setConversationId(parsed.conversation_id);
+            } else if (parsed.type === 'tool_call' && typeof parsed.id === 'string') {
+              const tool: ChatToolActivity = {
+                id: parsed.id,
+                name: String(parsed.name || ''),
+                arguments: parsed.arguments && typeof parsed.arguments === 'object' ? parsed.arguments : {},
+                status: 'running',
+              };
+              setMessages((prev) =>
+                prev.map((m) => (m.id === assistantId ? { ...m, tools: [...(m.tools || []), tool] } : m))
+              );
+            } else if (parsed.type === 'tool_result' && typeof parsed.id === 'string') {
+              setMessages((prev) =>
+                prev.map((m) =>
+                  m.id === assistantId
+                    ? {
+                        ...m,
+                        tools: (m.tools || []).map((t) =>
+                          t.id === parsed.id
+                            ? {
+                                ...t,
+                                status: parsed.ok ? 'done' : 'error',
+                                summary: typeof parsed.summary === 'string' ? parsed.summary : undefined,
+                              }
+                            : t
+                        ),
+                      }
+                    : m
+                )
+              );
+            } else if (parsed.type === 'sources' && Array.isArray(parsed.sources)) {
               setMessages((prev) =>
                 prev.map((m) =>
                   m.id === assistantId
@@ -303,6 +412,7 @@ export default function ChatInterface({ initialMessage, initialMode, startFresh
     if (isLoading) return;
     trackEvent('chat_new_clicked', { mode, had_messages: messages.length > 0 });
     setMessages([]);
+    setConversationId(null);
     setInput('');
     try {
       localStorage.removeItem('chengai_chat_v1');
@@ -311,6 +421,26 @@ export default function ChatInterface({ initialMessage, initialMode, startFresh
     }
   };
 
+  const shareChat = async () => {
+    if (!conversationId || isLoading || shareStatus === 'sharing') return;
+    setShareStatus('sharing');
+    try {
+      const res = await fetch(`/api/conversations/${encodeURIComponent(conversationId)}/share`, {
+        method: 'POST',
+      });
+      const data = (await res.json().catch(() => null)) as { path?: string } | null;
+      if (!res.ok || !data?.path) throw new Error('Failed to create share link');
+
+      const url = `${window.location.origin}${data.path}`;
+      await navigator.clipboard.writeText(url);
+      trackEvent('chat_share_link_copied', { messages: messages.length });
+      setShareStatus('copied');
+    } catch (error) {
+      console.error('Share chat error:', error);
+      setShareStatus('error');
+    }
+  };
+
   return (
     <div className="relative flex h-full flex-col overflow-hidden rounded-none border-0 border-zinc-200 bg-white/70 shadow-none backdrop-blur-xl dark:border-zinc-800 dark:bg-zinc-950/60 sm:rounded-3xl sm:border sm:shadow-xl">
       {/* Top Bar */}
@@ -332,6 +462,7 @@ export default function ChatInterface({ initialMessage, initialMode, startFresh
               <div className="text-[11px] text-zinc-500 dark:text-zinc-400">
                 Evidence-first • RAG-powered •{' '}
                 {mode === 'auto' ? 'Auto' : mode === 'tech' ? 'Tech deep dive' : 'Behavioral'}
+                {agentMode ? ' • Agent' : ''}
               </div>
             </div>
           </Link>
@@ -353,6 +484,44 @@ export default function ChatInterface({ initialMessage, initialMode, startFresh
               <option value="behavior">Behavioral</option>
             </select>
 
+            <button
+              type="button"
+              onClick={() => {
+                trackEvent('chat_agent_toggled', { enabled: !agentMode });
+                setAgentMode((v) => !v);
+              }}
+              disabled={isLoading}
+              aria-pressed={agentMode}
+              className={`inline-flex cursor-pointer items-center gap-2 rounded-xl border px-3 py-1.5 text-xs font-semibold shadow-sm disabled:cursor-not-allowed disabled:opacity-50 ${
+                agentMode
+                  ? 'border-purple-300 bg-purple-50 text-purple-700 dark:border-purple-500/40 dark:bg-purple-500/10 dark:text-purple-300'
+                  : 'border-zinc-200 bg-white/80 text-zinc-700 hover:bg-white dark:border-zinc-800 dark:bg-zinc-950/60 dark:text-zinc-200 dark:hover:bg-zinc-950'
+              }`}
+              title="Agent mode: look things up step by step before answering (slower, better for multi-part questions)"
+            >
+              <Workflow className="h-3.5 w-3.5" />
+              <span className="whitespace-nowrap">Agent</span>
+            </button>
+
+            <button
+              onClick={shareChat}
+              disabled={isLoading || !conversationId || messages.length === 0 || shareStatus === 'sharing'}
+              className="inline-flex cursor-pointer items-center gap-2 rounded-xl border border-zinc-200 bg-white/80 px-3 py-1.5 text-xs font-semibold text-zinc-700 shadow-sm hover:bg-white disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-800 dark:bg-zinc-950/60 dark:text-zinc-200 dark:hover:bg-zinc-950"
+              aria-label="Share chat"
+              title="Copy a read-only link to this conversation"
+            >
+              {shareStatus === 'copied' ? (
+                <Check className="h-3.5 w-3.5" />
+              ) : shareStatus === 'sharing' ? (
+                <Loader2 className="h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <Share2 className="h-3.5 w-3.5" />
+              )}
+              <span className="whitespace-nowrap">
+                {shareStatus === 'copied' ? 'Link copied' : shareStatus === 'error' ? 'Share failed' : 'Share'}
+              </span>
+            </button>
+
             <button
               onClick={clearChat}
               disabled={isLoading || messages.length === 0}
@@ -447,6 +616,26 @@ export default function ChatInterface({ initialMessage, initialMode, startFresh
             >
               {message.role === 'assistant' ? (
                 <div className="prose prose-sm prose-zinc dark:prose-invert max-w-none">
+                  {message.tools && message.tools.length > 0 && (
+                    <div className="not-prose mb-3 space-y-1 border-b border-zinc-200/70 pb-3 dark:border-zinc-800/70">
+                      {message.tools.map((tool) => (
+                        <div
+                          key={tool.id}
+                          className="flex items-center gap-2 text-[11px] text-zinc-500 dark:text-zinc-400"
+                        >
+                          {tool.status === 'running' ? (
+                            <Loader2 className="h-3 w-3 shrink-0 animate-spin" />
+                          ) : tool.status === 'error' ? (
+                            <AlertCircle className="h-3 w-3 shrink-0 text-amber-500" />
+                          ) : (
+                            <Check className="h-3 w-3 shrink-0 text-emerald-500" />
+                          )}
+                          <span className="truncate">{describeToolCall(tool)}</span>
+                          {tool.summary && <span className="shrink-0 text-zinc-400 dark:text-zinc-500">· {tool.summary}</span>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
                   {message.content ? (
                     <ReactMarkdown remarkPlugins={[remarkGfm]}>
                       {message.content}
@@ -1,59 +1,40 @@
 'use client';
 
 import { useState } from 'react';
-import { Loader2, CheckCircle, XCircle, ArrowRight } from 'lucide-react';
+import { Loader2, CheckCircle, XCircle, ArrowRight, Link2, Share2 } from 'lucide-react';
 import Link from 'next/link';
 import type { JDMatchResult } from '@/types';
 import { trackEvent } from '@/lib/analytics';
+import ApplicationDraftPanel from '@/components/chat/ApplicationDraftPanel';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import type { ChunkReference } from '@/types';
-
-function dedupeSources(sources: ChunkReference[]): ChunkReference[] {
-  const out: ChunkReference[] = [];
-  const seen = new Set<string>();
-
-  for (const s of sources || []) {
-    const slugOrTitle = s.source_slug || s.source_title || s.source_id || '';
-    const key = `${s.source_type || 'unknown'}:${slugOrTitle}`;
-    if (seen.has(key)) continue;
-    seen.add(key);
-    out.push(s);
-  }
-
-  return out;
-}
-
-function getSourceHref(source: ChunkReference): string | null {
-  const type = source.source_type;
-  if (type === 'article' && source.source_slug) return `/articles/${source.source_slug}`;
-  if (type === 'project' && source.source_slug) return `/projects/${source.source_slug}`;
-  if (type === 'experience') return '/experience';
-  if (type === 'resume') return '/api/resume';
-  if (type === 'story') return '/stories';
-  if (type === 'skill') return '/skills';
-  return null;
-}
+import { dedupeSources, getSourceHref } from '@/lib/chat-sources';
 
 export default function JDMatcher() {
   const [jd, setJd] = useState('');
+  const [postingUrl, setPostingUrl] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<JDMatchResult | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [shareCopied, setShareCopied] = useState(false);
+
+  // Pasted text wins; the URL is only used when the textarea is empty.
+  const useUrl = !jd.trim() && Boolean(postingUrl.trim());
 
   const handleSubmit = async () => {
-    if (!jd.trim() || isLoading) return;
+    if ((!jd.trim() && !useUrl) || isLoading) return;
 
     setIsLoading(true);
     setError(null);
     setResult(null);
+    setShareCopied(false);
 
     try {
-      trackEvent('jd_match_run', { jd_chars: jd.length });
+      trackEvent('jd_match_run', useUrl ? { from_url: true } : { jd_chars: jd.length });
       const response = await fetch('/api/jd-match', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ jd }),
+        body: JSON.stringify(useUrl ? { url: postingUrl.trim() } : { jd }),
       });
 
       const raw = await response.text();
@@ -81,7 +62,10 @@ export default function JDMatcher() {
         throw new Error('Unexpected response from server.');
       }
 
-      setResult(data as JDMatchResult);
+      const matchResult = data as JDMatchResult;
+      // Show the extracted text so it can be reviewed and reused by the chat CTA.
+      if (matchResult.jd_text) setJd(matchResult.jd_text);
+      setResult(matchResult);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Something went wrong');
     } finally {
@@ -89,6 +73,20 @@ export default function JDMatcher() {
     }
   };
 
+  // Opt-in: the summary card link only carries the score, role and top matched skills.
+  const handleShare = async () => {
+    if (!result?.share_path) return;
+    const url = `${window.location.origin}${result.share_path}`;
+    trackEvent('jd_match_share', { match_score: result.match_score });
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareCopied(true);
+    } catch {
+      window.prompt('Copy the summary card link:', url);
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Input Section */}
@@ -105,15 +103,34 @@ export default function JDMatcher() {
             disabled={isLoading}
           />
         </div>
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-2">
+            Or fetch from a job posting URL
+          </label>
+          <div className="relative">
+            <Link2 className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-zinc-400" />
+            <input
+              type="url"
+              value={postingUrl}
+              onChange={(e) => setPostingUrl(e.target.value)}
+              placeholder="https://boards.greenhouse.io/company/jobs/123456"
+              className="w-full rounded-xl border border-zinc-200 py-3 pl-9 pr-4 text-sm focus:border-blue-500 focus:outline-none disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-white"
+              disabled={isLoading || Boolean(jd.trim())}
+            />
+          </div>
+          <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+            Greenhouse, Lever, Ashby, and most career pages are supported. Clear the text above to use a URL.
+          </p>
+        </div>
         <button
           onClick={handleSubmit}
-          disabled={!jd.trim() || isLoading}
+          disabled={(!jd.trim() && !useUrl) || isLoading}
           className="flex items-center gap-2 rounded-xl bg-blue-600 px-6 py-3 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
         >
           {isLoading ? (
             <>
               <Loader2 className="h-4 w-4 animate-spin" />
-              Analyzing...
+              {useUrl ? 'Fetching & analyzing...' : 'Analyzing...'}
             </>
           ) : (
             <>
@@ -134,6 +151,28 @@ export default function JDMatcher() {
       {/* Results */}
       {result && (
         <div className="space-y-6">
+          {result.posting && (
+            <div className="rounded-xl border border-zinc-200 p-4 text-sm dark:border-zinc-800">
+              <div className="font-medium text-zinc-900 dark:text-white">
+                {result.posting.title || 'Job posting'}
+                {result.posting.company && (
+                  <span className="font-normal text-zinc-500 dark:text-zinc-400"> · {result.posting.company}</span>
+                )}
+              </div>
+              {result.posting.location && (
+                <div className="mt-0.5 text-zinc-600 dark:text-zinc-400">{result.posting.location}</div>
+              )}
+              <a
+                href={result.posting.url}
+                target="_blank"
+                rel="noreferrer"
+                className="mt-1 inline-block text-xs text-blue-600 hover:underline"
+              >
+                View posting
+              </a>
+            </div>
+          )}
+
           {/* Match Score */}
           <div className="rounded-xl bg-gradient-to-br from-blue-500 to-purple-600 p-6 text-white">
             <div className="text-sm opacity-80">Match Score</div>
@@ -155,6 +194,16 @@ export default function JDMatcher() {
                 </span>
               </div>
             )}
+            {result.share_path && (
+              <button
+                type="button"
+                onClick={handleShare}
+                className="mt-4 inline-flex items-center gap-1.5 rounded-full bg-white/15 px-3 py-1.5 text-xs font-medium text-white hover:bg-white/25"
+              >
+                <Share2 className="h-3.5 w-3.5" />
+                {shareCopied ? 'Link copied' : 'Share summary card'}
+              </button>
+            )}
           </div>
 
           {/* Match Report */}
@@ -297,6 +346,9 @@ export default function JDMatcher() {
             </div>
           )}
 
+          {/* Application material */}
+          <ApplicationDraftPanel jd={result.jd_text || jd} jobTitle={result.posting?.title ?? null} />
+
           {/* CTA */}
           <div className="flex gap-4">
             <Link
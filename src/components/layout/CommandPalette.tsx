@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useRouter } from 'next/navigation';
+import { CornerDownLeft, FileText, Loader2, Search } from 'lucide-react';
+import { trackEvent } from '@/lib/analytics';
+import { fetchSearchResults } from '@/lib/search-client';
+import HighlightedSnippet from '@/components/search/HighlightedSnippet';
+import type { SearchResult } from '@/types';
+
+type PaletteNavItem = { href: string; label: string; icon: typeof FileText };
+
+type PaletteItem =
+  | { kind: 'page'; key: string; href: string; label: string; icon: typeof FileText }
+  | { kind: 'result'; key: string; href: string; result: SearchResult; groupLabel: string }
+  | { kind: 'all'; key: string; href: string; query: string };
+
+const MIN_QUERY_CHARS = 3;
+const DEBOUNCE_MS = 300;
+const MAX_RESULTS = 8;
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+// ⌘K / Ctrl+K (or "/" outside a text field) opens quick navigation plus live site search.
+export default function CommandPalette({
+  open,
+  onOpenChange,
+  navItems,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  navItems: PaletteNavItem[];
+}) {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Array<{ result: SearchResult; groupLabel: string }>>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        onOpenChange(!open);
+        return;
+      }
+      if (!open && event.key === '/' && !isTypingTarget(event.target)) {
+        event.preventDefault();
+        onOpenChange(true);
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    if (!open) return;
+    setQuery('');
+    setResults([]);
+    setActiveIndex(0);
+    const t = setTimeout(() => inputRef.current?.focus(), 0);
+    return () => clearTimeout(t);
+  }, [open]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!open || trimmed.length < MIN_QUERY_CHARS) {
+      setResults([]);
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const data = await fetchSearchResults(trimmed, {
+          limit: MAX_RESULTS,
+          signal: controller.signal,
+          instant: true,
+        });
+        setResults(data.groups.flatMap((group) => group.results.map((result) => ({ result, groupLabel: group.label }))));
+      } catch {
+        if (!controller.signal.aborted) setResults([]);
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [open, query]);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const trimmed = query.trim();
+    const needle = trimmed.toLowerCase();
+    const pages: PaletteItem[] = navItems
+      .filter((item) => !needle || item.label.toLowerCase().includes(needle))
+      .map((item) => ({ kind: 'page', key: `page:${item.href}`, ...item }));
+    const hits: PaletteItem[] = results.map(({ result, groupLabel }) => ({
+      kind: 'result',
+      key: `result:${result.source_type}:${result.source_slug || result.source_title}`,
+      href: result.href,
+      result,
+      groupLabel,
+    }));
+    const all: PaletteItem[] = trimmed
+      ? [{ kind: 'all', key: 'all', href: `/search?q=${encodeURIComponent(trimmed)}`, query: trimmed }]
+      : [];
+    return [...pages, ...hits, ...all];
+  }, [navItems, query, results]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [items.length]);
+
+  if (!open) return null;
+
+  const select = (item: PaletteItem) => {
+    trackEvent('command_palette_select', { kind: item.kind, href: item.href });
+    onOpenChange(false);
+    router.push(item.href);
+  };
+
+  const onInputKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      onOpenChange(false);
+    } else if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex((i) => (items.length ? (i + 1) % items.length : 0));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex((i) => (items.length ? (i - 1 + items.length) % items.length : 0));
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      const item = items[activeIndex];
+      if (item) select(item);
+    }
+  };
+
+  // Portaled: the header's backdrop-filter would otherwise contain this fixed overlay.
+  return createPortal(
+    <div
+      className="fixed inset-0 z-[60] flex items-start justify-center bg-zinc-950/40 px-4 pt-[12vh] backdrop-blur-sm"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onOpenChange(false);
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search"
+        className="w-full max-w-xl overflow-hidden rounded-2xl border border-zinc-200 bg-white shadow-2xl dark:border-zinc-800 dark:bg-zinc-900"
+      >
+        <div className="flex items-center gap-3 border-b border-zinc-200 px-4 dark:border-zinc-800">
+          <Search className="h-4 w-4 shrink-0 text-zinc-400" />
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={onInputKeyDown}
+            placeholder="Search or jump to…"
+            className="h-12 w-full bg-transparent text-sm text-zinc-900 placeholder:text-zinc-400 focus:outline-none dark:text-white"
+          />
+          {isLoading && <Loader2 className="h-4 w-4 shrink-0 animate-spin text-zinc-400" />}
+          <kbd className="hidden shrink-0 rounded border border-zinc-300 px-1.5 py-0.5 text-[10px] text-zinc-500 sm:inline dark:border-zinc-700">
+            Esc
+          </kbd>
+        </div>
+
+        <ul role="listbox" className="max-h-[60vh] overflow-y-auto p-2">
+          {items.map((item, index) => (
+            <li
+              key={item.key}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => select(item)}
+              className={`flex cursor-pointer items-start gap-3 rounded-xl px-3 py-2 text-sm ${
+                index === activeIndex
+                  ? 'bg-zinc-100 text-zinc-900 dark:bg-zinc-800 dark:text-white'
+                  : 'text-zinc-700 dark:text-zinc-300'
+              }`}
+            >
+              {item.kind === 'page' && (
+                <>
+                  <item.icon className="mt-0.5 h-4 w-4 shrink-0 text-zinc-400" />
+                  <span className="font-medium">{item.label}</span>
+                </>
+              )}
+              {item.kind === 'result' && (
+                <>
+                  <FileText className="mt-0.5 h-4 w-4 shrink-0 text-zinc-400" />
+                  <div className="min-w-0">
+                    <div className="truncate font-medium">
+                      {item.result.source_title}
+                      <span className="ml-2 text-xs font-normal text-zinc-400">{item.groupLabel}</span>
+                    </div>
+                    <div className="line-clamp-2 text-xs text-zinc-500 dark:text-zinc-400">
+                      <HighlightedSnippet result={item.result} />
+                    </div>
+                  </div>
+                </>
+              )}
+              {item.kind === 'all' && (
+                <>
+                  <CornerDownLeft className="mt-0.5 h-4 w-4 shrink-0 text-zinc-400" />
+                  <span>
+                    See all results for <span className="font-medium">&ldquo;{item.query}&rdquo;</span>
+                  </span>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>,
+    document.body
+  );
+}
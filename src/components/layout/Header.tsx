@@ -3,8 +3,9 @@
 import Link from 'next/link';
 import { useEffect, useMemo, useState } from 'react';
 import { usePathname, useRouter } from 'next/navigation';
-import { Menu, X, MessageSquare, Briefcase, Code, FileText, User, ScrollText, Building2 } from 'lucide-react';
+import { Menu, X, MessageSquare, Briefcase, Code, FileText, User, ScrollText, Building2, Search } from 'lucide-react';
 import { trackEvent } from '@/lib/analytics';
+import CommandPalette from '@/components/layout/CommandPalette';
 import type { SiteSettings } from '@/lib/site-settings-types';
 
 type NavVisibilityKey =
@@ -32,6 +33,7 @@ const navItems: Array<{
 
 export default function Header({ settings }: { settings: SiteSettings }) {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
   const pathname = usePathname();
   const router = useRouter();
   const visibleNavItems = useMemo(
@@ -110,15 +112,33 @@ export default function Header({ settings }: { settings: SiteSettings }) {
           ))}
         </nav>
 
-        {/* Mobile Menu Button */}
-        <button
-          onClick={() => setIsMenuOpen(!isMenuOpen)}
-          className="rounded-md p-2 text-zinc-600 hover:bg-zinc-100 md:hidden dark:text-zinc-400 dark:hover:bg-zinc-800"
-        >
-          {isMenuOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
-        </button>
+        <div className="flex items-center gap-1">
+          {/* Search */}
+          <button
+            type="button"
+            onClick={() => {
+              trackEvent('command_palette_open', { surface: 'header' });
+              setIsPaletteOpen(true);
+            }}
+            aria-label="Search"
+            className="flex items-center gap-2 rounded-full p-2 text-sm text-zinc-600 hover:bg-zinc-100 hover:text-zinc-900 md:border md:border-zinc-200 md:px-3 md:py-1.5 dark:text-zinc-400 dark:hover:bg-zinc-900/60 dark:hover:text-white md:dark:border-zinc-800"
+          >
+            <Search className="h-4 w-4" />
+            <kbd className="hidden text-xs text-zinc-400 md:inline">⌘K</kbd>
+          </button>
+
+          {/* Mobile Menu Button */}
+          <button
+            onClick={() => setIsMenuOpen(!isMenuOpen)}
+            className="rounded-md p-2 text-zinc-600 hover:bg-zinc-100 md:hidden dark:text-zinc-400 dark:hover:bg-zinc-800"
+          >
+            {isMenuOpen ? <X className="h-5 w-5" /> : <Menu className="h-5 w-5" />}
+          </button>
+        </div>
       </div>
 
+      <CommandPalette open={isPaletteOpen} onOpenChange={setIsPaletteOpen} navItems={visibleNavItems} />
+
       {/* Mobile Navigation */}
       {isMenuOpen && (
         <nav className="border-t border-zinc-200/70 bg-white/80 px-4 py-4 backdrop-blur-xl md:hidden dark:border-zinc-800/70 dark:bg-zinc-950/60">
@@ -0,0 +1,20 @@
+import type { SearchResult } from '@/types';
+
+export default function HighlightedSnippet({ result }: { result: Pick<SearchResult, 'snippet' | 'highlights'> }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  for (const [start, end] of result.highlights) {
+    if (start < cursor || end > result.snippet.length) continue;
+    if (start > cursor) parts.push(result.snippet.slice(cursor, start));
+    parts.push(
+      <mark key={start} className="rounded bg-yellow-200/70 px-0.5 text-inherit dark:bg-yellow-500/30">
+        {result.snippet.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  }
+  if (cursor < result.snippet.length) parts.push(result.snippet.slice(cursor));
+
+  return <>{parts}</>;
+}
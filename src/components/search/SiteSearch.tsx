@@ -0,0 +1,114 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Loader2, Search } from 'lucide-react';
+import { trackEvent } from '@/lib/analytics';
+import { fetchSearchResults } from '@/lib/search-client';
+import HighlightedSnippet from '@/components/search/HighlightedSnippet';
+import type { SearchResponse } from '@/types';
+
+const MIN_QUERY_CHARS = 2;
+const DEBOUNCE_MS = 400;
+
+export default function SiteSearch({ initialQuery }: { initialQuery: string }) {
+  const router = useRouter();
+  const [query, setQuery] = useState(initialQuery);
+  const [response, setResponse] = useState<SearchResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_CHARS) {
+      setResponse(null);
+      setError(null);
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      setError(null);
+      // Keep the URL shareable without adding a history entry per keystroke.
+      router.replace(`/search?q=${encodeURIComponent(trimmed)}`, { scroll: false });
+
+      try {
+        const data = await fetchSearchResults(trimmed, { signal: controller.signal });
+        setResponse(data);
+        trackEvent('site_search', { query_chars: trimmed.length, results: data.total });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Search failed');
+        setResponse(null);
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, router]);
+
+  return (
+    <div className="space-y-6">
+      <div className="relative">
+        <Search className="pointer-events-none absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 text-zinc-400" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search projects, articles, experience…"
+          autoFocus
+          className="w-full rounded-xl border border-zinc-200 bg-white py-3 pl-12 pr-12 text-zinc-900 placeholder:text-zinc-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-800 dark:bg-zinc-900 dark:text-white"
+        />
+        {isLoading && (
+          <Loader2 className="absolute right-4 top-1/2 h-5 w-5 -translate-y-1/2 animate-spin text-zinc-400" />
+        )}
+      </div>
+
+      {error && (
+        <div className="rounded-xl bg-red-50 p-4 text-sm text-red-600 dark:bg-red-900/20 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {response && response.total === 0 && !isLoading && (
+        <p className="text-sm text-zinc-500 dark:text-zinc-400">
+          No results for &ldquo;{response.query}&rdquo;. Try different keywords, or{' '}
+          <Link href="/chat" className="text-blue-600 hover:underline">
+            ask the AI
+          </Link>
+          .
+        </p>
+      )}
+
+      {response?.groups.map((group) => (
+        <section key={group.source_type}>
+          <h2 className="mb-3 text-sm font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+            {group.label}
+          </h2>
+          <div className="space-y-3">
+            {group.results.map((result) => (
+              <Link
+                key={`${result.source_type}:${result.source_slug || result.source_title}`}
+                href={result.href}
+                onClick={() => trackEvent('site_search_click', { source_type: result.source_type, href: result.href })}
+                className="block rounded-xl border border-zinc-200 p-4 transition-colors hover:border-blue-300 hover:bg-blue-50/40 dark:border-zinc-800 dark:hover:border-blue-800 dark:hover:bg-blue-950/20"
+              >
+                <div className="font-medium text-zinc-900 dark:text-white">{result.source_title}</div>
+                <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+                  <HighlightedSnippet result={result} />
+                </p>
+              </Link>
+            ))}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
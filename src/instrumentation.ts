@@ -0,0 +1,7 @@
+// Runs once when the server starts: configuration errors fail the boot instead of the first request.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { assertEmbeddingConfig } = await import('@/lib/embeddings');
+  assertEmbeddingConfig();
+}
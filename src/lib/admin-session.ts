@@ -1,9 +1,12 @@
+import { DEFAULT_OWNER_ID } from './tenants';
+
 export const SESSION_COOKIE = 'chengai_session';
 export const CSRF_COOKIE = 'chengai_csrf';
 export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24; // 24 hours
 
 const encoder = new TextEncoder();
 let cachedKeyPromise: Promise<CryptoKey> | null = null;
+const purposeKeyPromises = new Map<SigningPurpose, Promise<CryptoKey>>();
 
 function getSessionSecret(): string {
   const secret = process.env.ADMIN_SESSION_SECRET || process.env.ADMIN_PASSWORD || '';
@@ -53,13 +56,29 @@ async function getHmacKey(): Promise<CryptoKey> {
   return cachedKeyPromise;
 }
 
+// Stateless links get their own key, HMAC(secret, purpose), so a signature minted for one purpose
+// never verifies as a session cookie or as a link of another kind.
+export type SigningPurpose = 'preview' | 'jdmatch-share';
+
+function getPurposeKey(purpose: SigningPurpose): Promise<CryptoKey> {
+  const cached = purposeKeyPromises.get(purpose);
+  if (cached) return cached;
+
+  const keyPromise = (async () => {
+    const derived = await crypto.subtle.sign('HMAC', await getHmacKey(), encoder.encode(purpose));
+    return crypto.subtle.importKey('raw', derived, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+  })();
+  purposeKeyPromises.set(purpose, keyPromise);
+  return keyPromise;
+}
+
 function generateRandomHex(bytes = 32): string {
   const array = new Uint8Array(bytes);
   crypto.getRandomValues(array);
   return Array.from(array, (byte) => byte.toString(16).padStart(2, '0')).join('');
 }
 
-export async function createSessionCookieValue(): Promise<string> {
+export async function createSessionCookieValue(ownerId: string = DEFAULT_OWNER_ID): Promise<string> {
   const secret = getSessionSecret();
   if (!secret) {
     throw new Error('ADMIN_SESSION_SECRET (or ADMIN_PASSWORD) must be set in production.');
@@ -67,7 +86,8 @@ export async function createSessionCookieValue(): Promise<string> {
 
   const token = generateRandomHex(32);
   const expiresAtMs = Date.now() + SESSION_MAX_AGE_SECONDS * 1000;
-  const payload = `${token}.${expiresAtMs}`;
+  // The owner is part of the signed payload so a session for one owner is useless on another.
+  const payload = `${token}.${expiresAtMs}.${ownerId}`;
 
   const key = await getHmacKey();
   const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
@@ -75,33 +95,125 @@ export async function createSessionCookieValue(): Promise<string> {
   return `${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
 }
 
-export async function validateSessionCookieValue(value: string | null | undefined): Promise<boolean> {
+export async function validateSessionCookieValue(
+  value: string | null | undefined,
+  ownerId?: string
+): Promise<boolean> {
   if (!value) return false;
   const secret = getSessionSecret();
   if (!secret) return false;
 
   const parts = value.split('.');
-  if (parts.length !== 3) return false;
+  if (parts.length !== 3 && parts.length !== 4) return false;
 
-  const [token, expiresAtMsRaw, signatureRaw] = parts;
-  if (!token || !expiresAtMsRaw || !signatureRaw) return false;
+  // Legacy cookies (token.expires.signature) predate owners and belong to the default owner.
+  const [token, expiresAtMsRaw] = parts;
+  const sessionOwnerId = parts.length === 4 ? parts[2] : DEFAULT_OWNER_ID;
+  const signatureRaw = parts[parts.length - 1];
+  if (!token || !expiresAtMsRaw || !sessionOwnerId || !signatureRaw) return false;
+  if (ownerId && sessionOwnerId !== ownerId) return false;
 
   const expiresAtMs = Number(expiresAtMsRaw);
   if (!Number.isFinite(expiresAtMs)) return false;
   if (expiresAtMs <= Date.now()) return false;
 
-    const payload = `${token}.${expiresAtMsRaw}`;
-    const signature = base64UrlToBytes(signatureRaw);
-
-    try {
-      const key = await getHmacKey();
-      return await crypto.subtle.verify(
-        'HMAC',
-        key,
-        signature as unknown as BufferSource,
-        encoder.encode(payload)
-      );
-    } catch {
-      return false;
-    }
+  const payload = parts.slice(0, -1).join('.');
+  const signature = base64UrlToBytes(signatureRaw);
+
+  try {
+    const key = await getHmacKey();
+    return await crypto.subtle.verify(
+      'HMAC',
+      key,
+      signature as unknown as BufferSource,
+      encoder.encode(payload)
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Owner a valid session cookie was issued for, or null.
+export async function getSessionOwnerId(value: string | null | undefined): Promise<string | null> {
+  if (!value || !(await validateSessionCookieValue(value))) return null;
+  const parts = value.split('.');
+  return parts.length === 4 ? parts[2] : DEFAULT_OWNER_ID;
+}
+
+// Signs an arbitrary payload with the key derived for `purpose` (for stateless share/preview links).
+export async function signValue(purpose: SigningPurpose, payload: string): Promise<string> {
+  const secret = getSessionSecret();
+  if (!secret) {
+    throw new Error('ADMIN_SESSION_SECRET (or ADMIN_PASSWORD) must be set in production.');
+  }
+
+  const key = await getPurposeKey(purpose);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+export async function verifySignedValue(
+  purpose: SigningPurpose,
+  payload: string,
+  signatureRaw: string
+): Promise<boolean> {
+  if (!getSessionSecret() || !signatureRaw) return false;
+
+  try {
+    const key = await getPurposeKey(purpose);
+    return await crypto.subtle.verify(
+      'HMAC',
+      key,
+      base64UrlToBytes(signatureRaw) as unknown as BufferSource,
+      encoder.encode(payload)
+    );
+  } catch {
+    return false;
   }
+}
+
+export type PreviewEntityType = 'article' | 'project';
+
+export const PREVIEW_DEFAULT_MAX_AGE_SECONDS = 60 * 60 * 24 * 3; // 3 days
+export const PREVIEW_MAX_AGE_LIMIT_SECONDS = 60 * 60 * 24 * 30; // 30 days
+
+// Signed, expiring draft preview link: `preview.<type>.<id>.<owner>.<expires>.<signature>`.
+// They are signed with the `preview` purpose key, so they never validate as a session cookie.
+// Rotating ADMIN_SESSION_SECRET revokes every outstanding link.
+export async function createPreviewToken(args: {
+  entityType: PreviewEntityType;
+  entityId: string;
+  ownerId: string;
+  maxAgeSeconds?: number;
+}): Promise<{ token: string; expiresAtMs: number }> {
+  const maxAgeSeconds = Math.min(
+    Math.max(Math.floor(args.maxAgeSeconds ?? PREVIEW_DEFAULT_MAX_AGE_SECONDS), 60),
+    PREVIEW_MAX_AGE_LIMIT_SECONDS
+  );
+  const expiresAtMs = Date.now() + maxAgeSeconds * 1000;
+  const payload = `preview.${args.entityType}.${args.entityId}.${args.ownerId}.${expiresAtMs}`;
+
+  return { token: `${payload}.${await signValue('preview', payload)}`, expiresAtMs };
+}
+
+// Returns the previewable entity id, or null when the token is malformed, expired, forged,
+// or was issued for another entity type or owner.
+export async function verifyPreviewToken(
+  value: string | null | undefined,
+  expected: { entityType: PreviewEntityType; ownerId: string }
+): Promise<{ entityId: string; expiresAtMs: number } | null> {
+  if (!value) return null;
+
+  const parts = value.split('.');
+  if (parts.length !== 6) return null;
+
+  const [prefix, entityType, entityId, ownerId, expiresAtMsRaw, signatureRaw] = parts;
+  if (prefix !== 'preview' || !entityId || !signatureRaw) return null;
+  if (entityType !== expected.entityType || ownerId !== expected.ownerId) return null;
+
+  const expiresAtMs = Number(expiresAtMsRaw);
+  if (!Number.isFinite(expiresAtMs) || expiresAtMs <= Date.now()) return null;
+
+  const valid = await verifySignedValue('preview', parts.slice(0, -1).join('.'), signatureRaw);
+  return valid ? { entityId, expiresAtMs } : null;
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { streamChat } from '@/lib/ai';
+import { registerChatProvider } from '@/lib/llm-providers';
+
+const ANSWER = 'The answer is forty-two.';
+const PARTIAL = 'Half of a first answer that keeps going long enough to get past the held-back tail. '.repeat(3);
+
+registerChatProvider({
+  name: 'test-steady',
+  isConfigured: () => true,
+  async complete() {
+    return { role: 'assistant', content: ANSWER, refusal: null };
+  },
+  async *stream() {
+    for (const word of ANSWER.split(/(?<=\s)/)) yield word;
+  },
+});
+
+registerChatProvider({
+  name: 'test-batch',
+  isConfigured: () => true,
+  capabilities: { streaming: false },
+  async complete() {
+    return { role: 'assistant', content: ANSWER, refusal: null };
+  },
+  async *stream() {
+    throw new Error('not a streaming provider');
+  },
+});
+
+// Streams part of an answer, then drops like an upstream outage.
+registerChatProvider({
+  name: 'test-flaky',
+  isConfigured: () => true,
+  async complete() {
+    throw Object.assign(new Error('503 Service Unavailable'), { status: 503 });
+  },
+  async *stream() {
+    yield PARTIAL;
+    throw Object.assign(new Error('503 Service Unavailable'), { status: 503 });
+  },
+});
+
+async function collect(chain: string) {
+  process.env.AI_CHAT_PROVIDERS = chain;
+  const events: Array<{ type: 'append' | 'replace'; content: string }> = [];
+  let text = '';
+  for await (const event of streamChat('System prompt', 'What is the answer?', 'No context.')) {
+    events.push(event);
+    text = event.type === 'replace' ? event.content : text + event.content;
+  }
+  return { events, text };
+}
+
+let savedChain: string | undefined;
+
+beforeEach(() => {
+  savedChain = process.env.AI_CHAT_PROVIDERS;
+  mock.method(console, 'warn', () => {});
+});
+
+afterEach(() => {
+  if (savedChain === undefined) delete process.env.AI_CHAT_PROVIDERS;
+  else process.env.AI_CHAT_PROVIDERS = savedChain;
+  mock.restoreAll();
+});
+
+describe('streamChat', () => {
+  test('streams from the first available provider', async () => {
+    const { events, text } = await collect('test-steady:a');
+    assert.equal(text, ANSWER);
+    assert.ok(events.every((event) => event.type === 'append'));
+  });
+
+  test('moves on when a provider is unavailable before it streams anything', async () => {
+    const { events, text } = await collect('mock:mock-unavailable,test-steady:a');
+    assert.equal(text, ANSWER);
+    assert.ok(events.every((event) => event.type === 'append'));
+  });
+
+  test('clears a partial answer before the next provider streams', async () => {
+    const { events, text } = await collect('test-flaky:a,test-steady:b');
+
+    assert.equal(text, ANSWER);
+    const cleared = events.findIndex((event) => event.type === 'replace' && event.content === '');
+    assert.ok(cleared > 0, 'expected a replace after the partial output');
+    assert.ok(events.slice(0, cleared).some((event) => event.type === 'append' && event.content.includes('Half of')));
+  });
+
+  test('replaces a partial answer when the fallback does not stream', async () => {
+    const { events, text } = await collect('test-flaky:a,test-batch:b');
+
+    assert.ok(events.some((event) => event.type === 'append'));
+    assert.equal(events[events.length - 1].type, 'replace');
+    assert.equal(text, ANSWER);
+  });
+});
@@ -1,97 +1,86 @@
-import OpenAI from 'openai';
-
-// AI Builders Space API for Gemini 2.5 Pro chat
-const aiBuilders = new OpenAI({
-  baseURL: 'https://space.ai-builders.com/backend/v1',
-  apiKey:
-    process.env.AI_BUILDER_TOKEN ||
-    process.env.BUILDERSPACE ||
-    process.env.builderspace ||
-    '',
-});
-
-// OpenAI for embeddings
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-});
-
-const EMBEDDING_MODEL = process.env.AI_EMBEDDING_MODEL || 'text-embedding-3-small';
-
-function hasAiBuilderToken(): boolean {
-  return Boolean(
-    process.env.AI_BUILDER_TOKEN || process.env.BUILDERSPACE || process.env.builderspace
-  );
-}
-
-function hasOpenAiKey(): boolean {
-  return Boolean(process.env.OPENAI_API_KEY);
-}
-
-function getEmbeddingsClient(): OpenAI {
-  // Prefer direct OpenAI when available; otherwise use AI Builders Space (OpenAI-compatible) via AI_BUILDER_TOKEN.
-  if (process.env.OPENAI_API_KEY) return openai;
-  if (hasAiBuilderToken()) return aiBuilders;
-  throw new Error('Missing embeddings API key: set OPENAI_API_KEY or AI_BUILDER_TOKEN.');
-}
-
-function isRetryableUpstreamError(error: unknown): boolean {
-  const anyErr = error as { status?: number; message?: string } | null;
-  const status = typeof anyErr?.status === 'number' ? anyErr.status : null;
-  if (status && [502, 503, 504].includes(status)) return true;
-  const msg = String(anyErr?.message || error || '');
-  return /502|503|504|bad gateway|gateway timeout|service unavailable/i.test(msg);
-}
-
-function getFallbackChatModel(): string {
-  return process.env.AI_CHAT_MODEL_FALLBACK || 'gpt-5';
-}
-
-function getFallbackTextModel(temperature?: number): string {
-  if (process.env.AI_TEXT_MODEL_FALLBACK) return process.env.AI_TEXT_MODEL_FALLBACK;
-  // For deterministic/structured outputs, prefer a model that supports temperature 0.
-  if (temperature === 0) return 'gpt-4o-mini';
-  return 'gpt-5';
-}
-
-export async function generateEmbedding(text: string): Promise<number[]> {
-  const client = getEmbeddingsClient();
-  const response = await client.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: text,
-    dimensions: 1536,
-  });
-  return response.data[0].embedding;
+import {
+  adaptRequest,
+  completeChat,
+  isChatConfigured,
+  resolveChatChain,
+  shouldFallBack,
+  type ChatCompletion,
+  type ChatMessage,
+  type ChatTool,
+} from '@/lib/llm-providers';
+
+// Which vendor and model serve each call is decided by the provider chains in lib/llm-providers;
+// this module owns the prompts and the post-processing of what comes back.
+
+export function isTextGenerationConfigured(): boolean {
+  return isChatConfigured('chat');
 }
 
-export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
-  if (!Array.isArray(texts) || texts.length === 0) return [];
+// Streams model deltas, holding back a short tail so a trailing "Evidence" section the model writes
+// itself can be cut before it reaches the client (the caller's evidence block is appended instead).
+async function* streamAnswer(
+  deltas: AsyncIterable<string>,
+  evidenceMarkdown?: string
+): AsyncGenerator<{ type: 'append' | 'replace'; content: string }> {
+  const lookbehind = 120;
+  let buffer = '';
+  let fullOutput = '';
+  let stoppedAtEvidence = false;
+
+  for await (const delta of deltas) {
+    if (!delta || stoppedAtEvidence) continue;
+
+    buffer += delta;
+
+    const evidenceIndex = findEvidenceStart(buffer);
+    if (evidenceIndex >= 0) {
+      const safe = buffer.slice(0, evidenceIndex);
+      if (safe) {
+        const cleaned = sanitizeStreamingChunk(safe);
+        if (cleaned) {
+          fullOutput += cleaned;
+          yield { type: 'append', content: cleaned };
+        }
+      }
+      buffer = '';
+      stoppedAtEvidence = true;
+      continue;
+    }
 
-  const client = getEmbeddingsClient();
-  const response = await client.embeddings.create({
-    model: EMBEDDING_MODEL,
-    input: texts,
-    dimensions: 1536,
-  });
+    if (buffer.length > lookbehind) {
+      const emit = buffer.slice(0, buffer.length - lookbehind);
+      buffer = buffer.slice(buffer.length - lookbehind);
+      if (emit) {
+        const cleaned = sanitizeStreamingChunk(emit);
+        if (cleaned) {
+          fullOutput += cleaned;
+          yield { type: 'append', content: cleaned };
+        }
+      }
+    }
+  }
 
-  const sorted = [...response.data].sort((a, b) => a.index - b.index);
-  return sorted.map((item) => item.embedding);
-}
+  if (!stoppedAtEvidence) {
+    const remainder = buffer.trimEnd();
+    if (remainder) {
+      const cleaned = sanitizeStreamingChunk(remainder);
+      if (cleaned) {
+        fullOutput += cleaned;
+        yield { type: 'append', content: cleaned };
+      }
+    }
+  }
 
-export async function generateEmbeddingsBatched(
-  texts: string[],
-  batchSize = 32
-): Promise<number[][]> {
-  if (!Array.isArray(texts) || texts.length === 0) return [];
-  const safeBatch = Math.max(1, Math.min(batchSize, 128));
-  const out: number[][] = [];
-
-  for (let i = 0; i < texts.length; i += safeBatch) {
-    const batch = texts.slice(i, i + safeBatch);
-    const embeddings = await generateEmbeddings(batch);
-    out.push(...embeddings);
+  if (evidenceMarkdown?.trim()) {
+    const cleanedEvidence = `\n\n${evidenceMarkdown.trim()}`;
+    fullOutput += cleanedEvidence;
+    yield { type: 'append', content: cleanedEvidence };
   }
 
-  return out;
+  const finalized = finalizeChatMarkdown(fullOutput);
+  if (finalized && finalized !== fullOutput) {
+    yield { type: 'replace', content: finalized };
+  }
 }
 
 export async function* streamChat(
@@ -100,10 +89,7 @@ export async function* streamChat(
   context: string,
   evidenceMarkdown?: string
 ): AsyncGenerator<{ type: 'append' | 'replace'; content: string }> {
-  const model = process.env.AI_CHAT_MODEL || 'grok-4-fast';
-  const supportsStreaming = !model.startsWith('gemini');
-
-  const messages: { role: 'system' | 'user'; content: string }[] = [
+  const messages: ChatMessage[] = [
     { role: 'system', content: systemPrompt },
     {
       role: 'user',
@@ -111,206 +97,42 @@ export async function* streamChat(
     },
   ];
 
-  if (supportsStreaming) {
-    try {
-      const stream = await aiBuilders.chat.completions.create({
-        model,
-        messages,
-        stream: true,
-      });
-
-      const lookbehind = 120;
-      let buffer = '';
-      let fullOutput = '';
-      let stoppedAtEvidence = false;
-
-      for await (const chunk of stream) {
-        const delta = chunk.choices?.[0]?.delta?.content || '';
-        if (!delta || stoppedAtEvidence) continue;
-
-        buffer += delta;
-
-        const evidenceIndex = findEvidenceStart(buffer);
-        if (evidenceIndex >= 0) {
-          const safe = buffer.slice(0, evidenceIndex);
-          if (safe) {
-            const cleaned = sanitizeStreamingChunk(safe);
-            if (cleaned) {
-              fullOutput += cleaned;
-              yield { type: 'append', content: cleaned };
-            }
-          }
-          buffer = '';
-          stoppedAtEvidence = true;
-          continue;
-        }
-
-        if (buffer.length > lookbehind) {
-          const emit = buffer.slice(0, buffer.length - lookbehind);
-          buffer = buffer.slice(buffer.length - lookbehind);
-          if (emit) {
-            const cleaned = sanitizeStreamingChunk(emit);
-            if (cleaned) {
-              fullOutput += cleaned;
-              yield { type: 'append', content: cleaned };
-            }
-          }
-        }
-      }
-
-      if (!stoppedAtEvidence) {
-        const remainder = buffer.trimEnd();
-        if (remainder) {
-          const cleaned = sanitizeStreamingChunk(remainder);
-          if (cleaned) {
-            fullOutput += cleaned;
-            yield { type: 'append', content: cleaned };
-          }
-        }
-      }
+  const targets = resolveChatChain('chat');
 
-      if (evidenceMarkdown?.trim()) {
-        const cleanedEvidence = `\n\n${evidenceMarkdown.trim()}`;
-        fullOutput += cleanedEvidence;
-        yield { type: 'append', content: cleanedEvidence };
+  // Stream from the chain in order while its models can stream. An outage moves on to the next
+  // provider; any other streaming failure retries the same model without streaming. Whatever a
+  // failed provider already sent is cleared before the next answer starts, never appended to.
+  let start = 0;
+  let yielded = false;
+  for (; start < targets.length && targets[start].capabilities.streaming; start++) {
+    const target = targets[start];
+    try {
+      if (yielded) {
+        yield { type: 'replace', content: '' };
+        yielded = false;
       }
-
-      const finalized = finalizeChatMarkdown(fullOutput);
-      if (finalized && finalized !== fullOutput) {
-        yield { type: 'replace', content: finalized };
+      for await (const chunk of streamAnswer(target.provider.stream(adaptRequest(target, { messages })), evidenceMarkdown)) {
+        yielded = true;
+        yield chunk;
       }
-
       return;
     } catch (error) {
-      // AI Builders Space can be intermittently unavailable. Fall back to direct OpenAI if configured.
-      if (isRetryableUpstreamError(error) && hasOpenAiKey()) {
-        try {
-          const fallbackModel = getFallbackChatModel();
-          const stream = await openai.chat.completions.create({
-            model: fallbackModel,
-            messages,
-            stream: true,
-            ...(fallbackModel.startsWith('gpt-5') ? { temperature: 1.0 } : {}),
-          });
-
-          const lookbehind = 120;
-          let buffer = '';
-          let fullOutput = '';
-          let stoppedAtEvidence = false;
-
-          for await (const chunk of stream) {
-            const delta = chunk.choices?.[0]?.delta?.content || '';
-            if (!delta || stoppedAtEvidence) continue;
-
-            buffer += delta;
-
-            const evidenceIndex = findEvidenceStart(buffer);
-            if (evidenceIndex >= 0) {
-              const safe = buffer.slice(0, evidenceIndex);
-              if (safe) {
-                const cleaned = sanitizeStreamingChunk(safe);
-                if (cleaned) {
-                  fullOutput += cleaned;
-                  yield { type: 'append', content: cleaned };
-                }
-              }
-              buffer = '';
-              stoppedAtEvidence = true;
-              continue;
-            }
-
-            if (buffer.length > lookbehind) {
-              const emit = buffer.slice(0, buffer.length - lookbehind);
-              buffer = buffer.slice(buffer.length - lookbehind);
-              if (emit) {
-                const cleaned = sanitizeStreamingChunk(emit);
-                if (cleaned) {
-                  fullOutput += cleaned;
-                  yield { type: 'append', content: cleaned };
-                }
-              }
-            }
-          }
-
-          if (!stoppedAtEvidence) {
-            const remainder = buffer.trimEnd();
-            if (remainder) {
-              const cleaned = sanitizeStreamingChunk(remainder);
-              if (cleaned) {
-                fullOutput += cleaned;
-                yield { type: 'append', content: cleaned };
-              }
-            }
-          }
-
-          if (evidenceMarkdown?.trim()) {
-            const cleanedEvidence = `\n\n${evidenceMarkdown.trim()}`;
-            fullOutput += cleanedEvidence;
-            yield { type: 'append', content: cleanedEvidence };
-          }
-
-          const finalized = finalizeChatMarkdown(fullOutput);
-          if (finalized && finalized !== fullOutput) {
-            yield { type: 'replace', content: finalized };
-          }
-
-          return;
-        } catch (fallbackError) {
-          console.warn('Streaming fallback (OpenAI) failed, falling back to non-streaming:', fallbackError);
-        }
-      }
-
-      console.warn('Streaming failed, falling back to non-streaming:', error);
-
-      let responseContent = '';
-      try {
-        const response = await aiBuilders.chat.completions.create({
-          model,
-          messages,
-        });
-        responseContent = response.choices[0]?.message?.content || '';
-      } catch (nonStreamingError) {
-        if (isRetryableUpstreamError(nonStreamingError) && hasOpenAiKey()) {
-          const fallbackModel = getFallbackChatModel();
-          const response = await openai.chat.completions.create({
-            model: fallbackModel,
-            messages,
-            ...(fallbackModel.startsWith('gpt-5') ? { temperature: 1.0 } : {}),
-          });
-          responseContent = response.choices[0]?.message?.content || '';
-        } else {
-          throw nonStreamingError;
-        }
+      if (!shouldFallBack(error) || start + 1 >= targets.length) {
+        console.warn('Streaming failed, falling back to non-streaming:', error);
+        break;
       }
-
-      const finalized = finalizeChatMarkdown(responseContent, evidenceMarkdown);
-      yield { type: 'replace', content: finalized };
-      return;
+      console.warn(`Streaming from ${target.provider.name}:${target.model} failed, trying next provider:`, error);
     }
   }
 
-  let content = '';
-  try {
-    const response = await aiBuilders.chat.completions.create({
-      model: model || 'gemini-2.5-pro',
-      messages,
-    });
-    content = response.choices[0]?.message?.content || '';
-  } catch (error) {
-    if (isRetryableUpstreamError(error) && hasOpenAiKey()) {
-      const fallbackModel = getFallbackChatModel();
-      const response = await openai.chat.completions.create({
-        model: fallbackModel,
-        messages,
-        ...(fallbackModel.startsWith('gpt-5') ? { temperature: 1.0 } : {}),
-      });
-      content = response.choices[0]?.message?.content || '';
-    } else {
-      throw error;
-    }
-  }
+  const response = await completeChat(targets.slice(start), { messages });
+  const finalized = finalizeChatMarkdown(response.content || '', evidenceMarkdown);
 
-  const finalized = finalizeChatMarkdown(content, evidenceMarkdown);
+  // Part of a failed stream may already be on screen; replace it.
+  if (yielded) {
+    yield { type: 'replace', content: finalized };
+    return;
+  }
 
   const chunkSize = 80;
   for (let i = 0; i < finalized.length; i += chunkSize) {
@@ -459,38 +281,32 @@ export function cleanAssistantMarkdown(raw: string): string {
 export async function generateText(
   systemPrompt: string,
   userMessage: string,
-  options: { model?: string; temperature?: number } = {}
+  options: { model?: string; temperature?: number; json?: boolean } = {}
 ): Promise<string> {
-  const model = options.model || process.env.AI_TEXT_MODEL || 'gemini-2.5-pro';
-  const temperature =
-    model.startsWith('gpt-5') ? 1.0 : options.temperature;
-
-  const messages: { role: 'system' | 'user'; content: string }[] = [
+  const messages: ChatMessage[] = [
     { role: 'system', content: systemPrompt },
     { role: 'user', content: userMessage },
   ];
 
-  try {
-    const response = await aiBuilders.chat.completions.create({
-      model,
-      messages,
-      ...(typeof temperature === 'number' ? { temperature } : {}),
-    });
-    return response.choices[0]?.message?.content || '';
-  } catch (error) {
-    if (!isRetryableUpstreamError(error) || !hasOpenAiKey()) throw error;
-
-    const fallbackModel = getFallbackTextModel(options.temperature);
-    const fallbackTemperature =
-      fallbackModel.startsWith('gpt-5') ? 1.0 : options.temperature;
-
-    const response = await openai.chat.completions.create({
-      model: fallbackModel,
-      messages,
-      ...(typeof fallbackTemperature === 'number' ? { temperature: fallbackTemperature } : {}),
-    });
-    return response.choices[0]?.message?.content || '';
-  }
+  const response = await completeChat(resolveChatChain('text', options), {
+    messages,
+    temperature: options.temperature,
+    json: options.json,
+  });
+  return response.content || '';
+}
+
+export type ToolChatMessage = ChatMessage;
+export type ToolDefinition = ChatTool;
+export type ToolCompletion = ChatCompletion;
+
+// One non-streaming completion that may request function tool calls (OpenAI tool-calling format).
+export async function completeWithTools(
+  messages: ToolChatMessage[],
+  tools: ToolDefinition[],
+  options: { model?: string } = {}
+): Promise<ToolCompletion> {
+  return completeChat(resolveChatChain('agent', options), { messages, tools });
 }
 
 // JD parsing prompt
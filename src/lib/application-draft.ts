@@ -0,0 +1,359 @@
+import { generateText } from '@/lib/ai';
+import { buildDocx, type DocxBlock, type DocxRun } from '@/lib/docx';
+import { runJDMatch } from '@/lib/jd-match';
+import { getPublicSourceUrl } from '@/lib/chat-sources';
+import type { SiteSettings } from '@/lib/site-settings-types';
+import type { ApplicationDraft, ChunkReference, DraftCitation, DraftClaim, JDMatchResult } from '@/types';
+
+const MAX_CITATIONS = 10;
+const MAX_CITATION_SNIPPET_CHARS = 600;
+const MAX_RESUME_BULLETS = 8;
+const MAX_CLAIM_CHARS = 400;
+const DRAFT_MODEL = process.env.AI_DRAFT_MODEL || process.env.AI_JD_REPORT_MODEL || 'grok-4-fast';
+const DRAFT_TIMEOUT_MS = Number(process.env.AI_DRAFT_TIMEOUT_MS || '20000');
+
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let id: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<T>((_, reject) => {
+    id = setTimeout(() => reject(new Error(`Timeout after ${ms}ms: ${label}`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(id));
+}
+
+function clampText(value: string, maxChars: number): string {
+  const text = String(value || '').replace(/\s+/g, ' ').trim();
+  return text.length <= maxChars ? text : `${text.slice(0, maxChars - 1).trimEnd()}…`;
+}
+
+function firstSentence(text: string): string {
+  const clean = String(text || '').replace(/\s+/g, ' ').trim();
+  const match = clean.match(/^(.{20,}?[.!?])(\s|$)/);
+  return clampText(match ? match[1] : clean, 220);
+}
+
+// One citation per distinct passage, in retrieval order, so [1] is always the strongest evidence.
+function buildCitations(chunks: ChunkReference[]): DraftCitation[] {
+  const seen = new Set<string>();
+  const citations: DraftCitation[] = [];
+
+  for (const chunk of chunks) {
+    if (citations.length >= MAX_CITATIONS) break;
+    const key = chunk.chunk_id || `${chunk.source_type}:${chunk.source_title}:${chunk.content_preview.slice(0, 80)}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    citations.push({
+      id: citations.length + 1,
+      source_type: chunk.source_type,
+      source_title: chunk.source_title,
+      source_slug: chunk.source_slug ?? null,
+      url: getPublicSourceUrl(chunk),
+      snippet: clampText(chunk.content_preview, MAX_CITATION_SNIPPET_CHARS),
+    });
+  }
+
+  return citations;
+}
+
+function normalizeClaim(raw: unknown, citationCount: number): DraftClaim | null {
+  const value = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : null;
+  const text = typeof value?.text === 'string' ? clampText(value.text, MAX_CLAIM_CHARS) : '';
+  if (!text) return null;
+
+  const ids = Array.isArray(value?.citations) ? value.citations : [];
+  const citations = Array.from(
+    new Set(ids.map(Number).filter((id) => Number.isInteger(id) && id >= 1 && id <= citationCount))
+  ).sort((a, b) => a - b);
+
+  return { text, citations };
+}
+
+// Enforces grounding on whatever the model (or a client) hands back: citation ids must exist,
+// resume bullets must cite something, and only the opening and closing paragraphs of the
+// letter may carry uncited framing sentences.
+export function normalizeDraftContent(
+  raw: { cover_letter?: unknown; resume_bullets?: unknown },
+  citationCount: number
+): Pick<ApplicationDraft, 'cover_letter' | 'resume_bullets'> {
+  const rawParagraphs = Array.isArray(raw.cover_letter) ? raw.cover_letter : [];
+  const paragraphs = rawParagraphs
+    .map((p) => (Array.isArray(p) ? p : [p]).map((c) => normalizeClaim(c, citationCount)).filter(Boolean) as DraftClaim[])
+    .filter((p) => p.length > 0);
+
+  const cover_letter = paragraphs
+    .map((claims, idx) =>
+      idx === 0 || idx === paragraphs.length - 1 ? claims : claims.filter((c) => c.citations.length > 0)
+    )
+    .filter((p) => p.length > 0);
+
+  const resume_bullets = (Array.isArray(raw.resume_bullets) ? raw.resume_bullets : [])
+    .map((b) => normalizeClaim(b, citationCount))
+    .filter((b): b is DraftClaim => Boolean(b && b.citations.length > 0))
+    .slice(0, MAX_RESUME_BULLETS);
+
+  return { cover_letter, resume_bullets };
+}
+
+function parseLlmDraft(raw: string, citationCount: number): Pick<ApplicationDraft, 'cover_letter' | 'resume_bullets'> | null {
+  const text = String(raw || '').trim();
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1)) as { cover_letter?: unknown; resume_bullets?: unknown };
+    const draft = normalizeDraftContent(parsed, citationCount);
+    return draft.cover_letter.length > 0 && draft.resume_bullets.length > 0 ? draft : null;
+  } catch {
+    return null;
+  }
+}
+
+function citationFor(citations: DraftCitation[], source: { source_type: string; source_title: string }): number | null {
+  const hit = citations.find((c) => c.source_type === source.source_type && c.source_title === source.source_title);
+  return hit ? hit.id : null;
+}
+
+// Deterministic draft used when the LLM is unavailable or returns something unusable.
+// Bullets quote retrieved passages directly, so every line is grounded by construction.
+function buildFallbackDraft(
+  match: JDMatchResult,
+  citations: DraftCitation[],
+  options: { candidateName: string; jobTitle: string | null }
+): Pick<ApplicationDraft, 'cover_letter' | 'resume_bullets'> {
+  const bullets: DraftClaim[] = [];
+  const covered = new Set<number>();
+
+  for (const req of match.requirements || []) {
+    if (!req.satisfied || !req.evidence) continue;
+    const id = citationFor(citations, req.evidence);
+    if (!id || covered.has(id)) continue;
+    covered.add(id);
+    bullets.push({ text: `${req.requirement}: ${firstSentence(req.evidence.snippet)}`, citations: [id] });
+  }
+  for (const c of citations) {
+    if (bullets.length >= MAX_RESUME_BULLETS) break;
+    if (covered.has(c.id)) continue;
+    covered.add(c.id);
+    bullets.push({ text: `${c.source_title}: ${firstSentence(c.snippet)}`, citations: [c.id] });
+  }
+
+  const role = options.jobTitle ? `the ${options.jobTitle} role` : 'this role';
+  const body: DraftClaim[] = [];
+
+  const evidenced = (match.requirements || []).filter((r) => r.satisfied && r.evidence).slice(0, 3);
+  for (const req of evidenced) {
+    const id = citationFor(citations, req.evidence!);
+    if (id) body.push({ text: `My work on ${req.evidence!.source_title} demonstrates ${req.requirement}.`, citations: [id] });
+  }
+
+  const projects: DraftClaim[] = [];
+  for (const project of match.relevant_projects.slice(0, 2)) {
+    const id = citationFor(citations, { source_type: 'project', source_title: project.title });
+    if (!id) continue;
+    const detail = firstSentence(project.subtitle || project.description || '');
+    projects.push({ text: detail ? `${project.title}: ${detail}` : `I built ${project.title}.`, citations: [id] });
+  }
+
+  return {
+    cover_letter: [
+      [{ text: `I am writing to apply for ${role}.`, citations: [] }],
+      ...(body.length > 0 ? [body] : []),
+      ...(projects.length > 0 ? [projects] : []),
+      [
+        { text: 'I would welcome the chance to discuss how this experience fits your team.', citations: [] },
+        { text: `Sincerely, ${options.candidateName}`, citations: [] },
+      ],
+    ],
+    resume_bullets: bullets.slice(0, MAX_RESUME_BULLETS),
+  };
+}
+
+function buildDraftPrompt(params: {
+  candidateName: string;
+  jobTitle: string | null;
+  jdText: string;
+  match: JDMatchResult;
+  citations: DraftCitation[];
+}): string {
+  const { match } = params;
+  const sources = params.citations
+    .map((c) => `[${c.id}] ${c.source_type}: ${c.source_title}\n${c.snippet}`)
+    .join('\n\n');
+
+  return [
+    `Candidate: ${params.candidateName}`,
+    params.jobTitle ? `Role: ${params.jobTitle}` : '',
+    '',
+    'Write a tailored cover letter and 4 to 8 resume bullets for this job.',
+    '',
+    'Hard requirements:',
+    '1) English only. First person for the cover letter; resume bullets start with a strong past-tense verb.',
+    '2) Every factual statement about the candidate MUST cite one or more SOURCES by number. Use only facts from SOURCES.',
+    '3) Never invent employers, dates, metrics, or technologies. Copy metrics exactly as written in SOURCES.',
+    '4) Do not claim the candidate has the gap skills listed below.',
+    '5) Only the first and last paragraphs of the cover letter may contain uncited sentences, and those must not state facts about the candidate.',
+    '6) Order resume bullets by relevance to the job.',
+    '',
+    'Return ONLY valid JSON in this shape:',
+    '{"cover_letter":[[{"text":"sentence","citations":[1]}]],"resume_bullets":[{"text":"bullet","citations":[2,3]}]}',
+    'cover_letter is a list of paragraphs; each paragraph is a list of sentences.',
+    '',
+    `Matched skills: ${match.matched_skills.slice(0, 12).map((s) => s.skill.name).join(', ') || 'n/a'}`,
+    `Relevant projects: ${match.relevant_projects.slice(0, 4).map((p) => p.title).join(', ') || 'n/a'}`,
+    `Suggested stories: ${(match.suggested_stories || []).map((s) => s.title).join(', ') || 'n/a'}`,
+    `Gaps (do not claim): ${match.gaps.slice(0, 10).join(', ') || 'None'}`,
+    '',
+    'Job description (may be truncated):',
+    clampText(params.jdText, 4000),
+    '',
+    'SOURCES:',
+    sources,
+  ]
+    .filter((line, idx, all) => line !== '' || all[idx - 1] !== '')
+    .join('\n');
+}
+
+const DRAFT_SYSTEM_PROMPT =
+  'You write grounded job application material.\n' +
+  'Every claim about the candidate must be backed by a numbered source.\n' +
+  'Return ONLY the JSON object. Do not include analysis or commentary.';
+
+// Re-runs the match server-side (without the LLM report) so drafts are grounded in passages
+// retrieved here, never in evidence supplied by the client.
+export async function generateApplicationDraft(
+  jdText: string,
+  options: { ownerId: string; siteSettings: SiteSettings; jobTitle?: string | null }
+): Promise<ApplicationDraft | null> {
+  const { ownerId, siteSettings } = options;
+  const jobTitle = options.jobTitle?.trim() || null;
+  const candidateName = siteSettings.profile.displayName;
+
+  const match: JDMatchResult = await runJDMatch(jdText, { ownerId, siteSettings, report: false });
+  const citations = buildCitations(match.sources || []);
+  if (citations.length === 0) return null;
+
+  try {
+    const raw = await withTimeout(
+      generateText(
+        DRAFT_SYSTEM_PROMPT,
+        buildDraftPrompt({ candidateName, jobTitle, jdText, match, citations }),
+        { model: DRAFT_MODEL, temperature: 0.3, json: true }
+      ),
+      DRAFT_TIMEOUT_MS,
+      'application_draft'
+    );
+    const parsed = parseLlmDraft(raw, citations.length);
+    if (parsed) return { job_title: jobTitle, ...parsed, citations, generated_by: 'llm' };
+    console.warn('Application draft: unusable LLM output, using fallback');
+  } catch (error) {
+    console.warn('Application draft generation failed:', error);
+  }
+
+  return {
+    job_title: jobTitle,
+    ...buildFallbackDraft(match, citations, { candidateName, jobTitle }),
+    citations,
+    generated_by: 'fallback',
+  };
+}
+
+// Exports format a draft the client already holds; re-validate it rather than trusting its shape.
+export function parseDraftForExport(raw: unknown): ApplicationDraft | null {
+  const value = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : null;
+  if (!value || !Array.isArray(value.citations)) return null;
+
+  const citations: DraftCitation[] = value.citations.slice(0, MAX_CITATIONS).flatMap((c, idx) => {
+    const row = c && typeof c === 'object' ? (c as Record<string, unknown>) : null;
+    if (!row || typeof row.source_title !== 'string') return [];
+    const url = typeof row.url === 'string' && /^https?:\/\//i.test(row.url) ? row.url : null;
+    return [
+      {
+        id: idx + 1,
+        source_type: typeof row.source_type === 'string' ? row.source_type : 'unknown',
+        source_title: clampText(row.source_title, 200),
+        source_slug: typeof row.source_slug === 'string' ? row.source_slug : null,
+        url,
+        snippet: clampText(typeof row.snippet === 'string' ? row.snippet : '', MAX_CITATION_SNIPPET_CHARS),
+      },
+    ];
+  });
+  if (citations.length !== Math.min(value.citations.length, MAX_CITATIONS)) return null;
+
+  const content = normalizeDraftContent(value, citations.length);
+  if (content.cover_letter.length === 0 && content.resume_bullets.length === 0) return null;
+
+  return {
+    job_title: typeof value.job_title === 'string' ? clampText(value.job_title, 200) || null : null,
+    ...content,
+    citations,
+    generated_by: value.generated_by === 'llm' ? 'llm' : 'fallback',
+  };
+}
+
+function citationMarks(claim: DraftClaim): string {
+  return claim.citations.map((id) => `[${id}]`).join('');
+}
+
+export function draftToMarkdown(draft: ApplicationDraft, candidateName: string): string {
+  const lines: string[] = [];
+  lines.push(`# ${draft.job_title ? `Application: ${draft.job_title}` : 'Application draft'}`, '');
+  lines.push(`_${candidateName}_`, '');
+
+  lines.push('## Cover letter', '');
+  for (const paragraph of draft.cover_letter) {
+    lines.push(paragraph.map((c) => `${c.text}${citationMarks(c)}`).join(' '), '');
+  }
+
+  lines.push('## Resume bullets', '');
+  for (const bullet of draft.resume_bullets) {
+    lines.push(`* ${bullet.text} ${citationMarks(bullet)}`.trimEnd());
+  }
+  lines.push('');
+
+  lines.push('## Sources', '');
+  for (const c of draft.citations) {
+    const title = c.url ? `[${c.source_title}](${c.url})` : c.source_title;
+    lines.push(`${c.id}. ${title} (${c.source_type}): "${c.snippet}"`);
+  }
+
+  return `${lines.join('\n').trim()}\n`;
+}
+
+function claimRuns(claim: DraftClaim): DocxRun[] {
+  const marks = citationMarks(claim);
+  return marks ? [{ text: claim.text }, { text: marks, superscript: true }] : [{ text: claim.text }];
+}
+
+export function draftToDocx(draft: ApplicationDraft, candidateName: string): Buffer {
+  const blocks: DocxBlock[] = [
+    { type: 'heading', level: 1, runs: [{ text: draft.job_title ? `Application: ${draft.job_title}` : 'Application draft' }] },
+    { type: 'paragraph', runs: [{ text: candidateName, italic: true }] },
+    { type: 'heading', level: 2, runs: [{ text: 'Cover letter' }] },
+  ];
+
+  for (const paragraph of draft.cover_letter) {
+    const runs = paragraph.flatMap((claim, idx) => [...(idx > 0 ? [{ text: ' ' }] : []), ...claimRuns(claim)]);
+    blocks.push({ type: 'paragraph', runs });
+  }
+
+  blocks.push({ type: 'heading', level: 2, runs: [{ text: 'Resume bullets' }] });
+  for (const bullet of draft.resume_bullets) {
+    blocks.push({ type: 'bullet', runs: claimRuns(bullet) });
+  }
+
+  blocks.push({ type: 'heading', level: 2, runs: [{ text: 'Sources' }] });
+  for (const c of draft.citations) {
+    blocks.push({
+      type: 'paragraph',
+      runs: [
+        { text: `[${c.id}] `, bold: true },
+        { text: c.source_title, bold: true },
+        { text: ` (${c.source_type})${c.url ? ` ${c.url}` : ''}` },
+        { text: ` "${c.snippet}"`, italic: true },
+      ],
+    });
+  }
+
+  return buildDocx(blocks);
+}
@@ -6,8 +6,8 @@ import {
   createSessionCookieValue,
   validateSessionCookieValue,
 } from '@/lib/admin-session';
-
-const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || '';
+import { getOwnerId } from '@/lib/owner';
+import { DEFAULT_OWNER_ID, getTenantById } from '@/lib/tenants';
 
 // Simple session management (in production, use proper JWT or session store)
 export function generateSessionToken(): string {
@@ -22,15 +22,17 @@ export function generateCSRFToken(): string {
   return Array.from(array, (byte) => byte.toString(16).padStart(2, '0')).join('');
 }
 
-export async function verifyPassword(password: string): Promise<boolean> {
-  const expected =
-    ADMIN_PASSWORD || (process.env.NODE_ENV === 'production' ? '' : 'admin123');
+// Each owner has its own admin password (see CHENGAI_TENANTS); the default owner uses ADMIN_PASSWORD.
+export async function verifyPassword(password: string, ownerId: string = DEFAULT_OWNER_ID): Promise<boolean> {
+  const expected = getTenantById(ownerId)?.adminPassword || '';
   if (!expected) return false;
   return password === expected;
 }
 
-export async function createSession(): Promise<{ sessionToken: string; csrfToken: string }> {
-  const sessionToken = await createSessionCookieValue();
+export async function createSession(
+  ownerId: string = DEFAULT_OWNER_ID
+): Promise<{ sessionToken: string; csrfToken: string }> {
+  const sessionToken = await createSessionCookieValue(ownerId);
   const csrfToken = generateCSRFToken();
   
   // In production, store session in database with expiry
@@ -40,7 +42,7 @@ export async function createSession(): Promise<{ sessionToken: string; csrfToken
 export async function isAuthenticated(): Promise<boolean> {
   const cookieStore = await cookies();
   const session = cookieStore.get(SESSION_COOKIE);
-  return await validateSessionCookieValue(session?.value);
+  return await validateSessionCookieValue(session?.value, await getOwnerId());
 }
 
 export async function getCSRFToken(): Promise<string | null> {
@@ -0,0 +1,401 @@
+import 'server-only';
+
+import { completeWithTools, type ToolChatMessage, type ToolDefinition } from '@/lib/ai';
+import { retrieveContext } from '@/lib/rag';
+import { getPublishedExperiences, getPublishedProjectBySlug, getPublishedProjects, getSkills } from '@/lib/content';
+import { JD_MAX_CHARS, runJDMatch } from '@/lib/jd-match';
+import type { SiteSettings } from '@/lib/site-settings-types';
+import type { ChunkReference, Experience, Project } from '@/types';
+
+const MAX_AGENT_STEPS = 4;
+const MAX_TOOL_CALLS = 8;
+const MAX_TOOL_OUTPUT_CHARS = 6000;
+const MAX_PREVIEW_CHARS = 1800;
+const SEARCHABLE_SOURCE_TYPES = ['project', 'experience', 'article', 'story', 'skill', 'resume'];
+
+export type AgentEvent =
+  | { type: 'tool_call'; id: string; name: string; arguments: Record<string, unknown> }
+  | { type: 'tool_result'; id: string; name: string; ok: boolean; summary: string };
+
+export type AgentResearch = {
+  sources: ChunkReference[];
+  // Tool output that is useful to the final answer but is not citable evidence (e.g. a JD match score).
+  notes: string[];
+};
+
+type ToolContext = {
+  ownerId: string;
+  siteSettings: SiteSettings;
+  // Takes a token from the visitor's JD match bucket; false refuses the match.
+  chargeJDMatch?: () => Promise<boolean>;
+};
+
+type ToolOutput = {
+  summary: string;
+  // What the planner model sees as the tool message.
+  content: string;
+  sources?: ChunkReference[];
+  note?: string;
+};
+
+const TOOL_DEFINITIONS: ToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'search_knowledge',
+      description:
+        'Hybrid search over the portfolio knowledge base (projects, experience, articles, stories, skills, resume). Use specific queries; call several times for multi-part questions.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'What to look for.' },
+          source_types: {
+            type: 'array',
+            items: { type: 'string', enum: SEARCHABLE_SOURCE_TYPES },
+            description: 'Optional filter on source types.',
+          },
+        },
+        required: ['query'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_projects',
+      description: 'List all published projects with their slugs and one-line subtitles.',
+      parameters: { type: 'object', properties: {} },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_project',
+      description: 'Full details of one published project: description, details, tech stack, and links.',
+      parameters: {
+        type: 'object',
+        properties: { slug: { type: 'string', description: 'Project slug from list_projects or search results.' } },
+        required: ['slug'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_experiences',
+      description: 'All published work experience entries with roles, dates, highlights, and tech stack.',
+      parameters: { type: 'object', properties: {} },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_skill_evidence',
+      description: 'Where a skill is demonstrated: the skill entry (proficiency, years) plus supporting passages.',
+      parameters: {
+        type: 'object',
+        properties: { name: { type: 'string', description: 'Skill name, e.g. "PostgreSQL".' } },
+        required: ['name'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'run_jd_match',
+      description: 'Score a pasted job description against the portfolio: match score, matched skills, and gaps.',
+      parameters: {
+        type: 'object',
+        properties: { text: { type: 'string', description: 'The job description text.' } },
+        required: ['text'],
+      },
+    },
+  },
+];
+
+function clampText(value: string, maxChars: number): string {
+  const v = String(value || '').trim();
+  if (v.length <= maxChars) return v;
+  return `${v.slice(0, maxChars)}…`;
+}
+
+function formatSourcesForPlanner(sources: ChunkReference[]): string {
+  if (sources.length === 0) return 'No matching passages.';
+  return sources
+    .map((s, idx) => {
+      const slug = s.source_slug ? ` (slug: ${s.source_slug})` : '';
+      return `[${idx + 1}] ${s.source_type}: ${s.source_title}${slug}\n${clampText(s.content_preview, 700)}`;
+    })
+    .join('\n\n');
+}
+
+function projectToSource(project: Project): ChunkReference {
+  const links = [
+    project.repo_url ? `Repo: ${project.repo_url}` : '',
+    project.demo_url ? `Demo: ${project.demo_url}` : '',
+    project.article_url ? `Write-up: ${project.article_url}` : '',
+  ].filter(Boolean);
+
+  const content = [
+    project.subtitle || '',
+    project.description || '',
+    project.details || '',
+    project.tech_stack && project.tech_stack.length > 0 ? `Tech stack: ${project.tech_stack.join(', ')}` : '',
+    links.join('\n'),
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    chunk_id: `project:${project.id}`,
+    source_type: 'project',
+    source_title: project.title,
+    source_id: project.id,
+    source_slug: project.slug,
+    relevance_score: 1,
+    content_preview: clampText(content, MAX_PREVIEW_CHARS),
+  };
+}
+
+function experienceToSource(exp: Experience): ChunkReference {
+  const dates = [exp.start_date, exp.end_date || 'Present'].filter(Boolean).join(' – ');
+  const content = [
+    `${exp.role} at ${exp.company}${exp.location ? ` (${exp.location})` : ''}${dates ? `, ${dates}` : ''}`,
+    exp.summary || '',
+    (exp.highlights || []).map((h) => `* ${h}`).join('\n'),
+    exp.tech_stack && exp.tech_stack.length > 0 ? `Tech stack: ${exp.tech_stack.join(', ')}` : '',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    chunk_id: `experience:${exp.id}`,
+    source_type: 'experience',
+    source_title: `${exp.role} · ${exp.company}`,
+    source_id: exp.id,
+    source_slug: null,
+    relevance_score: 1,
+    content_preview: clampText(content, MAX_PREVIEW_CHARS),
+  };
+}
+
+function stringArg(args: Record<string, unknown>, key: string): string {
+  const value = args[key];
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+async function executeTool(name: string, args: Record<string, unknown>, ctx: ToolContext): Promise<ToolOutput> {
+  switch (name) {
+    case 'search_knowledge': {
+      const query = stringArg(args, 'query');
+      if (!query) throw new Error('query is required');
+      const types = Array.isArray(args.source_types)
+        ? args.source_types.filter((t): t is string => typeof t === 'string' && SEARCHABLE_SOURCE_TYPES.includes(t))
+        : [];
+      const { chunks } = await retrieveContext(query, 6, types.length > 0 ? types : undefined, {
+        rerank: true,
+        ownerId: ctx.ownerId,
+      });
+      return {
+        summary: `Found ${chunks.length} passage${chunks.length === 1 ? '' : 's'}`,
+        content: formatSourcesForPlanner(chunks),
+        sources: chunks,
+      };
+    }
+
+    case 'list_projects': {
+      const projects = await getPublishedProjects(ctx.ownerId);
+      return {
+        summary: `${projects.length} project${projects.length === 1 ? '' : 's'}`,
+        content:
+          projects.map((p) => `- ${p.title} (slug: ${p.slug})${p.subtitle ? `: ${p.subtitle}` : ''}`).join('\n') ||
+          'No published projects.',
+      };
+    }
+
+    case 'get_project': {
+      const slug = stringArg(args, 'slug');
+      if (!slug) throw new Error('slug is required');
+      const project = await getPublishedProjectBySlug(slug, ctx.ownerId);
+      if (!project) {
+        const available = await getPublishedProjects(ctx.ownerId);
+        return {
+          summary: `No project "${slug}"`,
+          content: `No published project with slug "${slug}". Available slugs: ${
+            available.map((p) => p.slug).join(', ') || 'none'
+          }`,
+        };
+      }
+      const source = projectToSource(project);
+      return {
+        summary: `Loaded “${project.title}”`,
+        content: formatSourcesForPlanner([source]),
+        sources: [source],
+      };
+    }
+
+    case 'list_experiences': {
+      const experiences = await getPublishedExperiences(ctx.ownerId);
+      const sources = experiences.map(experienceToSource);
+      return {
+        summary: `${sources.length} experience entr${sources.length === 1 ? 'y' : 'ies'}`,
+        content: formatSourcesForPlanner(sources),
+        sources,
+      };
+    }
+
+    case 'get_skill_evidence': {
+      const skillName = stringArg(args, 'name');
+      if (!skillName) throw new Error('name is required');
+      const needle = skillName.toLowerCase();
+
+      const [skills, retrieval] = await Promise.all([
+        getSkills(ctx.ownerId),
+        retrieveContext(skillName, 8, ['project', 'experience', 'story', 'resume', 'article'], {
+          rerank: true,
+          ownerId: ctx.ownerId,
+        }),
+      ]);
+
+      const skill = skills.find((s) => s.name.toLowerCase() === needle) || null;
+      const mentioning = retrieval.chunks.filter((c) => c.content_preview.toLowerCase().includes(needle));
+      const sources = (mentioning.length > 0 ? mentioning : retrieval.chunks).slice(0, 6);
+
+      const skillLine = skill
+        ? `Skill entry: ${skill.name} (${[
+            skill.category,
+            typeof skill.proficiency === 'number' ? `proficiency ${skill.proficiency}/5` : null,
+            skill.years_of_experience ? `${skill.years_of_experience} years` : null,
+            skill.is_primary ? 'primary' : null,
+          ]
+            .filter(Boolean)
+            .join(', ')})`
+        : `No skill entry named "${skillName}".`;
+
+      return {
+        summary: `${mentioning.length} passage${mentioning.length === 1 ? '' : 's'} mention ${skillName}`,
+        content: `${skillLine}\n\n${formatSourcesForPlanner(sources)}`,
+        sources,
+        note: skill ? skillLine : undefined,
+      };
+    }
+
+    case 'run_jd_match': {
+      const text = stringArg(args, 'text');
+      if (text.length < 50) throw new Error('job description is too short');
+      // A match costs the same here as on /api/jd-match, so it draws from the same bucket.
+      if (ctx.chargeJDMatch && !(await ctx.chargeJDMatch())) {
+        throw new Error('JD match rate limit reached; answer from the other evidence');
+      }
+      const result = await runJDMatch(text.slice(0, JD_MAX_CHARS), {
+        ownerId: ctx.ownerId,
+        siteSettings: ctx.siteSettings,
+        report: false,
+      });
+
+      const matched = result.matched_skills.map((m) => m.skill.name).slice(0, 12);
+      const note = [
+        `JD match score: ${result.match_score}%`,
+        `Matched skills: ${matched.join(', ') || 'none'}`,
+        `Gaps: ${result.gaps.slice(0, 10).join(', ') || 'none'}`,
+        `Most relevant projects: ${result.relevant_projects.slice(0, 3).map((p) => p.title).join(', ') || 'none'}`,
+      ].join('\n');
+
+      return {
+        summary: `Match score ${result.match_score}%`,
+        content: note,
+        sources: result.sources.slice(0, 6),
+        note,
+      };
+    }
+
+    default:
+      throw new Error(`Unknown tool: ${name}`);
+  }
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function buildPlannerPrompt(siteSettings: SiteSettings): string {
+  return [
+    `You are the research planner for ${siteSettings.profile.displayName}'s portfolio assistant.`,
+    'Use the tools to gather the evidence needed to answer the visitor. You do not write the final answer.',
+    'Break multi-part questions (comparisons, "which of your projects...", "walk me through...") into several targeted tool calls.',
+    'Prefer get_project for anything project-specific once you know the slug; use list_projects when you need to find slugs.',
+    'Only call run_jd_match when the visitor pasted a job description.',
+    'When you have enough evidence, or nothing more can be found, reply with the single word DONE.',
+  ].join('\n');
+}
+
+// Lets the model call portfolio tools for a few rounds and collects what they returned.
+// The caller streams the final answer from the collected sources with the regular chat prompt.
+// The request pays for the first round; every further round asks chargeRound first (the rate
+// limiter), and research stops with what it has when that returns false. Each run_jd_match call
+// is charged through chargeJDMatch.
+export async function runAgentResearch(args: {
+  ownerId: string;
+  siteSettings: SiteSettings;
+  question: string;
+  onEvent: (event: AgentEvent) => void;
+  chargeRound?: () => Promise<boolean>;
+  chargeJDMatch?: () => Promise<boolean>;
+}): Promise<AgentResearch> {
+  const ctx: ToolContext = {
+    ownerId: args.ownerId,
+    siteSettings: args.siteSettings,
+    chargeJDMatch: args.chargeJDMatch,
+  };
+  const sources = new Map<string, ChunkReference>();
+  const notes: string[] = [];
+  let toolCalls = 0;
+
+  const messages: ToolChatMessage[] = [
+    { role: 'system', content: buildPlannerPrompt(args.siteSettings) },
+    { role: 'user', content: args.question },
+  ];
+
+  for (let step = 0; step < MAX_AGENT_STEPS && toolCalls < MAX_TOOL_CALLS; step++) {
+    if (step > 0 && args.chargeRound && !(await args.chargeRound())) break;
+    const reply = await completeWithTools(messages, TOOL_DEFINITIONS);
+    const calls = (reply.tool_calls || [])
+      .filter((call) => call.type === 'function')
+      .slice(0, MAX_TOOL_CALLS - toolCalls);
+    if (calls.length === 0) break;
+
+    messages.push({ role: 'assistant', content: reply.content ?? null, tool_calls: calls });
+
+    for (const call of calls) {
+      toolCalls++;
+      const name = call.function.name;
+      const callArgs = parseArguments(call.function.arguments);
+      args.onEvent({ type: 'tool_call', id: call.id, name, arguments: callArgs });
+
+      let content: string;
+      try {
+        const output = await executeTool(name, callArgs, ctx);
+        for (const source of output.sources || []) {
+          if (!sources.has(source.chunk_id)) sources.set(source.chunk_id, source);
+        }
+        if (output.note) notes.push(output.note);
+        content = output.content;
+        args.onEvent({ type: 'tool_result', id: call.id, name, ok: true, summary: output.summary });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Tool failed';
+        console.warn(`Agent tool ${name} failed:`, error);
+        content = `Error: ${message}`;
+        args.onEvent({ type: 'tool_result', id: call.id, name, ok: false, summary: message });
+      }
+
+      messages.push({ role: 'tool', tool_call_id: call.id, content: clampText(content, MAX_TOOL_OUTPUT_CHARS) });
+    }
+  }
+
+  return { sources: Array.from(sources.values()), notes };
+}
@@ -0,0 +1,44 @@
+import type { ChunkReference } from '@/types';
+
+export function dedupeSources(sources: ChunkReference[]): ChunkReference[] {
+  const out: ChunkReference[] = [];
+  const seen = new Set<string>();
+
+  for (const s of sources || []) {
+    const slugOrTitle = s.source_slug || s.source_title || s.source_id || '';
+    const key = `${s.source_type || 'unknown'}:${slugOrTitle}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push(s);
+  }
+
+  return out;
+}
+
+export function getSourceHref(source: Pick<ChunkReference, 'source_type' | 'source_slug'>): string | null {
+  const type = source.source_type;
+  if (type === 'article' && source.source_slug) return `/articles/${source.source_slug}`;
+  if (type === 'project' && source.source_slug) return `/projects/${source.source_slug}`;
+  if (type === 'experience') return '/experience';
+  if (type === 'resume') return '/api/resume';
+  if (type === 'story') return '/stories';
+  if (type === 'skill') return '/skills';
+  return null;
+}
+
+const PUBLIC_SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || 'https://chengai-tianle.ai-builders.space').replace(
+  /\/$/,
+  ''
+);
+
+export function toPublicUrl(path: string): string {
+  if (!path) return path;
+  if (/^https?:\/\//i.test(path)) return path;
+  return `${PUBLIC_SITE_URL}${path.startsWith('/') ? '' : '/'}${path}`;
+}
+
+// Absolute link for text the model or an export will carry outside the site.
+export function getPublicSourceUrl(source: Pick<ChunkReference, 'source_type' | 'source_slug'>): string | null {
+  const href = getSourceHref(source);
+  return href ? toPublicUrl(href) : null;
+}
@@ -0,0 +1,58 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkMarkdown, chunkMetadata } from '@/lib/chunker';
+
+const sentences = (count: number) =>
+  Array.from({ length: count }, (_, i) => `Sentence number ${i} talks about retrieval quality and chunk sizes.`).join(' ');
+
+describe('chunkMarkdown', () => {
+  test('returns nothing for blank input', () => {
+    assert.deepEqual(chunkMarkdown(''), []);
+    assert.deepEqual(chunkMarkdown('  \r\n\n '), []);
+  });
+
+  test('keeps chunks within maxChars and records the heading breadcrumb', () => {
+    const text = `# Projects\n\n## ChengAI\n\n${sentences(30)}\n\n## Other\n\nA short paragraph about another project, long enough to stand alone.`;
+    const chunks = chunkMarkdown(text, { maxChars: 400 });
+
+    assert.ok(chunks.length > 2);
+    for (const chunk of chunks) assert.ok(chunk.content.length <= 400, `chunk of ${chunk.content.length} chars`);
+    assert.deepEqual(chunks[0].headings, ['Projects', 'ChengAI']);
+
+    const last = chunks[chunks.length - 1];
+    assert.deepEqual(last.headings, ['Projects', 'Other']);
+    assert.match(last.content, /^## Other\n\n/);
+    assert.deepEqual(chunkMetadata(last), { headings: ['Projects', 'Other'] });
+  });
+
+  test('splits prose at sentence boundaries', () => {
+    const chunks = chunkMarkdown(sentences(30), { maxChars: 400, overlapChars: 0 });
+    for (const chunk of chunks) assert.match(chunk.content, /chunk sizes\.$/);
+    assert.equal(chunks.map((c) => c.content).join(' '), sentences(30));
+  });
+
+  test('re-fences oversized code blocks', () => {
+    const code = Array.from({ length: 40 }, (_, i) => `const value${i} = computeSomething(${i});`).join('\n');
+    const chunks = chunkMarkdown(`# Code\n\n\`\`\`ts\n${code}\n\`\`\``, { maxChars: 300 });
+
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.match(chunk.content, /^```ts\n/);
+      assert.match(chunk.content, /\n```$/);
+    }
+  });
+
+  test('repeats the table header in every part of a split table', () => {
+    const rows = Array.from({ length: 30 }, (_, i) => `| row${i} | ${'x'.repeat(20)} |`).join('\n');
+    const chunks = chunkMarkdown(`| Name | Value |\n| --- | --- |\n${rows}`, { maxChars: 300 });
+
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) assert.match(chunk.content, /^\| Name \| Value \|\n\| --- \| --- \|\n\| row\d+ /);
+  });
+
+  test('chunks without headings carry no metadata', () => {
+    const [chunk] = chunkMarkdown('Plain text without any headings, but long enough to be kept as a chunk.');
+    assert.deepEqual(chunk.headings, []);
+    assert.deepEqual(chunkMetadata(chunk), {});
+  });
+});
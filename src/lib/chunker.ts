@@ -0,0 +1,315 @@
+// Structure-aware chunking for everything that goes into `chunks` (indexer, knowledge base
+// uploads, seed script). Markdown is split into blocks (headings, paragraphs, lists, tables, code
+// fences) and packed into chunks of up to `maxChars`. Oversized blocks are split along their own
+// structure: code by lines (re-fenced), tables by rows (header repeated), lists by item, prose by
+// sentence. Each chunk carries the heading breadcrumb it sits under.
+
+export type ChunkOptions = {
+  maxChars?: number;
+  // Trailing sentences of the previous chunk repeated at the start of the next one (same section only).
+  overlapChars?: number;
+  // Chunks shorter than this are merged into their neighbour or dropped.
+  minChars?: number;
+};
+
+export type TextChunk = {
+  content: string;
+  // Heading breadcrumb, outermost first (e.g. ["Projects", "ChengAI", "Retrieval"]).
+  headings: string[];
+};
+
+type BlockType = 'heading' | 'paragraph' | 'list' | 'table' | 'code';
+
+type Block = {
+  type: BlockType;
+  text: string;
+  headings: string[];
+};
+
+const DEFAULT_MAX_CHARS = 1000;
+const DEFAULT_OVERLAP_CHARS = 150;
+const DEFAULT_MIN_CHARS = 50;
+
+const HEADING_RE = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_RE = /^\s*(`{3,}|~{3,})(.*)$/;
+const LIST_ITEM_RE = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const TABLE_ROW_RE = /^\s*\|.*\|\s*$/;
+const SENTENCE_SPLIT_RE = /(?<=[.!?])\s+(?=["'(\[]?[A-Z0-9])/;
+
+function readIntEnv(name: string, fallback: number, min: number): number {
+  const raw = Number(process.env[name]);
+  return Number.isFinite(raw) && raw >= min ? Math.floor(raw) : fallback;
+}
+
+// RAG_CHUNK_MAX_CHARS / RAG_CHUNK_OVERLAP_CHARS override the defaults for every caller.
+export function getDefaultChunkOptions(): Required<ChunkOptions> {
+  const maxChars = readIntEnv('RAG_CHUNK_MAX_CHARS', DEFAULT_MAX_CHARS, 200);
+  return {
+    maxChars,
+    overlapChars: Math.min(readIntEnv('RAG_CHUNK_OVERLAP_CHARS', DEFAULT_OVERLAP_CHARS, 0), Math.floor(maxChars / 3)),
+    minChars: DEFAULT_MIN_CHARS,
+  };
+}
+
+// Metadata fields to merge into a chunk row.
+export function chunkMetadata(chunk: TextChunk): Record<string, unknown> {
+  return chunk.headings.length > 0 ? { headings: chunk.headings } : {};
+}
+
+function parseBlocks(text: string): Block[] {
+  const lines = text.split('\n');
+  const blocks: Block[] = [];
+  const stack: Array<{ level: number; title: string }> = [];
+  const headings = () => stack.map((h) => h.title);
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i += 1;
+      continue;
+    }
+
+    const fence = line.match(FENCE_RE);
+    if (fence) {
+      const marker = fence[1];
+      const body = [line];
+      i += 1;
+      while (i < lines.length) {
+        body.push(lines[i]);
+        i += 1;
+        if (lines[i - 1].trim().startsWith(marker)) break;
+      }
+      blocks.push({ type: 'code', text: body.join('\n'), headings: headings() });
+      continue;
+    }
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      const level = heading[1].length;
+      while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+      stack.push({ level, title: heading[2].trim() });
+      blocks.push({ type: 'heading', text: line.trim(), headings: headings() });
+      i += 1;
+      continue;
+    }
+
+    if (TABLE_ROW_RE.test(line)) {
+      const rows: string[] = [];
+      while (i < lines.length && TABLE_ROW_RE.test(lines[i])) rows.push(lines[i++].trim());
+      blocks.push({ type: 'table', text: rows.join('\n'), headings: headings() });
+      continue;
+    }
+
+    if (LIST_ITEM_RE.test(line)) {
+      // Items plus their indented continuation lines, until a blank line followed by non-list text.
+      const items: string[] = [];
+      while (i < lines.length) {
+        const current = lines[i];
+        if (!current.trim()) {
+          const next = lines[i + 1];
+          if (next !== undefined && (LIST_ITEM_RE.test(next) || /^\s{2,}\S/.test(next))) {
+            i += 1;
+            continue;
+          }
+          break;
+        }
+        if (items.length > 0 && (HEADING_RE.test(current) || FENCE_RE.test(current) || TABLE_ROW_RE.test(current))) break;
+        if (items.length > 0 && !LIST_ITEM_RE.test(current) && !/^\s/.test(current)) break;
+        items.push(current.replace(/\s+$/, ''));
+        i += 1;
+      }
+      blocks.push({ type: 'list', text: items.join('\n'), headings: headings() });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !(paragraph.length > 0 && (HEADING_RE.test(lines[i]) || FENCE_RE.test(lines[i]) || LIST_ITEM_RE.test(lines[i]) || TABLE_ROW_RE.test(lines[i])))
+    ) {
+      paragraph.push(lines[i].trim());
+      i += 1;
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join('\n'), headings: headings() });
+  }
+
+  return blocks;
+}
+
+function hardSplit(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  for (let i = 0; i < text.length; i += maxChars) pieces.push(text.slice(i, i + maxChars));
+  return pieces;
+}
+
+// Greedily joins units (each already <= maxChars) with `separator`.
+function pack(units: string[], maxChars: number, separator: string): string[] {
+  const out: string[] = [];
+  let current = '';
+  for (const unit of units) {
+    if (current && current.length + separator.length + unit.length > maxChars) {
+      out.push(current);
+      current = '';
+    }
+    current = current ? `${current}${separator}${unit}` : unit;
+  }
+  if (current) out.push(current);
+  return out;
+}
+
+function splitProse(text: string, maxChars: number): string[] {
+  const units = text
+    .split(SENTENCE_SPLIT_RE)
+    .flatMap((sentence) => {
+      if (sentence.length <= maxChars) return [sentence];
+      // A single run-on sentence: fall back to words, then to characters.
+      const words = sentence.split(/\s+/).flatMap((word) => (word.length > maxChars ? hardSplit(word, maxChars) : [word]));
+      return pack(words, maxChars, ' ');
+    });
+  return pack(units, maxChars, ' ');
+}
+
+function splitCode(text: string, maxChars: number): string[] {
+  const lines = text.split('\n');
+  const open = lines[0];
+  const fenceMarker = open.match(FENCE_RE)?.[1] || '```';
+  const hasClose = lines.length > 1 && lines[lines.length - 1].trim().startsWith(fenceMarker);
+  const body = lines.slice(1, hasClose ? -1 : undefined);
+  const close = fenceMarker;
+  const budget = Math.max(20, maxChars - open.length - close.length - 2);
+
+  const bodyLines = body.flatMap((line) => (line.length > budget ? hardSplit(line, budget) : [line]));
+  return pack(bodyLines, budget, '\n').map((piece) => `${open}\n${piece}\n${close}`);
+}
+
+function splitTable(text: string, maxChars: number): string[] {
+  const rows = text.split('\n');
+  const hasHeader = rows.length > 1 && /^\s*\|[\s:|-]+\|\s*$/.test(rows[1]);
+  const header = hasHeader ? rows.slice(0, 2).join('\n') : '';
+  const bodyRows = hasHeader ? rows.slice(2) : rows;
+  const budget = Math.max(20, maxChars - header.length - 1);
+
+  const units = bodyRows.flatMap((row) => (row.length > budget ? hardSplit(row, budget) : [row]));
+  return pack(units, budget, '\n').map((piece) => (header ? `${header}\n${piece}` : piece));
+}
+
+function splitList(text: string, maxChars: number): string[] {
+  const items: string[] = [];
+  for (const line of text.split('\n')) {
+    if (items.length === 0 || (LIST_ITEM_RE.test(line) && !/^\s{2,}/.test(line))) items.push(line);
+    else items[items.length - 1] += `\n${line}`;
+  }
+  const units = items.flatMap((item) => (item.length > maxChars ? splitProse(item, maxChars) : [item]));
+  return pack(units, maxChars, '\n');
+}
+
+function splitBlock(block: Block, maxChars: number): Block[] {
+  if (block.text.length <= maxChars) return [block];
+
+  const split =
+    block.type === 'code'
+      ? splitCode
+      : block.type === 'table'
+        ? splitTable
+        : block.type === 'list'
+          ? splitList
+          : splitProse;
+  return split(block.text, maxChars).map((text) => ({ ...block, text }));
+}
+
+// Trailing whole sentences of a prose or list block, up to `overlapChars`.
+function overlapTail(block: Block, overlapChars: number): string {
+  if (overlapChars <= 0 || (block.type !== 'paragraph' && block.type !== 'list')) return '';
+
+  const sentences = block.text.split(SENTENCE_SPLIT_RE);
+  let tail = '';
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const candidate = tail ? `${sentences[i]} ${tail}` : sentences[i];
+    if (candidate.length > overlapChars) break;
+    tail = candidate;
+  }
+  // Repeating the entire previous block is duplication, not overlap.
+  return tail && tail.length < block.text.length ? tail : '';
+}
+
+function sameSection(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((heading, i) => heading === b[i]);
+}
+
+export function chunkMarkdown(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const defaults = getDefaultChunkOptions();
+  const maxChars = Math.max(200, options.maxChars ?? defaults.maxChars);
+  const overlapChars = Math.max(0, Math.min(options.overlapChars ?? defaults.overlapChars, Math.floor(maxChars / 3)));
+  const minChars = Math.max(0, options.minChars ?? defaults.minChars);
+
+  const normalized = String(text || '').replace(/\r\n?/g, '\n').trim();
+  if (!normalized) return [];
+
+  const blocks = parseBlocks(normalized).flatMap((block) => splitBlock(block, maxChars));
+  const chunks: TextChunk[] = [];
+
+  let parts: string[] = [];
+  let length = 0;
+  let headings: string[] = [];
+  let lastBlock: Block | null = null;
+
+  const flush = () => {
+    if (parts.length > 0) chunks.push({ content: parts.join('\n\n'), headings });
+    parts = [];
+    length = 0;
+  };
+
+  for (const block of blocks) {
+    const startsSection = block.type === 'heading';
+    const fits = length + (parts.length > 0 ? 2 : 0) + block.text.length <= maxChars;
+    // A new heading closes the current chunk once it has some substance, so sections stay together.
+    const breakAtHeading = startsSection && length >= Math.max(minChars, maxChars / 4);
+
+    if (parts.length > 0 && (!fits || breakAtHeading)) {
+      const previous = lastBlock;
+      // Keep a heading with the content under it instead of leaving it at the end of a chunk.
+      const carried =
+        !breakAtHeading &&
+        previous?.type === 'heading' &&
+        parts.length > 1 &&
+        previous.text.length + 2 + block.text.length <= maxChars
+          ? parts.pop()
+          : undefined;
+      flush();
+
+      if (carried && previous) {
+        parts.push(carried);
+        length = carried.length;
+        headings = previous.headings;
+      } else if (!breakAtHeading && previous && sameSection(previous.headings, block.headings)) {
+        const tail = overlapTail(previous, overlapChars);
+        if (tail && tail.length + 2 + block.text.length <= maxChars) {
+          parts.push(tail);
+          length = tail.length;
+        }
+      }
+    }
+
+    if (parts.length === 0 || (parts.length === 1 && length < minChars)) headings = block.headings;
+    parts.push(block.text);
+    length += (parts.length > 1 ? 2 : 0) + block.text.length;
+    lastBlock = block;
+  }
+  flush();
+
+  // Fold fragments (a trailing sentence, a lone heading) into the previous chunk when they fit.
+  const merged: TextChunk[] = [];
+  for (const chunk of chunks) {
+    const previous = merged[merged.length - 1];
+    if (previous && chunk.content.length < minChars && previous.content.length + 2 + chunk.content.length <= maxChars) {
+      previous.content = `${previous.content}\n\n${chunk.content}`;
+      continue;
+    }
+    merged.push(chunk);
+  }
+
+  return merged.filter((chunk) => chunk.content.trim().length >= minChars);
+}
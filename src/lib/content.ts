@@ -1,17 +1,28 @@
 import 'server-only';
 
 import { unstable_cache } from 'next/cache';
-import { supabase, DEFAULT_OWNER_ID } from '@/lib/supabase';
+import { supabase, supabaseAdmin } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { verifyPreviewToken } from '@/lib/admin-session';
+import {
+  buildSkillTaxonomy,
+  parseSkillTaxonomyNode,
+  type SkillTaxonomy,
+  type SkillTaxonomyNode,
+} from '@/lib/skill-taxonomy';
 import type { Article, Experience, Project, Skill, Story } from '@/types';
 
 const REVALIDATE_SECONDS = 120;
 
-export const getPublishedProjects = unstable_cache(
-  async (): Promise<Project[]> => {
+// Cache entries are keyed by owner (the ownerId argument is part of the cache key).
+// Exported getters default to the owner resolved for the current request.
+
+const cachedGetPublishedProjects = unstable_cache(
+  async (ownerId: string): Promise<Project[]> => {
     const { data, error } = await supabase
       .from('projects')
-      .select('id,title,slug,subtitle,description,repo_url,demo_url,article_url,display_order')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .select('id,title,slug,subtitle,description,repo_url,demo_url,article_url,display_order,updated_at')
+      .eq('owner_id', ownerId)
       .eq('status', 'published')
       .is('deleted_at', null)
       .order('display_order', { ascending: true });
@@ -23,18 +34,22 @@ export const getPublishedProjects = unstable_cache(
 
     return (data as Project[] | null) || [];
   },
-  ['projects', DEFAULT_OWNER_ID, 'published'],
+  ['projects', 'published'],
   { revalidate: REVALIDATE_SECONDS, tags: ['projects'] }
 );
 
-export const getPublishedProjectBySlug = unstable_cache(
-  async (slug: string): Promise<Project | null> => {
+export async function getPublishedProjects(ownerId?: string): Promise<Project[]> {
+  return cachedGetPublishedProjects(ownerId ?? (await getOwnerId()));
+}
+
+const cachedGetPublishedProjectBySlug = unstable_cache(
+  async (ownerId: string, slug: string): Promise<Project | null> => {
     const { data, error } = await supabase
       .from('projects')
       .select(
-        'id,title,slug,subtitle,description,repo_url,demo_url,article_url,tech_stack,details,display_order'
+        'id,title,slug,subtitle,description,repo_url,demo_url,article_url,tech_stack,details,display_order,start_date,end_date,created_at,updated_at'
       )
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .eq('status', 'published')
       .is('deleted_at', null)
       .eq('slug', slug)
@@ -47,16 +62,20 @@ export const getPublishedProjectBySlug = unstable_cache(
 
     return data as Project;
   },
-  ['project', DEFAULT_OWNER_ID],
+  ['project'],
   { revalidate: REVALIDATE_SECONDS, tags: ['projects'] }
 );
 
-export const getPublishedArticles = unstable_cache(
-  async (): Promise<Article[]> => {
+export async function getPublishedProjectBySlug(slug: string, ownerId?: string): Promise<Project | null> {
+  return cachedGetPublishedProjectBySlug(ownerId ?? (await getOwnerId()), slug);
+}
+
+const cachedGetPublishedArticles = unstable_cache(
+  async (ownerId: string): Promise<Article[]> => {
     const { data, error } = await supabase
       .from('articles')
-      .select('id,title,slug,summary,tags,published_at')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .select('id,title,slug,summary,tags,published_at,updated_at')
+      .eq('owner_id', ownerId)
       .eq('status', 'published')
       .order('published_at', { ascending: false });
 
@@ -67,16 +86,20 @@ export const getPublishedArticles = unstable_cache(
 
     return (data as Article[] | null) || [];
   },
-  ['articles', DEFAULT_OWNER_ID, 'published'],
+  ['articles', 'published'],
   { revalidate: REVALIDATE_SECONDS, tags: ['articles'] }
 );
 
-export const getPublishedArticleBySlug = unstable_cache(
-  async (slug: string): Promise<Article | null> => {
+export async function getPublishedArticles(ownerId?: string): Promise<Article[]> {
+  return cachedGetPublishedArticles(ownerId ?? (await getOwnerId()));
+}
+
+const cachedGetPublishedArticleBySlug = unstable_cache(
+  async (ownerId: string, slug: string): Promise<Article | null> => {
     const { data, error } = await supabase
       .from('articles')
-      .select('id,title,slug,content,summary,tags,published_at')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .select('id,title,slug,content,summary,tags,published_at,updated_at')
+      .eq('owner_id', ownerId)
       .eq('status', 'published')
       .eq('slug', slug)
       .single();
@@ -88,18 +111,48 @@ export const getPublishedArticleBySlug = unstable_cache(
 
     return data as Article;
   },
-  ['article', DEFAULT_OWNER_ID],
+  ['article'],
+  { revalidate: REVALIDATE_SECONDS, tags: ['articles'] }
+);
+
+export async function getPublishedArticleBySlug(slug: string, ownerId?: string): Promise<Article | null> {
+  return cachedGetPublishedArticleBySlug(ownerId ?? (await getOwnerId()), slug);
+}
+
+const cachedGetArticleFeedEntries = unstable_cache(
+  async (ownerId: string, limit: number): Promise<Article[]> => {
+    const { data, error } = await supabase
+      .from('articles')
+      .select('id,title,slug,content,summary,tags,published_at,updated_at')
+      .eq('owner_id', ownerId)
+      .eq('status', 'published')
+      .order('published_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching article feed:', error);
+      return [];
+    }
+
+    return (data as Article[] | null) || [];
+  },
+  ['articles', 'feed'],
   { revalidate: REVALIDATE_SECONDS, tags: ['articles'] }
 );
 
-export const getPublishedExperiences = unstable_cache(
-  async (): Promise<Experience[]> => {
+// Newest published articles with full content, for RSS / Atom / JSON Feed.
+export async function getArticleFeedEntries(limit = 200, ownerId?: string): Promise<Article[]> {
+  return cachedGetArticleFeedEntries(ownerId ?? (await getOwnerId()), limit);
+}
+
+const cachedGetPublishedExperiences = unstable_cache(
+  async (ownerId: string): Promise<Experience[]> => {
     const { data, error } = await supabase
       .from('experiences')
       .select(
-        'id,company,role,location,employment_type,start_date,end_date,summary,highlights,tech_stack,details,status,created_at'
+        'id,company,role,location,employment_type,start_date,end_date,summary,highlights,tech_stack,details,status,created_at,updated_at'
       )
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .eq('status', 'published')
       .order('start_date', { ascending: false })
       .order('created_at', { ascending: false });
@@ -111,16 +164,20 @@ export const getPublishedExperiences = unstable_cache(
 
     return (data as Experience[] | null) || [];
   },
-  ['experiences', DEFAULT_OWNER_ID, 'published'],
+  ['experiences', 'published'],
   { revalidate: REVALIDATE_SECONDS, tags: ['experiences'] }
 );
 
-export const getSkills = unstable_cache(
-  async (): Promise<Skill[]> => {
+export async function getPublishedExperiences(ownerId?: string): Promise<Experience[]> {
+  return cachedGetPublishedExperiences(ownerId ?? (await getOwnerId()));
+}
+
+const cachedGetSkills = unstable_cache(
+  async (ownerId: string): Promise<Skill[]> => {
     const { data, error } = await supabase
       .from('skills')
       .select('id,name,category,proficiency,years_of_experience,icon,is_primary')
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .order('proficiency', { ascending: false });
 
     if (error) {
@@ -130,18 +187,49 @@ export const getSkills = unstable_cache(
 
     return (data as Skill[] | null) || [];
   },
-  ['skills', DEFAULT_OWNER_ID],
+  ['skills'],
   { revalidate: REVALIDATE_SECONDS, tags: ['skills'] }
 );
 
-export const getPublicStories = unstable_cache(
-  async (): Promise<Story[]> => {
+export async function getSkills(ownerId?: string): Promise<Skill[]> {
+  return cachedGetSkills(ownerId ?? (await getOwnerId()));
+}
+
+// Only the owner's stored overrides are cached (a Map does not survive the cache); the
+// built-in defaults are merged in by buildSkillTaxonomy on every call.
+const cachedGetSkillTaxonomyNodes = unstable_cache(
+  async (ownerId: string): Promise<SkillTaxonomyNode[]> => {
+    const { data, error } = await supabase
+      .from('skill_taxonomy')
+      .select('name,category,aliases,parents,implies')
+      .eq('owner_id', ownerId);
+
+    if (error) {
+      // 42P01: table not migrated yet; the built-in taxonomy still works.
+      if (error.code !== '42P01') console.error('Error fetching skill taxonomy:', error);
+      return [];
+    }
+
+    return ((data as unknown[] | null) || [])
+      .map(parseSkillTaxonomyNode)
+      .filter((n): n is SkillTaxonomyNode => Boolean(n));
+  },
+  ['skill-taxonomy'],
+  { revalidate: REVALIDATE_SECONDS, tags: ['skill-taxonomy'] }
+);
+
+export async function getSkillTaxonomy(ownerId?: string): Promise<SkillTaxonomy> {
+  return buildSkillTaxonomy(await cachedGetSkillTaxonomyNodes(ownerId ?? (await getOwnerId())));
+}
+
+const cachedGetPublicStories = unstable_cache(
+  async (ownerId: string): Promise<Story[]> => {
     const { data, error } = await supabase
       .from('stories')
       .select(
         'id,owner_id,title,situation,task,action,result,skills_demonstrated,project_id,is_public,redacted,created_at,updated_at'
       )
-      .eq('owner_id', DEFAULT_OWNER_ID)
+      .eq('owner_id', ownerId)
       .eq('is_public', true)
       .order('updated_at', { ascending: false });
 
@@ -152,6 +240,55 @@ export const getPublicStories = unstable_cache(
 
     return (data as Story[] | null) || [];
   },
-  ['stories', DEFAULT_OWNER_ID, 'public'],
+  ['stories', 'public'],
   { revalidate: REVALIDATE_SECONDS, tags: ['stories'] }
 );
+
+export async function getPublicStories(ownerId?: string): Promise<Story[]> {
+  return cachedGetPublicStories(ownerId ?? (await getOwnerId()));
+}
+
+// Draft previews are never cached: the row a valid preview token was issued for, whatever its
+// status. Loaded by id (not slug) so a link survives a slug edit.
+export async function getArticlePreview(token: string, ownerId?: string): Promise<Article | null> {
+  const owner = ownerId ?? (await getOwnerId());
+  const preview = await verifyPreviewToken(token, { entityType: 'article', ownerId: owner });
+  if (!preview) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('articles')
+    .select('id,title,slug,content,summary,tags,published_at,status,scheduled_at')
+    .eq('owner_id', owner)
+    .eq('id', preview.entityId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching article preview:', error);
+    return null;
+  }
+
+  return data as Article | null;
+}
+
+export async function getProjectPreview(token: string, ownerId?: string): Promise<Project | null> {
+  const owner = ownerId ?? (await getOwnerId());
+  const preview = await verifyPreviewToken(token, { entityType: 'project', ownerId: owner });
+  if (!preview) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('projects')
+    .select(
+      'id,title,slug,subtitle,description,repo_url,demo_url,article_url,tech_stack,details,display_order,status,scheduled_at'
+    )
+    .eq('owner_id', owner)
+    .eq('id', preview.entityId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching project preview:', error);
+    return null;
+  }
+
+  return data as Project | null;
+}
@@ -0,0 +1,250 @@
+import 'server-only';
+
+import { randomBytes } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase';
+import type { ChatMessage, ChunkReference, Conversation } from '@/types';
+
+type ChatMode = Conversation['mode'];
+
+const CONVERSATION_COLUMNS = 'id,title,mode,share_token,created_at,updated_at';
+const MESSAGE_COLUMNS = 'id,role,content,sources,created_at';
+const MAX_TITLE_CHARS = 80;
+const MAX_MESSAGES = 200;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Ids come from URLs and request bodies; anything else would make Postgres raise 22P02.
+export function isConversationId(value: unknown): value is string {
+  return typeof value === 'string' && UUID_RE.test(value);
+}
+
+export function isMissingTableError(error: unknown): boolean {
+  return (
+    Boolean(error) &&
+    typeof (error as { code?: unknown }).code === 'string' &&
+    (error as { code: string }).code.toUpperCase() === '42P01'
+  );
+}
+
+export function conversationsMigrationHint() {
+  return 'Conversations are not set up yet. Run `database/migrations/20261018_add_conversations.sql` in Supabase SQL Editor, then retry.';
+}
+
+function normalizeMode(mode: unknown): ChatMode {
+  return mode === 'tech' || mode === 'behavior' ? mode : 'auto';
+}
+
+function buildTitle(text: string): string {
+  const oneLine = String(text || '').replace(/\s+/g, ' ').trim();
+  if (oneLine.length <= MAX_TITLE_CHARS) return oneLine;
+  return `${oneLine.slice(0, MAX_TITLE_CHARS)}…`;
+}
+
+function toConversation(row: Record<string, unknown>): Conversation {
+  return {
+    id: String(row.id),
+    title: typeof row.title === 'string' ? row.title : null,
+    mode: normalizeMode(row.mode),
+    share_token: typeof row.share_token === 'string' ? row.share_token : null,
+    created_at: String(row.created_at || ''),
+    updated_at: String(row.updated_at || ''),
+  };
+}
+
+function toChatMessage(row: Record<string, unknown>): ChatMessage {
+  const sources = Array.isArray(row.sources) ? (row.sources as ChunkReference[]) : [];
+  return {
+    id: String(row.id),
+    role: row.role === 'assistant' ? 'assistant' : 'user',
+    content: String(row.content || ''),
+    sources: sources.length > 0 ? sources : undefined,
+    created_at: String(row.created_at || ''),
+  };
+}
+
+export async function createConversation(args: {
+  ownerId: string;
+  visitorId: string;
+  title?: string;
+  mode?: string;
+}): Promise<Conversation> {
+  const { data, error } = await supabaseAdmin
+    .from('conversations')
+    .insert({
+      owner_id: args.ownerId,
+      visitor_id: args.visitorId,
+      title: args.title ? buildTitle(args.title) : null,
+      mode: normalizeMode(args.mode),
+    })
+    .select(CONVERSATION_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return toConversation(data as Record<string, unknown>);
+}
+
+// Conversations are private to the visitor cookie that created them.
+export async function getVisitorConversation(
+  ownerId: string,
+  visitorId: string,
+  conversationId: string
+): Promise<Conversation | null> {
+  if (!isConversationId(conversationId)) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq('owner_id', ownerId)
+    .eq('visitor_id', visitorId)
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toConversation(data as Record<string, unknown>) : null;
+}
+
+export async function listVisitorConversations(
+  ownerId: string,
+  visitorId: string,
+  limit = 20
+): Promise<Conversation[]> {
+  const { data, error } = await supabaseAdmin
+    .from('conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq('owner_id', ownerId)
+    .eq('visitor_id', visitorId)
+    .order('updated_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return ((data as Record<string, unknown>[] | null) || []).map(toConversation);
+}
+
+// Oldest-first transcript of the most recent MAX_MESSAGES (or `latest`) messages. Fetched newest
+// first so the limit drops the oldest ones, then reversed.
+export async function getConversationMessages(
+  ownerId: string,
+  conversationId: string,
+  latest?: number
+): Promise<ChatMessage[]> {
+  const { data, error } = await supabaseAdmin
+    .from('messages')
+    .select(MESSAGE_COLUMNS)
+    .eq('owner_id', ownerId)
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false })
+    .limit(latest || MAX_MESSAGES);
+
+  if (error) throw error;
+  return ((data as Record<string, unknown>[] | null) || []).map(toChatMessage).reverse();
+}
+
+export async function appendMessage(args: {
+  ownerId: string;
+  conversationId: string;
+  role: ChatMessage['role'];
+  content: string;
+  sources?: ChunkReference[];
+}): Promise<void> {
+  const { error } = await supabaseAdmin.from('messages').insert({
+    owner_id: args.ownerId,
+    conversation_id: args.conversationId,
+    role: args.role,
+    content: args.content,
+    sources: args.sources || [],
+  });
+  if (error) throw error;
+
+  const { error: touchError } = await supabaseAdmin
+    .from('conversations')
+    .update({ updated_at: new Date().toISOString() })
+    .eq('owner_id', args.ownerId)
+    .eq('id', args.conversationId);
+  if (touchError) console.warn('Conversation touch failed:', touchError);
+}
+
+export async function deleteConversation(
+  ownerId: string,
+  visitorId: string,
+  conversationId: string
+): Promise<void> {
+  if (!isConversationId(conversationId)) return;
+
+  const { error } = await supabaseAdmin
+    .from('conversations')
+    .delete()
+    .eq('owner_id', ownerId)
+    .eq('visitor_id', visitorId)
+    .eq('id', conversationId);
+  if (error) throw error;
+}
+
+// Share links are read-only and keyed by an unguessable token (not the conversation id).
+export async function ensureShareToken(ownerId: string, conversation: Conversation): Promise<string> {
+  if (conversation.share_token) return conversation.share_token;
+
+  const token = randomBytes(18).toString('base64url');
+  const { error } = await supabaseAdmin
+    .from('conversations')
+    .update({ share_token: token })
+    .eq('owner_id', ownerId)
+    .eq('id', conversation.id);
+
+  if (error) throw error;
+  return token;
+}
+
+export async function getSharedConversation(
+  ownerId: string,
+  shareToken: string
+): Promise<{ conversation: Conversation; messages: ChatMessage[] } | null> {
+  if (!shareToken || shareToken.length > 64) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq('owner_id', ownerId)
+    .eq('share_token', shareToken)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const conversation = toConversation(data as Record<string, unknown>);
+  const messages = await getConversationMessages(ownerId, conversation.id);
+  return { conversation, messages };
+}
+
+// Copy a shared transcript into a new conversation owned by this visitor, so it can be continued.
+export async function forkSharedConversation(args: {
+  ownerId: string;
+  visitorId: string;
+  shareToken: string;
+}): Promise<{ conversation: Conversation; messages: ChatMessage[] } | null> {
+  const shared = await getSharedConversation(args.ownerId, args.shareToken);
+  if (!shared) return null;
+
+  const conversation = await createConversation({
+    ownerId: args.ownerId,
+    visitorId: args.visitorId,
+    title: shared.conversation.title || undefined,
+    mode: shared.conversation.mode,
+  });
+
+  if (shared.messages.length > 0) {
+    // Preserve ordering: created_at is copied from the source rows.
+    const { error } = await supabaseAdmin.from('messages').insert(
+      shared.messages.map((m) => ({
+        owner_id: args.ownerId,
+        conversation_id: conversation.id,
+        role: m.role,
+        content: m.content,
+        sources: m.sources || [],
+        created_at: m.created_at,
+      }))
+    );
+    if (error) throw error;
+  }
+
+  const messages = await getConversationMessages(args.ownerId, conversation.id);
+  return { conversation, messages };
+}
@@ -0,0 +1,46 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLocalEmbeddingProvider } from '@/lib/embeddings';
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+describe('local embedding provider', () => {
+  const provider = createLocalEmbeddingProvider();
+
+  test('matches the chunks.embedding column', () => {
+    assert.equal(provider.name, 'local');
+    assert.equal(provider.dimensions, 1536);
+    assert.equal(provider.model, 'local-hash-v1-1536');
+  });
+
+  test('returns one unit vector per input, including empty text', async () => {
+    const vectors = await provider.embed(['TypeScript and React', '', '   ']);
+    assert.equal(vectors.length, 3);
+    for (const vector of vectors) {
+      assert.equal(vector.length, 1536);
+      assert.ok(Math.abs(cosine(vector, vector) - 1) < 1e-9);
+    }
+  });
+
+  test('is deterministic', async () => {
+    const [first] = await provider.embed(['Built a retrieval pipeline in Postgres']);
+    const [second] = await provider.embed(['Built a retrieval pipeline in Postgres']);
+    assert.deepEqual(first, second);
+  });
+
+  test('ranks overlapping text above unrelated text', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'postgres vector search',
+      'Vector search in Postgres with pgvector',
+      'Baking sourdough bread at home',
+    ]);
+    assert.ok(cosine(query, related) > cosine(query, unrelated));
+  });
+
+  test('ignores case and accents', async () => {
+    const [plain, styled] = await provider.embed(['resume cafe', 'RÉSUMÉ Café']);
+    assert.ok(Math.abs(cosine(plain, styled) - 1) < 1e-9);
+  });
+});
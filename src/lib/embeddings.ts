@@ -0,0 +1,231 @@
+import OpenAI from 'openai';
+import { AI_BUILDERS_BASE_URL, getAiBuilderToken } from '@/lib/llm-providers';
+
+// Embeddings for the RAG index, JD matching and the response cache. Every stored chunk records the
+// model and dimensions it was embedded with (chunks.embedding_model / embedding_dims); vectors from
+// different models are never compared, so switching EMBEDDING_PROVIDER takes a reindex, not a
+// migration. The indexer re-embeds chunks from another model on its next run.
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  // Identifies the vector space; stored per chunk and used to filter retrieval.
+  model: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderName = 'openai' | 'openai-compatible' | 'local';
+
+const DEFAULT_DIMENSIONS = 1536; // chunks.embedding is vector(1536)
+const DEFAULT_REMOTE_MODEL = 'text-embedding-3-small';
+const LOCAL_MODEL = 'local-hash-v1';
+const MAX_BATCH_SIZE = 128;
+
+// Any other size would fail on insert into chunks.embedding (and in match_chunks), so it is
+// rejected up front (see src/instrumentation.ts) instead of on the first reindex.
+function getConfiguredDimensions(): number | null {
+  const setting = String(process.env.EMBEDDING_DIMENSIONS || '').trim();
+  if (!setting) return null;
+  if (Number(setting) !== DEFAULT_DIMENSIONS) {
+    throw new Error(
+      `EMBEDDING_DIMENSIONS=${setting} is not supported: chunks.embedding is vector(${DEFAULT_DIMENSIONS}). Unset it or set ${DEFAULT_DIMENSIONS}.`
+    );
+  }
+  return DEFAULT_DIMENSIONS;
+}
+
+export function assertEmbeddingConfig() {
+  getConfiguredDimensions();
+}
+
+export function createOpenAIEmbeddingProvider(options: {
+  name?: EmbeddingProviderName;
+  apiKey: string;
+  baseURL?: string;
+  model?: string;
+  dimensions?: number;
+  // OpenAI's text-embedding-3 models can shorten vectors; many compatible servers reject the field.
+  sendDimensions?: boolean;
+}): EmbeddingProvider {
+  const model = options.model || DEFAULT_REMOTE_MODEL;
+  const dimensions = options.dimensions || DEFAULT_DIMENSIONS;
+  let client: OpenAI | null = null;
+
+  return {
+    name: options.name || 'openai',
+    model,
+    dimensions,
+    async embed(texts) {
+      if (!options.apiKey && !options.baseURL) {
+        throw new Error(
+          'Missing embeddings API key: set OPENAI_API_KEY or AI_BUILDER_TOKEN (or EMBEDDING_PROVIDER=local for offline use).'
+        );
+      }
+      client ??= new OpenAI({ apiKey: options.apiKey || 'unused', baseURL: options.baseURL });
+
+      const response = await client.embeddings.create({
+        model,
+        input: texts,
+        ...(options.sendDimensions === false ? {} : { dimensions }),
+      });
+      const sorted = [...response.data].sort((a, b) => a.index - b.index);
+      return sorted.map((item) => item.embedding);
+    },
+  };
+}
+
+function fnv1a(text: string, seed = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Words, adjacent word pairs and character trigrams, so inflections and typos still overlap.
+function localFeatures(text: string): Array<[string, number]> {
+  const words =
+    text
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) || [];
+
+  const features: Array<[string, number]> = [];
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    features.push([`w:${word}`, 1]);
+    if (i > 0) features.push([`b:${words[i - 1]} ${word}`, 0.5]);
+
+    const padded = `<${word}>`;
+    for (let j = 0; j + 3 <= padded.length; j++) {
+      features.push([`c:${padded.slice(j, j + 3)}`, 0.25]);
+    }
+  }
+  return features;
+}
+
+function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const [feature, weight] of localFeatures(text)) {
+    const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1;
+    vector[fnv1a(feature) % dimensions] += sign * weight;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    // Cosine distance is undefined for a zero vector; empty text still gets a valid unit vector.
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((value) => value / norm);
+}
+
+// Deterministic feature hashing on the CPU: no network, no API key, same text -> same vector.
+// Retrieval quality is lexical rather than semantic, which is enough for development, offline
+// runs and evaluation scripts.
+export function createLocalEmbeddingProvider(dimensions = DEFAULT_DIMENSIONS): EmbeddingProvider {
+  return {
+    name: 'local',
+    model: `${LOCAL_MODEL}-${dimensions}`,
+    dimensions,
+    async embed(texts) {
+      return texts.map((text) => hashEmbedding(text, dimensions));
+    },
+  };
+}
+
+let provider: EmbeddingProvider | undefined;
+
+// EMBEDDING_PROVIDER: "openai", "openai-compatible" (EMBEDDING_BASE_URL + EMBEDDING_API_KEY),
+// "local", or unset to use OpenAI when OPENAI_API_KEY is set and AI Builders Space otherwise.
+// Read lazily so scripts can load their .env file first.
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (provider) return provider;
+
+  const setting = String(process.env.EMBEDDING_PROVIDER || 'auto').trim().toLowerCase();
+  const dimensions = getConfiguredDimensions();
+  const model = process.env.AI_EMBEDDING_MODEL || DEFAULT_REMOTE_MODEL;
+
+  if (setting === 'local') {
+    provider = createLocalEmbeddingProvider(dimensions ?? DEFAULT_DIMENSIONS);
+  } else if (setting === 'openai-compatible') {
+    const baseURL = process.env.EMBEDDING_BASE_URL;
+    if (!baseURL) throw new Error('EMBEDDING_PROVIDER=openai-compatible requires EMBEDDING_BASE_URL.');
+    provider = createOpenAIEmbeddingProvider({
+      name: 'openai-compatible',
+      apiKey: process.env.EMBEDDING_API_KEY || '',
+      baseURL,
+      model,
+      dimensions: dimensions ?? DEFAULT_DIMENSIONS,
+      sendDimensions: dimensions !== null,
+    });
+  } else if (setting === 'openai' || process.env.OPENAI_API_KEY || !getAiBuilderToken()) {
+    provider = createOpenAIEmbeddingProvider({
+      apiKey: process.env.OPENAI_API_KEY || '',
+      model,
+      dimensions: dimensions ?? DEFAULT_DIMENSIONS,
+    });
+  } else {
+    // AI Builders Space proxies OpenAI's embedding models, so the vectors are interchangeable.
+    provider = createOpenAIEmbeddingProvider({
+      apiKey: getAiBuilderToken(),
+      baseURL: AI_BUILDERS_BASE_URL,
+      model,
+      dimensions: dimensions ?? DEFAULT_DIMENSIONS,
+    });
+  }
+  return provider;
+}
+
+// Columns written alongside every stored embedding.
+export function embeddingColumns(): { embedding_model: string; embedding_dims: number } {
+  const { model, dimensions } = getEmbeddingProvider();
+  return { embedding_model: model, embedding_dims: dimensions };
+}
+
+export function isMissingEmbeddingModelColumnError(error: unknown): boolean {
+  const e = error as { code?: unknown; message?: unknown } | null;
+  const code = typeof e?.code === 'string' ? e.code : '';
+  return (code === '42703' || code === 'PGRST204') && /embedding_(model|dims)/.test(String(e?.message || ''));
+}
+
+export function embeddingModelMigrationHint(): string {
+  return 'chunks.embedding_model is missing; run database/migrations/20261018_add_chunk_embedding_model.sql';
+}
+
+export async function generateEmbeddings(texts: string[]): Promise<number[][]> {
+  if (!Array.isArray(texts) || texts.length === 0) return [];
+
+  const current = getEmbeddingProvider();
+  const embeddings = await current.embed(texts);
+  if (embeddings.length !== texts.length) {
+    throw new Error(`Embedding provider "${current.name}" returned ${embeddings.length} vectors for ${texts.length} inputs`);
+  }
+  const wrongSize = embeddings.find((vector) => vector.length !== current.dimensions);
+  if (wrongSize) {
+    throw new Error(
+      `Embedding model "${current.model}" returned ${wrongSize.length}-dimensional vectors; expected ${current.dimensions} (EMBEDDING_DIMENSIONS)`
+    );
+  }
+  return embeddings;
+}
+
+export async function generateEmbedding(text: string): Promise<number[]> {
+  const [embedding] = await generateEmbeddings([text]);
+  return embedding;
+}
+
+export async function generateEmbeddingsBatched(texts: string[], batchSize = 32): Promise<number[][]> {
+  if (!Array.isArray(texts) || texts.length === 0) return [];
+  const safeBatch = Math.max(1, Math.min(batchSize, MAX_BATCH_SIZE));
+  const out: number[][] = [];
+
+  for (let i = 0; i < texts.length; i += safeBatch) {
+    const batch = texts.slice(i, i + safeBatch);
+    out.push(...(await generateEmbeddings(batch)));
+  }
+
+  return out;
+}
@@ -0,0 +1,296 @@
+import { createHash } from 'crypto';
+import { NextResponse } from 'next/server';
+import { micromark } from 'micromark';
+import { gfm, gfmHtml } from 'micromark-extension-gfm';
+import { getArticleFeedEntries } from '@/lib/content';
+import { getOwnerTenant, isOwnerFromCookie } from '@/lib/owner';
+import { getSiteSettings } from '@/lib/site-settings';
+import { getPublicSiteUrl, toAbsoluteUrl } from '@/lib/site-url';
+import { slugify } from '@/lib/slug';
+import type { Article } from '@/types';
+
+// RSS 2.0, Atom 1.0 and JSON Feed 1.1 for published articles. Each feed takes an optional
+// `?tag=` (matched by slug, so `?tag=machine-learning` finds "Machine Learning").
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+const FEED_PATHS: Record<FeedFormat, string> = {
+  rss: '/feed.xml',
+  atom: '/atom.xml',
+  json: '/feed.json',
+};
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+const MAX_FEED_ITEMS = 50;
+const FEED_DESCRIPTION = 'Thoughts on AI, software development, and building products.';
+
+type FeedItem = {
+  id: string;
+  url: string;
+  title: string;
+  summary: string | null;
+  html: string;
+  tags: string[];
+  published: Date;
+  updated: Date;
+};
+
+type Feed = {
+  title: string;
+  description: string;
+  authorName: string;
+  homeUrl: string;
+  siteUrl: string;
+  selfUrls: Record<FeedFormat, string>;
+  updated: Date;
+  items: FeedItem[];
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function parseDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function tagMatches(tag: string, query: string): boolean {
+  const a = tag.trim().toLowerCase();
+  const b = query.trim().toLowerCase();
+  if (a === b) return true;
+  const slug = slugify(tag);
+  return Boolean(slug) && slug === slugify(query);
+}
+
+// Same markdown dialect as the article page (GFM, raw HTML escaped). Root-relative links and
+// images are made absolute, since feed readers render the content away from the site.
+function renderArticleHtml(markdown: string, linkBase: string): string {
+  const html = micromark(markdown || '', { extensions: [gfm()], htmlExtensions: [gfmHtml()] });
+  return html.replace(/(href|src)="\/(?!\/)/g, `$1="${linkBase}/`);
+}
+
+function toFeedItem(article: Article, urlFor: (path: string) => string, linkBase: string): FeedItem | null {
+  const published = parseDate(article.published_at);
+  if (!published) return null;
+  const updated = parseDate(article.updated_at);
+  const url = urlFor(`/articles/${article.slug}`);
+
+  return {
+    id: url,
+    url,
+    title: article.title,
+    summary: article.summary,
+    html: renderArticleHtml(article.content, linkBase),
+    tags: Array.isArray(article.tags) ? article.tags : [],
+    published,
+    // Edits made before the article went live don't count as updates.
+    updated: updated && updated > published ? updated : published,
+  };
+}
+
+async function buildFeed(tag: string | null): Promise<Feed> {
+  const tenant = await getOwnerTenant();
+  const [articles, settings] = await Promise.all([getArticleFeedEntries(), getSiteSettings(tenant.id)]);
+  const urlFor = (path: string) => toAbsoluteUrl(path, tenant);
+  const siteUrl = urlFor('/').replace(/\/$/, '');
+  // In-app links carry no owner prefix, so content links resolve against the bare host.
+  const linkBase = getPublicSiteUrl(tenant);
+
+  const items = articles
+    .filter((article) => !tag || (article.tags || []).some((t) => tagMatches(t, tag)))
+    .map((article) => toFeedItem(article, urlFor, linkBase))
+    .filter((item): item is FeedItem => item !== null)
+    .slice(0, MAX_FEED_ITEMS);
+
+  // Display the tag as the author wrote it, not as typed in the URL.
+  const tagLabel = tag ? items.flatMap((item) => item.tags).find((t) => tagMatches(t, tag)) || tag : null;
+  const query = tag ? `?tag=${encodeURIComponent(slugify(tag) || tag)}` : '';
+  const authorName = settings.profile.displayName;
+
+  return {
+    title: tagLabel ? `${authorName} | Articles tagged "${tagLabel}"` : `${authorName} | Articles`,
+    description: FEED_DESCRIPTION,
+    authorName,
+    homeUrl: urlFor('/articles'),
+    siteUrl,
+    selfUrls: {
+      rss: urlFor(`${FEED_PATHS.rss}${query}`),
+      atom: urlFor(`${FEED_PATHS.atom}${query}`),
+      json: urlFor(`${FEED_PATHS.json}${query}`),
+    },
+    updated: items.reduce<Date>(
+      (latest, item) => (item.updated > latest ? item.updated : latest),
+      items[0]?.updated ?? new Date()
+    ),
+    items,
+  };
+}
+
+function renderRss(feed: Feed): string {
+  const items = feed.items.map((item) =>
+    [
+      '    <item>',
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="true">${escapeXml(item.id)}</guid>`,
+      `      <pubDate>${item.published.toUTCString()}</pubDate>`,
+      item.summary ? `      <description>${escapeXml(item.summary)}</description>` : null,
+      `      <content:encoded>${escapeXml(item.html)}</content:encoded>`,
+      ...item.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`),
+      '    </item>',
+    ]
+      .filter(Boolean)
+      .join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">',
+    '  <channel>',
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <link>${escapeXml(feed.homeUrl)}</link>`,
+    `    <description>${escapeXml(feed.description)}</description>`,
+    '    <language>en</language>',
+    `    <lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${escapeXml(feed.selfUrls.rss)}" rel="self" type="application/rss+xml" />`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
+
+function renderAtom(feed: Feed): string {
+  const entries = feed.items.map((item) =>
+    [
+      '  <entry>',
+      `    <id>${escapeXml(item.id)}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" type="text/html" href="${escapeXml(item.url)}" />`,
+      `    <published>${item.published.toISOString()}</published>`,
+      `    <updated>${item.updated.toISOString()}</updated>`,
+      item.summary ? `    <summary>${escapeXml(item.summary)}</summary>` : null,
+      `    <content type="html">${escapeXml(item.html)}</content>`,
+      ...item.tags.map((tag) => `    <category term="${escapeXml(tag)}" />`),
+      '  </entry>',
+    ]
+      .filter(Boolean)
+      .join('\n')
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">',
+    `  <id>${escapeXml(feed.selfUrls.atom)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <updated>${feed.updated.toISOString()}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.selfUrls.atom)}" />`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}" />`,
+    `  <author><name>${escapeXml(feed.authorName)}</name><uri>${escapeXml(feed.siteUrl)}</uri></author>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+function renderJson(feed: Feed): string {
+  return JSON.stringify(
+    {
+      version: 'https://jsonfeed.org/version/1.1',
+      title: feed.title,
+      home_page_url: feed.homeUrl,
+      feed_url: feed.selfUrls.json,
+      description: feed.description,
+      language: 'en',
+      authors: [{ name: feed.authorName, url: feed.siteUrl }],
+      items: feed.items.map((item) => ({
+        id: item.id,
+        url: item.url,
+        title: item.title,
+        content_html: item.html,
+        ...(item.summary ? { summary: item.summary } : {}),
+        date_published: item.published.toISOString(),
+        date_modified: item.updated.toISOString(),
+        ...(item.tags.length > 0 ? { tags: item.tags } : {}),
+      })),
+    },
+    null,
+    2
+  );
+}
+
+const RENDERERS: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJson,
+};
+
+// Changes whenever an item is added, removed or edited; Last-Modified alone misses removals, since
+// unpublishing an article leaves the newest date as it was.
+function feedEtag(feed: Feed, format: FeedFormat): string {
+  const hash = createHash('sha256').update(`${format}\n${feed.title}\n${feed.authorName}`);
+  for (const item of feed.items) {
+    hash.update(`\n${item.id}:${item.updated.getTime()}`);
+  }
+  return `"${hash.digest('hex').slice(0, 32)}"`;
+}
+
+function matchesEtag(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  return header.split(',').some((value) => {
+    const candidate = value.trim();
+    return candidate === '*' || candidate.replace(/^W\//, '') === etag;
+  });
+}
+
+// Shared GET handler for the feed routes. Honors If-None-Match / If-Modified-Since so polling
+// readers get a 304.
+export async function feedResponse(request: Request, format: FeedFormat): Promise<Response> {
+  try {
+    const tag = new URL(request.url).searchParams.get('tag')?.trim() || null;
+    const feed = await buildFeed(tag);
+
+    // HTTP dates have second precision.
+    const lastModified = new Date(Math.floor(feed.updated.getTime() / 1000) * 1000);
+    const etag = feedEtag(feed, format);
+    const headers = {
+      'Content-Type': CONTENT_TYPES[format],
+      'Last-Modified': lastModified.toUTCString(),
+      ETag: etag,
+      // A cookie-selected owner isn't part of the URL, so a shared cache could hand this feed to
+      // another owner's readers.
+      'Cache-Control': (await isOwnerFromCookie())
+        ? 'private, max-age=0'
+        : 'public, max-age=0, s-maxage=600, stale-while-revalidate=3600',
+    };
+
+    // If-None-Match takes precedence; If-Modified-Since is only used by clients without an ETag.
+    const ifNoneMatch = request.headers.get('if-none-match');
+    if (ifNoneMatch) {
+      if (matchesEtag(ifNoneMatch, etag)) return new NextResponse(null, { status: 304, headers });
+    } else {
+      const since = parseDate(request.headers.get('if-modified-since'));
+      if (feed.items.length > 0 && since && lastModified <= since) {
+        return new NextResponse(null, { status: 304, headers });
+      }
+    }
+
+    return new NextResponse(RENDERERS[format](feed), { headers });
+  } catch (error) {
+    console.error(`Feed (${format}) error:`, error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,91 +1,249 @@
-import { supabaseAdmin, DEFAULT_OWNER_ID, isSupabaseConfigured } from '@/lib/supabase';
-import { generateEmbedding, generateEmbeddingsBatched } from '@/lib/ai';
+import { createHash } from 'crypto';
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import {
+  embeddingColumns,
+  embeddingModelMigrationHint,
+  generateEmbeddingsBatched,
+  getEmbeddingProvider,
+  isMissingEmbeddingModelColumnError,
+} from '@/lib/embeddings';
+import { getOwnerId } from '@/lib/owner';
+import { invalidateResponseCache } from '@/lib/response-cache';
+import { invalidateRelatedContent } from '@/lib/related-content';
+import { chunkMarkdown, chunkMetadata } from '@/lib/chunker';
+
+// Indexing is incremental: each source's desired chunks are diffed against the stored ones by
+// content hash. Only new content is embedded and inserted, chunks that no longer exist are
+// deleted, and chunks whose text is unchanged keep their embedding (metadata is updated in place).
+// A stored chunk only counts as unchanged if it was embedded by the current embedding model, so
+// switching providers re-embeds everything on the next run instead of mixing vector spaces.
+
+export type IndexResult = {
+  added: number;
+  unchanged: number;
+  removed: number;
+};
 
-type ChunkInsert = {
-  owner_id: string;
-  source_type: string;
-  source_id: string;
+type ChunkDraft = {
   content: string;
-  embedding: number[];
   metadata: Record<string, unknown>;
 };
 
-function chunkText(text: string, maxChunkSize = 1000): string[] {
-  const normalized = String(text || '').replace(/\r\n/g, '\n').trim();
-  if (!normalized) return [];
+type StoredChunk = {
+  id: string;
+  content_hash: string | null;
+  embedding_model: string | null;
+  embedding_dims: number | null;
+  metadata: Record<string, unknown> | null;
+};
 
-  const chunks: string[] = [];
-  let currentChunk = '';
+// Reports embedded chunks so far out of those that need embedding.
+export type IndexProgress = (done: number, total: number) => void | Promise<void>;
 
-  const paragraphSplit = normalized.split(/\n{2,}/).map((p) => p.trim()).filter(Boolean);
-  const units = paragraphSplit.length > 1 ? paragraphSplit : normalized.split(/\n+/).map((l) => l.trim()).filter(Boolean);
+const EMPTY_RESULT: IndexResult = { added: 0, unchanged: 0, removed: 0 };
+const EMBED_BATCH_SIZE = 32;
 
-  const pushChunk = () => {
-    const trimmed = currentChunk.trim();
-    if (trimmed.length >= 50) chunks.push(trimmed);
-    currentChunk = '';
-  };
+export function contentHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
 
-  for (const unit of units) {
-    if (!unit) continue;
+function isMissingHashColumnError(error: unknown): boolean {
+  const e = error as { code?: unknown; message?: unknown } | null;
+  const code = typeof e?.code === 'string' ? e.code : '';
+  return (code === '42703' || code === 'PGRST204') && String(e?.message || '').includes('content_hash');
+}
 
-    // If a single unit is too large, flush current chunk and hard-split it.
-    if (unit.length > maxChunkSize) {
-      if (currentChunk) pushChunk();
-      for (let i = 0; i < unit.length; i += maxChunkSize) {
-        const slice = unit.slice(i, i + maxChunkSize).trim();
-        if (slice.length >= 50) chunks.push(slice);
-      }
-      continue;
-    }
+// Key order differs after a jsonb round trip, so compare canonical JSON.
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
 
-    if (currentChunk.length + unit.length + 2 > maxChunkSize && currentChunk) {
-      pushChunk();
-    }
+async function invalidateCaches(ownerId: string) {
+  await invalidateResponseCache(ownerId);
+  invalidateRelatedContent();
+}
 
-    currentChunk += (currentChunk ? '\n\n' : '') + unit;
+// Embeds and inserts in batches, so a run that dies part-way (e.g. a job hitting its time limit)
+// keeps what it inserted and a retry only embeds the rest.
+async function insertChunks(
+  ownerId: string,
+  sourceType: string,
+  sourceId: string,
+  drafts: ChunkDraft[],
+  tracked: boolean,
+  onProgress?: IndexProgress
+) {
+  for (let i = 0; i < drafts.length; i += EMBED_BATCH_SIZE) {
+    const batch = drafts.slice(i, i + EMBED_BATCH_SIZE);
+    const embeddings = await generateEmbeddingsBatched(
+      batch.map((draft) => draft.content),
+      EMBED_BATCH_SIZE
+    );
+    const rows = batch.map((draft, j) => ({
+      owner_id: ownerId,
+      source_type: sourceType,
+      source_id: sourceId,
+      content: draft.content,
+      embedding: embeddings[j],
+      metadata: draft.metadata,
+      ...(tracked ? { content_hash: contentHash(draft.content), ...embeddingColumns() } : {}),
+    }));
+
+    const { error } = await supabaseAdmin.from('chunks').insert(rows);
+    if (error) throw error;
+    await onProgress?.(i + batch.length, drafts.length);
   }
+}
 
-  if (currentChunk) pushChunk();
+async function deleteChunksById(ids: string[]) {
+  if (ids.length === 0) return;
+  const { error } = await supabaseAdmin.from('chunks').delete().in('id', ids);
+  if (error) throw error;
+}
 
-  return chunks;
+// Before the content_hash / embedding_model migrations: replace everything, as the indexer used to.
+// The old rows are deleted only once the new ones are in, so a failed embed leaves the source searchable.
+async function replaceChunksWithoutHashes(
+  ownerId: string,
+  sourceType: string,
+  sourceId: string,
+  drafts: ChunkDraft[],
+  onProgress?: IndexProgress
+): Promise<IndexResult> {
+  const { data, error } = await supabaseAdmin
+    .from('chunks')
+    .select('id')
+    .eq('owner_id', ownerId)
+    .eq('source_type', sourceType)
+    .eq('source_id', sourceId);
+  if (error) throw error;
+  const oldIds = ((data || []) as Array<{ id: string }>).map((row) => row.id);
+
+  try {
+    await insertChunks(ownerId, sourceType, sourceId, drafts, false, onProgress);
+    await deleteChunksById(oldIds);
+  } finally {
+    await invalidateCaches(ownerId);
+  }
+  return { added: drafts.length, unchanged: 0, removed: oldIds.length };
 }
 
-async function replaceChunks(sourceType: string, sourceId: string, chunks: ChunkInsert[]) {
-  if (!isSupabaseConfigured()) return;
+async function syncChunks(
+  ownerId: string,
+  sourceType: string,
+  sourceId: string,
+  drafts: ChunkDraft[],
+  onProgress?: IndexProgress
+): Promise<IndexResult> {
+  if (!isSupabaseConfigured()) return { ...EMPTY_RESULT };
 
-  await supabaseAdmin
+  const { data, error } = await supabaseAdmin
     .from('chunks')
-    .delete()
-    .eq('owner_id', DEFAULT_OWNER_ID)
+    .select('id, content_hash, embedding_model, embedding_dims, metadata')
+    .eq('owner_id', ownerId)
     .eq('source_type', sourceType)
     .eq('source_id', sourceId);
 
-  if (chunks.length === 0) return;
-
-  const { error } = await supabaseAdmin.from('chunks').insert(chunks);
+  if (error && isMissingHashColumnError(error)) {
+    console.warn('chunks.content_hash is missing; run database/migrations/20261018_add_chunk_content_hash.sql');
+    return replaceChunksWithoutHashes(ownerId, sourceType, sourceId, drafts, onProgress);
+  }
+  if (error && isMissingEmbeddingModelColumnError(error)) {
+    console.warn(embeddingModelMigrationHint());
+    return replaceChunksWithoutHashes(ownerId, sourceType, sourceId, drafts, onProgress);
+  }
   if (error) throw error;
+
+  // Stored rows by hash (a list, since a source may repeat a chunk verbatim). Rows without a hash
+  // predate the migration, and rows from another embedding model can't be searched; both are replaced.
+  const { model, dimensions } = getEmbeddingProvider();
+  const storedByHash = new Map<string, StoredChunk[]>();
+  const orphans: StoredChunk[] = [];
+  for (const row of (data || []) as StoredChunk[]) {
+    if (!row.content_hash || row.embedding_model !== model || row.embedding_dims !== dimensions) {
+      orphans.push(row);
+      continue;
+    }
+    const list = storedByHash.get(row.content_hash) || [];
+    list.push(row);
+    storedByHash.set(row.content_hash, list);
+  }
+
+  const toInsert: ChunkDraft[] = [];
+  const metadataUpdates: Array<{ id: string; metadata: Record<string, unknown> }> = [];
+  let unchanged = 0;
+
+  for (const draft of drafts) {
+    const match = storedByHash.get(contentHash(draft.content))?.shift();
+    if (!match) {
+      toInsert.push(draft);
+      continue;
+    }
+    unchanged += 1;
+    if (canonicalJson(match.metadata || {}) !== canonicalJson(draft.metadata)) {
+      metadataUpdates.push({ id: match.id, metadata: draft.metadata });
+    }
+  }
+  for (const rows of storedByHash.values()) orphans.push(...rows);
+
+  // New chunks go in before orphans come out, so a failed embed never leaves the source missing
+  // from search. Caches are dropped even if a step fails, since earlier steps may have written.
+  const changed = toInsert.length > 0 || orphans.length > 0 || metadataUpdates.length > 0;
+  try {
+    await insertChunks(ownerId, sourceType, sourceId, toInsert, true, onProgress);
+
+    for (const update of metadataUpdates) {
+      const { error: updateError } = await supabaseAdmin
+        .from('chunks')
+        .update({ metadata: update.metadata })
+        .eq('id', update.id);
+      if (updateError) throw updateError;
+    }
+
+    await deleteChunksById(orphans.map((row) => row.id));
+  } finally {
+    if (changed) await invalidateCaches(ownerId);
+  }
+
+  return { added: toInsert.length, unchanged, removed: orphans.length };
 }
 
-export async function deleteSourceChunks(sourceType: string, sourceId: string) {
-  if (!isSupabaseConfigured()) return;
+// Every indexer entry point takes an optional ownerId; it defaults to the request's owner.
+export async function deleteSourceChunks(sourceType: string, sourceId: string, ownerId?: string): Promise<IndexResult> {
+  if (!isSupabaseConfigured()) return { ...EMPTY_RESULT };
 
-  await supabaseAdmin
+  const resolvedOwnerId = ownerId ?? (await getOwnerId());
+  const { count, error } = await supabaseAdmin
     .from('chunks')
-    .delete()
-    .eq('owner_id', DEFAULT_OWNER_ID)
+    .delete({ count: 'exact' })
+    .eq('owner_id', resolvedOwnerId)
     .eq('source_type', sourceType)
     .eq('source_id', sourceId);
+  if (error) throw error;
+
+  if (count) await invalidateCaches(resolvedOwnerId);
+  return { added: 0, unchanged: 0, removed: count ?? 0 };
 }
 
-export async function indexProject(project: {
-  id: string;
-  title: string;
-  slug: string;
-  subtitle?: string | null;
-  description: string;
-  details?: string | null;
-}) {
+export async function indexProject(
+  project: {
+    id: string;
+    title: string;
+    slug: string;
+    subtitle?: string | null;
+    description: string;
+    details?: string | null;
+  },
+  ownerId?: string
+): Promise<IndexResult> {
+  const owner = ownerId ?? (await getOwnerId());
   const header = [
     `Project: ${project.title}`,
     project.subtitle ? `Subtitle: ${project.subtitle}` : null,
@@ -98,73 +256,65 @@ export async function indexProject(project: {
     project.details ? `Deep dive:\n${project.details}` : null,
   ].filter(Boolean);
 
-  const parts = chunkText(bodyParts.join('\n\n'), 1000);
-  const contents = parts.map((part) => `${header}\n\n${part}`);
-  const embeddings = await generateEmbeddingsBatched(contents, 32);
-
-  const chunks: ChunkInsert[] = contents.map((content, i) => ({
-    owner_id: DEFAULT_OWNER_ID,
-    source_type: 'project',
-    source_id: project.id,
+  const parts = chunkMarkdown(bodyParts.join('\n\n'));
+  const contents = parts.map((part) => `${header}\n\n${part.content}`);
+  const chunks: ChunkDraft[] = contents.map((content, i) => ({
     content,
-    embedding: embeddings[i],
     metadata: {
       title: project.title,
       slug: project.slug,
       chunk_index: i,
       total_chunks: parts.length,
+      ...chunkMetadata(parts[i]),
     },
   }));
 
-  await replaceChunks('project', project.id, chunks);
+  return syncChunks(owner, 'project', project.id, chunks);
 }
 
-export async function indexArticle(article: {
-  id: string;
-  title: string;
-  slug: string;
-  content: string;
-}) {
-  const parts = chunkText(article.content, 1000);
-
-  const contents = parts.map((part) => `Article: ${article.title}\n\n${part}`);
-  const embeddings = await generateEmbeddingsBatched(contents, 32);
-
-  const chunks: ChunkInsert[] = contents.map((content, i) => ({
-    owner_id: DEFAULT_OWNER_ID,
-    source_type: 'article',
-    source_id: article.id,
+export async function indexArticle(
+  article: {
+    id: string;
+    title: string;
+    slug: string;
+    content: string;
+  },
+  ownerId?: string
+): Promise<IndexResult> {
+  const owner = ownerId ?? (await getOwnerId());
+  const parts = chunkMarkdown(article.content);
+
+  const contents = parts.map((part) => `Article: ${article.title}\n\n${part.content}`);
+  const chunks: ChunkDraft[] = contents.map((content, i) => ({
     content,
-    embedding: embeddings[i],
     metadata: {
       title: article.title,
       slug: article.slug,
       chunk_index: i,
       total_chunks: parts.length,
+      ...chunkMetadata(parts[i]),
     },
   }));
 
-  await replaceChunks('article', article.id, chunks);
+  return syncChunks(owner, 'article', article.id, chunks);
 }
 
-export async function indexStory(story: {
-  id: string;
-  title: string;
-  situation: string;
-  task: string;
-  action: string;
-  result: string;
-}) {
+export async function indexStory(
+  story: {
+    id: string;
+    title: string;
+    situation: string;
+    task: string;
+    action: string;
+    result: string;
+  },
+  ownerId?: string
+): Promise<IndexResult> {
+  const owner = ownerId ?? (await getOwnerId());
   const content = `Story: ${story.title}\n\nSituation: ${story.situation}\nTask: ${story.task}\nAction: ${story.action}\nResult: ${story.result}`;
-  const embedding = await generateEmbedding(content);
-
-  const chunks: ChunkInsert[] = [
+  const chunks: ChunkDraft[] = [
     {
-      owner_id: DEFAULT_OWNER_ID,
-      source_type: 'story',
-      source_id: story.id,
       content,
-      embedding,
       metadata: {
         title: story.title,
         story_id: story.id,
@@ -172,22 +322,26 @@ export async function indexStory(story: {
     },
   ];
 
-  await replaceChunks('story', story.id, chunks);
+  return syncChunks(owner, 'story', story.id, chunks);
 }
 
-export async function indexExperience(experience: {
-  id: string;
-  company: string;
-  role: string;
-  location?: string | null;
-  employment_type?: string | null;
-  start_date?: string | null;
-  end_date?: string | null;
-  summary?: string | null;
-  details?: string | null;
-  highlights?: string[] | null;
-  tech_stack?: string[] | null;
-}) {
+export async function indexExperience(
+  experience: {
+    id: string;
+    company: string;
+    role: string;
+    location?: string | null;
+    employment_type?: string | null;
+    start_date?: string | null;
+    end_date?: string | null;
+    summary?: string | null;
+    details?: string | null;
+    highlights?: string[] | null;
+    tech_stack?: string[] | null;
+  },
+  ownerId?: string
+): Promise<IndexResult> {
+  const owner = ownerId ?? (await getOwnerId());
   const title = `${experience.role} @ ${experience.company}`;
   const dates =
     experience.start_date || experience.end_date
@@ -212,36 +366,35 @@ export async function indexExperience(experience: {
 
   const body = highlights.length > 0 ? `\n\nHighlights:\n- ${highlights.join('\n- ')}` : '';
   const details = experience.details ? `\n\nDetailed narrative:\n${experience.details}` : '';
-  const parts = chunkText(`${meta}${body}${details}`, 1000);
-
-  const contents = parts.map((part) => part);
-  const embeddings = await generateEmbeddingsBatched(contents, 32);
+  const parts = chunkMarkdown(`${meta}${body}${details}`);
 
-  const chunks: ChunkInsert[] = contents.map((content, i) => ({
-    owner_id: DEFAULT_OWNER_ID,
-    source_type: 'experience',
-    source_id: experience.id,
+  const contents = parts.map((part) => part.content);
+  const chunks: ChunkDraft[] = contents.map((content, i) => ({
     content,
-    embedding: embeddings[i],
     metadata: {
       title,
       chunk_index: i,
       total_chunks: parts.length,
+      ...chunkMetadata(parts[i]),
     },
   }));
 
-  await replaceChunks('experience', experience.id, chunks);
+  return syncChunks(owner, 'experience', experience.id, chunks);
 }
 
-export async function indexSkill(skill: {
-  id: string;
-  name: string;
-  category?: string | null;
-  proficiency?: number | null;
-  years_of_experience?: number | null;
-  icon?: string | null;
-  is_primary?: boolean | null;
-}) {
+export async function indexSkill(
+  skill: {
+    id: string;
+    name: string;
+    category?: string | null;
+    proficiency?: number | null;
+    years_of_experience?: number | null;
+    icon?: string | null;
+    is_primary?: boolean | null;
+  },
+  ownerId?: string
+): Promise<IndexResult> {
+  const owner = ownerId ?? (await getOwnerId());
   const content = [
     `Skill: ${skill.name}`,
     skill.category ? `Category: ${skill.category}` : null,
@@ -252,15 +405,9 @@ export async function indexSkill(skill: {
     .filter(Boolean)
     .join('\n');
 
-  const embedding = await generateEmbedding(content);
-
-  const chunks: ChunkInsert[] = [
+  const chunks: ChunkDraft[] = [
     {
-      owner_id: DEFAULT_OWNER_ID,
-      source_type: 'skill',
-      source_id: skill.id,
       content,
-      embedding,
       metadata: {
         title: skill.name,
         skill_id: skill.id,
@@ -268,34 +415,94 @@ export async function indexSkill(skill: {
     },
   ];
 
-  await replaceChunks('skill', skill.id, chunks);
+  return syncChunks(owner, 'skill', skill.id, chunks);
 }
 
-export async function indexResume(resume: {
-  id?: string;
-  title?: string;
-  content: string;
-  owner_id?: string;
-}) {
+export async function indexResume(
+  resume: {
+    id?: string;
+    title?: string;
+    content: string;
+    owner_id?: string;
+  },
+  ownerId?: string,
+  onProgress?: IndexProgress
+): Promise<IndexResult> {
+  const owner = ownerId ?? resume.owner_id ?? (await getOwnerId());
   const sourceId = resume.id || 'resume';
   const title = resume.title || 'Resume';
-  const parts = chunkText(resume.content, 1000);
-
-  const contents = parts.map((part) => `Resume: ${title}\n\n${part}`);
-  const embeddings = await generateEmbeddingsBatched(contents, 32);
+  const parts = chunkMarkdown(resume.content);
 
-  const chunks: ChunkInsert[] = contents.map((content, i) => ({
-    owner_id: DEFAULT_OWNER_ID,
-    source_type: 'resume',
-    source_id: sourceId,
+  const contents = parts.map((part) => `Resume: ${title}\n\n${part.content}`);
+  const chunks: ChunkDraft[] = contents.map((content, i) => ({
     content,
-    embedding: embeddings[i],
     metadata: {
       title,
       chunk_index: i,
       total_chunks: parts.length,
+      ...chunkMetadata(parts[i]),
+    },
+  }));
+
+  return syncChunks(owner, 'resume', sourceId, chunks, onProgress);
+}
+
+// Free-form knowledge (not backed by a content table), e.g. reviewed chat corrections.
+// Stored as article-type chunks under a `kb:` source id, like text added via the knowledge base.
+export async function indexKnowledgeText(
+  entry: {
+    sourceId: string;
+    title: string;
+    content: string;
+    metadata?: Record<string, unknown>;
+  },
+  ownerId?: string
+): Promise<IndexResult> {
+  const owner = ownerId ?? (await getOwnerId());
+  const parts = chunkMarkdown(entry.content);
+
+  const contents = parts.map((part) => `${entry.title}\n\n${part.content}`);
+  const chunks: ChunkDraft[] = contents.map((content, i) => ({
+    content,
+    metadata: {
+      ...entry.metadata,
+      title: entry.title,
+      kb_id: entry.sourceId,
+      chunk_index: i,
+      total_chunks: parts.length,
+      ...chunkMetadata(parts[i]),
+    },
+  }));
+
+  return syncChunks(owner, 'article', entry.sourceId, chunks);
+}
+
+// An uploaded document (knowledge base upload). Chunks are stored as-is, under a `kb:file:` id.
+export async function indexKnowledgeFile(
+  file: {
+    sourceType: string;
+    sourceId: string;
+    title: string;
+    fileName: string;
+    content: string;
+  },
+  ownerId?: string,
+  onProgress?: IndexProgress
+): Promise<IndexResult> {
+  const owner = ownerId ?? (await getOwnerId());
+  const parts = chunkMarkdown(file.content);
+
+  const chunks: ChunkDraft[] = parts.map((part, i) => ({
+    content: part.content,
+    metadata: {
+      title: file.title,
+      kb_id: file.sourceId,
+      original_filename: file.fileName,
+      chunk_index: i,
+      total_chunks: parts.length,
+      ...chunkMetadata(part),
     },
   }));
 
-  await replaceChunks('resume', sourceId, chunks);
+  return syncChunks(owner, file.sourceType, file.sourceId, chunks, onProgress);
 }
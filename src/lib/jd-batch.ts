@@ -0,0 +1,220 @@
+import { JD_MAX_CHARS, runJDMatch } from '@/lib/jd-match';
+import type { SiteSettings } from '@/lib/site-settings-types';
+import type { RequirementEvidence } from '@/types';
+
+export type JDBatchItem = {
+  id: string;
+  title: string | null;
+  url: string | null;
+  jd: string;
+};
+
+export type JDBatchResult = {
+  id: string;
+  title: string | null;
+  url: string | null;
+  ok: boolean;
+  error?: string;
+  rank?: number;
+  match_score?: number;
+  summary?: string;
+  matched_skills?: string[];
+  gaps?: string[];
+  requirements?: RequirementEvidence[];
+  relevant_projects?: Array<{ slug: string; title: string }>;
+  report_markdown?: string;
+  elapsed_ms: number;
+};
+
+const MIN_JD_CHARS = 50;
+const JD_TEXT_KEYS = ['jd', 'job_description', 'description', 'text', 'content'];
+const DEFAULT_MAX_ITEMS = 25;
+const DEFAULT_CONCURRENCY = 3;
+
+export function getJDBatchLimits(): { maxItems: number; concurrency: number } {
+  const maxItems = Number(process.env.JD_BATCH_MAX_ITEMS);
+  const concurrency = Number(process.env.JD_BATCH_CONCURRENCY);
+  return {
+    maxItems: Number.isFinite(maxItems) && maxItems > 0 ? Math.floor(maxItems) : DEFAULT_MAX_ITEMS,
+    concurrency:
+      Number.isFinite(concurrency) && concurrency > 0 ? Math.min(10, Math.floor(concurrency)) : DEFAULT_CONCURRENCY,
+  };
+}
+
+function pickString(row: Record<string, unknown>, keys: string[]): string {
+  for (const key of keys) {
+    const value = row[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return '';
+}
+
+// Accepts a bare string or an object with `jd` (or description/text) plus optional id/title/url.
+function toBatchItem(raw: unknown, index: number): JDBatchItem | null {
+  if (typeof raw === 'string') {
+    return raw.trim() ? { id: String(index + 1), title: null, url: null, jd: raw.trim() } : null;
+  }
+  if (!raw || typeof raw !== 'object') return null;
+
+  const row = raw as Record<string, unknown>;
+  const jd = pickString(row, JD_TEXT_KEYS);
+  if (!jd) return null;
+
+  const rawId = row.id;
+  return {
+    id: typeof rawId === 'string' || typeof rawId === 'number' ? String(rawId) : String(index + 1),
+    title: pickString(row, ['title', 'job_title', 'role']) || null,
+    url: pickString(row, ['url', 'jd_url', 'link']) || null,
+    jd,
+  };
+}
+
+export function normalizeBatchItems(values: unknown[]): JDBatchItem[] {
+  return values.flatMap((v, i) => {
+    const item = toBatchItem(v, i);
+    return item ? [item] : [];
+  });
+}
+
+// RFC 4180-style CSV: quoted fields may contain commas, newlines, and doubled quotes.
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+export function parseJDBatchCsv(text: string): JDBatchItem[] {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((h) => h.trim().toLowerCase());
+  const hasHeader = header.some((h) => JD_TEXT_KEYS.includes(h));
+  if (!hasHeader) {
+    // No recognizable header: one JD per row, first column.
+    return normalizeBatchItems(rows.map((r) => r[0] || ''));
+  }
+
+  return normalizeBatchItems(
+    rows.slice(1).map((r) => Object.fromEntries(header.map((h, i) => [h, r[i] ?? ''])))
+  );
+}
+
+export function parseJDBatchJsonl(text: string): JDBatchItem[] {
+  const values: unknown[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      values.push(JSON.parse(trimmed));
+    } catch {
+      throw new Error(`Invalid JSONL line: ${trimmed.slice(0, 60)}`);
+    }
+  }
+  return normalizeBatchItems(values);
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Runs every JD through the single-match pipeline and ranks successful results by score.
+// LLM reports are off by default: they dominate latency and the comparison table doesn't need them.
+export async function runJDMatchBatch(
+  items: JDBatchItem[],
+  options: { ownerId: string; siteSettings: SiteSettings; concurrency: number; report?: boolean }
+): Promise<JDBatchResult[]> {
+  const results = await mapWithConcurrency(items, options.concurrency, async (item): Promise<JDBatchResult> => {
+    const startedAt = Date.now();
+    const base = { id: item.id, title: item.title, url: item.url };
+
+    if (item.jd.length < MIN_JD_CHARS) {
+      return { ...base, ok: false, error: `Job description is too short (min ${MIN_JD_CHARS} characters)`, elapsed_ms: 0 };
+    }
+
+    try {
+      const match = await runJDMatch(item.jd.slice(0, JD_MAX_CHARS), {
+        ownerId: options.ownerId,
+        siteSettings: options.siteSettings,
+        report: options.report === true,
+      });
+
+      return {
+        ...base,
+        ok: true,
+        match_score: match.match_score,
+        summary: match.summary,
+        matched_skills: match.matched_skills.map((m) => m.skill.name),
+        gaps: match.gaps,
+        requirements: match.requirements,
+        relevant_projects: match.relevant_projects.slice(0, 3).map((p) => ({ slug: p.slug, title: p.title })),
+        ...(options.report === true ? { report_markdown: match.report_markdown } : {}),
+        elapsed_ms: Date.now() - startedAt,
+      };
+    } catch (error) {
+      console.error(`JD batch item ${item.id} failed:`, error);
+      return { ...base, ok: false, error: 'Match failed', elapsed_ms: Date.now() - startedAt };
+    }
+  });
+
+  const ranked = results
+    .filter((r) => r.ok)
+    .sort((a, b) => (b.match_score ?? 0) - (a.match_score ?? 0))
+    .map((r, idx) => ({ ...r, rank: idx + 1 }));
+
+  return [...ranked, ...results.filter((r) => !r.ok)];
+}
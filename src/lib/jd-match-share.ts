@@ -0,0 +1,86 @@
+import { signValue, verifySignedValue } from '@/lib/admin-session';
+import type { JDMatchResult } from '@/types';
+
+// Shareable JD match summary card. The summary is signed into the link itself (no table): the
+// score comes from our own match run, so a visitor can share it but can't edit it. Only the
+// score, role and top matched skills go in the link, never the JD text.
+
+export type JDMatchShareSummary = {
+  score: number;
+  title: string | null;
+  company: string | null;
+  skills: string[];
+  required: { matched: number; total: number } | null;
+  createdAt: string;
+};
+
+// Compact keys keep the URL short.
+type EncodedSummary = {
+  s: number;
+  t?: string;
+  c?: string;
+  k: string[];
+  r?: [number, number];
+  d: string;
+};
+
+const MAX_SHARED_SKILLS = 6;
+const MAX_TOKEN_LENGTH = 1500;
+
+function clip(value: string | null | undefined, max: number): string | undefined {
+  const trimmed = String(value || '').trim();
+  return trimmed ? trimmed.slice(0, max) : undefined;
+}
+
+function signedPayload(ownerId: string, encoded: string): string {
+  return `jdmatch.${ownerId}.${encoded}`;
+}
+
+export async function createJDMatchShareToken(result: JDMatchResult, ownerId: string): Promise<string> {
+  const skills: string[] = [];
+  for (const match of result.matched_skills || []) {
+    const name = clip(match.skill?.name, 40);
+    if (name && !skills.includes(name)) skills.push(name);
+    if (skills.length >= MAX_SHARED_SKILLS) break;
+  }
+
+  const required = result.score_breakdown?.weighted_requirements.required;
+  const summary: EncodedSummary = {
+    s: Math.round(result.match_score),
+    t: clip(result.posting?.title, 120),
+    c: clip(result.posting?.company, 80),
+    k: skills,
+    r: required && required.total > 0 ? [required.matched, required.total] : undefined,
+    d: new Date().toISOString().slice(0, 10),
+  };
+
+  const encoded = Buffer.from(JSON.stringify(summary)).toString('base64url');
+  return `${encoded}.${await signValue('jdmatch-share', signedPayload(ownerId, encoded))}`;
+}
+
+export async function readJDMatchShareToken(
+  token: string | null | undefined,
+  ownerId: string
+): Promise<JDMatchShareSummary | null> {
+  if (!token || token.length > MAX_TOKEN_LENGTH) return null;
+
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) return null;
+  if (!(await verifySignedValue('jdmatch-share', signedPayload(ownerId, encoded), signature))) return null;
+
+  try {
+    const raw = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as Partial<EncodedSummary>;
+    if (typeof raw.s !== 'number') return null;
+
+    return {
+      score: Math.max(0, Math.min(100, raw.s)),
+      title: typeof raw.t === 'string' ? raw.t : null,
+      company: typeof raw.c === 'string' ? raw.c : null,
+      skills: Array.isArray(raw.k) ? raw.k.filter((k): k is string => typeof k === 'string') : [],
+      required: Array.isArray(raw.r) && raw.r.length === 2 ? { matched: raw.r[0], total: raw.r[1] } : null,
+      createdAt: typeof raw.d === 'string' ? raw.d : '',
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,182 @@
+import { createHash, randomUUID } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabase';
+import { ownerStoragePath } from '@/lib/tenants';
+import { indexKnowledgeFile, indexResume } from '@/lib/indexer';
+import { extractTextFromPdf } from '@/lib/pdf';
+import { importSkillsFromText } from '@/lib/skills-import';
+import { rebuildIndex } from '@/lib/reindex';
+import { slugify } from '@/lib/slug';
+import type { JobContext, JobHandler } from '@/lib/jobs';
+import type { JobType } from '@/types';
+
+// What each job type does. Handlers must be safe to re-run: a retry or a paused run starts from the
+// payload again, and the indexer skips chunks an earlier run already stored. Handlers call
+// `checkpoint` after each stored chunk batch (or rebuilt source) so a long job can pause there and
+// resume on the next worker run instead of hitting the function's time limit.
+
+const JOB_UPLOADS_BUCKET = process.env.SUPABASE_JOBS_BUCKET || 'chengai-jobs';
+
+export const KNOWLEDGE_FILE_TYPES = new Set(['pdf', 'docx', 'txt', 'md', 'markdown']);
+
+export function fileExtension(fileName: string): string {
+  return fileName.split('.').pop()?.toLowerCase() || '';
+}
+
+export function makeStableKbId(prefix: string, raw: string): string {
+  const normalized = String(raw || '').trim();
+  const slug = slugify(normalized) || 'untitled';
+  const hash = createHash('sha256').update(normalized).digest('hex').slice(0, 10);
+  return `${prefix}:${slug}:${hash}`;
+}
+
+async function ensureBucket(bucket: string) {
+  const { data: buckets, error } = await supabaseAdmin.storage.listBuckets();
+  if (error) throw error;
+  if (Array.isArray(buckets) && buckets.some((b) => b.name === bucket)) return;
+
+  const { error: createError } = await supabaseAdmin.storage.createBucket(bucket, { public: false });
+  if (createError) throw createError;
+}
+
+// Uploaded files are handed to the worker through storage rather than the job payload.
+export async function storeJobUpload(
+  ownerId: string,
+  fileName: string,
+  buffer: Buffer,
+  contentType: string
+): Promise<{ bucket: string; path: string }> {
+  await ensureBucket(JOB_UPLOADS_BUCKET);
+
+  const path = ownerStoragePath(ownerId, `uploads/${randomUUID()}/${slugify(fileName) || 'file'}`);
+  const { error } = await supabaseAdmin.storage
+    .from(JOB_UPLOADS_BUCKET)
+    .upload(path, buffer, { upsert: true, contentType: contentType || 'application/octet-stream' });
+  if (error) throw error;
+
+  return { bucket: JOB_UPLOADS_BUCKET, path };
+}
+
+async function downloadObject(bucket: string, path: string): Promise<Buffer> {
+  const { data, error } = await supabaseAdmin.storage.from(bucket).download(path);
+  if (error) throw error;
+  return Buffer.from(await data.arrayBuffer());
+}
+
+async function removeObject(bucket: string, path: string) {
+  const { error } = await supabaseAdmin.storage.from(bucket).remove([path]);
+  if (error) console.warn('Job upload cleanup failed:', path, error);
+}
+
+async function parseDocx(buffer: Buffer): Promise<string> {
+  const mammothModule = await import('mammoth');
+  const extractRawText =
+    typeof mammothModule.extractRawText === 'function'
+      ? mammothModule.extractRawText
+      : typeof mammothModule.default?.extractRawText === 'function'
+        ? mammothModule.default.extractRawText
+        : null;
+
+  if (!extractRawText) throw new Error('Invalid mammoth module export shape');
+
+  const result = await extractRawText({ buffer });
+  return result.value;
+}
+
+async function extractText(fileName: string, buffer: Buffer): Promise<string> {
+  const ext = fileExtension(fileName);
+  if (ext === 'pdf') return extractTextFromPdf(buffer);
+  if (ext === 'docx') return parseDocx(buffer);
+  if (ext === 'txt' || ext === 'md' || ext === 'markdown') return buffer.toString('utf-8');
+  throw new Error(`Unsupported file type: ${ext}`);
+}
+
+function requireString(payload: Record<string, unknown>, key: string): string {
+  const value = payload[key];
+  if (typeof value !== 'string' || !value) throw new Error(`Job payload is missing "${key}"`);
+  return value;
+}
+
+// Progress callback for the indexer: reports, then offers a pause point while work remains.
+function batchProgress(
+  context: Pick<JobContext, 'progress' | 'checkpoint'>,
+  from: number,
+  span: number
+) {
+  return async (done: number, total: number) => {
+    await context.progress(from + Math.round((done / Math.max(1, total)) * span), `Embedded ${done}/${total} chunks`);
+    if (done < total) context.checkpoint();
+  };
+}
+
+const knowledgeUpload: JobHandler = async ({ job, ownerId, progress, checkpoint }) => {
+  const bucket = requireString(job.payload, 'bucket');
+  const path = requireString(job.payload, 'path');
+  const fileName = requireString(job.payload, 'file_name');
+  const sourceType = requireString(job.payload, 'source_type');
+
+  await progress(5, `Parsing ${fileName}`);
+  const content = await extractText(fileName, await downloadObject(bucket, path));
+  if (!content || content.trim().length < 10) {
+    throw new Error('File appears to be empty or unreadable');
+  }
+
+  const title = fileName.replace(/\.[^/.]+$/, '');
+  const sourceId = makeStableKbId('kb:file', fileName);
+  await progress(15, 'Embedding chunks');
+  const chunks = await indexKnowledgeFile(
+    { sourceType, sourceId, title, fileName, content },
+    ownerId,
+    batchProgress({ progress, checkpoint }, 15, 80)
+  );
+
+  await removeObject(bucket, path);
+  return { file_name: title, source_id: sourceId, ...chunks };
+};
+
+const resumeIndex: JobHandler = async ({ job, ownerId, progress, checkpoint }) => {
+  const bucket = requireString(job.payload, 'bucket');
+  const path = requireString(job.payload, 'path');
+  const fileName = requireString(job.payload, 'file_name');
+
+  await progress(5, 'Extracting resume text');
+  const text = (await extractText(fileName, await downloadObject(bucket, path))).trim();
+  if (text.length < 50) {
+    await removeObject(bucket, path);
+    return { indexed: false, skills: null, warning: 'Uploaded file, but could not extract meaningful text for indexing.' };
+  }
+
+  await progress(15, 'Embedding chunks');
+  const chunks = await indexResume(
+    { id: 'resume', title: 'Resume', content: text, owner_id: ownerId },
+    ownerId,
+    batchProgress({ progress, checkpoint }, 15, 70)
+  );
+
+  await progress(90, 'Importing skills');
+  let skills: { added: number; skipped: number } | null = null;
+  let warning: string | null = null;
+  try {
+    const imported = await importSkillsFromText(text, ownerId);
+    skills = { added: imported.added, skipped: imported.skipped };
+  } catch (skillError) {
+    console.warn('Resume skill import failed:', skillError);
+    warning = 'Indexed resume, but failed to import skills from resume text.';
+  }
+
+  await removeObject(bucket, path);
+  return { indexed: true, chunks, skills, warning };
+};
+
+const rebuild: JobHandler = async ({ ownerId, progress, checkpoint }) => {
+  const report = await rebuildIndex(ownerId, async (done, total, sourceType) => {
+    await progress(Math.round((done / Math.max(1, total)) * 90), `Indexed ${done}/${total} sources (${sourceType})`);
+    if (done < total) checkpoint();
+  });
+  return report;
+};
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  knowledge_upload: knowledgeUpload,
+  resume_index: resumeIndex,
+  rebuild,
+};
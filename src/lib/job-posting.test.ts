@@ -0,0 +1,190 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import {
+  detectAts,
+  extractJobPostingFromHtml,
+  fetchJobPosting,
+  isPrivateAddress,
+  jobPostingToText,
+  parseGreenhouseJob,
+  parseLeverPosting,
+} from '@/lib/job-posting';
+
+// Saved API responses and pages (trimmed to the fields the parsers read, plus some they ignore).
+function fixture(name: string): string {
+  return readFileSync(path.join(__dirname, '__fixtures__', 'job-posting', name), 'utf8');
+}
+
+describe('detectAts', () => {
+  test('recognizes Greenhouse, Lever and Ashby job URLs', () => {
+    assert.deepEqual(detectAts(new URL('https://boards.greenhouse.io/acme/jobs/4012345')), {
+      ats: 'greenhouse',
+      board: 'acme',
+      jobId: '4012345',
+    });
+    assert.deepEqual(detectAts(new URL('https://boards.greenhouse.io/embed/job_app?for=acme&token=4012345')), {
+      ats: 'greenhouse',
+      board: 'acme',
+      jobId: '4012345',
+    });
+    assert.deepEqual(detectAts(new URL('https://jobs.lever.co/northwind/5f3c2a1b/apply')), {
+      ats: 'lever',
+      company: 'northwind',
+      postingId: '5f3c2a1b',
+    });
+    assert.deepEqual(detectAts(new URL('https://jobs.ashbyhq.com/contoso/a1b2c3d4')), {
+      ats: 'ashby',
+      org: 'contoso',
+      jobId: 'a1b2c3d4',
+    });
+  });
+
+  test('ignores other hosts and board index pages', () => {
+    assert.equal(detectAts(new URL('https://careers.fabrikam.example/jobs/1')), null);
+    assert.equal(detectAts(new URL('https://boards.greenhouse.io/acme')), null);
+    assert.equal(detectAts(new URL('https://jobs.lever.co/northwind')), null);
+  });
+});
+
+describe('parseGreenhouseJob', () => {
+  test('decodes the entity-encoded content', () => {
+    const posting = parseGreenhouseJob(JSON.parse(fixture('greenhouse-job.json')), 'https://boards.greenhouse.io/acme/jobs/4012345');
+    assert.ok(posting);
+    assert.equal(posting.source, 'greenhouse');
+    assert.equal(posting.title, 'Senior Software Engineer, Search & Retrieval');
+    assert.equal(posting.company, 'Acme Robotics');
+    assert.equal(posting.location, 'San Francisco, CA');
+    assert.match(posting.description, /^Acme builds software for warehouse robots\. We are hiring/);
+    assert.match(posting.description, /What you'll do/);
+    assert.match(posting.description, /\n- Design retrieval pipelines over Postgres and pgvector\n/);
+    assert.doesNotMatch(posting.description, /<|&lt;|&amp;/);
+  });
+
+  test('rejects responses without content', () => {
+    assert.equal(parseGreenhouseJob({ title: 'No content' }, 'u'), null);
+    assert.equal(parseGreenhouseJob(null, 'u'), null);
+  });
+});
+
+describe('parseLeverPosting', () => {
+  test('joins the opening, the lists and the closing section', () => {
+    const posting = parseLeverPosting(JSON.parse(fixture('lever-posting.json')), 'https://jobs.lever.co/northwind/5f3c2a1b');
+    assert.ok(posting);
+    assert.equal(posting.source, 'lever');
+    assert.equal(posting.title, 'Platform Engineer');
+    assert.equal(posting.location, 'Remote - US');
+    assert.equal(
+      posting.description,
+      [
+        'About the role\nNorthwind is looking for a platform engineer to scale our data ingestion.',
+        'Responsibilities\n- Run Kubernetes clusters across three regions\n- Own the Kafka ingestion pipeline',
+        'Qualifications\n- Strong Go or TypeScript\n- Experience with Terraform',
+        'We offer competitive pay, equity and a "no meetings" Wednesday.',
+      ].join('\n\n')
+    );
+  });
+
+  test('falls back to the plain description', () => {
+    const posting = parseLeverPosting({ text: 'Engineer', descriptionPlain: 'Plain text only.' }, 'u');
+    assert.equal(posting?.description, 'Plain text only.');
+  });
+});
+
+describe('extractJobPostingFromHtml', () => {
+  test('reads the Ashby app data', () => {
+    const posting = extractJobPostingFromHtml(fixture('ashby-job.html'), 'https://jobs.ashbyhq.com/contoso/a1b2c3d4');
+    assert.ok(posting);
+    assert.equal(posting.source, 'ashby');
+    assert.equal(posting.title, 'Machine Learning Engineer');
+    assert.equal(posting.company, 'Contoso AI');
+    assert.equal(posting.location, 'New York City');
+    assert.match(posting.description, /- Fine-tune language models with PyTorch/);
+    assert.match(posting.description, /Salary range: \$180k–\$220k/);
+  });
+
+  test('finds a JSON-LD JobPosting inside @graph', () => {
+    const posting = extractJobPostingFromHtml(fixture('json-ld-job.html'), 'https://careers.fabrikam.example/jobs/1');
+    assert.ok(posting);
+    assert.equal(posting.source, 'json-ld');
+    assert.equal(posting.title, 'Data Engineer');
+    assert.equal(posting.company, 'Fabrikam');
+    assert.equal(posting.location, 'Berlin, Germany / Munich, Bavaria, DE');
+    assert.equal(
+      posting.description,
+      'Fabrikam is hiring a data engineer.\n\n- Build dbt models on Snowflake\n- Orchestrate pipelines with Airflow'
+    );
+  });
+
+  test('labels JSON-LD found on an ATS page with the ATS', () => {
+    const posting = extractJobPostingFromHtml(fixture('json-ld-job.html'), 'https://jobs.lever.co/fabrikam/1234');
+    assert.equal(posting?.source, 'lever');
+  });
+
+  test('falls back to the main content of a plain page', () => {
+    const posting = extractJobPostingFromHtml(fixture('generic-job.html'), 'https://tailspin.example/jobs/fe');
+    assert.ok(posting);
+    assert.equal(posting.source, 'html');
+    assert.equal(posting.title, 'Frontend Developer');
+    assert.match(posting.description, /- Build accessible UI with React & Next\.js/);
+    assert.doesNotMatch(posting.description, /All jobs|Apply|Tailspin Toys<|analytics/);
+  });
+});
+
+describe('jobPostingToText', () => {
+  test('puts the title and location line before the description', () => {
+    const text = jobPostingToText({
+      url: 'u',
+      source: 'lever',
+      title: 'Platform Engineer',
+      company: 'Northwind',
+      location: 'Remote - US',
+      description: 'Run Kubernetes clusters.',
+    });
+    assert.equal(text, 'Platform Engineer\nNorthwind · Remote - US\n\nRun Kubernetes clusters.');
+  });
+});
+
+describe('isPrivateAddress', () => {
+  test('blocks loopback, private, benchmark and mapped addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '198.18.0.1',
+      '198.19.255.254',
+      '0.0.0.0',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      '::ffff:7f00:1',
+      '0:0:0:0:0:ffff:a9fe:a9fe',
+    ]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  test('allows public addresses', () => {
+    for (const address of ['8.8.8.8', '198.20.0.1', '::ffff:808:808', '2606:4700::1111']) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+});
+
+describe('fetchJobPosting', () => {
+  test('refuses non-public targets without fetching them', async () => {
+    assert.deepEqual(await fetchJobPosting('not a url'), { ok: false, error: 'Please provide a valid URL' });
+    assert.deepEqual(await fetchJobPosting('ftp://example.com/job'), { ok: false, error: 'Only http(s) URLs are supported' });
+    assert.deepEqual(await fetchJobPosting('http://localhost:3000/job'), { ok: false, error: 'This host is not allowed' });
+    assert.deepEqual(await fetchJobPosting('http://[::ffff:7f00:1]/job'), { ok: false, error: 'This host is not allowed' });
+    assert.deepEqual(await fetchJobPosting('http://169.254.169.254/latest/meta-data'), {
+      ok: false,
+      error: 'This host is not allowed',
+    });
+  });
+});
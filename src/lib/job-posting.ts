@@ -0,0 +1,521 @@
+import { lookup as dnsLookup } from 'dns';
+import { isIP, type LookupFunction } from 'net';
+import { Agent, fetch } from 'undici';
+
+import type { JobPostingSummary } from '@/types';
+
+export type JobPosting = JobPostingSummary & { description: string };
+
+export type JobPostingFetchResult = { ok: true; posting: JobPosting } | { ok: false; error: string };
+
+type AtsTarget =
+  | { ats: 'greenhouse'; board: string; jobId: string }
+  | { ats: 'lever'; company: string; postingId: string }
+  | { ats: 'ashby'; org: string; jobId: string };
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_RESPONSE_BYTES = 3 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+const MIN_DESCRIPTION_CHARS = 50;
+
+// Errors whose message is safe to show to the visitor.
+class PostingFetchError extends Error {}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  bull: '•',
+  middot: '·',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+};
+
+export function decodeHtmlEntities(input: string): string {
+  return input.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Block-level tags become line breaks and list items become bullets so requirement
+// extraction in jd-match still sees one requirement per line.
+export function htmlToText(html: string): string {
+  const withBreaks = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|svg|template)\b[\s\S]*?<\/\1\s*>/gi, ' ')
+    .replace(/<\s*br\s*\/?>/gi, '\n')
+    .replace(/<\s*li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/\s*(p|ul|ol|h[1-6]|div|section|article|tr|table|blockquote)\s*>/gi, '\n');
+
+  const stripped = withBreaks.replace(/<[^>]*>/g, ' ');
+  const decoded = decodeHtmlEntities(stripped);
+
+  return decoded
+    .replace(/\r/g, '')
+    .replace(/\u00a0/g, ' ')
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n[ \t]+/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// ATS APIs sometimes return HTML that is itself entity-encoded (Greenhouse `content` does).
+function richTextToText(value: string): string {
+  const html = /&lt;\/?[a-z]/i.test(value) ? decodeHtmlEntities(value) : value;
+  return htmlToText(html);
+}
+
+export function detectAts(url: URL): AtsTarget | null {
+  const host = url.hostname.toLowerCase();
+  const parts = url.pathname.split('/').filter(Boolean);
+
+  if (host === 'boards.greenhouse.io' || host === 'job-boards.greenhouse.io' || host.endsWith('.greenhouse.io')) {
+    // /{board}/jobs/{id}, or the embed form /embed/job_app?for={board}&token={id}
+    const jobsIdx = parts.indexOf('jobs');
+    if (jobsIdx >= 1 && parts[jobsIdx + 1] && /^\d+$/.test(parts[jobsIdx + 1])) {
+      return { ats: 'greenhouse', board: parts[jobsIdx - 1], jobId: parts[jobsIdx + 1] };
+    }
+    const board = url.searchParams.get('for');
+    const token = url.searchParams.get('token');
+    if (board && token && /^\d+$/.test(token)) return { ats: 'greenhouse', board, jobId: token };
+    return null;
+  }
+
+  if (host === 'jobs.lever.co' || host === 'jobs.eu.lever.co') {
+    if (parts.length >= 2) return { ats: 'lever', company: parts[0], postingId: parts[1] };
+    return null;
+  }
+
+  if (host === 'jobs.ashbyhq.com') {
+    if (parts.length >= 2) return { ats: 'ashby', org: parts[0], jobId: parts[1] };
+    return null;
+  }
+
+  return null;
+}
+
+function asString(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = decodeHtmlEntities(value).replace(/\s+/g, ' ').trim();
+  return trimmed || null;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+}
+
+// Greenhouse boards-api: GET /v1/boards/{board}/jobs/{id}?content=true
+export function parseGreenhouseJob(json: unknown, url: string): JobPosting | null {
+  const job = asRecord(json);
+  if (!job || typeof job.content !== 'string') return null;
+
+  return {
+    url,
+    source: 'greenhouse',
+    title: asString(job.title),
+    company: asString(job.company_name),
+    location: asString(asRecord(job.location)?.name),
+    description: richTextToText(job.content),
+  };
+}
+
+// Lever postings API: GET /v0/postings/{company}/{id}
+export function parseLeverPosting(json: unknown, url: string): JobPosting | null {
+  const posting = asRecord(json);
+  if (!posting) return null;
+
+  const sections: string[] = [];
+  const opening = typeof posting.description === 'string' ? richTextToText(posting.description) : '';
+  if (opening) sections.push(opening);
+
+  for (const list of Array.isArray(posting.lists) ? posting.lists : []) {
+    const entry = asRecord(list);
+    if (!entry) continue;
+    const heading = asString(entry.text);
+    const body = typeof entry.content === 'string' ? htmlToText(`<ul>${entry.content}</ul>`) : '';
+    if (heading || body) sections.push([heading, body].filter(Boolean).join('\n'));
+  }
+
+  const closing = typeof posting.additional === 'string' ? richTextToText(posting.additional) : '';
+  if (closing) sections.push(closing);
+
+  const description = sections.join('\n\n').trim() || asString(posting.descriptionPlain) || '';
+  if (!description) return null;
+
+  const categories = asRecord(posting.categories);
+  return {
+    url,
+    source: 'lever',
+    title: asString(posting.text),
+    company: null,
+    location: asString(categories?.location),
+    description,
+  };
+}
+
+// Ashby job pages embed the posting as `window.__appData = {...};` in an inline script.
+export function parseAshbyAppData(html: string, url: string): JobPosting | null {
+  const match = html.match(/window\.__appData\s*=\s*(\{[\s\S]*?\})\s*;?\s*<\/script>/);
+  if (!match) return null;
+
+  let data: Record<string, unknown> | null;
+  try {
+    data = asRecord(JSON.parse(match[1]));
+  } catch {
+    return null;
+  }
+
+  const posting = asRecord(data?.posting);
+  if (!posting) return null;
+
+  const description =
+    typeof posting.descriptionHtml === 'string'
+      ? htmlToText(posting.descriptionHtml)
+      : typeof posting.descriptionPlainText === 'string'
+        ? posting.descriptionPlainText.trim()
+        : '';
+  if (!description) return null;
+
+  return {
+    url,
+    source: 'ashby',
+    title: asString(posting.title),
+    company: asString(asRecord(data?.organization)?.name),
+    location: asString(posting.locationName),
+    description,
+  };
+}
+
+function isJobPostingNode(node: Record<string, unknown>): boolean {
+  const type = node['@type'];
+  return type === 'JobPosting' || (Array.isArray(type) && type.includes('JobPosting'));
+}
+
+function findJobPostingNode(value: unknown, depth = 0): Record<string, unknown> | null {
+  if (depth > 4) return null;
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const found = findJobPostingNode(item, depth + 1);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  const node = asRecord(value);
+  if (!node) return null;
+  if (isJobPostingNode(node)) return node;
+  return findJobPostingNode(node['@graph'], depth + 1);
+}
+
+function formatJsonLdLocation(value: unknown): string | null {
+  const locations = (Array.isArray(value) ? value : [value])
+    .map((loc) => {
+      const place = asRecord(loc);
+      const address = asRecord(place?.address);
+      if (!address) return asString(place?.name) ?? asString(place?.address);
+      const country = asRecord(address.addressCountry)?.name ?? address.addressCountry;
+      return [address.addressLocality, address.addressRegion, country]
+        .map(asString)
+        .filter(Boolean)
+        .join(', ');
+    })
+    .filter((loc): loc is string => Boolean(loc));
+
+  return locations.length > 0 ? Array.from(new Set(locations)).join(' / ') : null;
+}
+
+// Schema.org JobPosting in <script type="application/ld+json">, used by most career sites and ATSes.
+export function parseJsonLdJobPosting(html: string, url: string): JobPosting | null {
+  const scripts = html.matchAll(/<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi);
+
+  for (const [, raw] of scripts) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw.trim());
+    } catch {
+      continue;
+    }
+
+    const node = findJobPostingNode(parsed);
+    if (!node || typeof node.description !== 'string') continue;
+
+    const description = richTextToText(node.description);
+    if (!description) continue;
+
+    const location =
+      node.jobLocationType === 'TELECOMMUTE' && !node.jobLocation
+        ? 'Remote'
+        : formatJsonLdLocation(node.jobLocation);
+
+    return {
+      url,
+      source: 'json-ld',
+      title: asString(node.title),
+      company: asString(asRecord(node.hiringOrganization)?.name),
+      location,
+      description,
+    };
+  }
+
+  return null;
+}
+
+function getMetaContent(html: string, key: string): string | null {
+  const re = new RegExp(
+    `<meta\\b[^>]*(?:property|name)\\s*=\\s*["']${key}["'][^>]*content\\s*=\\s*["']([^"']*)["']|<meta\\b[^>]*content\\s*=\\s*["']([^"']*)["'][^>]*(?:property|name)\\s*=\\s*["']${key}["']`,
+    'i'
+  );
+  const match = html.match(re);
+  return asString(match?.[1] ?? match?.[2]);
+}
+
+// Last resort: page title plus the text of <main>/<article>/<body>.
+export function parseGenericHtml(html: string, url: string): JobPosting | null {
+  const title = getMetaContent(html, 'og:title') ?? asString(html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1]);
+  const container =
+    html.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)?.[1] ??
+    html.match(/<article\b[^>]*>([\s\S]*?)<\/article>/i)?.[1] ??
+    html.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i)?.[1] ??
+    html;
+
+  const description = htmlToText(container.replace(/<(nav|header|footer|form)\b[\s\S]*?<\/\1\s*>/gi, ' '));
+  if (!description) return null;
+
+  return {
+    url,
+    source: 'html',
+    title,
+    company: getMetaContent(html, 'og:site_name'),
+    location: null,
+    description,
+  };
+}
+
+// Picks the most specific extractor that understands the page.
+export function extractJobPostingFromHtml(html: string, url: string): JobPosting | null {
+  const target = (() => {
+    try {
+      return detectAts(new URL(url));
+    } catch {
+      return null;
+    }
+  })();
+
+  if (target?.ats === 'ashby') {
+    const ashby = parseAshbyAppData(html, url);
+    if (ashby) return ashby;
+  }
+
+  const jsonLd = parseJsonLdJobPosting(html, url);
+  if (jsonLd) return target ? { ...jsonLd, source: target.ats } : jsonLd;
+
+  const generic = parseGenericHtml(html, url);
+  return generic && target ? { ...generic, source: target.ats } : generic;
+}
+
+// IPv4-mapped IPv6 (::ffff:127.0.0.1, or ::ffff:7f00:1 in hex) -> the IPv4 address.
+function unmapIPv4(address: string): string {
+  const mapped = /^(?:::|(?:0{1,4}:){5})ffff:(.+)$/i.exec(address);
+  if (!mapped) return address;
+  const rest = mapped[1];
+  if (isIP(rest) === 4) return rest;
+
+  const hex = /^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i.exec(rest);
+  if (!hex) return address;
+  const high = parseInt(hex[1], 16);
+  const low = parseInt(hex[2], 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const v4 = unmapIPv4(address);
+  if (isIP(v4) === 4) {
+    const [a, b] = v4.split('.').map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+
+  const v6 = address.toLowerCase();
+  return v6 === '::' || v6 === '::1' || v6.startsWith('fc') || v6.startsWith('fd') || v6.startsWith('fe80');
+}
+
+// Resolves like dns.lookup but refuses private addresses. It runs at connect time, so the address
+// that passed the check is the one the socket uses (no second resolution to rebind).
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    if (addresses.length === 0 || addresses.some((a) => isPrivateAddress(a.address))) {
+      return callback(Object.assign(new PostingFetchError('This host is not allowed'), { code: 'EPRIVATE' }), '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const publicDispatcher = new Agent({ connect: { lookup: publicOnlyLookup } });
+
+// Postings are fetched server-side, so only public http(s) hosts are allowed. Hostnames are
+// checked when the connection resolves them (publicOnlyLookup); IP literals are checked here.
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new PostingFetchError('Only http(s) URLs are supported');
+  }
+  if (url.username || url.password) {
+    throw new PostingFetchError('URLs with credentials are not supported');
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+    throw new PostingFetchError('This host is not allowed');
+  }
+
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new PostingFetchError('This host is not allowed');
+  }
+}
+
+async function readCapped(res: Awaited<ReturnType<typeof fetch>>): Promise<string> {
+  const declared = Number(res.headers.get('content-length'));
+  if (Number.isFinite(declared) && declared > MAX_RESPONSE_BYTES) {
+    throw new PostingFetchError('The page is too large');
+  }
+  if (!res.body) return '';
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > MAX_RESPONSE_BYTES) {
+      await reader.cancel();
+      throw new PostingFetchError('The page is too large');
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Redirects are followed by hand so every hop goes through the same host check.
+async function fetchPublic(rawUrl: string, accept: string): Promise<{ url: string; status: number; body: string }> {
+  let current = new URL(rawUrl);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    assertPublicUrl(current);
+
+    const res = await fetch(current, {
+      dispatcher: publicDispatcher,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: { accept, 'user-agent': 'Mozilla/5.0 (compatible; ChengAI JD Match)' },
+    });
+
+    const location = res.headers.get('location');
+    if (res.status >= 300 && res.status < 400 && location) {
+      current = new URL(location, current);
+      continue;
+    }
+
+    return { url: current.toString(), status: res.status, body: res.ok ? await readCapped(res) : '' };
+  }
+
+  throw new PostingFetchError('Too many redirects');
+}
+
+async function fetchJson(url: string): Promise<unknown | null> {
+  try {
+    const res = await fetchPublic(url, 'application/json');
+    return res.status === 200 ? JSON.parse(res.body) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Greenhouse and Lever have public JSON APIs that are cleaner than their pages; everything
+// else (including Ashby) is parsed from the page HTML.
+async function fetchFromAtsApi(target: AtsTarget, url: string): Promise<JobPosting | null> {
+  if (target.ats === 'greenhouse') {
+    const json = await fetchJson(
+      `https://boards-api.greenhouse.io/v1/boards/${encodeURIComponent(target.board)}/jobs/${target.jobId}?content=true`
+    );
+    return json ? parseGreenhouseJob(json, url) : null;
+  }
+  if (target.ats === 'lever') {
+    const json = await fetchJson(
+      `https://api.lever.co/v0/postings/${encodeURIComponent(target.company)}/${encodeURIComponent(target.postingId)}`
+    );
+    return json ? parseLeverPosting(json, url) : null;
+  }
+  return null;
+}
+
+export async function fetchJobPosting(rawUrl: string): Promise<JobPostingFetchResult> {
+  let url: URL;
+  try {
+    url = new URL(rawUrl.trim());
+  } catch {
+    return { ok: false, error: 'Please provide a valid URL' };
+  }
+
+  try {
+    const target = detectAts(url);
+    let posting = target ? await fetchFromAtsApi(target, url.toString()) : null;
+
+    if (!posting) {
+      const page = await fetchPublic(url.toString(), 'text/html,application/xhtml+xml');
+      if (page.status !== 200) {
+        return { ok: false, error: `Could not fetch the job posting (HTTP ${page.status})` };
+      }
+      posting = extractJobPostingFromHtml(page.body, url.toString());
+    }
+
+    if (!posting || posting.description.length < MIN_DESCRIPTION_CHARS) {
+      return { ok: false, error: 'Could not find a job description at that URL' };
+    }
+    return { ok: true, posting };
+  } catch (error) {
+    // Errors raised while connecting (publicOnlyLookup) arrive as fetch's `cause`.
+    const cause = error instanceof Error && error.cause instanceof PostingFetchError ? error.cause : error;
+    if (cause instanceof PostingFetchError) {
+      return { ok: false, error: cause.message };
+    }
+    if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+      return { ok: false, error: 'Timed out fetching the job posting' };
+    }
+    console.warn('Job posting fetch failed:', error);
+    return { ok: false, error: 'Could not fetch the job posting' };
+  }
+}
+
+// Title and location go first so the matcher sees them, then the description.
+export function jobPostingToText(posting: JobPosting): string {
+  const header = [posting.title, [posting.company, posting.location].filter(Boolean).join(' · ')]
+    .filter(Boolean)
+    .join('\n');
+  return [header, posting.description].filter(Boolean).join('\n\n');
+}
@@ -0,0 +1,235 @@
+import { after } from 'next/server';
+import { randomUUID } from 'crypto';
+import { JOB_HANDLERS } from '@/lib/job-handlers';
+import {
+  claimJob,
+  completeJob,
+  enqueueJob,
+  failJob,
+  isMissingJobsTableError,
+  JobPausedError,
+  jobsMigrationHint,
+  requeuePausedJob,
+  toPublicJob,
+  updateJobProgress,
+  type JobRow,
+} from '@/lib/jobs';
+import type { Job, JobStatus, JobType } from '@/types';
+
+// Runs queued jobs. There is no long-lived process. Routes that enqueue work drain the queue after
+// their response (`after`), but that runs inside the same request and under its time limit, so it
+// only finishes short jobs. GET /api/cron/jobs is the worker for everything else: retries whose
+// backoff has elapsed, jobs whose worker died, and long jobs. A run that spends its time budget
+// pauses the job at the handler's next checkpoint (after a saved chunk batch or source) and
+// requeues it; the next cron run resumes it.
+
+export type JobRunSummary = {
+  processed: number;
+  succeeded: number;
+  retried: number;
+  paused: number;
+  failed: number;
+};
+
+const WORKER_ID = `worker-${process.pid}-${randomUUID().slice(0, 8)}`;
+
+// Longer than any route's maxDuration, so a live job is never reclaimed from under its worker.
+const LOCK_TIMEOUT_SECONDS = 600;
+const PROGRESS_INTERVAL_MS = 1000;
+
+function getWorkerBudgetMs(): number {
+  const seconds = Number(process.env.JOB_WORKER_BUDGET_SECONDS);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : 240) * 1000;
+}
+
+// Progress writes double as the lock heartbeat; intermediate updates are throttled.
+function progressReporter(job: JobRow, lockToken: string) {
+  let lastWrite = 0;
+  return async (percent: number, message?: string) => {
+    const now = Date.now();
+    if (percent < 100 && now - lastWrite < PROGRESS_INTERVAL_MS) return;
+    lastWrite = now;
+    await updateJobProgress(job, lockToken, percent, message);
+  };
+}
+
+async function runJob(job: JobRow, lockToken: string, deadline: number): Promise<JobStatus | 'paused'> {
+  const handler = JOB_HANDLERS[job.type];
+  const checkpoint = () => {
+    if (Date.now() >= deadline) throw new JobPausedError('Worker time budget spent');
+  };
+  try {
+    if (!handler) throw new Error(`Unknown job type: ${job.type}`);
+    const result = await handler({ job, ownerId: job.owner_id, progress: progressReporter(job, lockToken), checkpoint });
+    await completeJob(job, lockToken, result);
+    return 'succeeded';
+  } catch (error) {
+    if (error instanceof JobPausedError) {
+      await requeuePausedJob(job, lockToken);
+      return 'paused';
+    }
+    console.error(`Job ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}):`, error);
+    return failJob(job, lockToken, error);
+  }
+}
+
+export async function runJobs(options: { budgetMs?: number } = {}): Promise<JobRunSummary> {
+  const deadline = Date.now() + (options.budgetMs ?? getWorkerBudgetMs());
+  const summary: JobRunSummary = { processed: 0, succeeded: 0, retried: 0, paused: 0, failed: 0 };
+
+  while (Date.now() < deadline) {
+    // Each claim gets its own token, so a reclaimed job's previous run can't write to it.
+    const lockToken = `${WORKER_ID}:${randomUUID().slice(0, 8)}`;
+    const job = await claimJob(lockToken, LOCK_TIMEOUT_SECONDS);
+    if (!job) break;
+
+    const status = await runJob(job, lockToken, deadline);
+    summary.processed += 1;
+    if (status === 'succeeded') summary.succeeded += 1;
+    else if (status === 'queued') summary.retried += 1;
+    else if (status === 'paused') summary.paused += 1;
+    else summary.failed += 1;
+  }
+
+  return summary;
+}
+
+// One drain per process; a kick that lands mid-drain makes it check the queue once more.
+let draining: Promise<void> | null = null;
+let drainAgain = false;
+
+function drainJobs(): Promise<void> {
+  if (draining) {
+    drainAgain = true;
+    return draining;
+  }
+
+  draining = (async () => {
+    try {
+      do {
+        drainAgain = false;
+        await runJobs();
+      } while (drainAgain);
+    } catch (error) {
+      if (isMissingJobsTableError(error)) console.warn(jobsMigrationHint());
+      else console.error('Job worker error:', error);
+    } finally {
+      draining = null;
+    }
+  })();
+  return draining;
+}
+
+function runAfterResponse(task: () => Promise<unknown>) {
+  try {
+    after(task);
+  } catch {
+    // Outside a request scope (scripts): run in the background instead.
+    void task();
+  }
+}
+
+// Drains the queue after the current response is sent, within the request's own time limit;
+// whatever doesn't finish there is left for GET /api/cron/jobs.
+export function kickJobWorker() {
+  runAfterResponse(drainJobs);
+}
+
+// Without the jobs table the work runs in the request, as it did before the queue existed.
+// Concurrent deduped runs of the same type share one promise.
+const inlineRuns = new Map<string, Promise<Job>>();
+
+async function runInline(args: {
+  ownerId: string;
+  type: JobType;
+  payload: Record<string, unknown>;
+  dedupe?: boolean;
+}): Promise<Job> {
+  const key = `${args.type}:${args.ownerId}`;
+  const existing = args.dedupe ? inlineRuns.get(key) : undefined;
+  if (existing) return existing;
+
+  const run = (async (): Promise<Job> => {
+    const now = new Date().toISOString();
+    const job: JobRow = {
+      id: `inline-${randomUUID()}`,
+      owner_id: args.ownerId,
+      type: args.type,
+      status: 'running',
+      payload: args.payload,
+      result: null,
+      error: null,
+      progress: 0,
+      progress_message: null,
+      attempts: 1,
+      max_attempts: 1,
+      run_after: now,
+      created_at: now,
+      updated_at: now,
+      finished_at: null,
+    };
+
+    try {
+      const result = await JOB_HANDLERS[args.type]({
+        job,
+        ownerId: args.ownerId,
+        progress: async () => {},
+        checkpoint: () => {},
+      });
+      Object.assign(job, { status: 'succeeded', result, progress: 100 });
+    } catch (error) {
+      console.error(`Inline ${args.type} job failed:`, error);
+      Object.assign(job, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+    }
+    job.finished_at = new Date().toISOString();
+    job.updated_at = job.finished_at;
+    return toPublicJob(job);
+  })();
+
+  if (args.dedupe) {
+    inlineRuns.set(key, run);
+    void run.finally(() => inlineRuns.delete(key));
+  }
+  return run;
+}
+
+async function enqueueOrRunInline(args: {
+  ownerId: string;
+  type: JobType;
+  payload?: Record<string, unknown>;
+  dedupe?: boolean;
+}): Promise<{ job: Job; queued: boolean }> {
+  try {
+    const job = await enqueueJob(args);
+    return { job: toPublicJob(job), queued: true };
+  } catch (error) {
+    if (!isMissingJobsTableError(error)) throw error;
+    console.warn(jobsMigrationHint());
+    return { job: await runInline({ ...args, payload: args.payload || {} }), queued: false };
+  }
+}
+
+// Enqueues a job and starts draining the queue once the response is sent. The returned job is
+// already finished when it had to run inline (jobs migration not applied).
+export async function submitJob(args: {
+  ownerId: string;
+  type: JobType;
+  payload?: Record<string, unknown>;
+  dedupe?: boolean;
+}): Promise<Job> {
+  const { job, queued } = await enqueueOrRunInline(args);
+  if (queued) kickJobWorker();
+  return job;
+}
+
+// Queues a background rebuild after an admin save; several saves in a row share one job.
+export function scheduleRebuild(ownerId: string) {
+  runAfterResponse(async () => {
+    try {
+      const { queued } = await enqueueOrRunInline({ ownerId, type: 'rebuild', dedupe: true });
+      if (queued) await drainJobs();
+    } catch (error) {
+      console.error('Scheduled rebuild error:', error);
+    }
+  });
+}
@@ -0,0 +1,56 @@
+import type { Job } from '@/types';
+
+// Browser-side polling for background jobs (lib/jobs), shared by the admin pages that enqueue work.
+
+const POLL_INTERVAL_MS = 1500;
+
+export function isJobFinished(job: Pick<Job, 'status'>): boolean {
+  return job.status === 'succeeded' || job.status === 'failed';
+}
+
+export function describeJobProgress(job: Job): string {
+  if (job.status === 'queued') {
+    return job.error ? `Retrying after error (attempt ${job.attempts + 1}/${job.max_attempts})...` : 'Queued...';
+  }
+  const message = job.progress_message || 'Working';
+  return `${message} (${job.progress}%)`;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+      },
+      { once: true }
+    );
+  });
+}
+
+// Resolves with the finished job (succeeded or failed); `onUpdate` sees every intermediate state.
+export async function waitForJob(
+  job: Job,
+  options: { onUpdate?: (job: Job) => void; signal?: AbortSignal } = {}
+): Promise<Job> {
+  let current = job;
+  while (!isJobFinished(current)) {
+    await sleep(POLL_INTERVAL_MS, options.signal);
+
+    const response = await fetch(`/api/admin/jobs/${encodeURIComponent(current.id)}`, {
+      cache: 'no-store',
+      signal: options.signal,
+    });
+    const data = (await response.json().catch(() => null)) as (Job & { error?: string }) | null;
+    if (!response.ok || !data) {
+      throw new Error(data?.error || `Failed to load job status (HTTP ${response.status})`);
+    }
+
+    current = data;
+    options.onUpdate?.(current);
+  }
+  return current;
+}
@@ -0,0 +1,281 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import type { Job, JobStatus, JobType } from '@/types';
+
+// Postgres-backed job queue (`jobs` table). Routes enqueue work and return the job id; a worker
+// (lib/job-worker) claims jobs with `claim_job`, reports progress and records the result. Failed
+// attempts are retried with exponential backoff until `max_attempts`.
+
+const JOB_COLUMNS =
+  'id,owner_id,type,status,payload,result,error,progress,progress_message,attempts,max_attempts,run_after,created_at,updated_at,finished_at';
+
+export const JOB_TYPES: JobType[] = ['knowledge_upload', 'resume_index', 'rebuild'];
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'failed'];
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_SECONDS = 30;
+const BACKOFF_MAX_SECONDS = 30 * 60;
+const MAX_ERROR_CHARS = 1000;
+
+// Server-side view of a job; the owner never leaves the server.
+export type JobRow = Job & { owner_id: string };
+
+export type JobContext = {
+  job: JobRow;
+  ownerId: string;
+  // 0-100; also refreshes the job's lock so long-running work isn't reclaimed.
+  progress: (percent: number, message?: string) => Promise<void>;
+  // Throws JobPausedError once the worker's time budget is spent. Call it between units of work
+  // that are already saved: the job goes back to the queue and the next run resumes from there.
+  checkpoint: () => void;
+};
+
+// Not a failure: the run stopped at a checkpoint to stay inside the function's time limit.
+export class JobPausedError extends Error {}
+
+export type JobHandler = (context: JobContext) => Promise<Record<string, unknown>>;
+
+export function jobsMigrationHint() {
+  return 'Background jobs are not set up yet. Run `database/migrations/20261018_add_jobs.sql` in Supabase SQL Editor, then retry.';
+}
+
+// 42P01: jobs table missing; 42883 / PGRST202: claim_job or enqueue_deduped_job missing.
+export function isMissingJobsTableError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && (code.toUpperCase() === '42P01' || code === '42883' || code === 'PGRST202');
+}
+
+export function isJobType(value: unknown): value is JobType {
+  return typeof value === 'string' && (JOB_TYPES as string[]).includes(value);
+}
+
+export function isJobStatus(value: unknown): value is JobStatus {
+  return typeof value === 'string' && (JOB_STATUSES as string[]).includes(value);
+}
+
+export function isFinishedJob(job: Pick<Job, 'status'>): boolean {
+  return job.status === 'succeeded' || job.status === 'failed';
+}
+
+// Seconds before attempt `attempts + 1`: 30s, 60s, 120s, ... capped at 30 minutes.
+export function jobBackoffSeconds(attempts: number): number {
+  return Math.min(BACKOFF_MAX_SECONDS, BACKOFF_BASE_SECONDS * 2 ** Math.max(0, attempts - 1));
+}
+
+function toJob(row: Record<string, unknown>): JobRow {
+  return {
+    id: String(row.id),
+    owner_id: String(row.owner_id),
+    type: row.type as JobType,
+    status: isJobStatus(row.status) ? row.status : 'queued',
+    payload: (row.payload as Record<string, unknown> | null) || {},
+    result: (row.result as Record<string, unknown> | null) ?? null,
+    error: typeof row.error === 'string' ? row.error : null,
+    progress: typeof row.progress === 'number' ? row.progress : 0,
+    progress_message: typeof row.progress_message === 'string' ? row.progress_message : null,
+    attempts: typeof row.attempts === 'number' ? row.attempts : 0,
+    max_attempts: typeof row.max_attempts === 'number' ? row.max_attempts : DEFAULT_MAX_ATTEMPTS,
+    run_after: String(row.run_after || ''),
+    created_at: String(row.created_at || ''),
+    updated_at: String(row.updated_at || ''),
+    finished_at: typeof row.finished_at === 'string' ? row.finished_at : null,
+  };
+}
+
+export function toPublicJob(job: JobRow): Job {
+  const publicJob: Job & { owner_id?: string } = { ...job };
+  delete publicJob.owner_id;
+  return publicJob;
+}
+
+function errorMessage(error: unknown): string {
+  const message =
+    error instanceof Error
+      ? error.message
+      : typeof (error as { message?: unknown } | null)?.message === 'string'
+        ? String((error as { message: string }).message)
+        : String(error);
+  return message.slice(0, MAX_ERROR_CHARS) || 'Unknown error';
+}
+
+// With `dedupe`, an already queued job of the same type for this owner is returned instead of a
+// new one (e.g. several saves in a row schedule a single rebuild). The check and the insert are one
+// statement in `enqueue_deduped_job`, backed by a unique index, so concurrent saves can't both insert.
+export async function enqueueJob(args: {
+  ownerId: string;
+  type: JobType;
+  payload?: Record<string, unknown>;
+  maxAttempts?: number;
+  dedupe?: boolean;
+}): Promise<JobRow> {
+  const maxAttempts = Math.max(1, args.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+
+  if (args.dedupe) {
+    const { data, error } = await supabaseAdmin.rpc('enqueue_deduped_job', {
+      p_owner_id: args.ownerId,
+      p_type: args.type,
+      p_payload: args.payload || {},
+      p_max_attempts: maxAttempts,
+    });
+    if (error) throw error;
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) throw new Error(`Could not enqueue ${args.type} job`);
+    return toJob(row as Record<string, unknown>);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('jobs')
+    .insert({
+      owner_id: args.ownerId,
+      type: args.type,
+      payload: args.payload || {},
+      max_attempts: maxAttempts,
+    })
+    .select(JOB_COLUMNS)
+    .single();
+  if (error) throw error;
+  return toJob(data as Record<string, unknown>);
+}
+
+export async function getJob(ownerId: string, id: string): Promise<JobRow | null> {
+  const { data, error } = await supabaseAdmin
+    .from('jobs')
+    .select(JOB_COLUMNS)
+    .eq('owner_id', ownerId)
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toJob(data as Record<string, unknown>) : null;
+}
+
+export async function listJobs(
+  ownerId: string,
+  options: { status?: JobStatus; type?: JobType; limit?: number } = {}
+): Promise<JobRow[]> {
+  let query = supabaseAdmin.from('jobs').select(JOB_COLUMNS).eq('owner_id', ownerId);
+  if (options.status) query = query.eq('status', options.status);
+  if (options.type) query = query.eq('type', options.type);
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(Math.max(1, Math.min(options.limit ?? 50, 200)));
+  if (error) throw error;
+  return ((data || []) as Record<string, unknown>[]).map(toJob);
+}
+
+// Requeues a failed job with a fresh set of attempts.
+export async function retryJob(ownerId: string, id: string): Promise<JobRow | null> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('jobs')
+    .update({
+      status: 'queued',
+      dedupe: false,
+      attempts: 0,
+      error: null,
+      progress: 0,
+      progress_message: null,
+      run_after: now,
+      locked_at: null,
+      locked_by: null,
+      finished_at: null,
+      updated_at: now,
+    })
+    .eq('owner_id', ownerId)
+    .eq('id', id)
+    .eq('status', 'failed')
+    .select(JOB_COLUMNS)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toJob(data as Record<string, unknown>) : null;
+}
+
+export async function claimJob(workerId: string, lockTimeoutSeconds: number): Promise<JobRow | null> {
+  const { data, error } = await supabaseAdmin.rpc('claim_job', {
+    p_worker: workerId,
+    p_lock_timeout_seconds: lockTimeoutSeconds,
+  });
+  if (error) throw error;
+
+  const row = Array.isArray(data) ? data[0] : data;
+  return row ? toJob(row as Record<string, unknown>) : null;
+}
+
+// Writes below are guarded by `locked_by`, so a worker whose job was reclaimed after a stale lock
+// can't overwrite the newer attempt.
+export async function updateJobProgress(
+  job: JobRow,
+  workerId: string,
+  progress: number,
+  message?: string
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin
+    .from('jobs')
+    .update({
+      progress: Math.max(0, Math.min(100, Math.round(progress))),
+      ...(message !== undefined ? { progress_message: message } : {}),
+      locked_at: now,
+      updated_at: now,
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId);
+  if (error) console.warn('Job progress update failed:', job.id, error);
+}
+
+export async function completeJob(job: JobRow, workerId: string, result: Record<string, unknown>): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin
+    .from('jobs')
+    .update({
+      status: 'succeeded',
+      result,
+      error: null,
+      progress: 100,
+      locked_at: null,
+      updated_at: now,
+      finished_at: now,
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId);
+  if (error) throw error;
+}
+
+// Back to the queue right away; the paused run doesn't count as an attempt. Jobs that go back to
+// the queue stop being dedupe targets (see enqueue_deduped_job), so they never hit the unique index.
+export async function requeuePausedJob(job: JobRow, workerId: string): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin
+    .from('jobs')
+    .update({
+      status: 'queued',
+      dedupe: false,
+      attempts: Math.max(0, job.attempts - 1),
+      run_after: now,
+      locked_at: null,
+      updated_at: now,
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId);
+  if (error) throw error;
+}
+
+// Requeues with backoff while attempts remain, otherwise marks the job failed.
+export async function failJob(job: JobRow, workerId: string, cause: unknown): Promise<JobStatus> {
+  const now = new Date();
+  const retry = job.attempts < job.max_attempts;
+  const { error } = await supabaseAdmin
+    .from('jobs')
+    .update({
+      status: retry ? 'queued' : 'failed',
+      dedupe: false,
+      error: errorMessage(cause),
+      run_after: retry ? new Date(now.getTime() + jobBackoffSeconds(job.attempts) * 1000).toISOString() : job.run_after,
+      locked_at: null,
+      updated_at: now.toISOString(),
+      finished_at: retry ? null : now.toISOString(),
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId);
+  if (error) throw error;
+  return retry ? 'queued' : 'failed';
+}
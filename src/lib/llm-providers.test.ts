@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  adaptRequest,
+  completeChat,
+  registerChatProvider,
+  resolveChatChain,
+  type ChatProvider,
+} from '@/lib/llm-providers';
+
+const ENV_KEYS = ['AI_CHAT_PROVIDERS', 'OPENAI_API_KEY', 'AI_BUILDER_TOKEN', 'BUILDERSPACE', 'builderspace'];
+const savedEnv: Record<string, string | undefined> = {};
+
+const messages = [{ role: 'user' as const, content: 'hello' }];
+
+beforeEach(() => {
+  for (const key of ENV_KEYS) {
+    savedEnv[key] = process.env[key];
+    delete process.env[key];
+  }
+  mock.method(console, 'warn', () => {});
+});
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
+  mock.restoreAll();
+});
+
+describe('resolveChatChain', () => {
+  test('reads the chain from AI_CHAT_PROVIDERS and skips unknown or unconfigured providers', () => {
+    process.env.AI_CHAT_PROVIDERS = 'nope:x, openai:gpt-5, mock:mock-a,mock:mock-b';
+    const chain = resolveChatChain('chat');
+    assert.deepEqual(
+      chain.map((target) => `${target.provider.name}:${target.model}`),
+      ['mock:mock-a', 'mock:mock-b']
+    );
+  });
+
+  test('runs an explicit model on the first provider and keeps the rest as fallback', () => {
+    process.env.AI_CHAT_PROVIDERS = 'mock:mock-a,mock:mock-b';
+    const chain = resolveChatChain('chat', { model: 'mock-override' });
+    assert.deepEqual(
+      chain.map((target) => target.model),
+      ['mock-override', 'mock-b']
+    );
+  });
+
+  test('is empty when nothing is configured', () => {
+    assert.deepEqual(resolveChatChain('chat'), []);
+  });
+});
+
+describe('completeChat', () => {
+  test('falls back past an unavailable provider', async () => {
+    process.env.AI_CHAT_PROVIDERS = 'mock:mock-unavailable,mock:mock-b';
+    const reply = await completeChat(resolveChatChain('chat'), { messages });
+    assert.equal(reply.content, 'Mock reply (mock-b): hello');
+  });
+
+  test('rethrows the outage when every provider is unavailable', async () => {
+    process.env.AI_CHAT_PROVIDERS = 'mock:mock-unavailable';
+    await assert.rejects(completeChat(resolveChatChain('chat'), { messages }), { status: 503 });
+  });
+
+  test('does not fall back on a request error', async () => {
+    const rejecting: ChatProvider = {
+      name: 'test-rejecting',
+      isConfigured: () => true,
+      async complete() {
+        throw Object.assign(new Error('400 Bad Request'), { status: 400 });
+      },
+      async *stream() {},
+    };
+    registerChatProvider(rejecting);
+    process.env.AI_CHAT_PROVIDERS = 'test-rejecting:x,mock:mock-b';
+    await assert.rejects(completeChat(resolveChatChain('chat'), { messages }), { status: 400 });
+  });
+
+  test('skips models without tool support when tools are requested', async () => {
+    registerChatProvider({
+      name: 'test-no-tools',
+      isConfigured: () => true,
+      capabilities: { tools: false },
+      async complete() {
+        throw new Error('should not be called');
+      },
+      async *stream() {},
+    });
+    process.env.AI_CHAT_PROVIDERS = 'test-no-tools:x,mock:mock-b';
+    const tools = [{ type: 'function' as const, function: { name: 'lookup', parameters: {} } }];
+    const reply = await completeChat(resolveChatChain('chat'), { messages, tools });
+    assert.equal(reply.content, 'Mock reply (mock-b): hello');
+  });
+
+  test('fails clearly without any provider', async () => {
+    await assert.rejects(completeChat([], { messages }), /No chat provider configured/);
+  });
+});
+
+describe('adaptRequest', () => {
+  test('drops parameters the model does not accept', () => {
+    process.env.OPENAI_API_KEY = 'test-key';
+    process.env.AI_CHAT_PROVIDERS = 'openai:gpt-5,openai:gpt-4o-mini';
+    const [gpt5, gpt4] = resolveChatChain('chat');
+
+    assert.equal(adaptRequest(gpt5, { messages, temperature: 0, json: true }).temperature, undefined);
+    assert.equal(adaptRequest(gpt5, { messages, temperature: 0, json: true }).json, true);
+    assert.equal(adaptRequest(gpt4, { messages, temperature: 0 }).temperature, 0);
+  });
+});
@@ -0,0 +1,278 @@
+import OpenAI from 'openai';
+
+// Chat model providers behind lib/ai. Each call walks an ordered chain of provider:model targets
+// (AI_CHAT_PROVIDERS / AI_TEXT_PROVIDERS / AI_AGENT_PROVIDERS) and moves to the next one when a
+// provider is unavailable. What a model accepts (streaming, temperature, JSON mode, tools) comes
+// from MODEL_CAPABILITIES rather than from checks at the call sites. A new vendor is one
+// ChatProvider in CHAT_PROVIDERS (or registerChatProvider at runtime).
+
+export type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+export type ChatTool = OpenAI.Chat.Completions.ChatCompletionFunctionTool;
+export type ChatCompletion = OpenAI.Chat.Completions.ChatCompletionMessage;
+
+export type ChatRequest = {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  json?: boolean;
+  tools?: ChatTool[];
+};
+
+export interface ChatProvider {
+  name: string;
+  isConfigured(): boolean;
+  // Overrides the per-model table for every model this provider serves.
+  capabilities?: Partial<ModelCapabilities>;
+  complete(request: ChatRequest): Promise<ChatCompletion>;
+  // Yields content deltas.
+  stream(request: ChatRequest): AsyncIterable<string>;
+}
+
+export type ModelCapabilities = {
+  streaming: boolean;
+  // false: the model only runs at its default temperature, so none is sent.
+  temperature: boolean;
+  jsonMode: boolean;
+  tools: boolean;
+};
+
+export type ChatTarget = {
+  provider: ChatProvider;
+  model: string;
+  capabilities: ModelCapabilities;
+};
+
+export type ChatPurpose = 'chat' | 'text' | 'agent';
+
+export const AI_BUILDERS_BASE_URL = 'https://space.ai-builders.com/backend/v1';
+
+export function getAiBuilderToken(): string {
+  return process.env.AI_BUILDER_TOKEN || process.env.BUILDERSPACE || process.env.builderspace || '';
+}
+
+const DEFAULT_CAPABILITIES: ModelCapabilities = { streaming: true, temperature: true, jsonMode: false, tools: true };
+
+// First matching prefix wins. Extend or override with AI_MODEL_CAPABILITIES.
+const MODEL_CAPABILITIES: Array<[prefix: string, capabilities: Partial<ModelCapabilities>]> = [
+  // AI Builders Space serves Gemini without streaming.
+  ['gemini', { streaming: false }],
+  ['gpt-5', { temperature: false, jsonMode: true }],
+  ['o1', { temperature: false, jsonMode: true }],
+  ['o3', { temperature: false, jsonMode: true }],
+  ['o4', { temperature: false, jsonMode: true }],
+  ['gpt-4', { jsonMode: true }],
+  ['grok', { jsonMode: true }],
+];
+
+function isRetryableUpstreamError(error: unknown): boolean {
+  const anyErr = error as { status?: number; message?: string } | null;
+  const status = typeof anyErr?.status === 'number' ? anyErr.status : null;
+  if (status && [502, 503, 504].includes(status)) return true;
+  const msg = String(anyErr?.message || error || '');
+  return /502|503|504|bad gateway|gateway timeout|service unavailable/i.test(msg);
+}
+
+// Only outages move a call down the chain; a bad request would fail the same way everywhere.
+export function shouldFallBack(error: unknown): boolean {
+  return isRetryableUpstreamError(error);
+}
+
+function toOpenAIParams(request: ChatRequest) {
+  return {
+    model: request.model,
+    messages: request.messages,
+    ...(typeof request.temperature === 'number' ? { temperature: request.temperature } : {}),
+    ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+    ...(request.tools?.length ? { tools: request.tools, tool_choice: 'auto' as const } : {}),
+  };
+}
+
+export function createOpenAIChatProvider(options: {
+  name: string;
+  apiKey: () => string;
+  baseURL?: () => string | undefined;
+  isConfigured?: () => boolean;
+}): ChatProvider {
+  let client: OpenAI | null = null;
+  const getClient = () => (client ??= new OpenAI({ apiKey: options.apiKey() || 'unused', baseURL: options.baseURL?.() }));
+
+  return {
+    name: options.name,
+    isConfigured: options.isConfigured || (() => Boolean(options.apiKey())),
+    async complete(request) {
+      const response = await getClient().chat.completions.create(toOpenAIParams(request));
+      const message = response.choices[0]?.message;
+      if (!message) throw new Error(`Empty completion from ${options.name}`);
+      return message;
+    },
+    async *stream(request) {
+      const stream = await getClient().chat.completions.create({ ...toOpenAIParams(request), stream: true });
+      for await (const chunk of stream) {
+        const delta = chunk.choices?.[0]?.delta?.content || '';
+        if (delta) yield delta;
+      }
+    },
+  };
+}
+
+function lastUserText(messages: ChatMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role !== 'user') continue;
+    if (typeof message.content === 'string') return message.content;
+    return (message.content || []).map((part) => (part.type === 'text' ? part.text : '')).join(' ');
+  }
+  return '';
+}
+
+// Offline provider for tests and local runs: answers deterministically without a network call.
+// The model "mock-unavailable" fails like an upstream outage, to exercise fallback chains.
+export function createMockChatProvider(
+  reply: (request: ChatRequest) => string = (request) =>
+    request.json ? '{}' : `Mock reply (${request.model}): ${lastUserText(request.messages).trim().slice(0, 200)}`
+): ChatProvider {
+  const respond = (request: ChatRequest): string => {
+    if (request.model === 'mock-unavailable') {
+      throw Object.assign(new Error('503 Service Unavailable (mock)'), { status: 503 });
+    }
+    return reply(request);
+  };
+
+  return {
+    name: 'mock',
+    isConfigured: () => true,
+    capabilities: { streaming: true, temperature: true, jsonMode: true, tools: true },
+    async complete(request) {
+      return { role: 'assistant', content: respond(request), refusal: null };
+    },
+    async *stream(request) {
+      for (const word of respond(request).split(/(?<=\s)/)) yield word;
+    },
+  };
+}
+
+const CHAT_PROVIDERS = new Map<string, ChatProvider>(
+  [
+    createOpenAIChatProvider({ name: 'ai-builders', apiKey: getAiBuilderToken, baseURL: () => AI_BUILDERS_BASE_URL }),
+    createOpenAIChatProvider({ name: 'openai', apiKey: () => process.env.OPENAI_API_KEY || '' }),
+    createOpenAIChatProvider({
+      name: 'openai-compatible',
+      apiKey: () => process.env.AI_CHAT_API_KEY || '',
+      baseURL: () => process.env.AI_CHAT_BASE_URL,
+      isConfigured: () => Boolean(process.env.AI_CHAT_BASE_URL),
+    }),
+    createMockChatProvider(),
+  ].map((provider) => [provider.name, provider])
+);
+
+export function registerChatProvider(provider: ChatProvider) {
+  CHAT_PROVIDERS.set(provider.name, provider);
+}
+
+export function getChatProvider(name: string): ChatProvider | null {
+  return CHAT_PROVIDERS.get(name) || null;
+}
+
+function parseCapabilityOverrides(): Record<string, Partial<ModelCapabilities>> {
+  const raw = process.env.AI_MODEL_CAPABILITIES;
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return parsed && typeof parsed === 'object' ? (parsed as Record<string, Partial<ModelCapabilities>>) : {};
+  } catch {
+    console.warn('Ignoring AI_MODEL_CAPABILITIES: not valid JSON');
+    return {};
+  }
+}
+
+// AI_MODEL_CAPABILITIES: {"gemini-2.5-pro": {"streaming": true}}, keyed by exact model name.
+export function getModelCapabilities(model: string, provider?: ChatProvider): ModelCapabilities {
+  const builtIn = MODEL_CAPABILITIES.find(([prefix]) => model.startsWith(prefix))?.[1];
+  return { ...DEFAULT_CAPABILITIES, ...builtIn, ...provider?.capabilities, ...parseCapabilityOverrides()[model] };
+}
+
+// The chains that existed before they were configurable: AI Builders first, OpenAI on outages.
+function defaultChain(purpose: ChatPurpose, options: { temperature?: number }): string[] {
+  const chatModel = process.env.AI_CHAT_MODEL || 'grok-4-fast';
+  const fallbackChatModel = process.env.AI_CHAT_MODEL_FALLBACK || 'gpt-5';
+
+  if (purpose === 'chat') return [`ai-builders:${chatModel}`, `openai:${fallbackChatModel}`];
+  if (purpose === 'agent') return [`ai-builders:${process.env.AI_AGENT_MODEL || chatModel}`, `openai:${fallbackChatModel}`];
+
+  // For deterministic/structured outputs, fall back to a model that supports temperature 0.
+  const fallbackTextModel =
+    process.env.AI_TEXT_MODEL_FALLBACK || (options.temperature === 0 ? 'gpt-4o-mini' : 'gpt-5');
+  return [`ai-builders:${process.env.AI_TEXT_MODEL || 'gemini-2.5-pro'}`, `openai:${fallbackTextModel}`];
+}
+
+const CHAIN_ENV: Record<ChatPurpose, string> = {
+  chat: 'AI_CHAT_PROVIDERS',
+  text: 'AI_TEXT_PROVIDERS',
+  agent: 'AI_AGENT_PROVIDERS',
+};
+
+// Ordered targets for one call. An explicit model (e.g. AI_RERANK_MODEL) runs on the first
+// provider in the chain; the rest of the chain stays as the fallback. Unconfigured providers are
+// skipped.
+export function resolveChatChain(
+  purpose: ChatPurpose,
+  options: { model?: string; temperature?: number } = {}
+): ChatTarget[] {
+  const configured = String(process.env[CHAIN_ENV[purpose]] || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const entries = configured.length > 0 ? configured : defaultChain(purpose, options);
+
+  const targets: ChatTarget[] = [];
+  entries.forEach((entry, index) => {
+    const separator = entry.indexOf(':');
+    const providerName = separator === -1 ? entry : entry.slice(0, separator);
+    const entryModel = separator === -1 ? '' : entry.slice(separator + 1);
+    const model = index === 0 && options.model ? options.model : entryModel;
+
+    const provider = getChatProvider(providerName);
+    if (!provider) {
+      console.warn(`Unknown chat provider "${providerName}" in ${CHAIN_ENV[purpose]}`);
+      return;
+    }
+    if (!model || !provider.isConfigured()) return;
+    targets.push({ provider, model, capabilities: getModelCapabilities(model, provider) });
+  });
+  return targets;
+}
+
+export function isChatConfigured(purpose: ChatPurpose = 'chat'): boolean {
+  return resolveChatChain(purpose).length > 0;
+}
+
+// Drops what the model doesn't accept instead of letting the request fail.
+export function adaptRequest(target: ChatTarget, request: Omit<ChatRequest, 'model'>): ChatRequest {
+  return {
+    ...request,
+    model: target.model,
+    temperature: target.capabilities.temperature ? request.temperature : undefined,
+    json: target.capabilities.jsonMode ? request.json : undefined,
+  };
+}
+
+// Non-streaming completion down the chain.
+export async function completeChat(
+  targets: ChatTarget[],
+  request: Omit<ChatRequest, 'model'>
+): Promise<ChatCompletion> {
+  if (targets.length === 0) throw new Error('No chat provider configured: set AI_BUILDER_TOKEN or OPENAI_API_KEY.');
+
+  let lastError: unknown = null;
+  for (const target of targets) {
+    if (request.tools?.length && !target.capabilities.tools) continue;
+    try {
+      return await target.provider.complete(adaptRequest(target, request));
+    } catch (error) {
+      lastError = error;
+      if (!shouldFallBack(error)) throw error;
+      console.warn(`Chat provider ${target.provider.name}:${target.model} unavailable, trying next:`, error);
+    }
+  }
+  throw lastError ?? new Error('No chat provider in the chain supports this request');
+}
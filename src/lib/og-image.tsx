@@ -0,0 +1,169 @@
+import { ImageResponse } from 'next/og';
+import type { JDMatchShareSummary } from '@/lib/jd-match-share';
+import { getOwnerTenant } from '@/lib/owner';
+import { getSiteSettings } from '@/lib/site-settings';
+import { getPublicSiteUrl } from '@/lib/site-url';
+
+// 1200x630 share cards (LinkedIn, Slack, X) rendered with next/og. Satori supports a subset of
+// CSS: every element with more than one child needs `display: flex`.
+
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 };
+
+const CACHE_CONTROL = 'public, max-age=0, s-maxage=3600, stale-while-revalidate=86400';
+
+type Identity = { displayName: string; siteHost: string };
+
+// Owner identity shown on every card, from Admin > Settings.
+export async function getOgIdentity(): Promise<Identity> {
+  const tenant = await getOwnerTenant();
+  const settings = await getSiteSettings(tenant.id);
+  return { displayName: settings.profile.displayName, siteHost: new URL(getPublicSiteUrl(tenant)).host };
+}
+
+function truncate(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max - 1).trimEnd()}…` : value;
+}
+
+function Frame({ identity, label, children }: { identity: Identity; label: string; children: React.ReactNode }) {
+  return (
+    <div
+      style={{
+        width: '100%',
+        height: '100%',
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: 'space-between',
+        padding: '64px 72px',
+        background: 'linear-gradient(135deg, #09090b 0%, #1e1b4b 55%, #312e81 100%)',
+        color: '#fafafa',
+        fontFamily: 'sans-serif',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', fontSize: 28 }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 16 }}>
+          <div
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              width: 56,
+              height: 56,
+              borderRadius: 16,
+              background: 'linear-gradient(135deg, #2563eb, #9333ea)',
+              fontSize: 30,
+              fontWeight: 700,
+            }}
+          >
+            {identity.displayName.charAt(0).toUpperCase()}
+          </div>
+          <div style={{ display: 'flex', fontWeight: 600 }}>{identity.displayName}</div>
+        </div>
+        <div
+          style={{
+            display: 'flex',
+            padding: '6px 18px',
+            borderRadius: 999,
+            border: '1px solid rgba(255,255,255,0.25)',
+            color: '#c7d2fe',
+            fontSize: 24,
+          }}
+        >
+          {label}
+        </div>
+      </div>
+
+      {children}
+
+      <div style={{ display: 'flex', fontSize: 24, color: '#a1a1aa' }}>{identity.siteHost}</div>
+    </div>
+  );
+}
+
+function Chips({ items }: { items: string[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12, marginTop: 28 }}>
+      {items.map((item) => (
+        <div
+          key={item}
+          style={{
+            display: 'flex',
+            padding: '8px 20px',
+            borderRadius: 999,
+            background: 'rgba(255,255,255,0.12)',
+            color: '#e4e4e7',
+            fontSize: 24,
+          }}
+        >
+          {truncate(item, 28)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function renderContentOgImage(args: {
+  identity: Identity;
+  label: string;
+  title: string;
+  subtitle?: string | null;
+  chips?: string[];
+}): ImageResponse {
+  return new ImageResponse(
+    (
+      <Frame identity={args.identity} label={args.label}>
+        <div style={{ display: 'flex', flexDirection: 'column' }}>
+          <div style={{ display: 'flex', fontSize: args.title.length > 60 ? 56 : 68, fontWeight: 700, lineHeight: 1.1 }}>
+            {truncate(args.title, 110)}
+          </div>
+          {args.subtitle && (
+            <div style={{ display: 'flex', marginTop: 20, fontSize: 30, color: '#d4d4d8', lineHeight: 1.35 }}>
+              {truncate(args.subtitle, 160)}
+            </div>
+          )}
+          <Chips items={(args.chips || []).slice(0, 6)} />
+        </div>
+      </Frame>
+    ),
+    { ...OG_IMAGE_SIZE, headers: { 'Cache-Control': CACHE_CONTROL } }
+  );
+}
+
+export function renderJDMatchOgImage(identity: Identity, summary: JDMatchShareSummary): ImageResponse {
+  const role = [summary.title, summary.company].filter(Boolean).join(' @ ') || 'Job description match';
+
+  return new ImageResponse(
+    (
+      <Frame identity={identity} label="JD match">
+        <div style={{ display: 'flex', alignItems: 'center', gap: 56 }}>
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              justifyContent: 'center',
+              width: 260,
+              height: 260,
+              borderRadius: 130,
+              border: '10px solid #818cf8',
+              background: 'rgba(255,255,255,0.06)',
+            }}
+          >
+            <div style={{ display: 'flex', fontSize: 88, fontWeight: 700 }}>{`${summary.score}%`}</div>
+            <div style={{ display: 'flex', fontSize: 22, color: '#c7d2fe' }}>match</div>
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column', flex: 1 }}>
+            <div style={{ display: 'flex', fontSize: 48, fontWeight: 700, lineHeight: 1.15 }}>{truncate(role, 80)}</div>
+            {summary.required && (
+              <div style={{ display: 'flex', marginTop: 16, fontSize: 28, color: '#d4d4d8' }}>
+                {`${summary.required.matched} of ${summary.required.total} required qualifications backed by evidence`}
+              </div>
+            )}
+            <Chips items={summary.skills} />
+          </div>
+        </div>
+      </Frame>
+    ),
+    { ...OG_IMAGE_SIZE, headers: { 'Cache-Control': CACHE_CONTROL } }
+  );
+}
@@ -0,0 +1,31 @@
+import { headers } from 'next/headers';
+import { DEFAULT_OWNER_ID, OWNER_HEADER, OWNER_VIA_HEADER, getTenantById, type Tenant } from '@/lib/tenants';
+
+// Resolve the owner for the current request (set by middleware from hostname or `/t/<slug>` prefix).
+// Outside a request scope (scripts, build) this falls back to the default owner.
+export async function getOwnerId(): Promise<string> {
+  try {
+    const requestHeaders = await headers();
+    const ownerId = requestHeaders.get(OWNER_HEADER);
+    if (ownerId && getTenantById(ownerId)) return ownerId;
+  } catch {
+    // Not in a request scope
+  }
+  return DEFAULT_OWNER_ID;
+}
+
+export async function getOwnerTenant(): Promise<Tenant> {
+  const ownerId = await getOwnerId();
+  return getTenantById(ownerId) || (getTenantById(DEFAULT_OWNER_ID) as Tenant);
+}
+
+// True when the owner came from the sticky owner cookie rather than the URL, so the response
+// depends on something a shared cache doesn't key on.
+export async function isOwnerFromCookie(): Promise<boolean> {
+  try {
+    const requestHeaders = await headers();
+    return requestHeaders.get(OWNER_VIA_HEADER) === 'cookie';
+  } catch {
+    return false;
+  }
+}
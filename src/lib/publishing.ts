@@ -0,0 +1,146 @@
+import { revalidateTag } from 'next/cache';
+import { supabaseAdmin } from '@/lib/supabase';
+import { indexArticle, indexProject } from '@/lib/indexer';
+import { recordRevision } from '@/lib/revisions';
+import type { Article, Project } from '@/types';
+
+// Scheduled publishing: a draft article/project with `scheduled_at` goes live once that time has
+// passed. `publishDueContent` is run by the cron route (/api/cron/publish) and opportunistically
+// whenever the admin lists articles or projects.
+
+export type PublishSummary = { articles: number; projects: number };
+
+const MAX_DUE_PER_RUN = 50;
+
+export function scheduledPublishingMigrationHint() {
+  return 'Scheduled publishing is not set up yet. Run `database/migrations/20261018_add_scheduled_publishing.sql` in Supabase SQL Editor, then retry.';
+}
+
+// 42703 / PGRST204: scheduled_at column missing.
+export function isMissingScheduleColumnError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return code === '42703' || code === 'PGRST204';
+}
+
+// Accepts an ISO timestamp, '' / null (clear the schedule) or undefined (leave unchanged).
+export function parseScheduledAt(
+  value: unknown
+): { ok: true; value: string | null | undefined } | { ok: false; error: string } {
+  if (value === undefined) return { ok: true, value: undefined };
+  if (value === null || value === '') return { ok: true, value: null };
+  if (typeof value !== 'string') return { ok: false, error: 'scheduled_at must be an ISO date string' };
+
+  const time = Date.parse(value);
+  if (!Number.isFinite(time)) return { ok: false, error: 'scheduled_at is not a valid date' };
+  return { ok: true, value: new Date(time).toISOString() };
+}
+
+async function publishDueArticles(nowIso: string, ownerId?: string): Promise<number> {
+  let query = supabaseAdmin
+    .from('articles')
+    .select('id, published_at, scheduled_at')
+    .eq('status', 'draft')
+    .not('scheduled_at', 'is', null)
+    .lte('scheduled_at', nowIso);
+  if (ownerId) query = query.eq('owner_id', ownerId);
+
+  const { data: due, error } = await query.order('scheduled_at', { ascending: true }).limit(MAX_DUE_PER_RUN);
+  if (error) {
+    if (isMissingScheduleColumnError(error)) return 0;
+    throw error;
+  }
+
+  let published = 0;
+  const rows = (due || []) as Array<Pick<Article, 'id' | 'published_at' | 'scheduled_at'>>;
+  for (const { id, published_at, scheduled_at } of rows) {
+    // The status guard keeps two concurrent runs from publishing (and indexing) the same row twice.
+    const { data, error: updateError } = await supabaseAdmin
+      .from('articles')
+      .update({
+        status: 'published',
+        // A re-scheduled article keeps its original date; a first publish is dated when it was due.
+        published_at: published_at || scheduled_at || nowIso,
+        scheduled_at: null,
+        updated_at: nowIso,
+      })
+      .eq('id', id)
+      .eq('status', 'draft')
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Scheduled publish failed for article:', id, updateError);
+      continue;
+    }
+    if (!data) continue;
+
+    const article = data as Article;
+    published++;
+    try {
+      await indexArticle(article, article.owner_id);
+    } catch (indexError) {
+      console.error('Indexing scheduled article failed:', id, indexError);
+    }
+    await recordRevision({ ownerId: article.owner_id, entityType: 'article', action: 'update', snapshot: data });
+  }
+
+  return published;
+}
+
+async function publishDueProjects(nowIso: string, ownerId?: string): Promise<number> {
+  let query = supabaseAdmin
+    .from('projects')
+    .select('id')
+    .eq('status', 'draft')
+    .is('deleted_at', null)
+    .not('scheduled_at', 'is', null)
+    .lte('scheduled_at', nowIso);
+  if (ownerId) query = query.eq('owner_id', ownerId);
+
+  const { data: due, error } = await query.order('scheduled_at', { ascending: true }).limit(MAX_DUE_PER_RUN);
+  if (error) {
+    if (isMissingScheduleColumnError(error)) return 0;
+    throw error;
+  }
+
+  let published = 0;
+  for (const { id } of (due || []) as Array<{ id: string }>) {
+    const { data, error: updateError } = await supabaseAdmin
+      .from('projects')
+      .update({ status: 'published', scheduled_at: null, updated_at: nowIso })
+      .eq('id', id)
+      .eq('status', 'draft')
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Scheduled publish failed for project:', id, updateError);
+      continue;
+    }
+    if (!data) continue;
+
+    const project = data as Project;
+    published++;
+    try {
+      await indexProject(project, project.owner_id);
+    } catch (indexError) {
+      console.error('Indexing scheduled project failed:', id, indexError);
+    }
+    await recordRevision({ ownerId: project.owner_id, entityType: 'project', action: 'update', snapshot: data });
+  }
+
+  return published;
+}
+
+// Publishes every due draft (for one owner, or for all owners when ownerId is omitted), indexes it
+// for RAG and revalidates the public pages.
+export async function publishDueContent(ownerId?: string): Promise<PublishSummary> {
+  const nowIso = new Date().toISOString();
+  const articles = await publishDueArticles(nowIso, ownerId);
+  const projects = await publishDueProjects(nowIso, ownerId);
+
+  if (articles > 0) revalidateTag('articles', 'default');
+  if (projects > 0) revalidateTag('projects', 'default');
+
+  return { articles, projects };
+}
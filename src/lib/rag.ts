@@ -1,5 +1,8 @@
-import { supabaseAdmin, DEFAULT_OWNER_ID } from './supabase';
-import { generateEmbedding } from './ai';
+import { supabaseAdmin } from './supabase';
+import { generateEmbedding, getEmbeddingProvider } from './embeddings';
+import { getOwnerId } from './owner';
+import { getDefaultReranker, type Reranker } from './rerank';
+import { getPublicSourceUrl } from './chat-sources';
 import type { Chunk, ChunkReference } from '@/types';
 
 export interface RetrievalResult {
@@ -7,29 +10,22 @@ export interface RetrievalResult {
   context: string;
 }
 
-const MAX_SOURCE_CONTEXT_CHARS = 1800;
-const PUBLIC_SITE_URL = (process.env.NEXT_PUBLIC_SITE_URL || 'https://chengai-tianle.ai-builders.space').replace(
-  /\/$/,
-  ''
-);
-
-function toPublicUrl(path: string): string {
-  if (!path) return path;
-  if (/^https?:\/\//i.test(path)) return path;
-  return `${PUBLIC_SITE_URL}${path.startsWith('/') ? '' : '/'}${path}`;
-}
-
-function getSourceHref(source: ChunkReference): string | null {
-  const type = source.source_type;
-  if (type === 'article' && source.source_slug) return toPublicUrl(`/articles/${source.source_slug}`);
-  if (type === 'project' && source.source_slug) return toPublicUrl(`/projects/${source.source_slug}`);
-  if (type === 'experience') return toPublicUrl('/experience');
-  if (type === 'resume') return toPublicUrl('/api/resume');
-  if (type === 'story') return toPublicUrl('/stories');
-  if (type === 'skill') return toPublicUrl('/skills');
-  return null;
+export interface RetrievalOptions {
+  // Over-fetch candidates and reorder them before taking topK.
+  // `true` uses the configured default reranker (RAG_RERANKER); pass a Reranker to override.
+  rerank?: boolean | Reranker;
+  // Defaults to the owner resolved for the current request.
+  ownerId?: string;
+  // Reuse an embedding the caller already computed for this exact query.
+  queryEmbedding?: number[];
+  // Full-text search only: no query embedding (a paid call) and no vector search. For as-you-type
+  // results, where an embedding per keystroke isn't worth it.
+  fullTextOnly?: boolean;
 }
 
+const MAX_SOURCE_CONTEXT_CHARS = 1800;
+const RERANK_OVERFETCH_FACTOR = 3;
+const MAX_RERANK_CANDIDATES = 40;
 function buildContextSnippet(content: string): string {
   const normalized = String(content || '').trim();
   if (!normalized) return '';
@@ -37,21 +33,77 @@ function buildContextSnippet(content: string): string {
   return `${normalized.slice(0, MAX_SOURCE_CONTEXT_CHARS)}…`;
 }
 
-// Hybrid search: vector + full-text
+function resolveReranker(option: RetrievalOptions['rerank']): Reranker | null {
+  if (!option) return null;
+  if (option === true) return getDefaultReranker();
+  return option;
+}
+
+// PGRST202 / 42883: no match_chunks with these parameter names (an older SQL function).
+function isMissingSignatureError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return code === 'PGRST202' || code === '42883';
+}
+
+// Vector search over chunks embedded by the current embedding model; vectors from another model
+// live in a different space and would match at random.
+export async function matchChunks(args: {
+  embedding: number[];
+  threshold: number;
+  count: number;
+  ownerId: string;
+  sourceTypes?: string[];
+}): Promise<{ results: Chunk[] | null; error: unknown }> {
+  const baseRpcArgs: Record<string, unknown> = {
+    query_embedding: args.embedding,
+    match_threshold: args.threshold,
+    match_count: args.count,
+    p_owner_id: args.ownerId,
+  };
+  const filteredArgs =
+    Array.isArray(args.sourceTypes) && args.sourceTypes.length > 0
+      ? { ...baseRpcArgs, p_source_types: args.sourceTypes }
+      : baseRpcArgs;
+
+  let { data, error } = await supabaseAdmin.rpc('match_chunks', {
+    ...filteredArgs,
+    p_embedding_model: getEmbeddingProvider().model,
+  });
+
+  // Backward compatibility: older SQL functions may not accept p_embedding_model / p_source_types.
+  // Other errors are returned as they are; dropping the model filter would mix vector spaces.
+  if (error && isMissingSignatureError(error)) {
+    ({ data, error } = await supabaseAdmin.rpc('match_chunks', filteredArgs));
+  }
+  if (error && isMissingSignatureError(error) && filteredArgs !== baseRpcArgs) {
+    ({ data, error } = await supabaseAdmin.rpc('match_chunks', baseRpcArgs));
+  }
+
+  return { results: (data as Chunk[]) || null, error };
+}
+
+// Hybrid search: vector + full-text, optionally followed by a reranking stage
 export async function retrieveContext(
   query: string,
   topK: number = 5,
-  sourceTypes?: string[]
+  sourceTypes?: string[],
+  options: RetrievalOptions = {}
 ): Promise<RetrievalResult> {
+  const ownerId = options.ownerId ?? (await getOwnerId());
+  const reranker = resolveReranker(options.rerank);
+  const candidateK = reranker
+    ? Math.max(topK, Math.min(MAX_RERANK_CANDIDATES, topK * RERANK_OVERFETCH_FACTOR))
+    : topK;
+
   const ftsPromise = (async () => {
-    let ftsQuery = supabaseAdmin.from('chunks').select('*').eq('owner_id', DEFAULT_OWNER_ID);
+    let ftsQuery = supabaseAdmin.from('chunks').select('*').eq('owner_id', ownerId);
     if (Array.isArray(sourceTypes) && sourceTypes.length > 0) {
       ftsQuery = ftsQuery.in('source_type', sourceTypes);
     }
 
     const attempt = await ftsQuery
       .textSearch('fts_content', query, { type: 'websearch', config: 'english' })
-      .limit(topK);
+      .limit(candidateK);
 
     if (!attempt.error) {
       return { results: (attempt.data as Chunk[]) || null, error: null };
@@ -59,36 +111,22 @@ export async function retrieveContext(
 
     const fallback = await ftsQuery
       .textSearch('content', query, { type: 'websearch', config: 'english' })
-      .limit(topK);
+      .limit(candidateK);
 
     return { results: (fallback.data as Chunk[]) || null, error: fallback.error };
   })();
 
-  const queryEmbeddingPromise = generateEmbedding(query);
-  const queryEmbedding = await queryEmbeddingPromise;
-
-  const vectorPromise = (async () => {
-    const baseRpcArgs: Record<string, unknown> = {
-      query_embedding: queryEmbedding,
-      match_threshold: 0.3, // Lower threshold for better recall
-      match_count: topK,
-      p_owner_id: DEFAULT_OWNER_ID,
-    };
-
-    const rpcArgs =
-      Array.isArray(sourceTypes) && sourceTypes.length > 0
-        ? { ...baseRpcArgs, p_source_types: sourceTypes }
-        : baseRpcArgs;
-
-    let { data, error } = await supabaseAdmin.rpc('match_chunks', rpcArgs);
-
-    // Backward compatibility: older SQL function may not accept p_source_types
-    if (error && rpcArgs !== baseRpcArgs) {
-      ({ data, error } = await supabaseAdmin.rpc('match_chunks', baseRpcArgs));
-    }
+  const queryEmbedding = options.fullTextOnly ? null : (options.queryEmbedding ?? (await generateEmbedding(query)));
 
-    return { results: (data as Chunk[]) || null, error };
-  })();
+  const vectorPromise = queryEmbedding
+    ? matchChunks({
+        embedding: queryEmbedding,
+        threshold: 0.3, // Lower threshold for better recall
+        count: candidateK,
+        ownerId,
+        sourceTypes,
+      })
+    : Promise.resolve({ results: [] as Chunk[], error: null as unknown });
 
   const [
     { results: vectorResultsInitial, error: vectorErrorInitial },
@@ -103,27 +141,18 @@ export async function retrieveContext(
   const hasAnyFts = Array.isArray(ftsResults) && ftsResults.length > 0;
   const hasAnyVector = Array.isArray(vectorResults) && vectorResults.length > 0;
 
-  if (!hasAnyFts && (!hasAnyVector || vectorError)) {
+  if (queryEmbedding && !hasAnyFts && (!hasAnyVector || vectorError)) {
     try {
-      const baseRpcArgs: Record<string, unknown> = {
-        query_embedding: queryEmbedding,
-        match_threshold: 0.0,
-        match_count: topK,
-        p_owner_id: DEFAULT_OWNER_ID,
-      };
-
-      const rpcArgs =
-        Array.isArray(sourceTypes) && sourceTypes.length > 0
-          ? { ...baseRpcArgs, p_source_types: sourceTypes }
-          : baseRpcArgs;
-
-      let { data, error } = await supabaseAdmin.rpc('match_chunks', rpcArgs);
-      if (error && rpcArgs !== baseRpcArgs) {
-        ({ data, error } = await supabaseAdmin.rpc('match_chunks', baseRpcArgs));
-      }
+      const { results: data, error } = await matchChunks({
+        embedding: queryEmbedding,
+        threshold: 0.0,
+        count: candidateK,
+        ownerId,
+        sourceTypes,
+      });
 
       if (!error && Array.isArray(data) && data.length > 0) {
-        vectorResults = data as Chunk[];
+        vectorResults = data;
         vectorError = null;
       }
     } catch (retryError) {
@@ -135,17 +164,22 @@ export async function retrieveContext(
   if (ftsError) console.error('FTS search error:', ftsError);
 
   // Merge and deduplicate results (RRF - Reciprocal Rank Fusion)
-  const mergedResults = fuseResults(
+  const fusedResults = fuseResults(
     (vectorResults as Chunk[]) || [],
     ftsResults || [],
-    topK
+    candidateK
   );
 
+  // Reranking stage: reorder the over-fetched candidates and keep the best topK.
+  const mergedResults = reranker
+    ? await reranker.rerank(query, fusedResults, topK)
+    : fusedResults;
+
   // Build context string
   const context = mergedResults
     .map((r, idx) => {
       const slugPart = r.source_slug ? ` (slug: ${r.source_slug})` : '';
-      const url = getSourceHref(r);
+      const url = getPublicSourceUrl(r);
       const urlLine = url ? `\nURL: ${url}` : '';
       return `SOURCE ${idx + 1}\nType: ${r.source_type}\nTitle: ${r.source_title}${slugPart}${urlLine}\nSnippet: ${r.content_preview}`;
     })
@@ -225,6 +259,6 @@ export async function matchJDToSkills(
   jdKeywords: string[]
 ): Promise<ChunkReference[]> {
   const query = jdKeywords.join(' ');
-  const result = await retrieveContext(query, 10);
+  const result = await retrieveContext(query, 10, undefined, { rerank: true });
   return result.chunks;
 }
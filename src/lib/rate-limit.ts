@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin, isSupabaseAdminConfigured } from '@/lib/supabase';
+import { getClientIp } from '@/lib/visitor';
+import type { EndpointRateLimits, RateLimitRule } from '@/lib/site-settings-types';
+
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+};
+
+export interface RateLimitStore {
+  name: string;
+  take(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+}
+
+type Bucket = { tokens: number; updatedAt: number };
+
+const MAX_MEMORY_BUCKETS = 10_000;
+
+function refillPerSecond(rule: RateLimitRule): number {
+  return rule.perMinute / 60;
+}
+
+// Per-process buckets. Good enough for a single instance; use the Postgres store when scaled out.
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, Bucket>();
+
+  const prune = (now: number) => {
+    if (buckets.size < MAX_MEMORY_BUCKETS) return;
+    // Idle buckets would be full again anyway; drop them first, then the oldest-inserted.
+    for (const [key, bucket] of buckets) {
+      if (now - bucket.updatedAt > 60 * 60 * 1000) buckets.delete(key);
+    }
+    for (const key of buckets.keys()) {
+      if (buckets.size < MAX_MEMORY_BUCKETS * 0.9) break;
+      buckets.delete(key);
+    }
+  };
+
+  return {
+    name: 'memory',
+    async take(key, rule) {
+      const now = Date.now();
+      const rate = refillPerSecond(rule);
+      const existing = buckets.get(key);
+      const elapsed = existing ? (now - existing.updatedAt) / 1000 : 0;
+      const tokens = existing ? Math.min(rule.burst, existing.tokens + elapsed * rate) : rule.burst;
+
+      if (!existing) prune(now);
+
+      if (tokens >= 1) {
+        buckets.set(key, { tokens: tokens - 1, updatedAt: now });
+        return { allowed: true, remaining: Math.floor(tokens - 1), retryAfterSeconds: 0 };
+      }
+
+      buckets.set(key, { tokens, updatedAt: now });
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: rate > 0 ? Math.ceil((1 - tokens) / rate) : 3600,
+      };
+    },
+  };
+}
+
+// Shared buckets in the `rate_limit_buckets` table (see database/migrations/20261018_add_rate_limits.sql).
+export function createPostgresRateLimitStore(): RateLimitStore {
+  return {
+    name: 'postgres',
+    async take(key, rule) {
+      const { data, error } = await supabaseAdmin.rpc('take_rate_limit_token', {
+        p_key: key,
+        p_capacity: rule.burst,
+        p_refill_per_second: refillPerSecond(rule),
+      });
+      if (error) throw error;
+
+      const row = (Array.isArray(data) ? data[0] : data) as
+        | { allowed?: boolean; remaining?: number; retry_after_seconds?: number }
+        | null;
+      if (!row) throw new Error('take_rate_limit_token returned no row');
+
+      return {
+        allowed: Boolean(row.allowed),
+        remaining: Math.max(0, Math.floor(Number(row.remaining) || 0)),
+        retryAfterSeconds: Math.ceil(Number(row.retry_after_seconds) || 0),
+      };
+    },
+  };
+}
+
+// If the shared store is unavailable, keep limiting with the local one instead of failing requests.
+function withFallback(primary: RateLimitStore, fallback: RateLimitStore): RateLimitStore {
+  return {
+    name: primary.name,
+    async take(key, rule) {
+      try {
+        return await primary.take(key, rule);
+      } catch (error) {
+        console.warn(`Rate limit store "${primary.name}" failed, using ${fallback.name}:`, error);
+        return fallback.take(key, rule);
+      }
+    },
+  };
+}
+
+let store: RateLimitStore | null = null;
+
+// RATE_LIMIT_STORE: "memory" (default) or "postgres" (requires SUPABASE_SERVICE_ROLE_KEY).
+export function getRateLimitStore(): RateLimitStore {
+  if (store) return store;
+
+  const setting = String(process.env.RATE_LIMIT_STORE || 'memory').trim().toLowerCase();
+  const memory = createMemoryRateLimitStore();
+  store =
+    setting === 'postgres' && isSupabaseAdminConfigured()
+      ? withFallback(createPostgresRateLimitStore(), memory)
+      : memory;
+  return store;
+}
+
+// Takes one token from the visitor bucket and one from the IP bucket; either running dry blocks the request.
+// Requests without a visitor cookie would get a fresh id every time, so they are charged against
+// their IP bucket only: dropping the cookie never buys extra requests, and can't drain anyone else's.
+export async function checkRateLimit(args: {
+  request: NextRequest;
+  scope: string;
+  ownerId: string;
+  visitorId?: string | null;
+  limits: EndpointRateLimits;
+  store?: RateLimitStore;
+}): Promise<RateLimitResult> {
+  const rateLimitStore = args.store ?? getRateLimitStore();
+  const ip = getClientIp(args.request) || 'unknown';
+  const prefix = `${args.ownerId}:${args.scope}`;
+
+  const checks: Array<Promise<RateLimitResult>> = [
+    rateLimitStore.take(`${prefix}:ip:${ip}`, args.limits.perIp),
+  ];
+  if (args.visitorId) {
+    checks.push(rateLimitStore.take(`${prefix}:vid:${args.visitorId}`, args.limits.perVisitor));
+  }
+
+  const results = await Promise.all(checks);
+  const blocked = results.filter((r) => !r.allowed);
+  if (blocked.length === 0) {
+    return {
+      allowed: true,
+      remaining: Math.min(...results.map((r) => r.remaining)),
+      retryAfterSeconds: 0,
+    };
+  }
+
+  return {
+    allowed: false,
+    remaining: 0,
+    retryAfterSeconds: Math.max(1, ...blocked.map((r) => r.retryAfterSeconds)),
+  };
+}
+
+export function rateLimitResponse(result: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    { error: 'Too many requests. Please slow down and try again shortly.' },
+    {
+      status: 429,
+      headers: { 'Retry-After': String(result.retryAfterSeconds) },
+    }
+  );
+}
@@ -0,0 +1,257 @@
+import { supabaseAdmin, isSupabaseConfigured } from '@/lib/supabase';
+import {
+  deleteSourceChunks,
+  indexArticle,
+  indexExperience,
+  indexProject,
+  indexSkill,
+  indexStory,
+  type IndexResult,
+} from '@/lib/indexer';
+import { computeSkillEvidence } from '@/lib/skill-evidence';
+
+// Full reindex of an owner's content. The indexer only embeds chunks whose content changed, so a
+// rebuild of unchanged content costs one chunk lookup per source. Runs as a `rebuild` job (see
+// lib/job-handlers); admin saves schedule one to pick up anything a single-item save doesn't touch.
+
+export type ManagedSourceType = 'project' | 'article' | 'story' | 'skill' | 'experience';
+
+export type SourceRebuildReport = {
+  indexed: number;
+  removed: number;
+  chunks: IndexResult;
+};
+
+export type RebuildReport = {
+  sources: Record<ManagedSourceType, SourceRebuildReport>;
+  totals: IndexResult;
+  // Chunks whose source row no longer exists (hard deletes that skipped the indexer).
+  orphans_removed: number;
+  skill_evidence_computed: number;
+};
+
+type ProjectRow = {
+  id: string;
+  title: string;
+  slug: string;
+  subtitle?: string | null;
+  description: string;
+  details?: string | null;
+  status: string;
+};
+
+type ExperienceRow = {
+  id: string;
+  company: string;
+  role: string;
+  location?: string | null;
+  employment_type?: string | null;
+  start_date?: string | null;
+  end_date?: string | null;
+  summary?: string | null;
+  details?: string | null;
+  highlights?: string[] | null;
+  tech_stack?: string[] | null;
+  status: string;
+};
+
+const MANAGED_SOURCE_TYPES: ManagedSourceType[] = ['project', 'article', 'story', 'skill', 'experience'];
+const ORPHAN_PAGE_SIZE = 1000;
+
+function emptyReport(): RebuildReport {
+  const source = (): SourceRebuildReport => ({ indexed: 0, removed: 0, chunks: { added: 0, unchanged: 0, removed: 0 } });
+  return {
+    sources: {
+      project: source(),
+      article: source(),
+      story: source(),
+      skill: source(),
+      experience: source(),
+    },
+    totals: { added: 0, unchanged: 0, removed: 0 },
+    orphans_removed: 0,
+    skill_evidence_computed: 0,
+  };
+}
+
+function addResult(target: IndexResult, result: IndexResult) {
+  target.added += result.added;
+  target.unchanged += result.unchanged;
+  target.removed += result.removed;
+}
+
+async function loadProjects(ownerId: string): Promise<ProjectRow[]> {
+  const attempt = await supabaseAdmin
+    .from('projects')
+    .select('id, title, slug, description, details, subtitle, status')
+    .eq('owner_id', ownerId)
+    .is('deleted_at', null);
+
+  if (attempt.error && (attempt.error.code === '42703' || attempt.error.code === 'PGRST204')) {
+    const fallback = await supabaseAdmin
+      .from('projects')
+      .select('id, title, slug, description, subtitle, status')
+      .eq('owner_id', ownerId)
+      .is('deleted_at', null);
+    if (fallback.error) throw fallback.error;
+    return (fallback.data as ProjectRow[] | null) || [];
+  }
+  if (attempt.error) throw attempt.error;
+  return (attempt.data as ProjectRow[] | null) || [];
+}
+
+// Null when the experiences table hasn't been migrated yet (skipped instead of failing the rebuild).
+async function loadExperiences(ownerId: string): Promise<ExperienceRow[] | null> {
+  const attempt = await supabaseAdmin
+    .from('experiences')
+    .select('id, company, role, location, employment_type, start_date, end_date, summary, details, highlights, tech_stack, status')
+    .eq('owner_id', ownerId)
+    .order('start_date', { ascending: false });
+
+  let data = attempt.data as ExperienceRow[] | null;
+  let error: { code?: string } | null = attempt.error;
+  if (attempt.error && (attempt.error.code === '42703' || attempt.error.code === 'PGRST204')) {
+    const fallback = await supabaseAdmin
+      .from('experiences')
+      .select('id, company, role, location, employment_type, start_date, end_date, summary, highlights, tech_stack, status')
+      .eq('owner_id', ownerId)
+      .order('start_date', { ascending: false });
+    data = fallback.data as ExperienceRow[] | null;
+    error = fallback.error;
+  }
+
+  if (error) {
+    if (String(error.code || '').toUpperCase() === '42P01') return null;
+    throw error;
+  }
+  return data || [];
+}
+
+async function loadIndexedSourceIds(ownerId: string, sourceType: ManagedSourceType): Promise<Set<string>> {
+  const ids = new Set<string>();
+  for (let from = 0; ; from += ORPHAN_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('chunks')
+      .select('source_id')
+      .eq('owner_id', ownerId)
+      .eq('source_type', sourceType)
+      .order('id', { ascending: true })
+      .range(from, from + ORPHAN_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const row of (data || []) as Array<{ source_id: string | null }>) {
+      if (row.source_id) ids.add(row.source_id);
+    }
+    if (!data || data.length < ORPHAN_PAGE_SIZE) break;
+  }
+  return ids;
+}
+
+// Knowledge-base text, uploads and chat corrections are article chunks under `kb:` ids with no
+// content row behind them; they are managed from the knowledge base, not swept here.
+async function removeOrphans(
+  ownerId: string,
+  sourceType: ManagedSourceType,
+  knownIds: Set<string>
+): Promise<number> {
+  let removed = 0;
+  for (const sourceId of await loadIndexedSourceIds(ownerId, sourceType)) {
+    if (knownIds.has(sourceId) || sourceId.startsWith('kb:')) continue;
+    removed += (await deleteSourceChunks(sourceType, sourceId, ownerId)).removed;
+  }
+  return removed;
+}
+
+// Called after each source with the number of sources done so far.
+export type RebuildProgress = (done: number, total: number, sourceType: ManagedSourceType) => void | Promise<void>;
+
+export async function rebuildIndex(ownerId: string, onProgress?: RebuildProgress): Promise<RebuildReport> {
+  const report = emptyReport();
+  if (!isSupabaseConfigured()) return report;
+
+  const projects = await loadProjects(ownerId);
+
+  const { data: articles, error: articlesError } = await supabaseAdmin
+    .from('articles')
+    .select('id, title, slug, content, summary, status')
+    .eq('owner_id', ownerId)
+    .order('updated_at', { ascending: false });
+  if (articlesError) throw articlesError;
+
+  const { data: stories, error: storiesError } = await supabaseAdmin
+    .from('stories')
+    .select('id, title, situation, task, action, result, is_public')
+    .eq('owner_id', ownerId)
+    .order('updated_at', { ascending: false });
+  if (storiesError) throw storiesError;
+
+  const { data: skills, error: skillsError } = await supabaseAdmin
+    .from('skills')
+    .select('id, name, category, proficiency, years_of_experience, icon, is_primary')
+    .eq('owner_id', ownerId);
+  if (skillsError) throw skillsError;
+
+  const experiences = await loadExperiences(ownerId);
+
+  const total =
+    projects.length + (articles || []).length + (stories || []).length + (skills || []).length + (experiences || []).length;
+  let done = 0;
+
+  const sync = async (sourceType: ManagedSourceType, sourceId: string, index: (() => Promise<IndexResult>) | null) => {
+    const entry = report.sources[sourceType];
+    if (index) {
+      addResult(entry.chunks, await index());
+      entry.indexed++;
+    } else {
+      addResult(entry.chunks, await deleteSourceChunks(sourceType, sourceId, ownerId));
+      entry.removed++;
+    }
+    done += 1;
+    await onProgress?.(done, total, sourceType);
+  };
+
+  for (const project of projects) {
+    await sync('project', project.id, project.status === 'published' ? () => indexProject(project, ownerId) : null);
+  }
+  for (const article of articles || []) {
+    await sync('article', article.id, article.status === 'published' ? () => indexArticle(article, ownerId) : null);
+  }
+  for (const story of stories || []) {
+    await sync('story', story.id, story.is_public ? () => indexStory(story, ownerId) : null);
+  }
+  for (const skill of skills || []) {
+    await sync('skill', skill.id, () => indexSkill(skill, ownerId));
+  }
+  for (const experience of experiences || []) {
+    await sync(
+      'experience',
+      experience.id,
+      experience.status === 'published' ? () => indexExperience(experience, ownerId) : null
+    );
+  }
+
+  const knownIds: Record<ManagedSourceType, Set<string>> = {
+    project: new Set(projects.map((row) => row.id)),
+    article: new Set((articles || []).map((row) => row.id)),
+    story: new Set((stories || []).map((row) => row.id)),
+    skill: new Set((skills || []).map((row) => row.id)),
+    experience: new Set((experiences || []).map((row) => row.id)),
+  };
+  for (const sourceType of MANAGED_SOURCE_TYPES) {
+    if (sourceType === 'experience' && experiences === null) continue;
+    const removed = await removeOrphans(ownerId, sourceType, knownIds[sourceType]);
+    report.sources[sourceType].chunks.removed += removed;
+    report.orphans_removed += removed;
+  }
+
+  for (const sourceType of MANAGED_SOURCE_TYPES) addResult(report.totals, report.sources[sourceType].chunks);
+
+  // Chunks are fresh now, so recompute skill evidence too (skipped until its migration has run).
+  try {
+    report.skill_evidence_computed = (await computeSkillEvidence(ownerId)).length;
+  } catch (error) {
+    console.warn('Skill evidence recompute skipped:', error);
+  }
+
+  return report;
+}
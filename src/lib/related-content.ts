@@ -0,0 +1,210 @@
+import { revalidateTag, unstable_cache } from 'next/cache';
+import { supabaseAdmin, isSupabaseAdminConfigured } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { getSourceHref } from '@/lib/chat-sources';
+import { parseVector } from '@/lib/requirement-matcher';
+import { matchChunks } from '@/lib/rag';
+import { getEmbeddingProvider, isMissingEmbeddingModelColumnError } from '@/lib/embeddings';
+import type { RelatedContentItem } from '@/types';
+
+// "Related" section for project and article pages. An item's chunks are averaged into one
+// embedding and matched against the other indexed projects, articles, stories and experiences
+// with `match_chunks`. Results are cached per item; any indexer write drops the whole cache,
+// since a change to one item can move it into (or out of) every other item's list.
+
+type RelatedSourceType = RelatedContentItem['source_type'];
+
+export const RELATED_CONTENT_TAG = 'related-content';
+
+const RELATED_SOURCE_TYPES: RelatedSourceType[] = ['project', 'article', 'story', 'experience'];
+const MATCH_THRESHOLD = 0.3;
+const MATCH_COUNT = 40;
+const MAX_RELATED = 6;
+const MAX_PER_TYPE = 3;
+
+// The first picks guarantee a spread: a project leads to the experience and stories behind it,
+// an article to the projects it discusses.
+const SEED_ORDER: Record<'project' | 'article', RelatedSourceType[]> = {
+  project: ['experience', 'story', 'project', 'article'],
+  article: ['project', 'article', 'experience', 'story'],
+};
+
+type MatchRow = {
+  id: string;
+  source_type: string;
+  source_id: string | null;
+  metadata: Record<string, unknown> | null;
+  similarity: number;
+};
+
+function centroid(vectors: number[][]): number[] | null {
+  const dims = vectors[0]?.length || 0;
+  if (!dims) return null;
+
+  const sum = new Array<number>(dims).fill(0);
+  let count = 0;
+  for (const vector of vectors) {
+    if (vector.length !== dims) continue;
+    for (let i = 0; i < dims; i++) sum[i] += vector[i];
+    count += 1;
+  }
+  return count > 0 ? sum.map((value) => value / count) : null;
+}
+
+async function loadSourceEmbedding(ownerId: string, sourceType: string, sourceId: string): Promise<number[] | null> {
+  const query = () =>
+    supabaseAdmin
+      .from('chunks')
+      .select('embedding')
+      .eq('owner_id', ownerId)
+      .eq('source_type', sourceType)
+      .eq('source_id', sourceId);
+
+  // Only this model's vectors can be averaged and matched; before the migration there is one model.
+  let { data, error } = await query().eq('embedding_model', getEmbeddingProvider().model);
+  if (error && isMissingEmbeddingModelColumnError(error)) {
+    ({ data, error } = await query());
+  }
+  if (error) throw error;
+
+  const vectors = ((data || []) as Array<{ embedding: unknown }>)
+    .map((row) => parseVector(row.embedding))
+    .filter((vector): vector is number[] => vector !== null);
+  return centroid(vectors);
+}
+
+async function matchRelatedChunks(ownerId: string, embedding: number[]): Promise<MatchRow[]> {
+  const { results, error } = await matchChunks({
+    embedding,
+    threshold: MATCH_THRESHOLD,
+    count: MATCH_COUNT,
+    ownerId,
+    sourceTypes: RELATED_SOURCE_TYPES,
+  });
+  if (error) throw error;
+
+  return (results as unknown as MatchRow[]) || [];
+}
+
+// Public stories written about this project (stories.project_id) are always "behind" it.
+async function loadProjectStories(ownerId: string, projectId: string): Promise<RelatedContentItem[]> {
+  const { data, error } = await supabaseAdmin
+    .from('stories')
+    .select('id,title')
+    .eq('owner_id', ownerId)
+    .eq('project_id', projectId)
+    .eq('is_public', true)
+    .limit(MAX_PER_TYPE);
+
+  if (error) {
+    console.warn('Related stories lookup failed:', error);
+    return [];
+  }
+
+  return ((data || []) as Array<{ id: string; title: string }>).map((story) => ({
+    source_type: 'story',
+    source_id: story.id,
+    title: story.title,
+    href: '/stories',
+    similarity: 1,
+  }));
+}
+
+// Best chunk per source page; knowledge-base chunks (no page to link to) are dropped.
+function toCandidates(rows: MatchRow[], self: { type: string; id: string }): RelatedContentItem[] {
+  const bySource = new Map<string, RelatedContentItem>();
+
+  for (const row of rows) {
+    const type = row.source_type as RelatedSourceType;
+    if (!RELATED_SOURCE_TYPES.includes(type) || !row.source_id) continue;
+    if (type === self.type && row.source_id === self.id) continue;
+
+    const metadata = row.metadata || {};
+    const title = typeof metadata.title === 'string' ? metadata.title : '';
+    const slug = typeof metadata.slug === 'string' ? metadata.slug : null;
+    const href = getSourceHref({ source_type: type, source_slug: slug });
+    if (!title || !href) continue;
+
+    const key = `${type}:${row.source_id}`;
+    const existing = bySource.get(key);
+    if (!existing || row.similarity > existing.similarity) {
+      bySource.set(key, { source_type: type, source_id: row.source_id, title, href, similarity: row.similarity });
+    }
+  }
+
+  return Array.from(bySource.values()).sort((a, b) => b.similarity - a.similarity);
+}
+
+function pickRelated(candidates: RelatedContentItem[], seedOrder: RelatedSourceType[]): RelatedContentItem[] {
+  const picked: RelatedContentItem[] = [];
+  const perType = new Map<string, number>();
+  const add = (item: RelatedContentItem) => {
+    picked.push(item);
+    perType.set(item.source_type, (perType.get(item.source_type) || 0) + 1);
+  };
+
+  for (const type of seedOrder) {
+    const best = candidates.find((item) => item.source_type === type);
+    if (best && picked.length < MAX_RELATED) add(best);
+  }
+  for (const item of candidates) {
+    if (picked.length >= MAX_RELATED) break;
+    if (picked.includes(item) || (perType.get(item.source_type) || 0) >= MAX_PER_TYPE) continue;
+    add(item);
+  }
+
+  return picked;
+}
+
+async function computeRelatedContent(
+  ownerId: string,
+  sourceType: 'project' | 'article',
+  sourceId: string
+): Promise<RelatedContentItem[]> {
+  const embedding = await loadSourceEmbedding(ownerId, sourceType, sourceId);
+  const [rows, pinnedStories] = await Promise.all([
+    embedding ? matchRelatedChunks(ownerId, embedding) : Promise.resolve([]),
+    sourceType === 'project' ? loadProjectStories(ownerId, sourceId) : Promise.resolve([]),
+  ]);
+
+  const pinnedIds = new Set(pinnedStories.map((story) => story.source_id));
+  const candidates = [
+    ...pinnedStories,
+    ...toCandidates(rows, { type: sourceType, id: sourceId }).filter(
+      (item) => !(item.source_type === 'story' && pinnedIds.has(item.source_id))
+    ),
+  ];
+
+  return pickRelated(candidates, SEED_ORDER[sourceType]);
+}
+
+const cachedGetRelatedContent = unstable_cache(
+  async (ownerId: string, sourceType: 'project' | 'article', sourceId: string) =>
+    computeRelatedContent(ownerId, sourceType, sourceId),
+  ['related-content'],
+  { revalidate: 86400, tags: [RELATED_CONTENT_TAG] }
+);
+
+export async function getRelatedContent(
+  sourceType: 'project' | 'article',
+  sourceId: string,
+  ownerId?: string
+): Promise<RelatedContentItem[]> {
+  if (!isSupabaseAdminConfigured()) return [];
+
+  try {
+    return await cachedGetRelatedContent(ownerId ?? (await getOwnerId()), sourceType, sourceId);
+  } catch (error) {
+    console.error('Related content error:', error);
+    return [];
+  }
+}
+
+// Called by the indexer on every chunk write.
+export function invalidateRelatedContent() {
+  try {
+    revalidateTag(RELATED_CONTENT_TAG, 'default');
+  } catch {
+    // Outside a Next.js request (scripts) there is no cache to invalidate.
+  }
+}
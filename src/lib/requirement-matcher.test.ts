@@ -0,0 +1,79 @@
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getSemanticMatchThreshold, pickSemanticMatch } from '@/lib/requirement-matcher';
+import type { ChunkReference, Skill } from '@/types';
+
+// A unit vector whose cosine similarity with [1, 0] is exactly `similarity`.
+const at = (similarity: number) => [similarity, Math.sqrt(1 - similarity * similarity)];
+
+const skill = (id: string, name: string): Skill => ({
+  id,
+  owner_id: 'owner',
+  name,
+  category: 'tool',
+  proficiency: 4,
+  years_of_experience: null,
+  icon: null,
+  is_primary: false,
+  created_at: '2026-01-01T00:00:00Z',
+});
+
+const chunk = (id: string): ChunkReference => ({
+  chunk_id: id,
+  source_type: 'project',
+  source_title: `Project ${id}`,
+  relevance_score: 0.5,
+  content_preview: '',
+});
+
+function pick(skillSimilarity: number | null, chunkSimilarity: number | null, threshold = 0.6) {
+  return pickSemanticMatch({
+    vector: [1, 0],
+    skills: [skill('s1', 'pgvector')],
+    chunks: [chunk('c1')],
+    skillVectors: new Map(skillSimilarity === null ? [] : [['s1', at(skillSimilarity)]]),
+    chunkVectors: new Map(chunkSimilarity === null ? [] : [['c1', at(chunkSimilarity)]]),
+    threshold,
+  });
+}
+
+describe('pickSemanticMatch', () => {
+  test('prefers a closer chunk over a skill that only clears the threshold', () => {
+    const match = pick(0.62, 0.8);
+    assert.equal(match?.via, 'evidence');
+    assert.ok(Math.abs((match?.similarity ?? 0) - 0.8) < 1e-9);
+  });
+
+  test('keeps the skill when it is at least as close as the best chunk', () => {
+    assert.equal(pick(0.75, 0.7)?.via, 'skill');
+    assert.equal(pick(0.7, 0.7)?.via, 'skill');
+  });
+
+  test('returns nothing below the threshold', () => {
+    assert.equal(pick(0.55, 0.59), null);
+    assert.equal(pick(null, null), null);
+  });
+
+  test('falls back to chunks when no skill has a stored embedding', () => {
+    assert.equal(pick(null, 0.65)?.via, 'evidence');
+  });
+});
+
+describe('getSemanticMatchThreshold', () => {
+  const original = process.env.JD_SEMANTIC_MATCH_THRESHOLD;
+  afterEach(() => {
+    if (original === undefined) delete process.env.JD_SEMANTIC_MATCH_THRESHOLD;
+    else process.env.JD_SEMANTIC_MATCH_THRESHOLD = original;
+  });
+
+  test('defaults to 0.6 and accepts overrides inside (0, 1)', () => {
+    delete process.env.JD_SEMANTIC_MATCH_THRESHOLD;
+    assert.equal(getSemanticMatchThreshold(), 0.6);
+
+    process.env.JD_SEMANTIC_MATCH_THRESHOLD = '0.7';
+    assert.equal(getSemanticMatchThreshold(), 0.7);
+
+    process.env.JD_SEMANTIC_MATCH_THRESHOLD = '1.5';
+    assert.equal(getSemanticMatchThreshold(), 0.6);
+  });
+});
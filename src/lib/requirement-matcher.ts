@@ -0,0 +1,293 @@
+import { generateEmbeddings, getEmbeddingProvider, isMissingEmbeddingModelColumnError } from '@/lib/embeddings';
+import { supabaseAdmin, isSupabaseAdminConfigured } from '@/lib/supabase';
+import type { ChunkReference, Skill } from '@/types';
+
+// Related terms for JD requirements. A requirement whose normalized text contains any `when`
+// term is expanded with `related`: lexical matching looks for each related term in the evidence,
+// and semantic matching embeds the requirement together with them so paraphrases land closer.
+export type RequirementConcept = { when: string[]; related: string[] };
+
+export const REQUIREMENT_ONTOLOGY: RequirementConcept[] = [
+  {
+    when: ['llm', 'large language model', 'genai', 'generative ai'],
+    related: ['openai', 'gpt', 'gemini', 'claude', 'rag', 'agent', 'agents'],
+  },
+  {
+    when: ['prompt'],
+    related: ['prompt', 'prompting', 'prompt design', 'prompt tuning', 'prompt experimentation'],
+  },
+  {
+    when: ['rag', 'retrieval'],
+    related: ['rag', 'retrieval', 'vector', 'embedding', 'embeddings', 'bm25', 'pgvector'],
+  },
+  {
+    when: ['vector database', 'vector databases', 'vector db', 'vector store', 'vector search', 'semantic search'],
+    related: ['pgvector', 'pinecone', 'weaviate', 'qdrant', 'milvus', 'chroma', 'faiss', 'embeddings', 'vector'],
+  },
+  {
+    when: ['agent'],
+    related: ['agent', 'agents', 'agentic', 'tool use', 'mcp'],
+  },
+  {
+    // Treat comparable frameworks as evidence of transferable skill.
+    when: ['llamaindex'],
+    related: ['llamaindex', 'langchain', 'langgraph', 'semantic kernel', 'crewai', 'agents'],
+  },
+  {
+    when: ['langchain', 'langgraph', 'semantic kernel', 'agents sdk', 'agent sdk'],
+    related: ['langchain', 'langgraph', 'semantic kernel', 'crewai'],
+  },
+  {
+    when: ['evaluation', 'eval', 'model evaluation'],
+    related: ['evaluation', 'eval', 'accuracy', 'latency', 'cost', 'robust', 'monitor', 'observability'],
+  },
+  {
+    when: ['ci cd', 'cicd'],
+    related: ['ci cd', 'cicd', 'github actions', 'pipeline'],
+  },
+  {
+    when: ['docker'],
+    related: ['docker', 'docker compose'],
+  },
+  {
+    when: ['relational database', 'relational databases', 'sql database'],
+    related: ['postgresql', 'postgres', 'mysql', 'sqlite', 'sql'],
+  },
+];
+
+// Exact-match aliases: the short form only counts when it is the whole requirement.
+const EXACT_ALIASES: string[][] = [
+  ['typescript', 'ts'],
+  ['javascript', 'js'],
+  ['kubernetes', 'k8s'],
+  ['postgresql', 'postgres'],
+];
+
+export function normalizeToken(value: string): string {
+  return String(value || '')
+    .trim()
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/c\+\+/g, 'cplusplus')
+    .replace(/c#/g, 'csharp')
+    .replace(/\.js/g, 'js')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+let cachedOntology: RequirementConcept[] | null = null;
+
+// JD_REQUIREMENT_SYNONYMS extends the built-in table: {"observability": ["datadog", "grafana"]}.
+export function getRequirementOntology(): RequirementConcept[] {
+  if (cachedOntology) return cachedOntology;
+
+  const extra: RequirementConcept[] = [];
+  const raw = process.env.JD_REQUIREMENT_SYNONYMS;
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        for (const [concept, terms] of Object.entries(parsed as Record<string, unknown>)) {
+          if (!Array.isArray(terms)) continue;
+          const related = terms.filter((t): t is string => typeof t === 'string' && t.trim().length > 0);
+          if (related.length > 0) extra.push({ when: [concept], related: [concept, ...related] });
+        }
+      }
+    } catch (error) {
+      console.warn('Invalid JD_REQUIREMENT_SYNONYMS, using the built-in table only:', error);
+    }
+  }
+
+  cachedOntology = [...REQUIREMENT_ONTOLOGY, ...extra].map((c) => ({
+    when: c.when.map(normalizeToken).filter(Boolean),
+    related: c.related.map(normalizeToken).filter(Boolean),
+  }));
+  return cachedOntology;
+}
+
+// The requirement itself plus every related term from matching ontology entries.
+export function expandRequirement(requirement: string): string[] {
+  const base = normalizeToken(requirement);
+  const terms = new Set<string>();
+  if (base) terms.add(base);
+
+  for (const concept of getRequirementOntology()) {
+    if (concept.when.some((w) => base.includes(w))) {
+      for (const term of concept.related) terms.add(term);
+    }
+  }
+
+  for (const aliases of EXACT_ALIASES) {
+    if (aliases.includes(base)) aliases.forEach((a) => terms.add(a));
+  }
+
+  return Array.from(terms);
+}
+
+export type SemanticRequirementMatch =
+  | { via: 'skill'; skill: Skill; similarity: number }
+  | { via: 'evidence'; chunk: ChunkReference; similarity: number };
+
+// With text-embedding-3-small, a short requirement against an unrelated skill or chunk typically
+// lands around 0.2-0.45 and a paraphrase ("vector databases" vs "pgvector") around 0.55-0.7; 0.5
+// let loosely related evidence through.
+const DEFAULT_SEMANTIC_THRESHOLD = 0.6;
+
+export function getSemanticMatchThreshold(): number {
+  const raw = Number(process.env.JD_SEMANTIC_MATCH_THRESHOLD);
+  return Number.isFinite(raw) && raw > 0 && raw < 1 ? raw : DEFAULT_SEMANTIC_THRESHOLD;
+}
+
+function isSemanticMatchingEnabled(): boolean {
+  const raw = String(process.env.JD_SEMANTIC_MATCH || 'on').trim().toLowerCase();
+  return raw !== 'off' && raw !== 'false' && raw !== '0';
+}
+
+// pgvector columns come back from PostgREST as "[0.1,0.2,...]" strings.
+export function parseVector(value: unknown): number[] | null {
+  if (Array.isArray(value)) return value.every((v) => typeof v === 'number') ? (value as number[]) : null;
+  if (typeof value !== 'string') return null;
+  try {
+    const parsed = JSON.parse(value) as unknown;
+    return Array.isArray(parsed) ? (parsed as number[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let aa = 0;
+  let bb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    aa += a[i] * a[i];
+    bb += b[i] * b[i];
+  }
+  return aa === 0 || bb === 0 ? 0 : dot / Math.sqrt(aa * bb);
+}
+
+// Stored embeddings for the retrieved chunks and for every indexed skill (skills are indexed as
+// `skill` chunks), so the only new embedding call is one batch for the requirements themselves.
+async function loadStoredEmbeddings(
+  ownerId: string,
+  chunkIds: string[]
+): Promise<{ chunks: Map<string, number[]>; skills: Map<string, number[]> }> {
+  // Requirements are embedded with the current model, so only compare against the same model's vectors.
+  const model = getEmbeddingProvider().model;
+  const load = (scoped: boolean) => {
+    let chunkQuery = supabaseAdmin.from('chunks').select('id, embedding').eq('owner_id', ownerId).in('id', chunkIds);
+    let skillQuery = supabaseAdmin.from('chunks').select('source_id, embedding').eq('owner_id', ownerId).eq('source_type', 'skill');
+    if (scoped) {
+      chunkQuery = chunkQuery.eq('embedding_model', model);
+      skillQuery = skillQuery.eq('embedding_model', model);
+    }
+    return Promise.all([chunkIds.length > 0 ? chunkQuery : Promise.resolve({ data: [], error: null }), skillQuery]);
+  };
+
+  let [chunkRes, skillRes] = await load(true);
+  if (isMissingEmbeddingModelColumnError(chunkRes.error) || isMissingEmbeddingModelColumnError(skillRes.error)) {
+    [chunkRes, skillRes] = await load(false);
+  }
+  if (chunkRes.error) throw chunkRes.error;
+  if (skillRes.error) throw skillRes.error;
+
+  const chunks = new Map<string, number[]>();
+  for (const row of (chunkRes.data || []) as Array<{ id: string; embedding: unknown }>) {
+    const v = parseVector(row.embedding);
+    if (v) chunks.set(row.id, v);
+  }
+
+  const skills = new Map<string, number[]>();
+  for (const row of (skillRes.data || []) as Array<{ source_id: string; embedding: unknown }>) {
+    const v = parseVector(row.embedding);
+    if (v && !skills.has(row.source_id)) skills.set(row.source_id, v);
+  }
+
+  return { chunks, skills };
+}
+
+// The closest skill or chunk at or above `threshold`. A chunk has to be strictly closer to beat a
+// skill, since skills are explicit claims.
+export function pickSemanticMatch(args: {
+  vector: number[];
+  skills: Skill[];
+  chunks: ChunkReference[];
+  skillVectors: Map<string, number[]>;
+  chunkVectors: Map<string, number[]>;
+  threshold: number;
+}): SemanticRequirementMatch | null {
+  let best: SemanticRequirementMatch | null = null;
+
+  for (const skill of args.skills) {
+    const sv = args.skillVectors.get(skill.id);
+    if (!sv) continue;
+    const similarity = cosineSimilarity(args.vector, sv);
+    if (similarity >= args.threshold && (!best || similarity > best.similarity)) {
+      best = { via: 'skill', skill, similarity };
+    }
+  }
+
+  for (const chunk of args.chunks) {
+    const cv = args.chunkVectors.get(chunk.chunk_id);
+    if (!cv) continue;
+    const similarity = cosineSimilarity(args.vector, cv);
+    if (similarity >= args.threshold && (!best || similarity > best.similarity)) {
+      best = { via: 'evidence', chunk, similarity };
+    }
+  }
+
+  return best;
+}
+
+// Embeds each requirement (with its ontology expansion) and compares it against skill and chunk
+// embeddings. Returns an empty map when embeddings are unavailable so callers keep their lexical result.
+export async function matchRequirementsSemantically(args: {
+  ownerId: string;
+  requirements: string[];
+  skills: Skill[];
+  chunks: ChunkReference[];
+  threshold?: number;
+}): Promise<Map<string, SemanticRequirementMatch>> {
+  const matches = new Map<string, SemanticRequirementMatch>();
+  const requirements = Array.from(new Set(args.requirements.filter((r) => r.trim())));
+  if (requirements.length === 0 || !isSemanticMatchingEnabled() || !isSupabaseAdminConfigured()) return matches;
+
+  const threshold = args.threshold ?? getSemanticMatchThreshold();
+
+  try {
+    const [requirementVectors, stored] = await Promise.all([
+      generateEmbeddings(
+        requirements.map((r) => {
+          const related = expandRequirement(r).filter((t) => t !== normalizeToken(r));
+          return related.length > 0 ? `${r} (${related.slice(0, 8).join(', ')})` : r;
+        })
+      ),
+      loadStoredEmbeddings(
+        args.ownerId,
+        args.chunks.map((c) => c.chunk_id).filter(Boolean)
+      ),
+    ]);
+
+    requirements.forEach((requirement, idx) => {
+      const vector = requirementVectors[idx];
+      if (!vector) return;
+
+      const best = pickSemanticMatch({
+        vector,
+        skills: args.skills,
+        chunks: args.chunks,
+        skillVectors: stored.skills,
+        chunkVectors: stored.chunks,
+        threshold,
+      });
+      if (best) matches.set(requirement, best);
+    });
+  } catch (error) {
+    console.warn('Semantic requirement matching failed, using lexical matching only:', error);
+  }
+
+  return matches;
+}
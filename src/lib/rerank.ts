@@ -0,0 +1,216 @@
+import { generateText, isTextGenerationConfigured } from './ai';
+import type { ChunkReference } from '@/types';
+
+export interface Reranker {
+  name: string;
+  rerank(query: string, candidates: ChunkReference[], topK: number): Promise<ChunkReference[]>;
+}
+
+export type RerankerName = 'lexical' | 'llm';
+
+const RERANK_MODEL = process.env.AI_RERANK_MODEL || 'grok-4-fast';
+const RERANK_TIMEOUT_MS = Number(process.env.AI_RERANK_TIMEOUT_MS || '2500');
+const MAX_LLM_CANDIDATES = 24;
+const MAX_LLM_SNIPPET_CHARS = 420;
+
+// How much of the final score comes from the reranker vs. the original fused rank.
+const LEXICAL_WEIGHT = 0.65;
+const LLM_WEIGHT = 0.8;
+
+const STOPWORDS = new Set<string>([
+  'a', 'about', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'did', 'do', 'does', 'for',
+  'from', 'have', 'how', 'i', 'in', 'is', 'it', 'key', 'me', 'my', 'of', 'on', 'or', 'q', 'recent',
+  'skills', 'keywords', 'tell', 'that', 'the', 'their', 'this', 'to', 'was', 'what', 'when',
+  'where', 'which', 'who', 'why', 'with', 'you', 'your', 'user', 'context', 'session',
+]);
+
+function tokenize(text: string): string[] {
+  return String(text || '')
+    .toLowerCase()
+    .replace(/c\+\+/g, 'cplusplus')
+    .replace(/c#/g, 'csharp')
+    .replace(/\.js\b/g, 'js')
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length >= 2 && !STOPWORDS.has(t));
+}
+
+// Candidates arrive in fused (RRF) order. RRF scores are nearly flat, so blend by rank instead.
+function priorScores(candidates: ChunkReference[]): number[] {
+  return candidates.map((_, i) => 1 - i / Math.max(1, candidates.length));
+}
+
+function applyScores(
+  candidates: ChunkReference[],
+  scores: number[],
+  topK: number
+): ChunkReference[] {
+  return candidates
+    .map((chunk, i) => ({ chunk, score: scores[i] ?? 0, index: i }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, topK)
+    .map(({ chunk, score }) => ({ ...chunk, rerank_score: Number(score.toFixed(6)) }));
+}
+
+function lexicalScore(queryTerms: string[], idf: Map<string, number>, chunk: ChunkReference): number {
+  if (queryTerms.length === 0) return 0;
+
+  const titleTerms = new Set(tokenize(chunk.source_title));
+  const bodyTerms = tokenize(chunk.content_preview);
+  if (bodyTerms.length === 0 && titleTerms.size === 0) return 0;
+
+  const tf = new Map<string, number>();
+  for (const t of bodyTerms) tf.set(t, (tf.get(t) || 0) + 1);
+
+  // BM25-style saturation with a mild length penalty; title hits count extra.
+  const k1 = 1.2;
+  const b = 0.5;
+  const avgLen = 120;
+  const lengthNorm = 1 - b + b * (bodyTerms.length / avgLen);
+
+  let score = 0;
+  let maxScore = 0;
+  for (const term of queryTerms) {
+    const weight = idf.get(term) ?? 1;
+    const freq = tf.get(term) || 0;
+    const saturated = freq > 0 ? (freq * (k1 + 1)) / (freq + k1 * lengthNorm) : 0;
+    const titleBoost = titleTerms.has(term) ? 0.5 : 0;
+    score += weight * (Math.min(saturated, k1 + 1) / (k1 + 1) + titleBoost);
+    maxScore += weight;
+  }
+
+  // Reward chunks that contain adjacent query bigrams (phrases like "vector search").
+  const body = ` ${bodyTerms.join(' ')} `;
+  let phraseHits = 0;
+  for (let i = 0; i < queryTerms.length - 1; i++) {
+    if (body.includes(` ${queryTerms[i]} ${queryTerms[i + 1]} `)) phraseHits++;
+  }
+  const phraseBonus = queryTerms.length > 1 ? 0.2 * (phraseHits / (queryTerms.length - 1)) : 0;
+
+  return Math.min(1, (maxScore > 0 ? score / maxScore : 0) + phraseBonus);
+}
+
+export function createLexicalReranker(): Reranker {
+  return {
+    name: 'lexical',
+    async rerank(query, candidates, topK) {
+      if (candidates.length <= 1) return candidates.slice(0, topK);
+
+      const queryTerms = Array.from(new Set(tokenize(query)));
+      const docTerms = candidates.map(
+        (c) => new Set([...tokenize(c.content_preview), ...tokenize(c.source_title)])
+      );
+
+      const idf = new Map<string, number>();
+      for (const term of queryTerms) {
+        const df = docTerms.filter((terms) => terms.has(term)).length;
+        idf.set(term, Math.log(1 + (candidates.length - df + 0.5) / (df + 0.5)));
+      }
+
+      const prior = priorScores(candidates);
+      const scores = candidates.map(
+        (c, i) => LEXICAL_WEIGHT * lexicalScore(queryTerms, idf, c) + (1 - LEXICAL_WEIGHT) * prior[i]
+      );
+
+      return applyScores(candidates, scores, topK);
+    },
+  };
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let id: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<T>((_, reject) => {
+    id = setTimeout(() => reject(new Error(`Timeout after ${ms}ms: ${label}`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(id));
+}
+
+function parseLlmScores(raw: string, count: number): number[] | null {
+  const text = String(raw || '').trim();
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+
+  try {
+    const parsed = JSON.parse(text.slice(start, end + 1)) as {
+      scores?: Array<{ id?: unknown; score?: unknown }>;
+    };
+    if (!Array.isArray(parsed.scores)) return null;
+
+    const scores: number[] = new Array(count).fill(0);
+    let seen = 0;
+    for (const item of parsed.scores) {
+      const id = Number(item?.id);
+      const score = Number(item?.score);
+      if (!Number.isInteger(id) || id < 1 || id > count || !Number.isFinite(score)) continue;
+      scores[id - 1] = Math.max(0, Math.min(10, score)) / 10;
+      seen++;
+    }
+    return seen > 0 ? scores : null;
+  } catch {
+    return null;
+  }
+}
+
+const LLM_RERANK_SYSTEM_PROMPT =
+  'You are a retrieval relevance judge.\n' +
+  'Score how well each passage helps answer the query, from 0 (irrelevant) to 10 (directly answers it).\n' +
+  'Judge relevance only; do not answer the query.\n' +
+  'Return ONLY valid JSON in the form {"scores":[{"id":1,"score":7}]} with one entry per passage.';
+
+export function createLlmReranker(fallback: Reranker = createLexicalReranker()): Reranker {
+  return {
+    name: 'llm',
+    async rerank(query, candidates, topK) {
+      if (candidates.length <= 1) return candidates.slice(0, topK);
+
+      const judged = candidates.slice(0, MAX_LLM_CANDIDATES);
+      const rest = candidates.slice(MAX_LLM_CANDIDATES);
+
+      const passages = judged
+        .map((c, i) => {
+          const snippet = String(c.content_preview || '').replace(/\s+/g, ' ').slice(0, MAX_LLM_SNIPPET_CHARS);
+          return `[${i + 1}] (${c.source_type}) ${c.source_title}\n${snippet}`;
+        })
+        .join('\n\n');
+
+      try {
+        const raw = await withTimeout(
+          generateText(LLM_RERANK_SYSTEM_PROMPT, `Query:\n${query}\n\nPassages:\n${passages}`, {
+            model: RERANK_MODEL,
+            temperature: 0,
+            json: true,
+          }),
+          RERANK_TIMEOUT_MS,
+          'llm_rerank'
+        );
+
+        const llmScores = parseLlmScores(raw, judged.length);
+        if (!llmScores) throw new Error('Reranker returned no usable scores');
+
+        const prior = priorScores(candidates);
+        const scores = candidates.map((_, i) =>
+          i < judged.length ? LLM_WEIGHT * llmScores[i] + (1 - LLM_WEIGHT) * prior[i] : (1 - LLM_WEIGHT) * prior[i]
+        );
+
+        return applyScores([...judged, ...rest], scores, topK);
+      } catch (error) {
+        console.warn(`LLM rerank failed, falling back to ${fallback.name}:`, error);
+        return fallback.rerank(query, candidates, topK);
+      }
+    },
+  };
+}
+
+export function getReranker(name: RerankerName): Reranker {
+  return name === 'llm' ? createLlmReranker() : createLexicalReranker();
+}
+
+// RAG_RERANKER: "lexical" (default), "llm", "auto" (LLM when text generation is configured, else
+// lexical), or "off" to disable reranking everywhere.
+export function getDefaultReranker(): Reranker | null {
+  const setting = String(process.env.RAG_RERANKER || 'lexical').trim().toLowerCase();
+  if (setting === 'off' || setting === 'none' || setting === 'false') return null;
+  if (setting === 'llm') return createLlmReranker();
+  if (setting === 'auto' && isTextGenerationConfigured()) return createLlmReranker();
+  return createLexicalReranker();
+}
@@ -0,0 +1,282 @@
+import { supabaseAdmin, isSupabaseAdminConfigured } from '@/lib/supabase';
+import { getEmbeddingProvider } from '@/lib/embeddings';
+import type { ChunkReference } from '@/types';
+
+export type CachedResponse = {
+  answer: string;
+  sources: ChunkReference[];
+  similarity: number;
+};
+
+// `contentVersion` is the owner's content version at lookup time. A save passes it back and is
+// dropped if an invalidation happened in between, so an answer built from pre-write retrieval
+// never outlives the write.
+export type CacheLookup = {
+  cached: CachedResponse | null;
+  contentVersion: number;
+};
+
+export interface ResponseCacheStore {
+  name: string;
+  lookup(args: {
+    ownerId: string;
+    mode: string;
+    embedding: number[];
+    minSimilarity: number;
+    maxAgeMs: number;
+  }): Promise<CacheLookup>;
+  save(args: {
+    ownerId: string;
+    mode: string;
+    query: string;
+    embedding: number[];
+    answer: string;
+    sources: ChunkReference[];
+    contentVersion: number;
+  }): Promise<void>;
+  // Called on every content write; cached answers may cite chunks that no longer exist.
+  invalidate(ownerId: string): Promise<void>;
+}
+
+type MemoryEntry = {
+  mode: string;
+  contentVersion: number;
+  embedding: number[];
+  norm: number;
+  answer: string;
+  sources: ChunkReference[];
+  createdAt: number;
+};
+
+const MAX_MEMORY_ENTRIES_PER_OWNER = 200;
+const DEFAULT_MIN_SIMILARITY = 0.95;
+const DEFAULT_TTL_SECONDS = 24 * 60 * 60;
+
+function vectorNorm(v: number[]): number {
+  let sum = 0;
+  for (const x of v) sum += x * x;
+  return Math.sqrt(sum);
+}
+
+function cosineSimilarity(a: number[], aNorm: number, b: number[], bNorm: number): number {
+  if (a.length !== b.length || aNorm === 0 || bNorm === 0) return 0;
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return dot / (aNorm * bNorm);
+}
+
+// Per-process cache. Entries are tagged with the owner's content version, which every indexer
+// write bumps, so stale answers are never served even before they are evicted.
+export function createMemoryResponseCacheStore(): ResponseCacheStore {
+  const entries = new Map<string, MemoryEntry[]>();
+  const versions = new Map<string, number>();
+
+  return {
+    name: 'memory',
+    async lookup({ ownerId, mode, embedding, minSimilarity, maxAgeMs }) {
+      const version = versions.get(ownerId) ?? 0;
+      const list = entries.get(ownerId);
+      if (!list || list.length === 0) return { cached: null, contentVersion: version };
+
+      const now = Date.now();
+      const norm = vectorNorm(embedding);
+      let best: { entry: MemoryEntry; similarity: number } | null = null;
+
+      for (const entry of list) {
+        if (entry.mode !== mode || entry.contentVersion !== version) continue;
+        if (now - entry.createdAt > maxAgeMs) continue;
+        const similarity = cosineSimilarity(embedding, norm, entry.embedding, entry.norm);
+        if (similarity >= minSimilarity && (!best || similarity > best.similarity)) {
+          best = { entry, similarity };
+        }
+      }
+
+      return {
+        cached: best ? { answer: best.entry.answer, sources: best.entry.sources, similarity: best.similarity } : null,
+        contentVersion: version,
+      };
+    },
+    async save({ ownerId, mode, embedding, answer, sources, contentVersion }) {
+      const version = versions.get(ownerId) ?? 0;
+      if (contentVersion !== version) return;
+      const list = (entries.get(ownerId) || []).filter((e) => e.contentVersion === version);
+      list.push({
+        mode,
+        contentVersion: version,
+        embedding,
+        norm: vectorNorm(embedding),
+        answer,
+        sources,
+        createdAt: Date.now(),
+      });
+      // Oldest first; drop from the front when full.
+      entries.set(ownerId, list.slice(-MAX_MEMORY_ENTRIES_PER_OWNER));
+    },
+    async invalidate(ownerId) {
+      versions.set(ownerId, (versions.get(ownerId) ?? 0) + 1);
+      entries.delete(ownerId);
+    },
+  };
+}
+
+function isMissingCacheTableError(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return code === '42P01' || code === '42883' || code === 'PGRST202' || code === 'PGRST205';
+}
+
+// Shared cache in the `response_cache` table (see database/migrations/20261018_add_response_cache.sql).
+// Invalidation bumps the owner's row in `response_cache_versions`, so every instance sees it
+// immediately; lookups only match rows saved under the current version. Until the migration is run
+// the store caches nothing: a per-process fallback would keep serving answers on instances that
+// never saw the invalidation.
+export function createPostgresResponseCacheStore(): ResponseCacheStore {
+  let tableMissing = false;
+  const checkTable = (error: unknown): boolean => {
+    if (!isMissingCacheTableError(error)) return false;
+    if (!tableMissing) {
+      console.warn('Response cache disabled: run database/migrations/20261018_add_response_cache.sql');
+    }
+    tableMissing = true;
+    return true;
+  };
+
+  return {
+    name: 'postgres',
+    async lookup({ ownerId, mode, embedding, minSimilarity, maxAgeMs }) {
+      // Saves are rejected for a negative version, so a missing table never caches anything.
+      const disabled = { cached: null, contentVersion: -1 };
+      if (tableMissing) return disabled;
+
+      const versionResult = await supabaseAdmin
+        .from('response_cache_versions')
+        .select('version')
+        .eq('owner_id', ownerId)
+        .maybeSingle();
+      if (versionResult.error && checkTable(versionResult.error)) return disabled;
+      if (versionResult.error) throw versionResult.error;
+      const contentVersion = Number((versionResult.data as { version?: unknown } | null)?.version) || 0;
+
+      const { data, error } = await supabaseAdmin.rpc('match_response_cache', {
+        query_embedding: embedding,
+        match_threshold: minSimilarity,
+        p_owner_id: ownerId,
+        p_mode: mode,
+        p_created_after: new Date(Date.now() - maxAgeMs).toISOString(),
+        p_content_version: contentVersion,
+      });
+      if (error && checkTable(error)) return disabled;
+      if (error) throw error;
+
+      const row = (Array.isArray(data) ? data[0] : data) as
+        | { answer?: string; sources?: unknown; similarity?: number }
+        | null
+        | undefined;
+      if (!row || !row.answer) return { cached: null, contentVersion };
+
+      return {
+        cached: {
+          answer: row.answer,
+          sources: Array.isArray(row.sources) ? (row.sources as ChunkReference[]) : [],
+          similarity: Number(row.similarity) || 0,
+        },
+        contentVersion,
+      };
+    },
+    async save({ ownerId, mode, query, embedding, answer, sources, contentVersion }) {
+      if (tableMissing || contentVersion < 0) return;
+      // The insert and the version check happen in one statement; see save_response_cache.
+      const { error } = await supabaseAdmin.rpc('save_response_cache', {
+        p_owner_id: ownerId,
+        p_mode: mode,
+        p_query: query,
+        p_embedding: embedding,
+        p_answer: answer,
+        p_sources: sources,
+        p_content_version: contentVersion,
+      });
+      if (error && checkTable(error)) return;
+      if (error) throw error;
+    },
+    async invalidate(ownerId) {
+      if (tableMissing) return;
+      const { error } = await supabaseAdmin.rpc('bump_response_cache_version', { p_owner_id: ownerId });
+      if (error && checkTable(error)) return;
+      if (error) throw error;
+    },
+  };
+}
+
+let store: ResponseCacheStore | null | undefined;
+
+// RESPONSE_CACHE: "auto" (default: postgres when SUPABASE_SERVICE_ROLE_KEY is set, else memory),
+// "postgres", "memory" (single instance only: invalidation only reaches this process), or "off".
+export function getResponseCacheStore(): ResponseCacheStore | null {
+  if (store !== undefined) return store;
+
+  const setting = String(process.env.RESPONSE_CACHE || 'auto').trim().toLowerCase();
+  if (setting === 'off' || setting === 'false' || setting === '0') {
+    store = null;
+  } else if (setting !== 'memory' && isSupabaseAdminConfigured()) {
+    store = createPostgresResponseCacheStore();
+  } else {
+    store = createMemoryResponseCacheStore();
+  }
+  return store;
+}
+
+function getMinSimilarity(): number {
+  const raw = Number(process.env.RESPONSE_CACHE_MIN_SIMILARITY);
+  return Number.isFinite(raw) && raw > 0 && raw <= 1 ? raw : DEFAULT_MIN_SIMILARITY;
+}
+
+function getMaxAgeMs(): number {
+  const raw = Number(process.env.RESPONSE_CACHE_TTL_SECONDS);
+  return (Number.isFinite(raw) && raw > 0 ? raw : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+// Query embeddings from another model aren't comparable, so entries are keyed by model as well.
+function scopedMode(mode: string): string {
+  return `${mode}:${getEmbeddingProvider().model}`;
+}
+
+// Cache failures never break chat: a failed lookup is a miss (with no version, so the answer isn't
+// saved either), a failed save/invalidate is logged.
+export async function lookupCachedResponse(args: {
+  ownerId: string;
+  mode: string;
+  embedding: number[];
+}): Promise<{ cached: CachedResponse | null; contentVersion: number | null }> {
+  const cache = getResponseCacheStore();
+  if (!cache) return { cached: null, contentVersion: null };
+
+  try {
+    return await cache.lookup({ ...args, mode: scopedMode(args.mode), minSimilarity: getMinSimilarity(), maxAgeMs: getMaxAgeMs() });
+  } catch (error) {
+    console.warn(`Response cache "${cache.name}" lookup failed:`, error);
+    return { cached: null, contentVersion: null };
+  }
+}
+
+export async function saveCachedResponse(
+  args: Omit<Parameters<ResponseCacheStore['save']>[0], 'contentVersion'> & { contentVersion: number | null }
+): Promise<void> {
+  const cache = getResponseCacheStore();
+  if (!cache || args.contentVersion === null) return;
+
+  try {
+    await cache.save({ ...args, mode: scopedMode(args.mode), contentVersion: args.contentVersion });
+  } catch (error) {
+    console.warn(`Response cache "${cache.name}" save failed:`, error);
+  }
+}
+
+export async function invalidateResponseCache(ownerId: string): Promise<void> {
+  const cache = getResponseCacheStore();
+  if (!cache) return;
+
+  try {
+    await cache.invalidate(ownerId);
+  } catch (error) {
+    console.warn(`Response cache "${cache.name}" invalidation failed:`, error);
+  }
+}
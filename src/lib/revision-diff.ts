@@ -0,0 +1,74 @@
+// Field- and line-level diffs between two revision snapshots (client-safe, no dependencies).
+
+export type FieldChange = { field: string; before: string; after: string };
+
+export type DiffLine = { type: 'same' | 'add' | 'remove'; text: string };
+
+// Bookkeeping columns that change on every write and would drown out the real edits.
+const IGNORED_FIELDS = new Set(['id', 'owner_id', 'created_at', 'updated_at', 'evidence_computed_at']);
+
+// LCS is O(n*m); beyond this many lines per side, show a whole-field replacement instead.
+const MAX_DIFF_LINES = 1500;
+
+export function formatSnapshotValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value) && value.every((v) => typeof v === 'string')) return value.join('\n');
+  return JSON.stringify(value, null, 2);
+}
+
+export function diffSnapshots(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): FieldChange[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: FieldChange[] = [];
+
+  for (const field of Array.from(fields).sort()) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const a = formatSnapshotValue(before?.[field]);
+    const b = formatSnapshotValue(after?.[field]);
+    if (a !== b) changes.push({ field, before: a, after: b });
+  }
+
+  return changes;
+}
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  if (a.length > MAX_DIFF_LINES || b.length > MAX_DIFF_LINES) {
+    return [
+      ...a.map((text) => ({ type: 'remove' as const, text })),
+      ...b.map((text) => ({ type: 'add' as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = length of the longest common subsequence of a[i:] and b[j:].
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ type: 'remove', text: a[i++] });
+    } else {
+      out.push({ type: 'add', text: b[j++] });
+    }
+  }
+  while (i < a.length) out.push({ type: 'remove', text: a[i++] });
+  while (j < b.length) out.push({ type: 'add', text: b[j++] });
+
+  return out;
+}
@@ -0,0 +1,167 @@
+import { revalidateTag } from 'next/cache';
+import { supabaseAdmin } from '@/lib/supabase';
+import {
+  deleteSourceChunks,
+  indexArticle,
+  indexExperience,
+  indexProject,
+  indexSkill,
+  indexStory,
+} from '@/lib/indexer';
+import type { Article, Experience, Project, Revision, RevisionAction, RevisionEntityType, Skill, Story } from '@/types';
+
+// Snapshot history for admin-edited rows. Every admin write records the row as it stands after
+// the write (or, for deletes, as it stood before), so restoring a revision brings back exactly
+// that content and re-indexes it.
+
+type EntityConfig = {
+  table: string;
+  tag: string;
+  hasUpdatedAt: boolean;
+  reindex: (row: Record<string, unknown>, ownerId: string) => Promise<void>;
+};
+
+const ENTITY_CONFIG: Record<RevisionEntityType, EntityConfig> = {
+  project: {
+    table: 'projects',
+    tag: 'projects',
+    hasUpdatedAt: true,
+    reindex: async (row, ownerId) => {
+      const project = row as unknown as Project;
+      if (project.status === 'published' && !project.deleted_at) await indexProject(project, ownerId);
+      else await deleteSourceChunks('project', project.id, ownerId);
+    },
+  },
+  article: {
+    table: 'articles',
+    tag: 'articles',
+    hasUpdatedAt: true,
+    reindex: async (row, ownerId) => {
+      const article = row as unknown as Article;
+      if (article.status === 'published') await indexArticle(article, ownerId);
+      else await deleteSourceChunks('article', article.id, ownerId);
+    },
+  },
+  experience: {
+    table: 'experiences',
+    tag: 'experiences',
+    hasUpdatedAt: true,
+    reindex: async (row, ownerId) => {
+      const experience = row as unknown as Experience;
+      if (experience.status === 'published') await indexExperience(experience, ownerId);
+      else await deleteSourceChunks('experience', experience.id, ownerId);
+    },
+  },
+  story: {
+    table: 'stories',
+    tag: 'stories',
+    hasUpdatedAt: true,
+    reindex: async (row, ownerId) => {
+      const story = row as unknown as Story;
+      if (story.is_public) await indexStory(story, ownerId);
+      else await deleteSourceChunks('story', story.id, ownerId);
+    },
+  },
+  skill: {
+    table: 'skills',
+    tag: 'skills',
+    hasUpdatedAt: false,
+    reindex: async (row, ownerId) => {
+      await indexSkill(row as unknown as Skill, ownerId);
+    },
+  },
+};
+
+export const REVISION_ENTITY_TYPES = Object.keys(ENTITY_CONFIG) as RevisionEntityType[];
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Revision ids and entity ids are UUIDs; anything else would fail the cast in Postgres (22P02).
+export function isUuid(value: unknown): value is string {
+  return typeof value === 'string' && UUID_RE.test(value);
+}
+
+export function isRevisionEntityType(value: unknown): value is RevisionEntityType {
+  return typeof value === 'string' && value in ENTITY_CONFIG;
+}
+
+export function revisionsMigrationHint() {
+  return 'Revision history is not set up yet. Run `database/migrations/20261018_add_revisions.sql` in Supabase SQL Editor, then retry.';
+}
+
+// Best-effort: a missing revisions table or a failed insert must never fail the admin write itself.
+export async function recordRevision(args: {
+  ownerId: string;
+  entityType: RevisionEntityType;
+  action: RevisionAction;
+  snapshot: Record<string, unknown> | null | undefined;
+}): Promise<void> {
+  const snapshot = args.snapshot;
+  const entityId = typeof snapshot?.id === 'string' ? snapshot.id : null;
+  if (!snapshot || !entityId) return;
+
+  const { error } = await supabaseAdmin.from('revisions').insert({
+    owner_id: args.ownerId,
+    entity_type: args.entityType,
+    entity_id: entityId,
+    action: args.action,
+    snapshot,
+  });
+
+  if (error && error.code !== '42P01') {
+    console.warn('Revision record failed:', args.entityType, entityId, error);
+  }
+}
+
+export type RestoreResult =
+  | { ok: true; entity: Record<string, unknown> }
+  | { ok: false; status: number; error: string };
+
+// Writes the snapshot back (re-creating the row if it was deleted), records a `restore`
+// revision, re-indexes the row for RAG and revalidates the public pages.
+export async function restoreRevision(ownerId: string, revisionId: string): Promise<RestoreResult> {
+  if (!isUuid(revisionId)) return { ok: false, status: 404, error: 'Revision not found' };
+
+  const { data, error: revisionError } = await supabaseAdmin
+    .from('revisions')
+    .select('id, entity_type, entity_id, snapshot')
+    .eq('owner_id', ownerId)
+    .eq('id', revisionId)
+    .maybeSingle();
+
+  if (revisionError) {
+    if (revisionError.code === '42P01') return { ok: false, status: 501, error: revisionsMigrationHint() };
+    throw revisionError;
+  }
+  const revision = data as Pick<Revision, 'id' | 'entity_type' | 'entity_id' | 'snapshot'> | null;
+  if (!revision) return { ok: false, status: 404, error: 'Revision not found' };
+
+  const entityType = revision.entity_type;
+  if (!isRevisionEntityType(entityType)) return { ok: false, status: 400, error: 'Unsupported revision type' };
+
+  const config = ENTITY_CONFIG[entityType];
+  const row: Record<string, unknown> = { ...(revision.snapshot || {}), id: revision.entity_id, owner_id: ownerId };
+  if (entityType === 'project') row.deleted_at = null;
+  if (config.hasUpdatedAt) row.updated_at = new Date().toISOString();
+
+  const { data: restored, error: upsertError } = await supabaseAdmin
+    .from(config.table)
+    .upsert(row, { onConflict: 'id' })
+    .select()
+    .single();
+
+  if (upsertError) {
+    // 23505: the slug now belongs to another row.
+    if (upsertError.code === '23505') {
+      return { ok: false, status: 409, error: 'Another entry already uses this slug; change it before restoring' };
+    }
+    throw upsertError;
+  }
+
+  const entity = restored as Record<string, unknown>;
+  await config.reindex(entity, ownerId);
+  await recordRevision({ ownerId, entityType, action: 'restore', snapshot: entity });
+
+  revalidateTag(config.tag, 'default');
+  return { ok: true, entity };
+}
@@ -0,0 +1,20 @@
+import type { SearchResponse } from '@/types';
+
+// Browser-side caller for /api/search, shared by the /search page and the command palette.
+export async function fetchSearchResults(
+  query: string,
+  // instant: full-text results only (no embedding call), for search-as-you-type.
+  options: { limit?: number; signal?: AbortSignal; instant?: boolean } = {}
+): Promise<SearchResponse> {
+  const params = new URLSearchParams({ q: query });
+  if (options.limit) params.set('limit', String(options.limit));
+  if (options.instant) params.set('instant', '1');
+
+  const response = await fetch(`/api/search?${params.toString()}`, { signal: options.signal });
+  const data = (await response.json().catch(() => null)) as (SearchResponse & { error?: string }) | null;
+
+  if (!response.ok || !data) {
+    throw new Error(data?.error || `Search failed (HTTP ${response.status})`);
+  }
+  return data;
+}
@@ -0,0 +1,129 @@
+import { retrieveContext } from '@/lib/rag';
+import { dedupeSources, getSourceHref } from '@/lib/chat-sources';
+import type { ChunkReference, SearchResponse, SearchResult, SearchResultGroup } from '@/types';
+
+// Public site search: the chat's hybrid retrieval (vector + full-text, RRF) without the LLM.
+// Results are one hit per page, grouped by source type in nav order.
+
+export const SEARCH_MIN_QUERY_CHARS = 2;
+export const SEARCH_MAX_QUERY_CHARS = 200;
+
+const SEARCH_CANDIDATES = 30;
+const SNIPPET_CHARS = 220;
+const SNIPPET_LEAD_CHARS = 60;
+
+const GROUPS: Array<{ source_type: string; label: string }> = [
+  { source_type: 'experience', label: 'Experience' },
+  { source_type: 'project', label: 'Projects' },
+  { source_type: 'skill', label: 'Skills' },
+  { source_type: 'article', label: 'Articles' },
+  { source_type: 'story', label: 'Stories' },
+  { source_type: 'resume', label: 'Resume' },
+];
+
+export const SEARCH_SOURCE_TYPES = GROUPS.map((group) => group.source_type);
+
+const STOPWORDS = new Set(['a', 'an', 'and', 'are', 'for', 'how', 'in', 'is', 'of', 'on', 'or', 'the', 'to', 'what', 'with']);
+
+export function getSearchTerms(query: string): string[] {
+  const terms = String(query || '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}+#.]+/u)
+    .map((term) => term.replace(/^\.+|\.+$/g, ''))
+    .filter((term) => term.length >= 2 && !STOPWORDS.has(term));
+  return Array.from(new Set(terms));
+}
+
+// Indexed chunks start with a "Project: <title>" style header line; the result already shows the title.
+function stripChunkHeader(content: string): string {
+  return content.replace(/^(Project|Article|Story|Experience|Skill|Resume): [^\n]*\n+/, '').trim();
+}
+
+function findHighlights(text: string, terms: string[]): Array<[number, number]> {
+  const lower = text.toLowerCase();
+  const ranges: Array<[number, number]> = [];
+
+  for (const term of terms) {
+    let from = 0;
+    while (from < lower.length) {
+      const index = lower.indexOf(term, from);
+      if (index === -1) break;
+      ranges.push([index, index + term.length]);
+      from = index + term.length;
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([range[0], range[1]]);
+  }
+  return merged;
+}
+
+// A window of the chunk around the first term match (semantic-only hits show the opening).
+export function buildSnippet(content: string, terms: string[]): Pick<SearchResult, 'snippet' | 'highlights'> {
+  const text = stripChunkHeader(content).replace(/\s+/g, ' ');
+  const first = findHighlights(text, terms)[0];
+
+  let start = 0;
+  if (first && first[0] > SNIPPET_LEAD_CHARS) {
+    start = first[0] - SNIPPET_LEAD_CHARS;
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < first[0]) start = space + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_CHARS);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > start ? space : end;
+  }
+
+  const snippet = `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  return { snippet, highlights: findHighlights(snippet, terms) };
+}
+
+function toSearchResult(source: ChunkReference, terms: string[]): SearchResult | null {
+  const href = getSourceHref(source);
+  // Knowledge-base entries have no page to link to.
+  if (!href) return null;
+
+  return {
+    source_type: source.source_type,
+    source_title: source.source_title,
+    source_slug: source.source_slug ?? null,
+    href,
+    ...buildSnippet(source.content_preview, terms),
+    relevance_score: source.relevance_score,
+  };
+}
+
+export async function searchSite(
+  query: string,
+  options: { ownerId: string; sourceTypes?: string[]; limit?: number; fullTextOnly?: boolean }
+): Promise<SearchResponse> {
+  const normalized = query.trim().slice(0, SEARCH_MAX_QUERY_CHARS);
+  const sourceTypes = (options.sourceTypes || []).filter((type) => SEARCH_SOURCE_TYPES.includes(type));
+  const terms = getSearchTerms(normalized);
+
+  const { chunks } = await retrieveContext(
+    normalized,
+    SEARCH_CANDIDATES,
+    sourceTypes.length > 0 ? sourceTypes : SEARCH_SOURCE_TYPES,
+    { ownerId: options.ownerId, fullTextOnly: options.fullTextOnly }
+  );
+
+  // Chunks arrive best-first, so the first chunk kept per page is its best match.
+  const results = dedupeSources(chunks)
+    .map((chunk) => toSearchResult(chunk, terms))
+    .filter((result): result is SearchResult => result !== null)
+    .slice(0, options.limit ?? SEARCH_CANDIDATES);
+
+  const groups: SearchResultGroup[] = GROUPS.map((group) => ({
+    ...group,
+    results: results.filter((result) => result.source_type === group.source_type),
+  })).filter((group) => group.results.length > 0);
+
+  return { query: normalized, total: results.length, groups };
+}
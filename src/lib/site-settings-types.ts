@@ -1,3 +1,14 @@
+// Token bucket: `burst` requests at once, refilled at `perMinute`.
+export type RateLimitRule = {
+  burst: number;
+  perMinute: number;
+};
+
+export type EndpointRateLimits = {
+  perVisitor: RateLimitRule;
+  perIp: RateLimitRule;
+};
+
 export type SiteSettings = {
   profile: {
     displayName: string;
@@ -36,6 +47,12 @@ export type SiteSettings = {
     storiesNav: boolean;
     chatNav: boolean;
   };
+  rateLimits: {
+    enabled: boolean;
+    chat: EndpointRateLimits;
+    jdMatch: EndpointRateLimits;
+    search: EndpointRateLimits;
+  };
 };
 
 export const DEFAULT_SITE_SETTINGS: SiteSettings = {
@@ -77,6 +94,21 @@ export const DEFAULT_SITE_SETTINGS: SiteSettings = {
     storiesNav: true,
     chatNav: true,
   },
+  rateLimits: {
+    enabled: true,
+    chat: {
+      perVisitor: { burst: 10, perMinute: 6 },
+      perIp: { burst: 30, perMinute: 20 },
+    },
+    jdMatch: {
+      perVisitor: { burst: 3, perMinute: 1 },
+      perIp: { burst: 10, perMinute: 4 },
+    },
+    search: {
+      perVisitor: { burst: 20, perMinute: 10 },
+      perIp: { burst: 60, perMinute: 30 },
+    },
+  },
 };
 
 const MAX_LENGTHS: Record<string, number> = {
@@ -111,6 +143,28 @@ function cleanBoolean(value: unknown, fallback: boolean): boolean {
   return typeof value === 'boolean' ? value : fallback;
 }
 
+function cleanNumber(value: unknown, fallback: number, min: number, max: number): number {
+  const n = typeof value === 'number' ? value : Number.NaN;
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(max, Math.max(min, n));
+}
+
+function cleanRateLimitRule(value: unknown, fallback: RateLimitRule): RateLimitRule {
+  const raw: Partial<RateLimitRule> = value && typeof value === 'object' ? value : {};
+  return {
+    burst: Math.round(cleanNumber(raw.burst, fallback.burst, 1, 1000)),
+    perMinute: cleanNumber(raw.perMinute, fallback.perMinute, 0.1, 1000),
+  };
+}
+
+function cleanEndpointRateLimits(value: unknown, fallback: EndpointRateLimits): EndpointRateLimits {
+  const raw: Partial<EndpointRateLimits> = value && typeof value === 'object' ? value : {};
+  return {
+    perVisitor: cleanRateLimitRule(raw.perVisitor, fallback.perVisitor),
+    perIp: cleanRateLimitRule(raw.perIp, fallback.perIp),
+  };
+}
+
 export function mergeSiteSettings(input: unknown): SiteSettings {
   const raw = input && typeof input === 'object' ? (input as Partial<SiteSettings>) : {};
   const rawProfile: Partial<SiteSettings['profile']> =
@@ -119,6 +173,8 @@ export function mergeSiteSettings(input: unknown): SiteSettings {
     raw.resume && typeof raw.resume === 'object' ? raw.resume : {};
   const rawVisibility: Partial<SiteSettings['visibility']> =
     raw.visibility && typeof raw.visibility === 'object' ? raw.visibility : {};
+  const rawRateLimits: Partial<SiteSettings['rateLimits']> =
+    raw.rateLimits && typeof raw.rateLimits === 'object' ? raw.rateLimits : {};
 
   const defaults = DEFAULT_SITE_SETTINGS;
 
@@ -160,6 +216,12 @@ export function mergeSiteSettings(input: unknown): SiteSettings {
       storiesNav: cleanBoolean(rawVisibility.storiesNav, defaults.visibility.storiesNav),
       chatNav: cleanBoolean(rawVisibility.chatNav, defaults.visibility.chatNav),
     },
+    rateLimits: {
+      enabled: cleanBoolean(rawRateLimits.enabled, defaults.rateLimits.enabled),
+      chat: cleanEndpointRateLimits(rawRateLimits.chat, defaults.rateLimits.chat),
+      jdMatch: cleanEndpointRateLimits(rawRateLimits.jdMatch, defaults.rateLimits.jdMatch),
+      search: cleanEndpointRateLimits(rawRateLimits.search, defaults.rateLimits.search),
+    },
   };
 
   if (!settings.visibility.identityBar) {
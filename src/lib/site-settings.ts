@@ -3,6 +3,8 @@ import 'server-only';
 import { unstable_cache, revalidateTag } from 'next/cache';
 import { DEFAULT_SITE_SETTINGS, mergeSiteSettings, type SiteSettings } from '@/lib/site-settings-types';
 import { isSupabaseAdminConfigured, supabaseAdmin } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { ownerStoragePath } from '@/lib/tenants';
 
 const SETTINGS_BUCKET = process.env.SUPABASE_SETTINGS_BUCKET || 'chengai-settings';
 const SETTINGS_OBJECT_PATH = process.env.SUPABASE_SITE_SETTINGS_PATH || 'public-site.json';
@@ -44,14 +46,20 @@ function isResourceAlreadyExistsError(error: unknown): boolean {
   return status === '409' || /already exists/i.test(message);
 }
 
-export async function getSiteSettingsUncached(): Promise<SiteSettings> {
+// Each owner has its own settings object; the default owner keeps the legacy path.
+function getSettingsObjectPath(ownerId: string): string {
+  return ownerStoragePath(ownerId, SETTINGS_OBJECT_PATH);
+}
+
+export async function getSiteSettingsUncached(ownerId?: string): Promise<SiteSettings> {
   if (!isSupabaseAdminConfigured()) return DEFAULT_SITE_SETTINGS;
 
   try {
+    const objectPath = getSettingsObjectPath(ownerId ?? (await getOwnerId()));
     await ensureSettingsBucket();
     const { data, error } = await supabaseAdmin.storage
       .from(SETTINGS_BUCKET)
-      .download(SETTINGS_OBJECT_PATH);
+      .download(objectPath);
 
     if (error) {
       if (isMissingObjectError(error)) return DEFAULT_SITE_SETTINGS;
@@ -66,13 +74,17 @@ export async function getSiteSettingsUncached(): Promise<SiteSettings> {
   }
 }
 
-export const getSiteSettings = unstable_cache(
-  async () => getSiteSettingsUncached(),
+const getCachedSiteSettings = unstable_cache(
+  async (ownerId: string) => getSiteSettingsUncached(ownerId),
   ['site-settings'],
   { revalidate: 120, tags: [SETTINGS_CACHE_TAG] }
 );
 
-export async function saveSiteSettings(input: unknown): Promise<SiteSettings> {
+export async function getSiteSettings(ownerId?: string): Promise<SiteSettings> {
+  return getCachedSiteSettings(ownerId ?? (await getOwnerId()));
+}
+
+export async function saveSiteSettings(input: unknown, ownerId?: string): Promise<SiteSettings> {
   if (!isSupabaseAdminConfigured()) {
     throw new Error('Admin storage is not configured (missing SUPABASE_SERVICE_ROLE_KEY).');
   }
@@ -82,7 +94,7 @@ export async function saveSiteSettings(input: unknown): Promise<SiteSettings> {
   const body = Buffer.from(JSON.stringify(settings, null, 2));
   const { error } = await supabaseAdmin.storage
     .from(SETTINGS_BUCKET)
-    .upload(SETTINGS_OBJECT_PATH, body, {
+    .upload(getSettingsObjectPath(ownerId ?? (await getOwnerId())), body, {
       upsert: true,
       contentType: 'application/json; charset=utf-8',
     });
@@ -0,0 +1,18 @@
+import { ownerPublicPath, type Tenant } from '@/lib/tenants';
+
+// Absolute public URLs for places that leave the site (feeds, sitemaps, share cards).
+// An owner with its own hostname is served from it; everyone else lives under NEXT_PUBLIC_SITE_URL.
+
+const DEFAULT_SITE_URL = 'https://chengai-tianle.ai-builders.space';
+
+export function getPublicSiteUrl(tenant?: Tenant): string {
+  if (tenant && tenant.hosts.length > 0) return `https://${tenant.hosts[0]}`;
+  return (process.env.NEXT_PUBLIC_SITE_URL || DEFAULT_SITE_URL).replace(/\/$/, '');
+}
+
+export function toAbsoluteUrl(path: string, tenant?: Tenant): string {
+  if (/^https?:\/\//i.test(path)) return path;
+  const normalized = path.startsWith('/') ? path : `/${path}`;
+  const base = getPublicSiteUrl(tenant);
+  return `${base}${tenant ? ownerPublicPath(tenant, normalized) : normalized}`;
+}
@@ -0,0 +1,286 @@
+import { supabaseAdmin } from '@/lib/supabase';
+import { getOwnerId } from '@/lib/owner';
+import { getSkillTaxonomy } from '@/lib/content';
+import {
+  extractSkillNodes,
+  normalizeSkillKey,
+  resolveSkill,
+  skillCovers,
+  textMentionsSkill,
+  type SkillTaxonomy,
+} from '@/lib/skill-taxonomy';
+
+// Derives per-skill evidence from projects (tech_stack + text), experiences (date ranges +
+// tech_stack + text) and indexed chunk mentions, then stores the supporting rows in
+// skill_evidence, the computed values on skills, and project relevance in project_skills. The
+// store is one `replace_skill_evidence` call, so a failed run changes nothing.
+
+type ProjectRow = {
+  id: string;
+  title: string;
+  description: string | null;
+  details?: string | null;
+  tech_stack: string[] | null;
+  start_date: string | null;
+  end_date: string | null;
+};
+
+type ExperienceRow = {
+  id: string;
+  company: string;
+  role: string;
+  summary: string | null;
+  details?: string | null;
+  highlights: string[] | null;
+  tech_stack: string[] | null;
+  start_date: string | null;
+  end_date: string | null;
+};
+
+type ChunkRow = {
+  id: string;
+  source_type: string;
+  source_id: string | null;
+  content: string;
+  metadata: Record<string, unknown> | null;
+};
+
+type EvidenceSource = {
+  source_type: string;
+  source_id: string | null;
+  source_title: string;
+  stack: string[];
+  text: string;
+  // Month indexes (year * 12 + month); only dated projects and experiences count toward years.
+  months: { start: number; end: number } | null;
+};
+
+export type SkillEvidenceInsert = {
+  owner_id: string;
+  skill_id: string;
+  source_type: string;
+  source_id: string | null;
+  source_title: string;
+  detail: string;
+  start_date: string | null;
+  end_date: string | null;
+};
+
+export type SkillEvidenceSummary = {
+  skill_id: string;
+  name: string;
+  computed_proficiency: number | null;
+  computed_years: number | null;
+  evidence_count: number;
+};
+
+// Chunks from these sources are already covered by the structured rows (or are the skill itself).
+const STRUCTURED_CHUNK_TYPES = new Set(['project', 'experience', 'skill']);
+const MAX_CHUNKS = 5000;
+
+export function skillEvidenceMigrationHint() {
+  return 'Skill evidence is not set up yet. Run `database/migrations/20261018_add_skill_evidence.sql` in Supabase SQL Editor, then retry.';
+}
+
+function toMonthIndex(value: string | null | undefined): number | null {
+  const match = String(value || '').match(/^(\d{4})-(\d{2})/);
+  if (!match) return null;
+  return Number(match[1]) * 12 + (Number(match[2]) - 1);
+}
+
+function monthRange(start: string | null, end: string | null, openEnded: boolean) {
+  const s = toMonthIndex(start);
+  if (s === null) return null;
+  const now = new Date();
+  const e = toMonthIndex(end) ?? (openEnded ? now.getUTCFullYear() * 12 + now.getUTCMonth() : s);
+  return e >= s ? { start: s, end: e } : null;
+}
+
+// Overlapping ranges (two projects in the same year) are only counted once.
+function totalMonths(ranges: Array<{ start: number; end: number }>): number {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  let total = 0;
+  let current: { start: number; end: number } | null = null;
+  for (const r of sorted) {
+    if (current && r.start <= current.end + 1) {
+      current.end = Math.max(current.end, r.end);
+      continue;
+    }
+    if (current) total += current.end - current.start + 1;
+    current = { ...r };
+  }
+  if (current) total += current.end - current.start + 1;
+  return total;
+}
+
+// Years set the base level; breadth across independent sources adds one more.
+export function computeProficiency(years: number, sourceCount: number): number {
+  const base = years >= 5 ? 4 : years >= 3 ? 3 : years >= 1 ? 2 : 1;
+  return Math.min(5, base + (sourceCount >= 4 ? 1 : 0));
+}
+
+function stackMatch(taxonomy: SkillTaxonomy, stack: string[], skillName: string): string | null {
+  const key = normalizeSkillKey(skillName);
+  const direct = stack.find((t) => normalizeSkillKey(resolveSkill(taxonomy, t)?.name || t) === key);
+  if (direct) return direct;
+  return stack.find((t) => skillCovers(taxonomy, t, skillName)) || null;
+}
+
+// `mentioned` is the source's extractSkillNodes result, computed once per source.
+function textMatch(taxonomy: SkillTaxonomy, text: string, mentioned: string[], skillName: string): string | null {
+  const node = resolveSkill(taxonomy, skillName) ?? {
+    name: skillName,
+    category: 'other',
+    aliases: [],
+    parents: [],
+    implies: [],
+  };
+  if (textMentionsSkill(node, `\n${text}\n`)) return node.name;
+  return mentioned.find((name) => skillCovers(taxonomy, name, skillName)) || null;
+}
+
+async function loadSources(ownerId: string): Promise<EvidenceSource[]> {
+  const [projectsRes, experiencesRes, chunksRes] = await Promise.all([
+    supabaseAdmin
+      .from('projects')
+      .select('id, title, description, details, tech_stack, start_date, end_date')
+      .eq('owner_id', ownerId)
+      .eq('status', 'published')
+      .is('deleted_at', null),
+    supabaseAdmin
+      .from('experiences')
+      .select('id, company, role, summary, details, highlights, tech_stack, start_date, end_date')
+      .eq('owner_id', ownerId)
+      .eq('status', 'published'),
+    supabaseAdmin
+      .from('chunks')
+      .select('id, source_type, source_id, content, metadata')
+      .eq('owner_id', ownerId)
+      .limit(MAX_CHUNKS),
+  ]);
+  if (projectsRes.error) throw projectsRes.error;
+  if (experiencesRes.error && experiencesRes.error.code !== '42P01') throw experiencesRes.error;
+  if (chunksRes.error) throw chunksRes.error;
+
+  const sources: EvidenceSource[] = [];
+
+  for (const p of (projectsRes.data || []) as ProjectRow[]) {
+    sources.push({
+      source_type: 'project',
+      source_id: p.id,
+      source_title: p.title,
+      stack: p.tech_stack || [],
+      text: [p.title, p.description, p.details].filter(Boolean).join('\n'),
+      months: monthRange(p.start_date, p.end_date, false),
+    });
+  }
+
+  for (const e of (experiencesRes.data || []) as ExperienceRow[]) {
+    sources.push({
+      source_type: 'experience',
+      source_id: e.id,
+      source_title: `${e.role} @ ${e.company}`,
+      stack: e.tech_stack || [],
+      text: [e.role, e.summary, e.details, ...(e.highlights || [])].filter(Boolean).join('\n'),
+      months: monthRange(e.start_date, e.end_date, true),
+    });
+  }
+
+  // One evidence row per document (article, story, resume...), not per chunk.
+  const documents = new Map<string, EvidenceSource>();
+  for (const c of (chunksRes.data || []) as ChunkRow[]) {
+    if (STRUCTURED_CHUNK_TYPES.has(c.source_type)) continue;
+    const key = `${c.source_type}:${c.source_id ?? c.id}`;
+    const existing = documents.get(key);
+    if (existing) {
+      existing.text += `\n${c.content}`;
+      continue;
+    }
+    const title = typeof c.metadata?.title === 'string' ? c.metadata.title : c.source_type;
+    documents.set(key, {
+      source_type: c.source_type,
+      source_id: c.source_id,
+      source_title: title,
+      stack: [],
+      text: c.content,
+      months: null,
+    });
+  }
+  sources.push(...documents.values());
+
+  return sources;
+}
+
+function monthToDate(index: number): string {
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}-01`;
+}
+
+export async function computeSkillEvidence(ownerId?: string): Promise<SkillEvidenceSummary[]> {
+  const owner = ownerId ?? (await getOwnerId());
+
+  const { data: skillRows, error: skillsError } = await supabaseAdmin
+    .from('skills')
+    .select('id, name')
+    .eq('owner_id', owner);
+  if (skillsError) throw skillsError;
+  const skills = (skillRows || []) as Array<{ id: string; name: string }>;
+
+  const [taxonomy, sources] = await Promise.all([getSkillTaxonomy(owner), loadSources(owner)]);
+  const mentioned = sources.map((source) => extractSkillNodes(taxonomy, source.text).map((n) => n.name));
+
+  const evidence: SkillEvidenceInsert[] = [];
+  const projectSkills: Array<{ project_id: string; skill_id: string; relevance: number }> = [];
+  const summaries: SkillEvidenceSummary[] = [];
+
+  for (const skill of skills) {
+    const ranges: Array<{ start: number; end: number }> = [];
+    let count = 0;
+
+    sources.forEach((source, idx) => {
+      const viaStack = stackMatch(taxonomy, source.stack, skill.name);
+      const viaText = viaStack ? null : textMatch(taxonomy, source.text, mentioned[idx], skill.name);
+      if (!viaStack && !viaText) return;
+
+      count += 1;
+      if (source.months) ranges.push(source.months);
+      evidence.push({
+        owner_id: owner,
+        skill_id: skill.id,
+        source_type: source.source_type,
+        source_id: source.source_id,
+        source_title: source.source_title,
+        detail: viaStack ? `tech stack: ${viaStack}` : `mentions ${viaText}`,
+        start_date: source.months ? monthToDate(source.months.start) : null,
+        end_date: source.months ? monthToDate(source.months.end) : null,
+      });
+
+      if (source.source_type === 'project' && source.source_id) {
+        const direct = viaStack && normalizeSkillKey(viaStack) === normalizeSkillKey(skill.name);
+        projectSkills.push({
+          project_id: source.source_id,
+          skill_id: skill.id,
+          relevance: direct ? 5 : viaStack ? 4 : 2,
+        });
+      }
+    });
+
+    const years = Math.round((totalMonths(ranges) / 12) * 10) / 10;
+    summaries.push({
+      skill_id: skill.id,
+      name: skill.name,
+      computed_proficiency: count > 0 ? computeProficiency(years, count) : null,
+      computed_years: count > 0 ? years : null,
+      evidence_count: count,
+    });
+  }
+
+  const { error } = await supabaseAdmin.rpc('replace_skill_evidence', {
+    p_owner_id: owner,
+    p_evidence: evidence,
+    p_skills: summaries,
+    p_project_skills: projectSkills,
+  });
+  if (error) throw error;
+
+  return summaries;
+}
@@ -0,0 +1,221 @@
+// Skill taxonomy: canonical names, aliases, parent/child relations and "implies" edges.
+// Pure data + graph helpers so it can be shared by server code and admin UI alike; stored
+// overrides are loaded by `getSkillTaxonomy` in content.ts.
+
+export const KNOWN_SKILL_CATEGORIES = ['language', 'framework', 'tool', 'platform', 'methodology', 'other'] as const;
+
+export type SkillTaxonomyNode = {
+  name: string;
+  category: string;
+  aliases: string[];
+  // Broader skills this one specializes (Next.js -> React -> JavaScript).
+  parents: string[];
+  // Non-hierarchical skills that knowing this one demonstrates (pgvector implies PostgreSQL).
+  implies: string[];
+};
+
+export type SkillTaxonomy = {
+  nodes: SkillTaxonomyNode[];
+  byKey: Map<string, SkillTaxonomyNode>;
+};
+
+type Seed = [name: string, category: string, aliases?: string[], parents?: string[], implies?: string[]];
+
+const DEFAULT_SEEDS: Seed[] = [
+  // Languages
+  ['JavaScript', 'language', ['js']],
+  ['TypeScript', 'language', ['ts'], ['JavaScript']],
+  ['Python', 'language'],
+  ['Java', 'language'],
+  ['Go', 'language', ['golang']],
+  ['C#', 'language', ['csharp']],
+  ['C++', 'language', ['cplusplus']],
+  ['SQL', 'language'],
+  ['Bash', 'language', ['shell']],
+  ['Swift', 'language'],
+
+  // Frameworks
+  ['React', 'framework', ['react.js', 'reactjs'], ['JavaScript']],
+  ['Next.js', 'framework', ['nextjs', 'next js'], ['React']],
+  ['React Native', 'framework', [], ['React']],
+  ['Node.js', 'framework', ['nodejs', 'node js'], ['JavaScript']],
+  ['FastAPI', 'framework', [], ['Python']],
+  ['Spring Boot', 'framework', ['springboot'], ['Java']],
+  ['Angular', 'framework', [], ['TypeScript']],
+
+  // Platforms / Cloud
+  ['AWS', 'platform', ['amazon web services']],
+  ['AWS EKS', 'platform', ['eks'], ['AWS'], ['Kubernetes']],
+  ['AWS S3', 'platform', ['s3'], ['AWS']],
+  ['AWS MSK', 'platform', ['msk'], ['AWS'], ['Kafka']],
+  ['AWS EMR', 'platform', ['emr'], ['AWS']],
+  ['AWS Timestream', 'platform', ['timestream'], ['AWS']],
+  ['PostgreSQL', 'platform', ['postgres'], [], ['SQL']],
+  ['MySQL', 'platform', [], [], ['SQL']],
+  ['Supabase', 'platform', [], [], ['PostgreSQL']],
+  ['Redis', 'platform'],
+  ['Kafka', 'platform', ['apache kafka']],
+  ['Apache Iceberg', 'platform', ['iceberg']],
+  ['Prometheus', 'platform'],
+
+  // Tools
+  ['Docker', 'tool'],
+  ['Docker Compose', 'tool', ['docker-compose'], ['Docker']],
+  ['Kubernetes', 'tool', ['k8s']],
+  ['Helm', 'tool', [], ['Kubernetes']],
+  ['Terraform', 'tool'],
+  ['Git', 'tool'],
+  ['CI/CD', 'methodology', ['cicd', 'ci cd']],
+  ['gRPC', 'tool'],
+  ['REST APIs', 'tool', ['rest', 'rest api']],
+  ['pgvector', 'tool', [], ['PostgreSQL']],
+  ['OpenAI API', 'tool', ['openai']],
+
+  // AI / ML
+  ['RAG', 'methodology', ['retrieval-augmented generation', 'retrieval augmented generation']],
+  ['AI Agents', 'methodology', ['agent', 'agents', 'agentic']],
+  ['LangChain', 'tool', [], [], ['Python']],
+  ['LangGraph', 'tool', [], ['LangChain'], ['AI Agents']],
+  ['CrewAI', 'tool', [], [], ['AI Agents']],
+  ['Semantic Kernel', 'tool', [], [], ['AI Agents']],
+  ['FAISS', 'tool'],
+  ['BM25', 'methodology'],
+  ['PyTorch', 'tool', [], [], ['Python']],
+  ['MLflow', 'tool'],
+];
+
+export const DEFAULT_SKILL_TAXONOMY: SkillTaxonomyNode[] = DEFAULT_SEEDS.map(
+  ([name, category, aliases = [], parents = [], implies = []]) => ({ name, category, aliases, parents, implies })
+);
+
+export function normalizeSkillKey(value: string): string {
+  return String(value || '')
+    .trim()
+    .toLowerCase()
+    .replace(/c\+\+/g, 'cplusplus')
+    .replace(/c#/g, 'csharp')
+    .replace(/\.js/g, 'js')
+    .replace(/[^a-z0-9]+/g, '');
+}
+
+function cleanList(values: unknown, exclude?: string): string[] {
+  if (!Array.isArray(values)) return [];
+  const excludeKey = exclude ? normalizeSkillKey(exclude) : '';
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const v of values) {
+    if (typeof v !== 'string') continue;
+    const trimmed = v.trim().slice(0, 80);
+    const key = normalizeSkillKey(trimmed);
+    if (!key || key === excludeKey || seen.has(key)) continue;
+    seen.add(key);
+    out.push(trimmed);
+  }
+  return out.slice(0, 30);
+}
+
+// Validates a node from the admin API or the database.
+export function parseSkillTaxonomyNode(raw: unknown): SkillTaxonomyNode | null {
+  const value = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : null;
+  const name = typeof value?.name === 'string' ? value.name.trim().slice(0, 80) : '';
+  if (!name || !normalizeSkillKey(name)) return null;
+
+  const category = typeof value?.category === 'string' && value.category.trim() ? value.category.trim().toLowerCase().slice(0, 40) : 'other';
+  return {
+    name,
+    category,
+    aliases: cleanList(value?.aliases, name),
+    parents: cleanList(value?.parents, name),
+    implies: cleanList(value?.implies, name),
+  };
+}
+
+// Stored nodes replace built-in nodes with the same canonical name; everything else is additive.
+export function buildSkillTaxonomy(stored: SkillTaxonomyNode[] = []): SkillTaxonomy {
+  const byName = new Map<string, SkillTaxonomyNode>();
+  for (const node of DEFAULT_SKILL_TAXONOMY) byName.set(normalizeSkillKey(node.name), node);
+  for (const node of stored) byName.set(normalizeSkillKey(node.name), node);
+
+  const nodes = Array.from(byName.values());
+  const byKey = new Map<string, SkillTaxonomyNode>();
+  // Canonical names first so an alias can never shadow another skill's name.
+  for (const node of nodes) byKey.set(normalizeSkillKey(node.name), node);
+  for (const node of nodes) {
+    for (const alias of node.aliases) {
+      const key = normalizeSkillKey(alias);
+      if (key && !byKey.has(key)) byKey.set(key, node);
+    }
+  }
+
+  return { nodes, byKey };
+}
+
+let defaultTaxonomy: SkillTaxonomy | null = null;
+
+export function getDefaultSkillTaxonomy(): SkillTaxonomy {
+  if (!defaultTaxonomy) defaultTaxonomy = buildSkillTaxonomy();
+  return defaultTaxonomy;
+}
+
+export function resolveSkill(taxonomy: SkillTaxonomy, nameOrAlias: string): SkillTaxonomyNode | null {
+  return taxonomy.byKey.get(normalizeSkillKey(nameOrAlias)) || null;
+}
+
+// Every skill that knowing `name` counts toward: ancestors plus implied skills, transitively.
+// Unknown names imply nothing; cycles are tolerated.
+export function getImpliedSkills(taxonomy: SkillTaxonomy, name: string): string[] {
+  const start = resolveSkill(taxonomy, name);
+  if (!start) return [];
+
+  const out: string[] = [];
+  const seen = new Set<string>([normalizeSkillKey(start.name)]);
+  const queue = [...start.parents, ...start.implies];
+
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    const node = resolveSkill(taxonomy, next);
+    const canonical = node ? node.name : next;
+    const key = normalizeSkillKey(canonical);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    out.push(canonical);
+    if (node) queue.push(...node.parents, ...node.implies);
+  }
+
+  return out;
+}
+
+// True when a skill satisfies a requirement directly, by alias, or through the taxonomy.
+export function skillCovers(taxonomy: SkillTaxonomy, skillName: string, requirement: string): boolean {
+  const reqKey = normalizeSkillKey(resolveSkill(taxonomy, requirement)?.name || requirement);
+  const skillKey = normalizeSkillKey(resolveSkill(taxonomy, skillName)?.name || skillName);
+  if (!reqKey || !skillKey) return false;
+  if (reqKey === skillKey) return true;
+  return getImpliedSkills(taxonomy, skillName).some((s) => normalizeSkillKey(s) === reqKey);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const termPatternCache = new Map<string, RegExp>();
+
+// Whole-term match that treats "+", "#" and "." as part of a term (C++, C#, Next.js).
+function termPattern(term: string): RegExp {
+  let re = termPatternCache.get(term);
+  if (!re) {
+    const body = escapeRegExp(term.trim()).replace(/\s+/g, '[\\s-]+');
+    re = new RegExp(`(^|[^a-z0-9+#])${body}(?![a-z0-9+#]|\\.[a-z0-9])`, 'i');
+    termPatternCache.set(term, re);
+  }
+  return re;
+}
+
+export function textMentionsSkill(node: SkillTaxonomyNode, text: string): boolean {
+  return [node.name, ...node.aliases].some((term) => term.trim() && termPattern(term).test(text));
+}
+
+export function extractSkillNodes(taxonomy: SkillTaxonomy, text: string): SkillTaxonomyNode[] {
+  const haystack = `\n${String(text || '')}\n`;
+  return taxonomy.nodes.filter((node) => textMentionsSkill(node, haystack));
+}
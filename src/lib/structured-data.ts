@@ -0,0 +1,112 @@
+import type { Tenant } from '@/lib/tenants';
+import { toAbsoluteUrl } from '@/lib/site-url';
+import type { SiteSettings } from '@/lib/site-settings-types';
+import type { Article, Experience, Project } from '@/types';
+
+// schema.org JSON-LD for the public pages. Everything points back to one Person node (`@id`),
+// so search engines can tie articles, projects and roles to the owner.
+
+type JsonLdNode = Record<string, unknown>;
+
+const CONTEXT = 'https://schema.org';
+
+function personId(tenant: Tenant): string {
+  return `${toAbsoluteUrl('/', tenant)}#person`;
+}
+
+function personRef(settings: SiteSettings, tenant: Tenant): JsonLdNode {
+  return { '@type': 'Person', '@id': personId(tenant), name: settings.profile.displayName };
+}
+
+function withoutEmpty(node: JsonLdNode): JsonLdNode {
+  return Object.fromEntries(
+    Object.entries(node).filter(([, value]) =>
+      Array.isArray(value) ? value.length > 0 : value !== null && value !== undefined && value !== ''
+    )
+  );
+}
+
+// Roles use the schema.org Role pattern: the OrganizationRole stands in for the Organization and
+// repeats the property (worksFor / alumniOf) to point at it.
+function organizationRole(property: 'worksFor' | 'alumniOf', experience: Experience): JsonLdNode {
+  return withoutEmpty({
+    '@type': 'OrganizationRole',
+    roleName: experience.role,
+    startDate: experience.start_date,
+    endDate: experience.end_date,
+    description: experience.summary,
+    [property]: withoutEmpty({
+      '@type': 'Organization',
+      name: experience.company,
+      location: experience.location,
+    }),
+  });
+}
+
+export function buildPersonJsonLd(
+  settings: SiteSettings,
+  tenant: Tenant,
+  extra: { skills?: string[]; experiences?: Experience[] } = {}
+): JsonLdNode {
+  const { profile, visibility } = settings;
+  const experiences = extra.experiences || [];
+
+  return withoutEmpty({
+    '@context': CONTEXT,
+    '@type': 'Person',
+    '@id': personId(tenant),
+    name: profile.displayName,
+    url: toAbsoluteUrl('/', tenant),
+    description: profile.heroSubtitle,
+    email: visibility.email && profile.email ? `mailto:${profile.email}` : null,
+    // Only profiles the owner shows on the site.
+    sameAs: [
+      visibility.linkedin ? profile.linkedinUrl : null,
+      visibility.github ? profile.githubUrl : null,
+    ].filter((url): url is string => Boolean(url)),
+    knowsAbout: extra.skills || [],
+    worksFor: experiences.filter((e) => !e.end_date).map((e) => organizationRole('worksFor', e)),
+    alumniOf: experiences.filter((e) => e.end_date).map((e) => organizationRole('alumniOf', e)),
+  });
+}
+
+export function buildArticleJsonLd(article: Article, settings: SiteSettings, tenant: Tenant): JsonLdNode {
+  const url = toAbsoluteUrl(`/articles/${article.slug}`, tenant);
+
+  return withoutEmpty({
+    '@context': CONTEXT,
+    '@type': 'BlogPosting',
+    '@id': url,
+    headline: article.title,
+    description: article.summary || article.content.slice(0, 160),
+    url,
+    mainEntityOfPage: url,
+    datePublished: article.published_at,
+    dateModified: article.updated_at || article.published_at,
+    keywords: article.tags || [],
+    author: personRef(settings, tenant),
+    publisher: personRef(settings, tenant),
+  });
+}
+
+// Projects with a repository are SoftwareSourceCode; anything else is a plain CreativeWork.
+export function buildProjectJsonLd(project: Project, settings: SiteSettings, tenant: Tenant): JsonLdNode {
+  const url = toAbsoluteUrl(`/projects/${project.slug}`, tenant);
+
+  return withoutEmpty({
+    '@context': CONTEXT,
+    '@type': project.repo_url ? 'SoftwareSourceCode' : 'CreativeWork',
+    '@id': url,
+    name: project.title,
+    alternativeName: project.subtitle,
+    description: project.description,
+    url,
+    codeRepository: project.repo_url,
+    sameAs: project.demo_url,
+    keywords: project.tech_stack || [],
+    dateCreated: project.start_date || project.created_at,
+    dateModified: project.updated_at,
+    author: personRef(settings, tenant),
+    creator: personRef(settings, tenant),
+  });
+}
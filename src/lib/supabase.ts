@@ -39,9 +39,8 @@ export { supabase };
 export const supabaseAdmin =
   supabaseUrl && supabaseServiceKey ? createClient(supabaseUrl, supabaseServiceKey) : supabase;
 
-// Default owner_id for single-tenant mode (matches seed.sql)
-export const DEFAULT_OWNER_ID =
-  process.env.DEFAULT_OWNER_ID || '00000000-0000-0000-0000-000000000001';
+// Default owner_id (matches seed.sql). Per-request owners are resolved in `@/lib/owner`.
+export { DEFAULT_OWNER_ID } from './tenants';
 
 // Helper to check if Supabase is configured
 export function isSupabaseConfigured(): boolean {
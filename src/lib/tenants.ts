@@ -0,0 +1,199 @@
+// Owner (tenant) registry. Kept free of server-only imports so middleware can use it.
+
+// Default owner_id for single-tenant mode (matches seed.sql)
+export const DEFAULT_OWNER_ID =
+  process.env.DEFAULT_OWNER_ID || '00000000-0000-0000-0000-000000000001';
+
+// Set by middleware on every request; never trust a client-supplied value (middleware overwrites it).
+export const OWNER_HEADER = 'x-chengai-owner-id';
+// How middleware resolved the owner (TenantResolution['via']); same overwrite rule as OWNER_HEADER.
+export const OWNER_VIA_HEADER = 'x-chengai-owner-via';
+// Remembers a path-prefix owner so in-app links (which have no prefix) stay on the same twin. Only
+// same-origin requests outside the admin area read it; see resolveTenant.
+export const OWNER_COOKIE = 'chengai_owner';
+// `/t/<slug>/...` serves the same pages for another owner.
+export const OWNER_PATH_PREFIX = '/t/';
+
+export type Tenant = {
+  id: string;
+  slug: string;
+  hosts: string[];
+  adminPassword: string;
+};
+
+type RawTenant = {
+  id?: unknown;
+  slug?: unknown;
+  hosts?: unknown;
+  adminPassword?: unknown;
+};
+
+export type TenantResolution = {
+  tenant: Tenant;
+  // Request path with any `/t/<slug>` prefix removed.
+  pathname: string;
+  via: 'host' | 'path' | 'cookie' | 'session' | 'default';
+};
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SLUG_RE = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+let cachedTenants: Tenant[] | null = null;
+
+function normalizeHost(host: string): string {
+  return String(host || '')
+    .trim()
+    .toLowerCase()
+    .replace(/:\d+$/, '')
+    .replace(/\.$/, '');
+}
+
+function getDefaultTenant(): Tenant {
+  return {
+    id: DEFAULT_OWNER_ID,
+    slug: process.env.DEFAULT_OWNER_SLUG || 'default',
+    hosts: [],
+    adminPassword:
+      process.env.ADMIN_PASSWORD || (process.env.NODE_ENV === 'production' ? '' : 'admin123'),
+  };
+}
+
+function parseTenant(raw: RawTenant): Tenant | null {
+  const id = typeof raw.id === 'string' ? raw.id.trim() : '';
+  const slug = typeof raw.slug === 'string' ? raw.slug.trim().toLowerCase() : '';
+  if (!UUID_RE.test(id) || !SLUG_RE.test(slug)) return null;
+
+  const hosts = Array.isArray(raw.hosts)
+    ? raw.hosts.filter((h): h is string => typeof h === 'string').map(normalizeHost).filter(Boolean)
+    : [];
+
+  return {
+    id,
+    slug,
+    hosts,
+    adminPassword: typeof raw.adminPassword === 'string' ? raw.adminPassword : '',
+  };
+}
+
+// CHENGAI_TENANTS is a JSON array: [{ "id": "<uuid>", "slug": "alice", "hosts": ["alice.example.com"], "adminPassword": "..." }]
+// The default owner is always present; an entry with the same id extends it (e.g. to add hosts).
+export function getTenants(): Tenant[] {
+  if (cachedTenants) return cachedTenants;
+
+  const defaultTenant = getDefaultTenant();
+  const tenants: Tenant[] = [defaultTenant];
+  const raw = process.env.CHENGAI_TENANTS;
+
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw) as unknown;
+      for (const item of Array.isArray(parsed) ? parsed : []) {
+        const tenant = item && typeof item === 'object' ? parseTenant(item as RawTenant) : null;
+        if (!tenant) continue;
+
+        if (tenant.id === defaultTenant.id) {
+          defaultTenant.slug = tenant.slug;
+          defaultTenant.hosts = tenant.hosts;
+          if (tenant.adminPassword) defaultTenant.adminPassword = tenant.adminPassword;
+          continue;
+        }
+
+        if (tenants.some((t) => t.id === tenant.id || t.slug === tenant.slug)) continue;
+        tenants.push(tenant);
+      }
+    } catch (error) {
+      console.warn('Invalid CHENGAI_TENANTS, using the default owner only:', error);
+    }
+  }
+
+  cachedTenants = tenants;
+  return tenants;
+}
+
+export function getTenantById(id: string | null | undefined): Tenant | null {
+  if (!id) return null;
+  return getTenants().find((t) => t.id === id) || null;
+}
+
+export function getTenantBySlug(slug: string | null | undefined): Tenant | null {
+  if (!slug) return null;
+  const normalized = slug.trim().toLowerCase();
+  return getTenants().find((t) => t.slug === normalized) || null;
+}
+
+export function getTenantByHost(host: string | null | undefined): Tenant | null {
+  const normalized = normalizeHost(host || '');
+  if (!normalized) return null;
+  return getTenants().find((t) => t.hosts.includes(normalized)) || null;
+}
+
+function isTruthyEnv(value: string | undefined): boolean {
+  return ['1', 'true', 'yes'].includes(String(value || '').trim().toLowerCase());
+}
+
+// The Host header is set by whatever connected to us. X-Forwarded-Host can be sent by any client, so
+// it only counts behind a proxy that overwrites it: Vercel, or one declared with TRUST_FORWARDED_HOST.
+export function getRequestHost(headers: Headers): string | null {
+  if (process.env.VERCEL || isTruthyEnv(process.env.TRUST_FORWARDED_HOST)) {
+    const forwarded = headers.get('x-forwarded-host')?.split(',')[0]?.trim();
+    if (forwarded) return forwarded;
+  }
+  return headers.get('host');
+}
+
+// Admin pages and APIs never follow the sticky cookie; the login API does, so a prefixed login page
+// signs in to its own owner.
+export function isAdminPath(pathname: string): boolean {
+  if (pathname === '/api/admin/login') return false;
+  return (
+    pathname === '/admin' ||
+    pathname.startsWith('/admin/') ||
+    pathname === '/api/admin' ||
+    pathname.startsWith('/api/admin/')
+  );
+}
+
+// Resolution order: explicit `/t/<slug>` prefix, then hostname, then the sticky owner cookie. The
+// cookie only applies to prefix-less links followed from inside the site (`sameOrigin`), so typed
+// URLs and links from elsewhere still reach the host's owner.
+export function resolveTenant(args: {
+  host: string | null;
+  pathname: string;
+  cookieSlug?: string | null;
+  sameOrigin?: boolean;
+}): TenantResolution {
+  const { pathname } = args;
+
+  if (pathname.startsWith(OWNER_PATH_PREFIX)) {
+    const rest = pathname.slice(OWNER_PATH_PREFIX.length);
+    const slashIdx = rest.indexOf('/');
+    const slug = slashIdx === -1 ? rest : rest.slice(0, slashIdx);
+    const tenant = getTenantBySlug(slug);
+    if (tenant) {
+      const stripped = slashIdx === -1 ? '/' : rest.slice(slashIdx) || '/';
+      return { tenant, pathname: stripped, via: 'path' };
+    }
+  }
+
+  const byHost = getTenantByHost(args.host);
+  if (byHost) return { tenant: byHost, pathname, via: 'host' };
+
+  if (args.sameOrigin && !isAdminPath(pathname)) {
+    const byCookie = getTenantBySlug(args.cookieSlug);
+    if (byCookie) return { tenant: byCookie, pathname, via: 'cookie' };
+  }
+
+  return { tenant: getTenants()[0], pathname, via: 'default' };
+}
+
+// Public link path for an owner. Owners without their own hostname are reached via `/t/<slug>`.
+export function ownerPublicPath(tenant: Tenant, path: string): string {
+  if (tenant.id === DEFAULT_OWNER_ID || tenant.hosts.length > 0) return path;
+  return `${OWNER_PATH_PREFIX}${tenant.slug}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+// Storage object path for an owner. The default owner keeps the legacy (unprefixed) layout.
+export function ownerStoragePath(ownerId: string, objectPath: string): string {
+  if (ownerId === DEFAULT_OWNER_ID) return objectPath;
+  return `owners/${ownerId}/${objectPath.replace(/^\/+/, '')}`;
+}
@@ -0,0 +1,40 @@
+import type { NextRequest, NextResponse } from 'next/server';
+
+// Anonymous, first-party visitor id (httpOnly). Used for analytics and to scope chat conversations.
+export const VISITOR_COOKIE = 'chengai_vid';
+
+export function getVisitorId(request: NextRequest): { visitorId: string; isNew: boolean } {
+  const existing = request.cookies.get(VISITOR_COOKIE)?.value;
+  if (existing) return { visitorId: existing, isNew: false };
+  return { visitorId: crypto.randomUUID(), isNew: true };
+}
+
+export function setVisitorCookie(response: NextResponse, visitorId: string): void {
+  response.cookies.set(VISITOR_COOKIE, visitorId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 60 * 60 * 24 * 365,
+    path: '/',
+  });
+}
+
+function getTrustedProxyHops(): number {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS);
+  return Number.isInteger(hops) && hops > 0 ? hops : 1;
+}
+
+// Client IP as seen by our own infrastructure. On Vercel the platform sets x-real-ip itself.
+// Elsewhere, each trusted proxy appends the address it received the request from to
+// X-Forwarded-For, so the client is TRUSTED_PROXY_HOPS from the right; anything further left was
+// sent by the client and can't be used to key rate limits.
+export function getClientIp(request: NextRequest): string | null {
+  if (process.env.VERCEL) return request.headers.get('x-real-ip');
+
+  const hops = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  if (hops.length > 0) return hops[Math.max(0, hops.length - getTrustedProxyHops())];
+  return request.headers.get('x-real-ip');
+}
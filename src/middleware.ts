@@ -1,23 +1,76 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { CSRF_COOKIE, SESSION_COOKIE, validateSessionCookieValue } from '@/lib/admin-session';
+import { CSRF_COOKIE, SESSION_COOKIE, getSessionOwnerId, validateSessionCookieValue } from '@/lib/admin-session';
+import {
+  OWNER_COOKIE,
+  OWNER_HEADER,
+  OWNER_PATH_PREFIX,
+  OWNER_VIA_HEADER,
+  getRequestHost,
+  getTenantById,
+  isAdminPath,
+  resolveTenant,
+  type TenantResolution,
+} from '@/lib/tenants';
+
+function withOwnerCookie(response: NextResponse, resolution: TenantResolution): NextResponse {
+  if (resolution.via === 'path') {
+    response.cookies.set(OWNER_COOKIE, resolution.tenant.slug, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: 60 * 60 * 24 * 30,
+      path: '/',
+    });
+  }
+  return response;
+}
+
+// Browsers send Sec-Fetch-Site on navigations and fetches; older ones only send a Referer.
+function isSameOriginRequest(request: NextRequest): boolean {
+  const site = request.headers.get('sec-fetch-site');
+  if (site) return site === 'same-origin';
+
+  const referer = request.headers.get('referer');
+  if (!referer) return false;
+  try {
+    return new URL(referer).origin === request.nextUrl.origin;
+  } catch {
+    return false;
+  }
+}
 
 export async function middleware(request: NextRequest) {
-  const { pathname } = request.nextUrl;
+  let resolution = resolveTenant({
+    host: getRequestHost(request.headers),
+    pathname: request.nextUrl.pathname,
+    cookieSlug: request.cookies.get(OWNER_COOKIE)?.value,
+    sameOrigin: isSameOriginRequest(request),
+  });
+  const pathname = resolution.pathname;
+  const session = request.cookies.get(SESSION_COOKIE);
 
-  const isAdminPage = pathname.startsWith('/admin');
   const isAdminApi = pathname.startsWith('/api/admin');
   const isAdminLoginApi = pathname === '/api/admin/login';
-  const requiresAuth = isAdminPage || (isAdminApi && !isAdminLoginApi);
+  const requiresAuth = isAdminPath(pathname);
+
+  // Prefix-less admin requests on a shared host belong to whoever is signed in.
+  if (requiresAuth && resolution.via === 'default') {
+    const sessionTenant = getTenantById(await getSessionOwnerId(session?.value));
+    if (sessionTenant) resolution = { ...resolution, tenant: sessionTenant, via: 'session' };
+  }
+  const ownerId = resolution.tenant.id;
 
   if (requiresAuth) {
-    const session = request.cookies.get(SESSION_COOKIE);
-    const isValid = await validateSessionCookieValue(session?.value);
+    // Sessions are bound to the owner they were issued for.
+    const isValid = await validateSessionCookieValue(session?.value, ownerId);
 
     if (!isValid) {
       // Redirect to login for page routes
       if (!pathname.startsWith('/api/')) {
-        return NextResponse.redirect(new URL('/login', request.url));
+        const loginPath =
+          resolution.via === 'path' ? `${OWNER_PATH_PREFIX}${resolution.tenant.slug}/login` : '/login';
+        return withOwnerCookie(NextResponse.redirect(new URL(loginPath, request.url)), resolution);
       }
       // Return 401 for API routes
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -38,21 +91,33 @@ export async function middleware(request: NextRequest) {
       }
     }
   }
-  
+
+  // Forward the resolved owner to route handlers and server components (overwrites any client value).
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(OWNER_HEADER, ownerId);
+  requestHeaders.set(OWNER_VIA_HEADER, resolution.via);
+
+  let response: NextResponse;
+  if (pathname !== request.nextUrl.pathname) {
+    const url = request.nextUrl.clone();
+    url.pathname = pathname;
+    response = NextResponse.rewrite(url, { request: { headers: requestHeaders } });
+  } else {
+    response = NextResponse.next({ request: { headers: requestHeaders } });
+  }
+
   // Add security headers
-  const response = NextResponse.next();
-  response.headers.set('X-Content-Type-Options', 'nosniff');
-  response.headers.set('X-Frame-Options', 'DENY');
-  response.headers.set('X-XSS-Protection', '1; mode=block');
-  response.headers.set('Referrer-Policy', 'strict-origin-when-cross-origin');
-  
-  return response;
+  if (requiresAuth || isAdminLoginApi || pathname === '/login') {
+    response.headers.set('X-Content-Type-Options', 'nosniff');
+    response.headers.set('X-Frame-Options', 'DENY');
+    response.headers.set('X-XSS-Protection', '1; mode=block');
+    response.headers.set('Referrer-Policy', 'strict-origin-when-cross-origin');
+  }
+
+  return withOwnerCookie(response, resolution);
 }
 
 export const config = {
-  matcher: [
-    '/admin/:path*',
-    '/api/admin/:path*',
-    '/login',
-  ],
+  // Every route needs an owner; skip static assets.
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)'],
 };
@@ -18,6 +18,7 @@ export interface Project {
   is_featured: boolean;
   display_order: number;
   status: 'draft' | 'published' | 'archived';
+  scheduled_at?: string | null; // draft goes live at this time (see lib/publishing)
   created_at: string;
   updated_at: string;
   deleted_at: string | null;
@@ -27,14 +28,64 @@ export interface Skill {
   id: string;
   owner_id: string;
   name: string;
-  category: 'language' | 'framework' | 'tool' | 'platform' | 'methodology' | 'other';
+  category: string; // see KNOWN_SKILL_CATEGORIES; the taxonomy may add more
   proficiency: number; // 1-5
   years_of_experience: number | null;
   icon: string | null;
   is_primary: boolean;
+  // Computed by the skill evidence job; null until it has run (or when nothing supports the skill).
+  computed_proficiency?: number | null;
+  computed_years?: number | null;
+  evidence_count?: number | null;
+  evidence_computed_at?: string | null;
   created_at: string;
 }
 
+export interface SkillEvidence {
+  id: string;
+  skill_id: string;
+  source_type: string;
+  source_id: string | null;
+  source_title: string;
+  detail: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  created_at: string;
+}
+
+export type RevisionEntityType = 'project' | 'article' | 'experience' | 'story' | 'skill';
+export type RevisionAction = 'create' | 'update' | 'delete' | 'restore';
+
+export interface Revision {
+  id: string;
+  entity_type: RevisionEntityType;
+  entity_id: string;
+  action: RevisionAction;
+  snapshot: Record<string, unknown>;
+  created_at: string;
+}
+
+export type JobType = 'knowledge_upload' | 'resume_index' | 'rebuild';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+// Background work (see lib/jobs). `payload` is the handler input, `result` its output.
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  payload: Record<string, unknown>;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  progress: number; // 0-100
+  progress_message: string | null;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
 export interface ProjectSkill {
   project_id: string;
   skill_id: string;
@@ -51,6 +102,7 @@ export interface Article {
   cover_image: string | null;
   published_at: string | null;
   status: 'draft' | 'published' | 'archived';
+  scheduled_at?: string | null; // draft goes live at this time (see lib/publishing)
   tags: string[];
   created_at: string;
   updated_at: string;
@@ -106,9 +158,28 @@ export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   sources?: ChunkReference[];
+  // Agent mode: tool calls made while researching this answer (client-side only).
+  tools?: ChatToolActivity[];
   created_at: string;
 }
 
+export interface ChatToolActivity {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  status: 'running' | 'done' | 'error';
+  summary?: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string | null;
+  mode: 'auto' | 'tech' | 'behavior';
+  share_token?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface ChunkReference {
   chunk_id: string;
   source_type: string;
@@ -116,9 +187,44 @@ export interface ChunkReference {
   source_id?: string | null;
   source_slug?: string | null;
   relevance_score: number;
+  // 0..1 score from the reranking stage (lib/rerank); relevance_score keeps the retrieval scale.
+  rerank_score?: number;
   content_preview: string;
 }
 
+// Public site search (/api/search): one hit per source page, grouped by source type.
+export interface SearchResult {
+  source_type: string;
+  source_title: string;
+  source_slug?: string | null;
+  href: string;
+  snippet: string;
+  // [start, end) offsets into `snippet` where query terms occur.
+  highlights: Array<[number, number]>;
+  relevance_score: number;
+}
+
+export interface SearchResultGroup {
+  source_type: string;
+  label: string;
+  results: SearchResult[];
+}
+
+export interface SearchResponse {
+  query: string;
+  total: number;
+  groups: SearchResultGroup[];
+}
+
+// "Related" links on project and article pages, from chunk-embedding similarity.
+export interface RelatedContentItem {
+  source_type: 'project' | 'article' | 'story' | 'experience';
+  source_id: string;
+  title: string;
+  href: string;
+  similarity: number;
+}
+
 export interface JDMatchResult {
   match_score: number;
   score_breakdown?: {
@@ -139,7 +245,64 @@ export interface JDMatchResult {
   summary: string;
   report_markdown?: string;
   parsed_jd?: unknown;
+  requirements?: RequirementEvidence[];
   sources?: ChunkReference[];
+  // Set when the JD was fetched from a posting URL instead of pasted.
+  posting?: JobPostingSummary;
+  jd_text?: string;
+  // Opt-in share link for a summary card (score, role, top skills); see lib/jd-match-share.
+  share_path?: string;
+}
+
+export interface JobPostingSummary {
+  url: string;
+  source: 'greenhouse' | 'lever' | 'ashby' | 'json-ld' | 'html';
+  title: string | null;
+  company: string | null;
+  location: string | null;
+}
+
+// How one JD requirement was (or wasn't) backed: by a skill entry, or by a retrieved passage.
+export interface RequirementEvidence {
+  requirement: string;
+  kind: 'required' | 'preferred';
+  satisfied: boolean;
+  via: 'skill' | 'evidence' | null;
+  // Lexical: name/needle overlap. Semantic: embedding similarity at or above the threshold.
+  method?: 'lexical' | 'semantic';
+  similarity?: number;
+  skill?: string;
+  evidence?: {
+    chunk_id?: string;
+    source_type: string;
+    source_title: string;
+    source_slug?: string | null;
+    snippet: string;
+  };
+}
+
+// Cover letter and resume bullets drafted from a JD match. Every claim cites retrieved passages by id.
+export interface DraftCitation {
+  id: number;
+  source_type: string;
+  source_title: string;
+  source_slug?: string | null;
+  url: string | null;
+  snippet: string;
+}
+
+export interface DraftClaim {
+  text: string;
+  citations: number[];
+}
+
+export interface ApplicationDraft {
+  job_title: string | null;
+  // Paragraphs of sentences; only the opening and closing paragraphs may contain uncited sentences.
+  cover_letter: DraftClaim[][];
+  resume_bullets: DraftClaim[];
+  citations: DraftCitation[];
+  generated_by: 'llm' | 'fallback';
 }
 
 export interface SkillMatch {